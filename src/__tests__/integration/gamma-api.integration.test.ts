@@ -203,4 +203,42 @@ describe('GammaApiClient Integration', () => {
       console.log(`✓ Found market by conditionId: "${conditionId.slice(0, 20)}..."`);
     }, 30000);
   });
+
+  describe('tags and series', () => {
+    it('should list tags and filter events by tag slug', async () => {
+      const tags = await client.getTags({ limit: 20 });
+
+      expect(tags.length).toBeGreaterThan(0);
+      expect(typeof tags[0].id).toBe('string');
+      expect(typeof tags[0].slug).toBe('string');
+
+      const events = await client.getEventsByTag({ slug: 'politics' }, { closed: false, limit: 5 });
+      expect(Array.isArray(events)).toBe(true);
+
+      console.log(`✓ ${tags.length} tags, ${events.length} open politics events`);
+    }, 30000);
+
+    it('should resolve related tags and tag markets by slug', async () => {
+      const related = await client.getRelatedTags({ slug: 'crypto' }, { omitEmpty: true });
+      expect(Array.isArray(related)).toBe(true);
+
+      const markets = await client.getMarketsByTag({ slug: 'crypto' }, { closed: false, liquidityMin: 1000, limit: 5 });
+      for (const market of markets) {
+        expect(market.liquidity).toBeGreaterThanOrEqual(1000);
+      }
+
+      console.log(`✓ ${related.length} tags related to crypto, ${markets.length} liquid crypto markets`);
+    }, 30000);
+
+    it('should list series', async () => {
+      const series = await client.getSeries({ limit: 5 });
+
+      expect(Array.isArray(series)).toBe(true);
+      if (series.length > 0) {
+        expect(typeof series[0].slug).toBe('string');
+      }
+
+      console.log(`✓ Fetched ${series.length} series`);
+    }, 30000);
+  });
 });
@@ -92,6 +92,8 @@ export class MockRateLimiter {
   async execute<T>(_apiType: string, fn: () => Promise<T>): Promise<T> {
     return fn();
   }
+
+  reportResult(): void {}
 }
 
 // ===== Mock Cache =====
@@ -6,11 +6,12 @@ import type {
   CatalystDepthLineResponse,
   CatalystKLineInterval,
 } from './types.js';
+import { withRequestOptions, type RequestOptions } from '../core/request-options.js';
 
 export type CatalystQueryServiceConfig = {
   /** Base URL of the MarketDataWorker (e.g., http://localhost:8787) */
   baseUrl: string;
-  /** Request timeout in milliseconds (default: 10000) */
+  /** Request timeout in milliseconds, unless a call passes its own (default: 10000) */
   timeoutMs?: number;
 };
 
@@ -46,8 +47,8 @@ export class CatalystQueryService {
   /**
    * Check worker health and get tracked markets info
    */
-  async health(): Promise<CatalystHealthResponse> {
-    return this.fetchJson('/v1/health') as Promise<CatalystHealthResponse>;
+  async health(options?: RequestOptions): Promise<CatalystHealthResponse> {
+    return this.fetchJson('/v1/health', options) as Promise<CatalystHealthResponse>;
   }
 
   /**
@@ -65,13 +66,13 @@ export class CatalystQueryService {
     startTimeMs?: number;
     endTimeMs?: number;
     limit?: number;
-  }): Promise<CatalystKlinesResponse> {
+  }, options?: RequestOptions): Promise<CatalystKlinesResponse> {
     const query = new URLSearchParams();
     query.set('interval', params.interval);
     if (params.startTimeMs != null) query.set('startTimeMs', String(params.startTimeMs));
     if (params.endTimeMs != null) query.set('endTimeMs', String(params.endTimeMs));
     if (params.limit != null) query.set('limit', String(params.limit));
-    return this.fetchJson(`/v1/markets/${params.conditionId}/klines?${query.toString()}`) as Promise<CatalystKlinesResponse>;
+    return this.fetchJson(`/v1/markets/${params.conditionId}/klines?${query.toString()}`, options) as Promise<CatalystKlinesResponse>;
   }
 
   /**
@@ -87,13 +88,13 @@ export class CatalystQueryService {
     startTimeMs?: number;
     endTimeMs?: number;
     limit?: number;
-  }): Promise<CatalystTradesResponse> {
+  }, options?: RequestOptions): Promise<CatalystTradesResponse> {
     const query = new URLSearchParams();
     if (params.startTimeMs != null) query.set('startTimeMs', String(params.startTimeMs));
     if (params.endTimeMs != null) query.set('endTimeMs', String(params.endTimeMs));
     if (params.limit != null) query.set('limit', String(params.limit));
     const q = query.toString();
-    return this.fetchJson(`/v1/markets/${params.conditionId}/trades${q ? `?${q}` : ''}`) as Promise<CatalystTradesResponse>;
+    return this.fetchJson(`/v1/markets/${params.conditionId}/trades${q ? `?${q}` : ''}`, options) as Promise<CatalystTradesResponse>;
   }
 
   /**
@@ -111,14 +112,14 @@ export class CatalystQueryService {
     endTimeMs?: number;
     stepMs?: number;
     limit?: number;
-  }): Promise<CatalystOrderbookSnapshotsResponse> {
+  }, options?: RequestOptions): Promise<CatalystOrderbookSnapshotsResponse> {
     const query = new URLSearchParams();
     if (params.startTimeMs != null) query.set('startTimeMs', String(params.startTimeMs));
     if (params.endTimeMs != null) query.set('endTimeMs', String(params.endTimeMs));
     if (params.stepMs != null) query.set('stepMs', String(params.stepMs));
     if (params.limit != null) query.set('limit', String(params.limit));
     const q = query.toString();
-    return this.fetchJson(`/v1/markets/${params.conditionId}/orderbook-snapshots${q ? `?${q}` : ''}`) as Promise<CatalystOrderbookSnapshotsResponse>;
+    return this.fetchJson(`/v1/markets/${params.conditionId}/orderbook-snapshots${q ? `?${q}` : ''}`, options) as Promise<CatalystOrderbookSnapshotsResponse>;
   }
 
   /**
@@ -136,13 +137,13 @@ export class CatalystQueryService {
     startTimeMs?: number;
     endTimeMs?: number;
     limit?: number;
-  }): Promise<CatalystDepthLineResponse> {
+  }, options?: RequestOptions): Promise<CatalystDepthLineResponse> {
     const query = new URLSearchParams();
     if (params.startTimeMs != null) query.set('startTimeMs', String(params.startTimeMs));
     if (params.endTimeMs != null) query.set('endTimeMs', String(params.endTimeMs));
     if (params.limit != null) query.set('limit', String(params.limit));
     const q = query.toString();
-    return this.fetchJson(`/v1/markets/${params.conditionId}/orderdepth-line${q ? `?${q}` : ''}`) as Promise<CatalystDepthLineResponse>;
+    return this.fetchJson(`/v1/markets/${params.conditionId}/orderdepth-line${q ? `?${q}` : ''}`, options) as Promise<CatalystDepthLineResponse>;
   }
 
   /**
@@ -153,27 +154,23 @@ export class CatalystQueryService {
     startTimeMs?: number;
     endTimeMs?: number;
     limit?: number;
-  }): Promise<CatalystDepthLineResponse> {
-    return this.getDepthLine(params);
+  }, options?: RequestOptions): Promise<CatalystDepthLineResponse> {
+    return this.getDepthLine(params, options);
   }
 
-  private async fetchJson(path: string): Promise<unknown> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
-
-    try {
+  private async fetchJson(path: string, options: RequestOptions = {}): Promise<unknown> {
+    const { signal, timeoutMs = this.timeoutMs } = options;
+    return withRequestOptions({ signal, timeoutMs }, async (callSignal) => {
       const res = await fetch(`${this.baseUrl}${path}`, {
         method: 'GET',
-        signal: controller.signal,
+        signal: callSignal,
       });
       if (!res.ok) {
         const text = await res.text().catch(() => '');
         throw new Error(`CatalystQueryService HTTP ${res.status}: ${text || res.statusText}`);
       }
       return await res.json();
-    } finally {
-      clearTimeout(timeout);
-    }
+    });
   }
 }
 
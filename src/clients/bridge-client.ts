@@ -169,6 +169,8 @@ export interface BridgeConfig {
   baseUrl?: string;
   /** Request timeout in ms (default: 30000) */
   timeout?: number;
+  /** Receives an `http.request` span and latency per request */
+  telemetry?: Telemetry;
 }
 
 // ===== Constants =====
@@ -225,10 +227,12 @@ export const BRIDGE_TOKENS = {
 export class BridgeClient {
   private baseUrl: string;
   private timeout: number;
+  private telemetry: Telemetry;
 
   constructor(config: BridgeConfig = {}) {
     this.baseUrl = config.baseUrl || BRIDGE_API_BASE;
     this.timeout = config.timeout || 30000;
+    this.telemetry = config.telemetry ?? noopTelemetry;
   }
 
   /**
@@ -672,6 +676,11 @@ export class BridgeClient {
 
   private async fetch(path: string, options: RequestInit = {}): Promise<unknown> {
     const url = `${this.baseUrl}${path}`;
+    // Bridge requests don't go through the RateLimiter, so report them here
+    const endpoint = path.split('/')[1];
+    const span = this.telemetry.startSpan('http.request', { api: 'bridge', endpoint });
+    const start = performance.now();
+    let outcome = 'error';
 
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
@@ -691,9 +700,20 @@ export class BridgeClient {
         throw new Error(`Bridge API error (${response.status}): ${errorText}`);
       }
 
-      return await response.json();
+      const body = await response.json();
+      outcome = 'ok';
+      span.end();
+      return body;
+    } catch (error) {
+      span.end(error);
+      throw error;
     } finally {
       clearTimeout(timeoutId);
+      this.telemetry.recordHistogram(TELEMETRY_METRICS.HTTP_REQUEST_DURATION, (performance.now() - start) / 1000, {
+        api: 'bridge',
+        endpoint,
+        outcome,
+      });
     }
   }
 }
@@ -701,6 +721,7 @@ export class BridgeClient {
 // ===== Deposit Execution =====
 
 import { ethers } from 'ethers';
+import { noopTelemetry, traceTransaction, TELEMETRY_METRICS, type Telemetry } from '../core/telemetry.js';
 
 // ERC20 ABI for deposits
 const ERC20_DEPOSIT_ABI = [
@@ -723,6 +744,8 @@ export interface DepositOptions {
   token?: 'NATIVE_USDC' | 'USDC_E';
   /** Gas price multiplier (default: 1.2) */
   gasPriceMultiplier?: number;
+  /** Receives the bridge request and transfer transaction telemetry */
+  telemetry?: Telemetry;
 }
 
 /**
@@ -750,7 +773,7 @@ export async function depositUsdc(
   amount: number,
   options: DepositOptions = {}
 ): Promise<DepositResult> {
-  const { token = 'NATIVE_USDC', gasPriceMultiplier = 1.2 } = options;
+  const { token = 'NATIVE_USDC', gasPriceMultiplier = 1.2, telemetry = noopTelemetry } = options;
 
   // Validate minimum deposit
   if (amount < 2) {
@@ -768,7 +791,7 @@ export async function depositUsdc(
 
   try {
     // Get deposit address
-    const bridge = new BridgeClient();
+    const bridge = new BridgeClient({ telemetry });
     const depositAddr = await bridge.getEvmDepositAddress(signer.address);
 
     // Create token contract
@@ -795,9 +818,9 @@ export async function depositUsdc(
       : undefined;
 
     // Execute transfer
-    const tx = await tokenContract.transfer(depositAddr, amountWei, {
-      gasPrice,
-    });
+    const tx = await traceTransaction(telemetry, 'transfer', { service: 'bridge' }, (): Promise<ethers.ContractTransaction> =>
+      tokenContract.transfer(depositAddr, amountWei, { gasPrice })
+    );
 
     const receipt = await tx.wait();
 
@@ -836,6 +859,8 @@ export interface SwapAndDepositOptions {
   slippage?: number;
   /** Gas price multiplier (default: 1.2) */
   gasPriceMultiplier?: number;
+  /** Receives the bridge request, swap and transfer transaction telemetry */
+  telemetry?: Telemetry;
 }
 
 export interface SwapAndDepositResult {
@@ -889,13 +914,13 @@ export async function swapAndDeposit(
   amount: string,
   options: SwapAndDepositOptions = {}
 ): Promise<SwapAndDepositResult> {
-  const { slippage = 0.5, gasPriceMultiplier = 1.2 } = options;
+  const { slippage = 0.5, gasPriceMultiplier = 1.2, telemetry } = options;
 
   const upperToken = token.toUpperCase();
 
   try {
-    const swapService = new SwapService(signer);
-    const bridge = new BridgeClient();
+    const swapService = new SwapService(signer, { telemetry });
+    const bridge = new BridgeClient({ telemetry });
 
     // Get deposit address
     const depositAddr = await bridge.getEvmDepositAddress(signer.address);
@@ -905,6 +930,7 @@ export async function swapAndDeposit(
       const result = await depositUsdc(signer, parseFloat(amount), {
         token: 'NATIVE_USDC',
         gasPriceMultiplier,
+        telemetry,
       });
 
       return {
@@ -922,6 +948,7 @@ export async function swapAndDeposit(
       const result = await depositUsdc(signer, parseFloat(amount), {
         token: 'USDC_E',
         gasPriceMultiplier,
+        telemetry,
       });
 
       return {
@@ -972,6 +999,7 @@ export async function swapAndDeposit(
     const depositResult = await depositUsdc(signer, parseFloat(usdcBalance), {
       token: 'NATIVE_USDC',
       gasPriceMultiplier,
+      telemetry,
     });
 
     return {
@@ -0,0 +1,58 @@
+/**
+ * CTF Client Unit Tests
+ *
+ * Focus: pure helpers and Safe transaction wrapping (no RPC). On-chain paths are covered by
+ * src/__tests__/integration/ctf-client.integration.test.ts.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { BigNumber, Wallet, ethers } from 'ethers';
+import { CTFClient, CTF_CONTRACT, calculateNegRiskIndexSet } from './ctf-client.js';
+
+const MARKET_ID = '0x' + 'ab'.repeat(31) + '00';
+const question = (index: number) => '0x' + 'ab'.repeat(31) + index.toString(16).padStart(2, '0');
+
+describe('calculateNegRiskIndexSet', () => {
+  it('should set one bit per question index', () => {
+    expect(calculateNegRiskIndexSet(MARKET_ID, [question(0)]).toNumber()).toBe(0b1);
+    expect(calculateNegRiskIndexSet(MARKET_ID, [question(0), question(2), question(5)]).toNumber()).toBe(0b100101);
+  });
+
+  it('should support high question indexes', () => {
+    expect(calculateNegRiskIndexSet(MARKET_ID, [question(200)]).eq(BigNumber.from(2).pow(200))).toBe(true);
+  });
+
+  it('should reject questions from another market, duplicates and empty lists', () => {
+    const otherMarketQuestion = '0x' + 'cd'.repeat(31) + '01';
+    expect(() => calculateNegRiskIndexSet(MARKET_ID, [otherMarketQuestion])).toThrow('does not belong');
+    expect(() => calculateNegRiskIndexSet(MARKET_ID, [question(1), question(1)])).toThrow('Duplicate');
+    expect(() => calculateNegRiskIndexSet(MARKET_ID, [])).toThrow();
+  });
+});
+
+describe('CTFClient - Safe', () => {
+  const owner = Wallet.createRandom();
+  const safeAddress = ethers.utils.getAddress('0x' + '5a'.repeat(20));
+
+  it('should read balances from the Safe and wrap calls in execTransaction', async () => {
+    const ctf = new CTFClient({ privateKey: owner.privateKey, safeAddress });
+    expect(ctf.getAddress()).toBe(owner.address);
+    expect(ctf.getFundsAddress()).toBe(safeAddress);
+
+    const execTransaction = vi.fn().mockResolvedValue({ wait: async () => ({}) });
+    (ctf as any).safeContract = { address: safeAddress, execTransaction };
+    (ctf as any).getGasOptions = async () => ({});
+
+    const ctfContract = (ctf as any).ctfContract;
+    await (ctf as any).sendTransaction(ctfContract, 'setApprovalForAll', [owner.address, true]);
+
+    const [to, value, data, operation, , , , , , signature] = execTransaction.mock.calls[0];
+    expect(to).toBe(CTF_CONTRACT);
+    expect([value, operation]).toEqual([0, 0]);
+    expect([...ctfContract.interface.decodeFunctionData('setApprovalForAll', data)]).toEqual([owner.address, true]);
+    // Pre-validated signature: r = owner, s = 0, v = 1
+    expect(signature).toBe(
+      ethers.utils.hexZeroPad(owner.address, 32).toLowerCase() + '00'.repeat(32) + '01'
+    );
+  });
+});
@@ -5,6 +5,15 @@
  * - Split: USDC → YES + NO token pair
  * - Merge: YES + NO → USDC
  * - Redeem: Winning tokens → USDC (after market resolution)
+ * - Convert: NO tokens of a neg-risk event → USDC + YES of the other outcomes
+ *
+ * Neg-risk markets (multi-outcome events) hold their positions through the
+ * NegRiskAdapter, so split/merge/redeem on them must go through the adapter:
+ * pass `{ negRisk: true }` to split(), mergeByTokenIds() and redeemByTokenIds().
+ *
+ * Funds held in a Polymarket Gnosis Safe: set `safeAddress`. Balances are then
+ * read from the Safe and every transaction is sent through the Safe's
+ * execTransaction, signed by the private key as its (1-of-1) owner.
  *
  * ⚠️ CRITICAL: Polymarket CTF uses USDC.e (bridged), NOT native USDC!
  *
@@ -24,6 +33,7 @@
  */
 
 import { ethers, Contract, Wallet, BigNumber } from 'ethers';
+import { noopTelemetry, traceTransaction, type Telemetry } from '../core/telemetry.js';
 
 // ===== Contract Addresses (Polygon Mainnet) =====
 
@@ -64,6 +74,27 @@ const CTF_ABI = [
   // Check if condition is resolved
   'function payoutNumerators(bytes32 conditionId, uint256 outcomeIndex) view returns (uint256)',
   'function payoutDenominator(bytes32 conditionId) view returns (uint256)',
+  // ERC1155 operator approval (needed by the NegRiskAdapter)
+  'function isApprovedForAll(address account, address operator) view returns (bool)',
+  'function setApprovalForAll(address operator, bool approved)',
+];
+
+const NEG_RISK_ADAPTER_ABI = [
+  // Split: USDC → YES + NO of one neg-risk market
+  'function splitPosition(bytes32 conditionId, uint256 amount) external',
+  // Merge: YES + NO → USDC
+  'function mergePositions(bytes32 conditionId, uint256 amount) external',
+  // Redeem: amounts = [YES, NO] to redeem
+  'function redeemPositions(bytes32 conditionId, uint256[] amounts) external',
+  // Convert: NO of the questions in indexSet → USDC + YES of the other questions
+  'function convertPositions(bytes32 marketId, uint256 indexSet, uint256 amount) external',
+  'function getPositionId(bytes32 questionId, bool outcome) view returns (uint256)',
+  'function getQuestionCount(bytes32 marketId) view returns (uint256)',
+  'function getFeeBips(bytes32 marketId) view returns (uint256)',
+];
+
+const SAFE_ABI = [
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)',
 ];
 
 const ERC20_ABI = [
@@ -88,6 +119,13 @@ export interface CTFConfig {
   confirmations?: number;
   /** Transaction timeout in ms (default: 60000) */
   txTimeout?: number;
+  /**
+   * Gnosis Safe holding the funds (Polymarket browser-wallet accounts).
+   * The private key must be the Safe's sole owner.
+   */
+  safeAddress?: string;
+  /** Receives a span and an outcome counter per transaction */
+  telemetry?: Telemetry;
 }
 
 export interface GasEstimate {
@@ -165,6 +203,31 @@ export interface TokenIds {
   noTokenId: string;
 }
 
+export interface CtfOperationOptions {
+  /** Route through the NegRiskAdapter (markets of multi-outcome neg-risk events) */
+  negRisk?: boolean;
+}
+
+export interface ConvertResult {
+  success: boolean;
+  txHash: string;
+  /** Neg-risk market ID */
+  marketId: string;
+  /** Bitmask of converted question indexes */
+  indexSet: string;
+  /** NO tokens converted per question */
+  amount: string;
+  /** Question IDs whose NO tokens were converted */
+  convertedQuestionIds: string[];
+  /** USDC received: (converted questions - 1) × amount after fees */
+  usdcReceived: string;
+  /** YES tokens received for each of the other questions */
+  yesTokensPerQuestion: string;
+  /** Adapter fee in basis points */
+  feeBips: number;
+  gasUsed?: string;
+}
+
 export interface MarketResolution {
   conditionId: string;
   isResolved: boolean;
@@ -183,10 +246,13 @@ export class CTFClient {
   private provider: ethers.providers.JsonRpcProvider;
   private wallet: Wallet;
   private ctfContract: Contract;
+  private negRiskAdapter: Contract;
   private usdcContract: Contract;
+  private safeContract: Contract | null;
   private gasPriceMultiplier: number;
   private confirmations: number;
   private txTimeout: number;
+  private telemetry: Telemetry;
   private cachedMaticPrice: number = DEFAULT_MATIC_PRICE;
   private maticPriceLastUpdated: number = 0;
 
@@ -195,10 +261,15 @@ export class CTFClient {
     this.provider = new ethers.providers.JsonRpcProvider(rpcUrl);
     this.wallet = new Wallet(config.privateKey, this.provider);
     this.ctfContract = new Contract(CTF_CONTRACT, CTF_ABI, this.wallet);
+    this.negRiskAdapter = new Contract(NEG_RISK_ADAPTER, NEG_RISK_ADAPTER_ABI, this.wallet);
     this.usdcContract = new Contract(USDC_CONTRACT, ERC20_ABI, this.wallet);
+    this.safeContract = config.safeAddress
+      ? new Contract(ethers.utils.getAddress(config.safeAddress), SAFE_ABI, this.wallet)
+      : null;
     this.gasPriceMultiplier = config.gasPriceMultiplier || 1.2;
     this.confirmations = config.confirmations || 1;
     this.txTimeout = config.txTimeout || 60000;
+    this.telemetry = config.telemetry ?? noopTelemetry;
   }
 
   /**
@@ -208,6 +279,17 @@ export class CTFClient {
     return this.wallet.address;
   }
 
+  /**
+   * Get the address holding USDC.e and CTF tokens (the Safe if configured)
+   */
+  getFundsAddress(): string {
+    return this.fundsAddress;
+  }
+
+  private get fundsAddress(): string {
+    return this.safeContract?.address ?? this.wallet.address;
+  }
+
   /**
    * Get USDC.e (bridged USDC) balance - the token used by Polymarket CTF
    *
@@ -219,7 +301,7 @@ export class CTFClient {
    * - Use SwapService.swap('USDC', 'USDC_E', amount) to convert
    */
   async getUsdcBalance(): Promise<string> {
-    const balance = await this.usdcContract.balanceOf(this.wallet.address);
+    const balance = await this.usdcContract.balanceOf(this.fundsAddress);
     return ethers.utils.formatUnits(balance, USDC_DECIMALS);
   }
 
@@ -230,7 +312,7 @@ export class CTFClient {
    */
   async getNativeUsdcBalance(): Promise<string> {
     const nativeUsdcContract = new Contract(NATIVE_USDC_CONTRACT, ERC20_ABI, this.provider);
-    const balance = await nativeUsdcContract.balanceOf(this.wallet.address);
+    const balance = await nativeUsdcContract.balanceOf(this.fundsAddress);
     return ethers.utils.formatUnits(balance, USDC_DECIMALS);
   }
 
@@ -308,6 +390,7 @@ export class CTFClient {
    *
    * @param conditionId - Market condition ID
    * @param amount - USDC amount (e.g., "100" for 100 USDC)
+   * @param options - `{ negRisk: true }` for markets of a neg-risk event
    * @returns SplitResult with transaction details
    *
    * @example
@@ -317,36 +400,37 @@ export class CTFClient {
    * console.log(`TX: ${result.txHash}`);
    * ```
    */
-  async split(conditionId: string, amount: string): Promise<SplitResult> {
+  async split(conditionId: string, amount: string, options: CtfOperationOptions = {}): Promise<SplitResult> {
     const amountWei = ethers.utils.parseUnits(amount, USDC_DECIMALS);
+    const spender = options.negRisk ? NEG_RISK_ADAPTER : CTF_CONTRACT;
 
     // 1. Check USDC balance
-    const balance = await this.usdcContract.balanceOf(this.wallet.address);
+    const balance = await this.usdcContract.balanceOf(this.fundsAddress);
     if (balance.lt(amountWei)) {
       throw new Error(`Insufficient USDC balance. Have: ${ethers.utils.formatUnits(balance, USDC_DECIMALS)}, Need: ${amount}`);
     }
 
     // 2. Check and approve USDC if needed
-    const allowance = await this.usdcContract.allowance(this.wallet.address, CTF_CONTRACT);
+    const allowance = await this.usdcContract.allowance(this.fundsAddress, spender);
     if (allowance.lt(amountWei)) {
-      const approveTx = await this.usdcContract.approve(
-        CTF_CONTRACT,
+      const approveTx = await this.sendTransaction(this.usdcContract, 'approve', [
+        spender,
         ethers.constants.MaxUint256,
-        await this.getGasOptions()
-      );
+      ]);
       await approveTx.wait();
     }
 
     // 3. Execute split
     // Partition [1, 2] represents [YES, NO] outcomes
-    const tx = await this.ctfContract.splitPosition(
-      USDC_CONTRACT,
-      ethers.constants.HashZero, // parentCollectionId = 0 for Polymarket
-      conditionId,
-      [1, 2], // partition for YES/NO
-      amountWei,
-      await this.getGasOptions()
-    );
+    const tx = options.negRisk
+      ? await this.sendTransaction(this.negRiskAdapter, 'splitPosition', [conditionId, amountWei])
+      : await this.sendTransaction(this.ctfContract, 'splitPosition', [
+          USDC_CONTRACT,
+          ethers.constants.HashZero, // parentCollectionId = 0 for Polymarket
+          conditionId,
+          [1, 2], // partition for YES/NO
+          amountWei,
+        ]);
 
     const receipt = await tx.wait();
 
@@ -389,14 +473,13 @@ export class CTFClient {
     }
 
     // Execute merge
-    const tx = await this.ctfContract.mergePositions(
+    const tx = await this.sendTransaction(this.ctfContract, 'mergePositions', [
       USDC_CONTRACT,
       ethers.constants.HashZero,
       conditionId,
       [1, 2],
       amountWei,
-      await this.getGasOptions()
-    );
+    ]);
 
     const receipt = await tx.wait();
 
@@ -419,9 +502,15 @@ export class CTFClient {
    * @param conditionId - Market condition ID
    * @param tokenIds - Token IDs from CLOB API
    * @param amount - Amount of tokens to merge
+   * @param options - `{ negRisk: true }` for markets of a neg-risk event
    * @returns MergeResult with transaction details
    */
-  async mergeByTokenIds(conditionId: string, tokenIds: TokenIds, amount: string): Promise<MergeResult> {
+  async mergeByTokenIds(
+    conditionId: string,
+    tokenIds: TokenIds,
+    amount: string,
+    options: CtfOperationOptions = {}
+  ): Promise<MergeResult> {
     const amountWei = ethers.utils.parseUnits(amount, USDC_DECIMALS);
 
     // Check token balances using the provided token IDs
@@ -436,14 +525,19 @@ export class CTFClient {
     }
 
     // Execute merge
-    const tx = await this.ctfContract.mergePositions(
-      USDC_CONTRACT,
-      ethers.constants.HashZero,
-      conditionId,
-      [1, 2],
-      amountWei,
-      await this.getGasOptions()
-    );
+    let tx;
+    if (options.negRisk) {
+      await this.ensureNegRiskAdapterApproved();
+      tx = await this.sendTransaction(this.negRiskAdapter, 'mergePositions', [conditionId, amountWei]);
+    } else {
+      tx = await this.sendTransaction(this.ctfContract, 'mergePositions', [
+        USDC_CONTRACT,
+        ethers.constants.HashZero,
+        conditionId,
+        [1, 2],
+        amountWei,
+      ]);
+    }
 
     const receipt = await tx.wait();
 
@@ -509,13 +603,12 @@ export class CTFClient {
     // indexSets: [1] for YES, [2] for NO
     const indexSets = winningOutcome === 'YES' ? [1] : [2];
 
-    const tx = await this.ctfContract.redeemPositions(
+    const tx = await this.sendTransaction(this.ctfContract, 'redeemPositions', [
       USDC_CONTRACT,
       ethers.constants.HashZero,
       conditionId,
       indexSets,
-      await this.getGasOptions()
-    );
+    ]);
 
     const receipt = await tx.wait();
 
@@ -548,6 +641,7 @@ export class CTFClient {
    * @param conditionId - The condition ID of the market
    * @param tokenIds - The Polymarket token IDs for YES and NO outcomes (from CLOB API)
    * @param outcome - Optional: which outcome to redeem ('YES' or 'NO'). Auto-detects if not provided.
+   * @param options - `{ negRisk: true }` for markets of a neg-risk event
    * @returns RedeemResult with transaction details
    *
    * @example
@@ -567,7 +661,8 @@ export class CTFClient {
   async redeemByTokenIds(
     conditionId: string,
     tokenIds: TokenIds,
-    outcome?: string
+    outcome?: string,
+    options: CtfOperationOptions = {}
   ): Promise<RedeemResult> {
     // Check resolution status
     const resolution = await this.getMarketResolution(conditionId);
@@ -589,16 +684,23 @@ export class CTFClient {
       throw new Error(`No ${winningOutcome} tokens to redeem`);
     }
 
-    // indexSets: [1] for YES, [2] for NO
-    const indexSets = winningOutcome === 'YES' ? [1] : [2];
-
-    const tx = await this.ctfContract.redeemPositions(
-      USDC_CONTRACT,
-      ethers.constants.HashZero,
-      conditionId,
-      indexSets,
-      await this.getGasOptions()
-    );
+    let tx;
+    if (options.negRisk) {
+      // The adapter takes explicit [YES, NO] amounts instead of index sets
+      const tokenAmount = ethers.utils.parseUnits(tokenBalance, USDC_DECIMALS);
+      const amounts = winningOutcome === 'YES' ? [tokenAmount, 0] : [0, tokenAmount];
+      await this.ensureNegRiskAdapterApproved();
+      tx = await this.sendTransaction(this.negRiskAdapter, 'redeemPositions', [conditionId, amounts]);
+    } else {
+      // indexSets: [1] for YES, [2] for NO
+      const indexSets = winningOutcome === 'YES' ? [1] : [2];
+      tx = await this.sendTransaction(this.ctfContract, 'redeemPositions', [
+        USDC_CONTRACT,
+        ethers.constants.HashZero,
+        conditionId,
+        indexSets,
+      ]);
+    }
 
     const receipt = await tx.wait();
 
@@ -612,6 +714,74 @@ export class CTFClient {
     };
   }
 
+  /**
+   * Convert NO tokens of a neg-risk event into USDC + YES tokens of the other outcomes
+   *
+   * In a neg-risk event exactly one question resolves YES, so holding NO on
+   * k questions is worth the same as (k - 1) USDC plus YES on every other
+   * question. Converting frees that capital instead of waiting for resolution.
+   * The adapter may charge a fee (getFeeBips) on the converted amount.
+   *
+   * @param marketId - Neg-risk market ID (Gamma `negRiskMarketID`)
+   * @param questionIds - Question IDs (Gamma `questionID`) whose NO tokens to convert
+   * @param amount - NO tokens to convert per question (e.g., "100")
+   * @returns ConvertResult with transaction details
+   *
+   * @example
+   * ```typescript
+   * // Hold 100 NO on candidates A and B of a 5-candidate event
+   * const result = await ctf.convertPositions(negRiskMarketId, [questionIdA, questionIdB], '100');
+   * // → ~100 USDC + ~100 YES on each of C, D, E
+   * console.log(`Received ${result.usdcReceived} USDC`);
+   * ```
+   */
+  async convertPositions(marketId: string, questionIds: string[], amount: string): Promise<ConvertResult> {
+    const amountWei = ethers.utils.parseUnits(amount, USDC_DECIMALS);
+    const indexSet = calculateNegRiskIndexSet(marketId, questionIds);
+
+    const [questionCount, feeBips] = await Promise.all([
+      this.negRiskAdapter.getQuestionCount(marketId),
+      this.negRiskAdapter.getFeeBips(marketId),
+    ]);
+
+    // Check NO balances of every converted question
+    for (const questionId of questionIds) {
+      const noPositionId = await this.negRiskAdapter.getPositionId(questionId, false);
+      const balance = await this.ctfContract.balanceOf(this.fundsAddress, noPositionId);
+      if (balance.lt(amountWei)) {
+        throw new Error(
+          `Insufficient NO balance for question ${questionId}. Have: ${ethers.utils.formatUnits(balance, USDC_DECIMALS)}, Need: ${amount}`
+        );
+      }
+    }
+
+    await this.ensureNegRiskAdapterApproved();
+
+    const tx = await this.sendTransaction(this.negRiskAdapter, 'convertPositions', [
+      marketId,
+      indexSet,
+      amountWei,
+    ]);
+    const receipt = await tx.wait();
+
+    const fee = amountWei.mul(feeBips).div(10_000);
+    const amountOut = amountWei.sub(fee);
+    const otherQuestions = questionCount.toNumber() - questionIds.length;
+
+    return {
+      success: true,
+      txHash: receipt.transactionHash,
+      marketId,
+      indexSet: indexSet.toString(),
+      amount,
+      convertedQuestionIds: questionIds,
+      usdcReceived: ethers.utils.formatUnits(amountOut.mul(questionIds.length - 1), USDC_DECIMALS),
+      yesTokensPerQuestion: otherQuestions > 0 ? ethers.utils.formatUnits(amountOut, USDC_DECIMALS) : '0.0',
+      feeBips: feeBips.toNumber(),
+      gasUsed: receipt.gasUsed.toString(),
+    };
+  }
+
   /**
    * Get token balances for a market using calculated position IDs
    *
@@ -627,8 +797,8 @@ export class CTFClient {
     const noPositionId = this.calculatePositionId(conditionId, 2);
 
     const [yesBalance, noBalance] = await Promise.all([
-      this.ctfContract.balanceOf(this.wallet.address, yesPositionId),
-      this.ctfContract.balanceOf(this.wallet.address, noPositionId),
+      this.ctfContract.balanceOf(this.fundsAddress, yesPositionId),
+      this.ctfContract.balanceOf(this.fundsAddress, noPositionId),
     ]);
 
     return {
@@ -670,8 +840,8 @@ export class CTFClient {
     tokenIds: TokenIds
   ): Promise<PositionBalance> {
     const [yesBalance, noBalance] = await Promise.all([
-      this.ctfContract.balanceOf(this.wallet.address, tokenIds.yesTokenId),
-      this.ctfContract.balanceOf(this.wallet.address, tokenIds.noTokenId),
+      this.ctfContract.balanceOf(this.fundsAddress, tokenIds.yesTokenId),
+      this.ctfContract.balanceOf(this.fundsAddress, tokenIds.noTokenId),
     ]);
 
     return {
@@ -717,39 +887,61 @@ export class CTFClient {
   /**
    * Estimate gas for split operation
    */
-  async estimateSplitGas(conditionId: string, amount: string): Promise<string> {
+  async estimateSplitGas(conditionId: string, amount: string, options: CtfOperationOptions = {}): Promise<string> {
     const amountWei = ethers.utils.parseUnits(amount, USDC_DECIMALS);
     try {
-      const gas = await this.ctfContract.estimateGas.splitPosition(
-        USDC_CONTRACT,
-        ethers.constants.HashZero,
-        conditionId,
-        [1, 2],
-        amountWei
-      );
+      const gas = options.negRisk
+        ? await this.negRiskAdapter.estimateGas.splitPosition(conditionId, amountWei)
+        : await this.ctfContract.estimateGas.splitPosition(
+            USDC_CONTRACT,
+            ethers.constants.HashZero,
+            conditionId,
+            [1, 2],
+            amountWei
+          );
       return gas.toString();
     } catch {
       // Default estimate if call fails (e.g., insufficient balance)
-      return '250000';
+      return options.negRisk ? '350000' : '250000';
     }
   }
 
   /**
    * Estimate gas for merge operation
    */
-  async estimateMergeGas(conditionId: string, amount: string): Promise<string> {
+  async estimateMergeGas(conditionId: string, amount: string, options: CtfOperationOptions = {}): Promise<string> {
     const amountWei = ethers.utils.parseUnits(amount, USDC_DECIMALS);
     try {
-      const gas = await this.ctfContract.estimateGas.mergePositions(
-        USDC_CONTRACT,
-        ethers.constants.HashZero,
-        conditionId,
-        [1, 2],
+      const gas = options.negRisk
+        ? await this.negRiskAdapter.estimateGas.mergePositions(conditionId, amountWei)
+        : await this.ctfContract.estimateGas.mergePositions(
+            USDC_CONTRACT,
+            ethers.constants.HashZero,
+            conditionId,
+            [1, 2],
+            amountWei
+          );
+      return gas.toString();
+    } catch {
+      return options.negRisk ? '300000' : '200000';
+    }
+  }
+
+  /**
+   * Estimate gas for a neg-risk convert operation
+   */
+  async estimateConvertGas(marketId: string, questionIds: string[], amount: string): Promise<string> {
+    const amountWei = ethers.utils.parseUnits(amount, USDC_DECIMALS);
+    try {
+      const gas = await this.negRiskAdapter.estimateGas.convertPositions(
+        marketId,
+        calculateNegRiskIndexSet(marketId, questionIds),
         amountWei
       );
       return gas.toString();
     } catch {
-      return '200000';
+      // Cost grows with the number of questions touched
+      return String(200000 + 100000 * questionIds.length);
     }
   }
 
@@ -758,16 +950,32 @@ export class CTFClient {
   /**
    * Get detailed gas estimate for a split operation
    */
-  async getDetailedSplitGasEstimate(conditionId: string, amount: string): Promise<GasEstimate> {
-    const gasUnits = await this.estimateSplitGas(conditionId, amount);
+  async getDetailedSplitGasEstimate(
+    conditionId: string,
+    amount: string,
+    options: CtfOperationOptions = {}
+  ): Promise<GasEstimate> {
+    const gasUnits = await this.estimateSplitGas(conditionId, amount, options);
     return this.calculateGasCost(gasUnits);
   }
 
   /**
    * Get detailed gas estimate for a merge operation
    */
-  async getDetailedMergeGasEstimate(conditionId: string, amount: string): Promise<GasEstimate> {
-    const gasUnits = await this.estimateMergeGas(conditionId, amount);
+  async getDetailedMergeGasEstimate(
+    conditionId: string,
+    amount: string,
+    options: CtfOperationOptions = {}
+  ): Promise<GasEstimate> {
+    const gasUnits = await this.estimateMergeGas(conditionId, amount, options);
+    return this.calculateGasCost(gasUnits);
+  }
+
+  /**
+   * Get detailed gas estimate for a neg-risk convert operation
+   */
+  async getDetailedConvertGasEstimate(marketId: string, questionIds: string[], amount: string): Promise<GasEstimate> {
+    const gasUnits = await this.estimateConvertGas(marketId, questionIds, amount);
     return this.calculateGasCost(gasUnits);
   }
 
@@ -1134,6 +1342,71 @@ export class CTFClient {
     return positionId;
   }
 
+  /**
+   * Approve the NegRiskAdapter to move the funds address's CTF tokens if needed
+   */
+  private async ensureNegRiskAdapterApproved(): Promise<void> {
+    const approved = await this.ctfContract.isApprovedForAll(this.fundsAddress, NEG_RISK_ADAPTER);
+    if (!approved) {
+      const approveTx = await this.sendTransaction(this.ctfContract, 'setApprovalForAll', [
+        NEG_RISK_ADAPTER,
+        true,
+      ]);
+      await approveTx.wait();
+    }
+  }
+
+  /**
+   * Send a contract call and report it to telemetry (see traceTransaction)
+   */
+  private async sendTransaction(
+    contract: Contract,
+    method: string,
+    args: unknown[]
+  ): Promise<ethers.ContractTransaction> {
+    return traceTransaction(this.telemetry, method, { safe: this.safeContract !== null }, () =>
+      this.submitTransaction(contract, method, args)
+    );
+  }
+
+  /**
+   * Submit a contract call, wrapped in the Safe's execTransaction if configured
+   *
+   * Safe transactions use a pre-validated signature (v = 1): the Safe accepts
+   * it because the sender is the owner, so no EIP-712 signing is needed.
+   * safeTxGas = 0 makes the outer transaction revert if the inner call fails.
+   */
+  private async submitTransaction(
+    contract: Contract,
+    method: string,
+    args: unknown[]
+  ): Promise<ethers.ContractTransaction> {
+    const gasOptions = await this.getGasOptions();
+    if (!this.safeContract) {
+      return contract[method](...args, gasOptions);
+    }
+
+    const data = contract.interface.encodeFunctionData(method, args);
+    const signature = ethers.utils.hexConcat([
+      ethers.utils.hexZeroPad(this.wallet.address, 32),
+      ethers.constants.HashZero,
+      '0x01',
+    ]);
+    return this.safeContract.execTransaction(
+      contract.address,
+      0,
+      data,
+      0, // CALL
+      0,
+      0,
+      0,
+      ethers.constants.AddressZero,
+      ethers.constants.AddressZero,
+      signature,
+      gasOptions
+    );
+  }
+
   /**
    * Get gas options for Polygon network using EIP-1559
    *
@@ -1216,3 +1489,34 @@ export function parseUsdc(amount: string): BigNumber {
 export function formatUsdc(amount: BigNumber): string {
   return ethers.utils.formatUnits(amount, USDC_DECIMALS);
 }
+
+/**
+ * Build the NegRiskAdapter index set for a list of question IDs
+ *
+ * Neg-risk question IDs are the market ID with the question index in the
+ * last byte, so bit `i` of the index set selects question `i`.
+ *
+ * @throws Error if a question ID does not belong to the market or is repeated
+ */
+export function calculateNegRiskIndexSet(marketId: string, questionIds: string[]): BigNumber {
+  if (questionIds.length === 0) {
+    throw new Error('At least one question ID is required');
+  }
+
+  const marketPrefix = ethers.utils.hexZeroPad(marketId, 32).toLowerCase().slice(0, 64);
+  let indexSet = BigNumber.from(0);
+
+  for (const questionId of questionIds) {
+    const hex = ethers.utils.hexZeroPad(questionId, 32).toLowerCase();
+    if (hex.slice(0, 64) !== marketPrefix) {
+      throw new Error(`Question ${questionId} does not belong to neg-risk market ${marketId}`);
+    }
+    const bit = BigNumber.from(1).shl(parseInt(hex.slice(64), 16));
+    if (!indexSet.and(bit).isZero()) {
+      throw new Error(`Duplicate question ID ${questionId}`);
+    }
+    indexSet = indexSet.or(bit);
+  }
+
+  return indexSet;
+}
@@ -7,8 +7,15 @@ import { RateLimiter, ApiType } from '../core/rate-limiter.js';
 import type { UnifiedCache } from '../core/unified-cache.js';
 import { CACHE_TTL } from '../core/unified-cache.js';
 import { PolymarketError } from '../core/errors.js';
+import type { PolymarketEndpoints } from '../core/types.js';
+import type { SchemaValidator } from '../core/schema.js';
+import { withRequestOptions, type RequestOptions } from '../core/request-options.js';
+import { PageIterator, type IterateOptions } from '../core/pagination.js';
+import { DATA_API_SCHEMAS } from '../core/response-schemas.js';
 
 const DATA_API_BASE = 'https://data-api.polymarket.com';
+// The Data API rejects list offsets past this
+const DATA_API_MAX_OFFSET = 10_000;
 
 // ===== Types =====
 
@@ -285,6 +292,8 @@ export interface PositionsParams {
 export interface TradesParams {
   /** Maximum number of results (default: 500) */
   limit?: number;
+  /** Pagination offset (0-10000) */
+  offset?: number;
   /** Market condition ID to filter */
   market?: string;
   /** User wallet address to filter */
@@ -384,10 +393,16 @@ export interface MarketHolder {
 // ===== Client =====
 
 export class DataApiClient {
+  private baseUrl: string;
+
   constructor(
     private rateLimiter: RateLimiter,
-    private cache: UnifiedCache
-  ) {}
+    private cache: UnifiedCache,
+    endpoints?: PolymarketEndpoints,
+    private schemas?: SchemaValidator
+  ) {
+    this.baseUrl = endpoints?.dataApi || DATA_API_BASE;
+  }
 
   // ===== Wallet-related =====
 
@@ -396,6 +411,7 @@ export class DataApiClient {
    *
    * @param address - Wallet address
    * @param params - Query parameters (P0/P1: limit, offset, sortBy, sortDirection, market, etc.)
+   * @param options - Abort signal and timeout
    *
    * @example
    * ```typescript
@@ -413,8 +429,8 @@ export class DataApiClient {
    * const redeemable = await client.getPositions(address, { redeemable: true });
    * ```
    */
-  async getPositions(address: string, params?: PositionsParams): Promise<Position[]> {
-    return this.rateLimiter.execute(ApiType.DATA_API, async () => {
+  async getPositions(address: string, params?: PositionsParams, options?: RequestOptions): Promise<Position[]> {
+    return this.rateLimiter.execute(ApiType.DATA_API, async (signal) => {
       const query = new URLSearchParams({ user: address });
 
       // P0: limit, offset
@@ -437,14 +453,41 @@ export class DataApiClient {
       if (params?.mergeable !== undefined) query.set('mergeable', String(params.mergeable));
       if (params?.title) query.set('title', params.title);
 
-      const response = await fetch(`${DATA_API_BASE}/positions?${query}`);
+      const response = await fetch(`${this.baseUrl}/positions?${query}`, { signal });
       if (!response.ok)
         throw PolymarketError.fromHttpError(
           response.status,
-          await response.json().catch(() => null)
+          await response.json().catch(() => null),
+          response.headers
         );
       const data = (await response.json()) as unknown[];
+      this.schemas?.validate(DATA_API_SCHEMAS.position, data);
       return this.normalizePositions(data);
+    }, undefined, options);
+  }
+
+  /**
+   * Iterate over a wallet's open positions, one page (500 items) per request
+   *
+   * Positions have no timestamp to window on, so iteration stops at the
+   * API's 10,000 offset limit.
+   *
+   * @param address - Wallet address
+   * @param params - Query parameters
+   * @param options - Resume cursor, item limit, and per-request abort signal and timeout
+   */
+  iteratePositions(
+    address: string,
+    params?: Omit<PositionsParams, 'offset' | 'limit'>,
+    options: IterateOptions = {}
+  ): PageIterator<Position> {
+    const { cursor, maxItems, pageSize = 500, ...request } = options;
+    return new PageIterator<Position>({
+      pageSize: Math.min(pageSize, 500),
+      maxOffset: DATA_API_MAX_OFFSET,
+      cursor,
+      maxItems,
+      fetchPage: (offset, limit) => this.getPositions(address, { ...params, offset, limit }, request),
     });
   }
 
@@ -453,6 +496,7 @@ export class DataApiClient {
    *
    * @param address - Wallet address
    * @param params - Query parameters
+   * @param options - Abort signal and timeout
    *
    * @example
    * ```typescript
@@ -467,8 +511,12 @@ export class DataApiClient {
    * });
    * ```
    */
-  async getClosedPositions(address: string, params?: ClosedPositionsParams): Promise<ClosedPosition[]> {
-    return this.rateLimiter.execute(ApiType.DATA_API, async () => {
+  async getClosedPositions(
+    address: string,
+    params?: ClosedPositionsParams,
+    options?: RequestOptions
+  ): Promise<ClosedPosition[]> {
+    return this.rateLimiter.execute(ApiType.DATA_API, async (signal) => {
       const query = new URLSearchParams({ user: address });
 
       // Pagination
@@ -488,14 +536,41 @@ export class DataApiClient {
       if (params?.sortBy) query.set('sortBy', params.sortBy);
       if (params?.sortDirection) query.set('sortDirection', params.sortDirection);
 
-      const response = await fetch(`${DATA_API_BASE}/closed-positions?${query}`);
+      const response = await fetch(`${this.baseUrl}/closed-positions?${query}`, { signal });
       if (!response.ok)
         throw PolymarketError.fromHttpError(
           response.status,
-          await response.json().catch(() => null)
+          await response.json().catch(() => null),
+          response.headers
         );
       const data = (await response.json()) as unknown[];
+      this.schemas?.validate(DATA_API_SCHEMAS.closedPosition, data);
       return this.normalizeClosedPositions(data);
+    }, undefined, options);
+  }
+
+  /**
+   * Iterate over a wallet's closed positions, one page (50 items) per request
+   *
+   * The endpoint has no time filter to window on, so iteration stops at the
+   * same 10,000 offset limit as the other Data API iterators.
+   *
+   * @param address - Wallet address
+   * @param params - Query parameters
+   * @param options - Resume cursor, item limit, and per-request abort signal and timeout
+   */
+  iterateClosedPositions(
+    address: string,
+    params?: Omit<ClosedPositionsParams, 'offset' | 'limit'>,
+    options: IterateOptions = {}
+  ): PageIterator<ClosedPosition> {
+    const { cursor, maxItems, pageSize = 50, ...request } = options;
+    return new PageIterator<ClosedPosition>({
+      pageSize: Math.min(pageSize, 50),
+      maxOffset: DATA_API_MAX_OFFSET,
+      cursor,
+      maxItems,
+      fetchPage: (offset, limit) => this.getClosedPositions(address, { ...params, offset, limit }, request),
     });
   }
 
@@ -504,6 +579,7 @@ export class DataApiClient {
    *
    * @param address - Wallet address
    * @param params - Query parameters (P0: start, end, offset; P1: market, sortBy, etc.)
+   * @param options - Abort signal and timeout
    *
    * @example
    * ```typescript
@@ -521,8 +597,8 @@ export class DataApiClient {
    * const page2 = await client.getActivity(address, { offset: 100, limit: 100 });
    * ```
    */
-  async getActivity(address: string, params?: ActivityParams): Promise<Activity[]> {
-    return this.rateLimiter.execute(ApiType.DATA_API, async () => {
+  async getActivity(address: string, params?: ActivityParams, options?: RequestOptions): Promise<Activity[]> {
+    return this.rateLimiter.execute(ApiType.DATA_API, async (signal) => {
       const query = new URLSearchParams({ user: address });
 
       // Basic params
@@ -547,29 +623,30 @@ export class DataApiClient {
       if (params?.sortBy) query.set('sortBy', params.sortBy);
       if (params?.sortDirection) query.set('sortDirection', params.sortDirection);
 
-      const response = await fetch(`${DATA_API_BASE}/activity?${query}`);
+      const response = await fetch(`${this.baseUrl}/activity?${query}`, { signal });
       if (!response.ok)
         throw PolymarketError.fromHttpError(
           response.status,
-          await response.json().catch(() => null)
+          await response.json().catch(() => null),
+          response.headers
         );
       const data = (await response.json()) as unknown[];
+      this.schemas?.validate(DATA_API_SCHEMAS.activity, data);
       return this.normalizeActivities(data);
-    });
+    }, undefined, options);
   }
 
   /**
    * Get all activity for a wallet (auto-pagination)
    *
-   * **⚠️ IMPORTANT: API Limitation**
-   * The Polymarket API has a hard offset limit of 10,000. This means:
-   * - Maximum ~10,500 records can be retrieved via offset pagination
-   * - For active traders, this may only cover a few hours of history
-   * - Use `start` and `end` params for time-based filtering to access older data
+   * Buffers everything in memory; prefer {@link iterateActivity} for long histories.
+   * Past the API's 10,000 offset limit, pages continue in timestamp windows
+   * (unless sorted by TOKENS or CASH, which stops at the limit).
    *
    * @param address - Wallet address
    * @param params - Query parameters (use `start`/`end` for time filtering)
-   * @param maxItems - Maximum items to fetch (default: 10000, capped by API offset limit)
+   * @param maxItems - Maximum items to fetch (default: 10000)
+   * @param options - Abort signal and timeout, per page request
    *
    * @example
    * ```typescript
@@ -584,29 +661,54 @@ export class DataApiClient {
   async getAllActivity(
     address: string,
     params?: Omit<ActivityParams, 'offset' | 'limit'>,
-    maxItems = 10000
+    maxItems = 10000,
+    options?: RequestOptions
   ): Promise<Activity[]> {
-    const all: Activity[] = [];
-    const limit = 500; // Max allowed by API
-    const API_OFFSET_LIMIT = 10000; // Hard limit from Polymarket API
-    let offset = 0;
-
-    while (all.length < maxItems && offset < API_OFFSET_LIMIT) {
-      const page = await this.getActivity(address, { ...params, limit, offset });
-      all.push(...page);
-      if (page.length < limit) break; // No more data
-      offset += limit;
-    }
-
-    // Warn if we hit the API offset limit
-    if (offset >= API_OFFSET_LIMIT && all.length >= API_OFFSET_LIMIT) {
-      console.warn(
-        `[DataApiClient] Hit API offset limit (${API_OFFSET_LIMIT}). ` +
-          'Use time filtering (start/end params) to access older activity data.'
-      );
-    }
+    return this.iterateActivity(address, params, { ...options, maxItems }).toArray();
+  }
 
-    return all.slice(0, maxItems);
+  /**
+   * Iterate over a wallet's activity, one page (500 items) per request
+   *
+   * Past the API's 10,000 offset limit, pages continue in timestamp windows
+   * (`end`, or `start` for ascending order). Sorting by TOKENS or CASH has
+   * no timestamp order to window on, so iteration stops at the limit.
+   *
+   * @param address - Wallet address
+   * @param params - Query parameters (use `start`/`end` to bound the history)
+   * @param options - Resume cursor, item limit, and per-request abort signal and timeout
+   *
+   * @example
+   * ```typescript
+   * const trades = client.iterateActivity(address, { type: 'TRADE' });
+   * for await (const trade of trades) {
+   *   if (trade.timestamp < cutoffMs) break;
+   *   await store(trade);
+   * }
+   * await saveCursor(trades.cursor); // resume with { cursor }
+   * ```
+   */
+  iterateActivity(
+    address: string,
+    params?: Omit<ActivityParams, 'offset' | 'limit'>,
+    options: IterateOptions = {}
+  ): PageIterator<Activity> {
+    const { cursor, maxItems, pageSize = 500, ...request } = options;
+    const byTimestamp = !params?.sortBy || params.sortBy === 'TIMESTAMP';
+    const ascending = params?.sortDirection === 'ASC';
+
+    return new PageIterator<Activity>({
+      pageSize: Math.min(pageSize, 500),
+      maxOffset: DATA_API_MAX_OFFSET,
+      cursor,
+      maxItems,
+      // Windows are in API seconds; activity timestamps are normalized to ms
+      timestampOf: byTimestamp ? (activity) => Math.floor(activity.timestamp / 1000) : undefined,
+      fetchPage: (offset, limit, boundary) => {
+        const window = boundary === undefined ? {} : ascending ? { start: boundary } : { end: boundary };
+        return this.getActivity(address, { ...params, ...window, offset, limit }, request);
+      },
+    });
   }
 
   // ===== Trade-related =====
@@ -615,6 +717,7 @@ export class DataApiClient {
    * Get recent trades
    *
    * @param params - Query parameters (P2: user, side, takerOnly, etc.)
+   * @param options - Abort signal and timeout
    *
    * @example
    * ```typescript
@@ -628,14 +731,15 @@ export class DataApiClient {
    * const buys = await client.getTrades({ market: conditionId, side: 'BUY' });
    * ```
    */
-  async getTrades(params?: TradesParams): Promise<Trade[]> {
-    return this.rateLimiter.execute(ApiType.DATA_API, async () => {
+  async getTrades(params?: TradesParams, options?: RequestOptions): Promise<Trade[]> {
+    return this.rateLimiter.execute(ApiType.DATA_API, async (signal) => {
       const query = new URLSearchParams();
       // Request more if we need to filter by time (to ensure we get enough after filtering)
       const requestLimit = (params?.startTimestamp || params?.endTimestamp)
         ? Math.min((params?.limit ?? 500) * 3, 1000)
         : (params?.limit ?? 500);
       query.set('limit', String(requestLimit));
+      if (params?.offset !== undefined) query.set('offset', String(params.offset));
 
       // Basic filters
       if (params?.market) query.set('market', params.market);
@@ -649,13 +753,15 @@ export class DataApiClient {
       if (params?.filterType) query.set('filterType', params.filterType);
       if (params?.filterAmount !== undefined) query.set('filterAmount', String(params.filterAmount));
 
-      const response = await fetch(`${DATA_API_BASE}/trades?${query}`);
+      const response = await fetch(`${this.baseUrl}/trades?${query}`, { signal });
       if (!response.ok)
         throw PolymarketError.fromHttpError(
           response.status,
-          await response.json().catch(() => null)
+          await response.json().catch(() => null),
+          response.headers
         );
       const data = (await response.json()) as unknown[];
+      this.schemas?.validate(DATA_API_SCHEMAS.trade, data);
       let trades = this.normalizeTrades(data);
 
       // Apply timestamp filters client-side (API may not support these directly)
@@ -672,28 +778,32 @@ export class DataApiClient {
       }
 
       return trades;
-    });
+    }, undefined, options);
   }
 
   /**
    * Get trades for a specific market
    */
-  async getTradesByMarket(conditionId: string, limit = 500): Promise<Trade[]> {
-    return this.getTrades({ market: conditionId, limit });
+  async getTradesByMarket(conditionId: string, limit = 500, options?: RequestOptions): Promise<Trade[]> {
+    return this.getTrades({ market: conditionId, limit }, options);
   }
 
   /**
    * Get trades for a specific user (P2)
    */
-  async getTradesByUser(address: string, params?: Omit<TradesParams, 'user'>): Promise<Trade[]> {
-    return this.getTrades({ ...params, user: address });
+  async getTradesByUser(
+    address: string,
+    params?: Omit<TradesParams, 'user'>,
+    options?: RequestOptions
+  ): Promise<Trade[]> {
+    return this.getTrades({ ...params, user: address }, options);
   }
 
   /**
    * Get all trades for a market using time-window pagination.
    *
-   * The Data API `/trades` endpoint returns most recent trades first
-   * and does not support offset pagination. This method uses a sliding
+   * The Data API `/trades` endpoint returns most recent trades first and
+   * caps offsets at 10,000 (see `iterateTrades`). This method uses a sliding
    * time window (endTimestamp) to paginate backwards through trade history.
    *
    * Deduplication is performed using transactionHash or a composite key
@@ -701,6 +811,7 @@ export class DataApiClient {
    *
    * @param params - Query parameters (limit is managed internally)
    * @param maxTrades - Maximum trades to fetch (default: 5000)
+   * @param options - Abort signal and timeout, per batch request
    *
    * @example
    * ```typescript
@@ -715,7 +826,8 @@ export class DataApiClient {
    */
   async getAllTrades(
     params: Omit<TradesParams, 'limit'>,
-    maxTrades = 5000
+    maxTrades = 5000,
+    options?: RequestOptions
   ): Promise<Trade[]> {
     const allTrades: Trade[] = [];
     const batchSize = 1000;
@@ -727,7 +839,7 @@ export class DataApiClient {
         ...params,
         limit: batchSize,
         endTimestamp: currentEndTs,
-      });
+      }, options);
       if (batch.length === 0) break;
 
       // Deduplicate using transactionHash or composite key
@@ -751,6 +863,32 @@ export class DataApiClient {
     return allTrades.sort((a, b) => a.timestamp - b.timestamp).slice(0, maxTrades);
   }
 
+  /**
+   * Iterate over trades, newest first, one page (500 items) per request
+   *
+   * `/trades` only filters by time client-side, so there is no server-side
+   * window to continue in: iteration stops at the API's 10,000 offset limit
+   * and sets `truncated` on the iterator when trades may remain. For a
+   * wallet's full fill history use `iterateActivity(address, { type: 'TRADE' })`,
+   * which continues in timestamp windows.
+   *
+   * @param params - Query parameters
+   * @param options - Resume cursor, item limit, and per-request abort signal and timeout
+   */
+  iterateTrades(
+    params?: Omit<TradesParams, 'limit' | 'offset' | 'startTimestamp' | 'endTimestamp'>,
+    options: IterateOptions = {}
+  ): PageIterator<Trade> {
+    const { cursor, maxItems, pageSize = 500, ...request } = options;
+    return new PageIterator<Trade>({
+      pageSize: Math.min(pageSize, 500),
+      maxOffset: DATA_API_MAX_OFFSET,
+      cursor,
+      maxItems,
+      fetchPage: (offset, limit) => this.getTrades({ ...params, offset, limit }, request),
+    });
+  }
+
   // ===== Leaderboard =====
 
   /**
@@ -786,6 +924,7 @@ export class DataApiClient {
    * @param params.category - Category filter (default: 'OVERALL')
    * @param params.limit - Max entries per page (1-50, default: 50)
    * @param params.offset - Pagination offset (0-1000, default: 0)
+   * @param options - Abort signal and timeout
    *
    * @example
    * ```typescript
@@ -799,7 +938,7 @@ export class DataApiClient {
    * const page2 = await client.fetchLeaderboard({ timePeriod: 'WEEK', limit: 20, offset: 20 });
    * ```
    */
-  async fetchLeaderboard(params?: LeaderboardParams): Promise<LeaderboardResult> {
+  async fetchLeaderboard(params?: LeaderboardParams, options?: RequestOptions): Promise<LeaderboardResult> {
     const {
       timePeriod = 'ALL',
       orderBy = 'PNL',
@@ -812,7 +951,9 @@ export class DataApiClient {
 
     const cacheKey = `leaderboard:${timePeriod}:${orderBy}:${category}:${offset}:${limit}`;
 
-    return this.cache.getOrSet(cacheKey, CACHE_TTL.LEADERBOARD, async () => {
+    // Concurrent callers share one fetch, so it runs without any caller's
+    // signal; each caller's abort and timeout only end its own wait
+    return withRequestOptions(options ?? {}, () => this.cache.getOrSet(cacheKey, CACHE_TTL.LEADERBOARD, async () => {
       const query = new URLSearchParams({
         timePeriod,
         orderBy,
@@ -824,17 +965,17 @@ export class DataApiClient {
       if (user) query.set('user', user);
       if (userName) query.set('userName', userName);
 
-      return this.rateLimiter.execute(ApiType.DATA_API, async () => {
-        const response = await fetch(
-          `${DATA_API_BASE}/v1/leaderboard?${query}`
-        );
+      return this.rateLimiter.execute(ApiType.DATA_API, async (signal) => {
+        const response = await fetch(`${this.baseUrl}/v1/leaderboard?${query}`, { signal });
         if (!response.ok)
           throw PolymarketError.fromHttpError(
             response.status,
-            await response.json().catch(() => null)
+            await response.json().catch(() => null),
+            response.headers
           );
 
         const data = (await response.json()) as unknown[];
+        this.schemas?.validate(DATA_API_SCHEMAS.leaderboardEntry, data);
         const entries = this.normalizeLeaderboardEntries(data);
 
         return {
@@ -843,19 +984,19 @@ export class DataApiClient {
           request: { offset, limit },
         };
       });
-    });
+    }));
   }
 
   /**
    * Get all leaderboard entries up to a max count
    */
-  async getAllLeaderboard(maxEntries = 500): Promise<LeaderboardEntry[]> {
+  async getAllLeaderboard(maxEntries = 500, options?: RequestOptions): Promise<LeaderboardEntry[]> {
     const all: LeaderboardEntry[] = [];
     let offset = 0;
     const limit = 50;
 
     while (all.length < maxEntries) {
-      const result = await this.fetchLeaderboard({ limit, offset });
+      const result = await this.fetchLeaderboard({ limit, offset }, options);
       all.push(...result.entries);
       if (!result.hasMore) break;
       offset += limit;
@@ -871,6 +1012,7 @@ export class DataApiClient {
    *
    * @param address - Wallet address
    * @param markets - Optional: filter by specific markets
+   * @param options - Abort signal and timeout
    *
    * @example
    * ```typescript
@@ -878,22 +1020,24 @@ export class DataApiClient {
    * console.log(`Total account value: $${value.toFixed(2)}`);
    * ```
    */
-  async getAccountValue(address: string, markets?: string[]): Promise<AccountValue> {
-    return this.rateLimiter.execute(ApiType.DATA_API, async () => {
+  async getAccountValue(address: string, markets?: string[], options?: RequestOptions): Promise<AccountValue> {
+    return this.rateLimiter.execute(ApiType.DATA_API, async (signal) => {
       const query = new URLSearchParams({ user: address });
       if (markets) {
         markets.forEach((m) => query.append('market', m));
       }
 
-      const response = await fetch(`${DATA_API_BASE}/value?${query}`);
+      const response = await fetch(`${this.baseUrl}/value?${query}`, { signal });
       if (!response.ok)
         throw PolymarketError.fromHttpError(
           response.status,
-          await response.json().catch(() => null)
+          await response.json().catch(() => null),
+          response.headers
         );
 
       // API returns array: [{ user, value }]
       const data = (await response.json()) as Array<{ user: string; value: number }>;
+      this.schemas?.validate(DATA_API_SCHEMAS.accountValue, data);
       if (Array.isArray(data) && data.length > 0) {
         return {
           user: String(data[0].user),
@@ -901,7 +1045,7 @@ export class DataApiClient {
         };
       }
       return { user: address, value: 0 };
-    });
+    }, undefined, options);
   }
 
   /**
@@ -911,6 +1055,7 @@ export class DataApiClient {
    * for large markets.
    *
    * @param params - Query parameters (market is required)
+   * @param options - Abort signal and timeout
    *
    * @example
    * ```typescript
@@ -920,21 +1065,23 @@ export class DataApiClient {
    * });
    * ```
    */
-  async getMarketHolders(params: HoldersParams): Promise<MarketHolder[]> {
-    return this.rateLimiter.execute(ApiType.DATA_API, async () => {
+  async getMarketHolders(params: HoldersParams, options?: RequestOptions): Promise<MarketHolder[]> {
+    return this.rateLimiter.execute(ApiType.DATA_API, async (signal) => {
       const query = new URLSearchParams({ market: params.market });
       if (params.limit !== undefined) query.set('limit', String(params.limit));
 
-      const response = await fetch(`${DATA_API_BASE}/holders?${query}`);
+      const response = await fetch(`${this.baseUrl}/holders?${query}`, { signal });
       if (!response.ok)
         throw PolymarketError.fromHttpError(
           response.status,
-          await response.json().catch(() => null)
+          await response.json().catch(() => null),
+          response.headers
         );
 
       const data = (await response.json()) as unknown[];
+      this.validateHolders(data);
       return this.normalizeHolders(data);
-    });
+    }, undefined, options);
   }
 
   // ===== Data Normalization =====
@@ -1142,6 +1289,19 @@ export class DataApiClient {
     });
   }
 
+  private validateHolders(data: unknown[]): void {
+    if (!this.schemas || !Array.isArray(data)) return;
+    const grouped = data.some((item) => Array.isArray((item as Record<string, unknown>)?.holders));
+    if (!grouped) {
+      this.schemas.validate(DATA_API_SCHEMAS.holder, data);
+      return;
+    }
+    this.schemas.validate(DATA_API_SCHEMAS.holderGroup, data);
+    for (const group of data as Record<string, unknown>[]) {
+      this.schemas.validate(DATA_API_SCHEMAS.holder, group.holders);
+    }
+  }
+
   private normalizeHolders(data: unknown[]): MarketHolder[] {
     if (!Array.isArray(data)) return [];
 
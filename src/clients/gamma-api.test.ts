@@ -0,0 +1,123 @@
+/**
+ * GammaApiClient Unit Tests
+ *
+ * Focus: query strings sent for filters (repeated array keys, ISO dates,
+ * per-endpoint parameter names), tag slug resolution and 404 handling.
+ * Live responses are covered by src/__tests__/integration/gamma-api.integration.test.ts.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GammaApiClient } from './gamma-api.js';
+import { RateLimiter } from '../core/rate-limiter.js';
+import { createUnifiedCache } from '../core/unified-cache.js';
+
+const BASE = 'https://gamma.test';
+
+/**
+ * Stub fetch with one response per path prefix and record the requested URLs
+ */
+function stubFetch(routes: Record<string, { status?: number; body: unknown }>) {
+  const fetchMock = vi.fn(async (url: string) => {
+    const { pathname } = new URL(url);
+    const route = Object.entries(routes).find(([prefix]) => pathname.startsWith(prefix));
+    if (!route) return new Response('null', { status: 404 });
+    const { status = 200, body } = route[1];
+    return new Response(JSON.stringify(body), { status });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  const requested = () => fetchMock.mock.calls.map(([url]) => new URL(url));
+  return { fetchMock, requested };
+}
+
+const createClient = () => new GammaApiClient(new RateLimiter(), createUnifiedCache(), { gammaApi: BASE });
+
+describe('GammaApiClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should repeat array keys and send market liquidity and dates as liquidity_num_* and ISO 8601', async () => {
+    const { requested } = stubFetch({ '/markets': { body: [] } });
+
+    await createClient().getMarkets({
+      conditionIds: ['0xa', '0xb'],
+      clobTokenIds: ['1', '2'],
+      liquidityMin: 1000,
+      volumeMax: 5000,
+      endDateMin: new Date('2025-01-01T00:00:00Z'),
+      startDateMax: '2025-06-30T12:00:00Z',
+    });
+
+    const [url] = requested();
+    expect(url.pathname).toBe('/markets');
+    expect(url.searchParams.getAll('condition_ids')).toEqual(['0xa', '0xb']);
+    expect(url.searchParams.getAll('clob_token_ids')).toEqual(['1', '2']);
+    expect(url.searchParams.get('liquidity_num_min')).toBe('1000');
+    expect(url.searchParams.has('liquidity_min')).toBe(false);
+    expect(url.searchParams.get('volume_num_max')).toBe('5000');
+    expect(url.searchParams.get('end_date_min')).toBe('2025-01-01T00:00:00.000Z');
+    expect(url.searchParams.get('start_date_max')).toBe('2025-06-30T12:00:00Z');
+  });
+
+  it('should send event liquidity as liquidity_min and repeat excluded tag IDs', async () => {
+    const { requested } = stubFetch({ '/events': { body: [] } });
+
+    await createClient().getEvents({
+      liquidityMin: 250,
+      liquidityMax: 900,
+      excludeTagIds: ['10', '20'],
+      tagSlug: 'politics',
+      closed: false,
+      endDateMax: new Date('2025-12-31T23:59:59Z'),
+    });
+
+    const [url] = requested();
+    expect(url.searchParams.get('liquidity_min')).toBe('250');
+    expect(url.searchParams.get('liquidity_max')).toBe('900');
+    expect(url.searchParams.has('liquidity_num_min')).toBe(false);
+    expect(url.searchParams.getAll('exclude_tag_id')).toEqual(['10', '20']);
+    expect(url.searchParams.get('tag_slug')).toBe('politics');
+    expect(url.searchParams.get('closed')).toBe('false');
+    expect(url.searchParams.get('end_date_max')).toBe('2025-12-31T23:59:59.000Z');
+  });
+
+  it('should resolve a tag slug to its ID before listing markets', async () => {
+    const { requested } = stubFetch({
+      '/tags/slug/crypto': { body: { id: '21', label: 'Crypto', slug: 'crypto' } },
+      '/markets': { body: [{ id: '1', conditionId: '0xa', slug: 'btc-100k', question: 'BTC 100k?' }] },
+    });
+
+    const markets = await createClient().getMarketsByTag({ slug: 'crypto' }, { closed: false });
+
+    expect(markets.map((m) => m.conditionId)).toEqual(['0xa']);
+    const [tagUrl, marketsUrl] = requested();
+    expect(tagUrl.pathname).toBe('/tags/slug/crypto');
+    expect(marketsUrl.pathname).toBe('/markets');
+    expect(marketsUrl.searchParams.get('tag_id')).toBe('21');
+    expect(marketsUrl.searchParams.get('closed')).toBe('false');
+  });
+
+  it('should return no markets for an unknown tag slug without listing markets', async () => {
+    const { requested } = stubFetch({ '/tags/slug/': { status: 404, body: { error: 'not found' } } });
+
+    expect(await createClient().getMarketsByTag({ slug: 'nope' })).toEqual([]);
+    expect(requested().map((url) => url.pathname)).toEqual(['/tags/slug/nope']);
+  });
+
+  it('should return null on 404 from getTag and getSeriesById', async () => {
+    stubFetch({
+      '/tags/': { status: 404, body: { error: 'not found' } },
+      '/series/': { status: 404, body: { error: 'not found' } },
+    });
+    const client = createClient();
+
+    expect(await client.getTag({ id: '999' })).toBeNull();
+    expect(await client.getSeriesById('999')).toBeNull();
+  });
+
+  it('should still throw on other errors from getTag', async () => {
+    stubFetch({ '/tags/': { status: 400, body: { error: 'bad request' } } });
+
+    await expect(createClient().getTag({ id: 'x' })).rejects.toThrow();
+  });
+});
@@ -37,6 +37,11 @@
 import { RateLimiter, ApiType } from '../core/rate-limiter.js';
 import type { UnifiedCache } from '../core/unified-cache.js';
 import { PolymarketError } from '../core/errors.js';
+import type { PolymarketEndpoints } from '../core/types.js';
+import type { SchemaValidator } from '../core/schema.js';
+import type { RequestOptions } from '../core/request-options.js';
+import { PageIterator, type IterateOptions } from '../core/pagination.js';
+import { GAMMA_SCHEMAS } from '../core/response-schemas.js';
 
 /** Gamma API base URL */
 const GAMMA_API_BASE = 'https://gamma-api.polymarket.com';
@@ -186,6 +191,33 @@ export interface GammaMarket {
    * Category tags (e.g., ["crypto", "bitcoin", "finance"])
    */
   tags?: string[];
+
+  /**
+   * CLOB token IDs, in the same order as `outcomes`
+   */
+  clobTokenIds?: string[];
+
+  /**
+   * Whether the market belongs to a neg-risk event (mutually exclusive outcomes)
+   */
+  negRisk?: boolean;
+
+  /**
+   * Neg-risk market ID shared by every market in the event
+   */
+  negRiskMarketId?: string;
+
+  /**
+   * Question ID; in neg-risk events the last byte is the question index
+   * used by CTFClient.convertPositions
+   */
+  questionId?: string;
+
+  /**
+   * Outcome label within a grouped event
+   * @example "Donald Trump" in "Presidential Election Winner 2024"
+   */
+  groupItemTitle?: string;
 }
 
 /**
@@ -300,8 +332,73 @@ export interface GammaEvent {
    * URL to event image
    */
   image?: string;
+
+  /**
+   * Whether exactly one market in the event resolves YES (neg-risk)
+   */
+  negRisk?: boolean;
+
+  /**
+   * Neg-risk market ID shared by every market in the event
+   */
+  negRiskMarketId?: string;
+
+  /**
+   * Category tags, when the API includes them
+   */
+  tags?: GammaTag[];
+}
+
+/**
+ * Relationship between two tags from the related-tags endpoints
+ */
+export interface GammaTagRelationship {
+  id: string;
+  tagId: string;
+  relatedTagId: string;
+  /** Ordering among the tag's related tags */
+  rank?: number;
+}
+
+/**
+ * Recurring series of events (e.g. daily crypto up/down markets)
+ */
+export interface GammaSeries {
+  id: string;
+  slug: string;
+  title: string;
+  ticker?: string;
+  seriesType?: string;
+  /**
+   * Recurrence period
+   * @example "daily", "weekly"
+   */
+  recurrence?: string;
+  image?: string;
+  active: boolean;
+  closed: boolean;
+  archived?: boolean;
+  volume?: number;
+  volume24hr?: number;
+  liquidity?: number;
+  startDate?: Date;
+  /**
+   * Events in the series (returned by {@link GammaApiClient.getSeriesById})
+   */
+  events: GammaEvent[];
+  tags?: GammaTag[];
 }
 
+/**
+ * A tag, by ID or by slug
+ */
+export type GammaTagRef = { id: string } | { slug: string };
+
+/**
+ * Date filter value: a Date or an ISO 8601 string
+ */
+export type GammaDateInput = Date | string;
+
 /**
  * Parameters for searching/filtering markets
  */
@@ -351,6 +448,139 @@ export interface MarketSearchParams {
    * Used for recurring short-term markets
    */
   tag?: string;
+
+  /**
+   * Filter by tag ID (see {@link GammaApiClient.getTags})
+   */
+  tagId?: string;
+
+  /**
+   * With `tagId`, also match markets tagged with related tags
+   */
+  relatedTags?: boolean;
+
+  /**
+   * Filter by condition IDs
+   */
+  conditionIds?: string[];
+
+  /**
+   * Filter by CLOB token IDs
+   */
+  clobTokenIds?: string[];
+
+  /**
+   * Minimum / maximum liquidity (USDC)
+   */
+  liquidityMin?: number;
+  liquidityMax?: number;
+
+  /**
+   * Minimum / maximum lifetime volume (USDC)
+   */
+  volumeMin?: number;
+  volumeMax?: number;
+
+  /**
+   * Start date range
+   */
+  startDateMin?: GammaDateInput;
+  startDateMax?: GammaDateInput;
+
+  /**
+   * End date range
+   */
+  endDateMin?: GammaDateInput;
+  endDateMax?: GammaDateInput;
+}
+
+/**
+ * Parameters for searching/filtering events
+ */
+export interface EventSearchParams {
+  /** Filter by event slug */
+  slug?: string;
+  /** Filter by active status */
+  active?: boolean;
+  /** Filter by closed status */
+  closed?: boolean;
+  /** Filter by archived status */
+  archived?: boolean;
+  /** Only featured events */
+  featured?: boolean;
+  /** Maximum number of results */
+  limit?: number;
+  /** Offset for pagination */
+  offset?: number;
+  /** Sort field (e.g., "volume24hr", "liquidity", "startDate") */
+  order?: string;
+  /** Sort direction (true = ascending, false = descending) */
+  ascending?: boolean;
+  /** Filter by tag ID */
+  tagId?: string;
+  /** Filter by tag slug (e.g., "politics") */
+  tagSlug?: string;
+  /** With `tagId`, also match events tagged with related tags */
+  relatedTags?: boolean;
+  /** Exclude events with any of these tag IDs */
+  excludeTagIds?: string[];
+  /** Filter by series recurrence (e.g., "daily") */
+  recurrence?: string;
+  /** Minimum / maximum liquidity (USDC) */
+  liquidityMin?: number;
+  liquidityMax?: number;
+  /** Minimum / maximum volume (USDC) */
+  volumeMin?: number;
+  volumeMax?: number;
+  /** Start date range */
+  startDateMin?: GammaDateInput;
+  startDateMax?: GammaDateInput;
+  /** End date range */
+  endDateMin?: GammaDateInput;
+  endDateMax?: GammaDateInput;
+}
+
+/**
+ * Parameters for listing tags
+ */
+export interface TagListParams {
+  limit?: number;
+  offset?: number;
+  /** Sort field (e.g., "label") */
+  order?: string;
+  ascending?: boolean;
+  /** Only tags shown in the site's carousel */
+  isCarousel?: boolean;
+}
+
+/**
+ * Parameters for the related-tags endpoints
+ */
+export interface RelatedTagsParams {
+  /** Skip related tags without any events */
+  omitEmpty?: boolean;
+  /** Only count events with this status */
+  status?: 'active' | 'closed' | 'all';
+}
+
+/**
+ * Parameters for listing series
+ */
+export interface SeriesSearchParams {
+  limit?: number;
+  offset?: number;
+  /** Sort field (e.g., "volume24hr") */
+  order?: string;
+  ascending?: boolean;
+  /** Filter by series slugs */
+  slugs?: string[];
+  /** Filter by category IDs */
+  categoryIds?: string[];
+  /** Filter by category labels */
+  categoryLabels?: string[];
+  closed?: boolean;
+  /** Filter by recurrence (e.g., "daily", "weekly") */
+  recurrence?: string;
 }
 
 // ===== Client =====
@@ -379,16 +609,24 @@ export interface MarketSearchParams {
  * ```
  */
 export class GammaApiClient {
+  private baseUrl: string;
+
   /**
    * Creates a new Gamma API client
    *
    * @param rateLimiter - Rate limiter instance for API throttling
    * @param cache - Cache instance for storing data (supports both legacy Cache and CacheAdapter)
+   * @param endpoints - Optional endpoint overrides (uses `gammaApi`)
+   * @param schemas - Optional response validator (see {@link GAMMA_SCHEMAS})
    */
   constructor(
     private rateLimiter: RateLimiter,
-    private cache: UnifiedCache
-  ) {}
+    private cache: UnifiedCache,
+    endpoints?: PolymarketEndpoints,
+    private schemas?: SchemaValidator
+  ) {
+    this.baseUrl = endpoints?.gammaApi || GAMMA_API_BASE;
+  }
 
   // ===== Market Queries =====
 
@@ -396,6 +634,7 @@ export class GammaApiClient {
    * Get markets with optional filters and sorting
    *
    * @param params - Search and filter parameters
+   * @param options - Abort signal and timeout
    * @returns Array of markets matching the criteria
    *
    * @remarks
@@ -423,7 +662,7 @@ export class GammaApiClient {
    * });
    * ```
    */
-  async getMarkets(params?: MarketSearchParams): Promise<GammaMarket[]> {
+  async getMarkets(params?: MarketSearchParams, options?: RequestOptions): Promise<GammaMarket[]> {
     const query = new URLSearchParams();
     if (params?.slug) query.set('slug', params.slug);
     if (params?.conditionId) query.set('condition_id', params.conditionId);
@@ -435,17 +674,59 @@ export class GammaApiClient {
     if (params?.ascending !== undefined)
       query.set('ascending', String(params.ascending));
     if (params?.tag) query.set('tag', params.tag);
+    setParams(query, {
+      tag_id: params?.tagId,
+      related_tags: params?.relatedTags,
+      condition_ids: params?.conditionIds,
+      clob_token_ids: params?.clobTokenIds,
+      liquidity_num_min: params?.liquidityMin,
+      liquidity_num_max: params?.liquidityMax,
+      volume_num_min: params?.volumeMin,
+      volume_num_max: params?.volumeMax,
+      start_date_min: params?.startDateMin,
+      start_date_max: params?.startDateMax,
+      end_date_min: params?.endDateMin,
+      end_date_max: params?.endDateMax,
+    });
 
-    return this.rateLimiter.execute(ApiType.GAMMA_API, async () => {
-      const response = await fetch(`${GAMMA_API_BASE}/markets?${query}`);
+    return this.rateLimiter.execute(ApiType.GAMMA_API, async (signal) => {
+      const response = await fetch(`${this.baseUrl}/markets?${query}`, { signal });
       if (!response.ok)
         throw PolymarketError.fromHttpError(
           response.status,
-          await response.json().catch(() => null)
+          await response.json().catch(() => null),
+          response.headers
         );
       const data = (await response.json()) as unknown[];
       if (!Array.isArray(data)) return [];
+      this.schemas?.validate(GAMMA_SCHEMAS.market, data);
       return data.map((item) => this.normalizeMarket(item as Record<string, unknown>));
+    }, undefined, options);
+  }
+
+  /**
+   * Iterate over markets, one page (default 100) per request
+   *
+   * @param params - Filter and sort parameters
+   * @param options - Resume cursor, item limit, and per-request abort signal and timeout
+   *
+   * @example
+   * ```typescript
+   * for await (const market of client.iterateMarkets({ active: true, closed: false })) {
+   *   index(market);
+   * }
+   * ```
+   */
+  iterateMarkets(
+    params?: Omit<MarketSearchParams, 'limit' | 'offset'>,
+    options: IterateOptions = {}
+  ): PageIterator<GammaMarket> {
+    const { cursor, maxItems, pageSize = 100, ...request } = options;
+    return new PageIterator<GammaMarket>({
+      pageSize,
+      cursor,
+      maxItems,
+      fetchPage: (offset, limit) => this.getMarkets({ ...params, offset, limit }, request),
     });
   }
 
@@ -453,6 +734,7 @@ export class GammaApiClient {
    * Get a single market by its URL slug
    *
    * @param slug - The URL-friendly market slug
+   * @param options - Abort signal and timeout
    * @returns The market if found, null otherwise
    *
    * @example
@@ -463,8 +745,8 @@ export class GammaApiClient {
    * }
    * ```
    */
-  async getMarketBySlug(slug: string): Promise<GammaMarket | null> {
-    const markets = await this.getMarkets({ slug, limit: 1 });
+  async getMarketBySlug(slug: string, options?: RequestOptions): Promise<GammaMarket | null> {
+    const markets = await this.getMarkets({ slug, limit: 1 }, options);
     return markets[0] || null;
   }
 
@@ -472,6 +754,7 @@ export class GammaApiClient {
    * Get a single market by condition ID
    *
    * @param conditionId - The unique condition identifier
+   * @param options - Abort signal and timeout
    * @returns The market if found, null otherwise
    *
    * @remarks
@@ -482,8 +765,8 @@ export class GammaApiClient {
    * const market = await client.getMarketByConditionId('0x82ace55...');
    * ```
    */
-  async getMarketByConditionId(conditionId: string): Promise<GammaMarket | null> {
-    const markets = await this.getMarkets({ conditionId, limit: 1 });
+  async getMarketByConditionId(conditionId: string, options?: RequestOptions): Promise<GammaMarket | null> {
+    const markets = await this.getMarkets({ conditionId, limit: 1 }, options);
     return markets[0] || null;
   }
 
@@ -492,10 +775,8 @@ export class GammaApiClient {
   /**
    * Get events with optional filters
    *
-   * @param params - Filter parameters
-   * @param params.slug - Filter by event slug
-   * @param params.active - Filter by active status
-   * @param params.limit - Maximum results to return
+   * @param params - Filter parameters (tags, dates, liquidity and volume ranges)
+   * @param options - Abort signal and timeout
    * @returns Array of events matching the criteria
    *
    * @example
@@ -505,28 +786,75 @@ export class GammaApiClient {
    *
    * // Get a specific event by slug
    * const election = await client.getEvents({ slug: '2024-us-election' });
+   *
+   * // Open politics events ending this year, by volume
+   * const politics = await client.getEvents({
+   *   tagSlug: 'politics',
+   *   closed: false,
+   *   endDateMax: '2025-12-31T23:59:59Z',
+   *   order: 'volume',
+   *   ascending: false,
+   * });
    * ```
    */
-  async getEvents(params?: {
-    slug?: string;
-    active?: boolean;
-    limit?: number;
-  }): Promise<GammaEvent[]> {
+  async getEvents(params?: EventSearchParams, options?: RequestOptions): Promise<GammaEvent[]> {
     const query = new URLSearchParams();
     if (params?.slug) query.set('slug', params.slug);
     if (params?.active !== undefined) query.set('active', String(params.active));
     if (params?.limit) query.set('limit', String(params.limit));
+    if (params?.offset) query.set('offset', String(params.offset));
+    setParams(query, {
+      closed: params?.closed,
+      archived: params?.archived,
+      featured: params?.featured,
+      order: params?.order,
+      ascending: params?.ascending,
+      tag_id: params?.tagId,
+      tag_slug: params?.tagSlug,
+      related_tags: params?.relatedTags,
+      exclude_tag_id: params?.excludeTagIds,
+      recurrence: params?.recurrence,
+      liquidity_min: params?.liquidityMin,
+      liquidity_max: params?.liquidityMax,
+      volume_min: params?.volumeMin,
+      volume_max: params?.volumeMax,
+      start_date_min: params?.startDateMin,
+      start_date_max: params?.startDateMax,
+      end_date_min: params?.endDateMin,
+      end_date_max: params?.endDateMax,
+    });
 
-    return this.rateLimiter.execute(ApiType.GAMMA_API, async () => {
-      const response = await fetch(`${GAMMA_API_BASE}/events?${query}`);
+    return this.rateLimiter.execute(ApiType.GAMMA_API, async (signal) => {
+      const response = await fetch(`${this.baseUrl}/events?${query}`, { signal });
       if (!response.ok)
         throw PolymarketError.fromHttpError(
           response.status,
-          await response.json().catch(() => null)
+          await response.json().catch(() => null),
+          response.headers
         );
       const data = (await response.json()) as unknown[];
       if (!Array.isArray(data)) return [];
+      this.schemas?.validate(GAMMA_SCHEMAS.event, data);
       return data.map((item) => this.normalizeEvent(item as Record<string, unknown>));
+    }, undefined, options);
+  }
+
+  /**
+   * Iterate over events, one page (default 100) per request
+   *
+   * @param params - Filter parameters
+   * @param options - Resume cursor, item limit, and per-request abort signal and timeout
+   */
+  iterateEvents(
+    params?: Omit<EventSearchParams, 'limit' | 'offset'>,
+    options: IterateOptions = {}
+  ): PageIterator<GammaEvent> {
+    const { cursor, maxItems, pageSize = 100, ...request } = options;
+    return new PageIterator<GammaEvent>({
+      pageSize,
+      cursor,
+      maxItems,
+      fetchPage: (offset, limit) => this.getEvents({ ...params, offset, limit }, request),
     });
   }
 
@@ -534,6 +862,7 @@ export class GammaApiClient {
    * Get a single event by its URL slug
    *
    * @param slug - The URL-friendly event slug
+   * @param options - Abort signal and timeout
    * @returns The event if found, null otherwise
    *
    * @example
@@ -544,8 +873,8 @@ export class GammaApiClient {
    * }
    * ```
    */
-  async getEventBySlug(slug: string): Promise<GammaEvent | null> {
-    const events = await this.getEvents({ slug, limit: 1 });
+  async getEventBySlug(slug: string, options?: RequestOptions): Promise<GammaEvent | null> {
+    const events = await this.getEvents({ slug, limit: 1 }, options);
     return events[0] || null;
   }
 
@@ -553,6 +882,7 @@ export class GammaApiClient {
    * Get a single event by its ID
    *
    * @param id - The internal event ID
+   * @param options - Abort signal and timeout
    * @returns The event if found, null otherwise
    *
    * @example
@@ -560,19 +890,193 @@ export class GammaApiClient {
    * const event = await client.getEventById('12345');
    * ```
    */
-  async getEventById(id: string): Promise<GammaEvent | null> {
-    return this.rateLimiter.execute(ApiType.GAMMA_API, async () => {
-      const response = await fetch(`${GAMMA_API_BASE}/events/${id}`);
+  async getEventById(id: string, options?: RequestOptions): Promise<GammaEvent | null> {
+    return this.rateLimiter.execute(ApiType.GAMMA_API, async (signal) => {
+      const response = await fetch(`${this.baseUrl}/events/${id}`, { signal });
       if (!response.ok) {
         if (response.status === 404) return null;
         throw PolymarketError.fromHttpError(
           response.status,
-          await response.json().catch(() => null)
+          await response.json().catch(() => null),
+          response.headers
         );
       }
       const data = (await response.json()) as Record<string, unknown>;
+      this.schemas?.validate(GAMMA_SCHEMAS.event, data);
       return this.normalizeEvent(data);
+    }, undefined, options);
+  }
+
+  /**
+   * Get events with a tag
+   *
+   * @param tag - Tag ID or slug
+   * @param params - Additional filters
+   * @param options - Abort signal and timeout
+   *
+   * @example
+   * ```typescript
+   * const crypto = await client.getEventsByTag({ slug: 'crypto' }, { closed: false, limit: 50 });
+   * ```
+   */
+  async getEventsByTag(
+    tag: GammaTagRef,
+    params?: Omit<EventSearchParams, 'tagId' | 'tagSlug'>,
+    options?: RequestOptions
+  ): Promise<GammaEvent[]> {
+    const filter = 'id' in tag ? { tagId: tag.id } : { tagSlug: tag.slug };
+    return this.getEvents({ ...params, ...filter }, options);
+  }
+
+  // ===== Tags =====
+
+  /**
+   * List tags (the category taxonomy)
+   *
+   * @param params - Paging and sort parameters
+   * @param options - Abort signal and timeout
+   */
+  async getTags(params?: TagListParams, options?: RequestOptions): Promise<GammaTag[]> {
+    const query = new URLSearchParams();
+    setParams(query, {
+      limit: params?.limit,
+      offset: params?.offset,
+      order: params?.order,
+      ascending: params?.ascending,
+      is_carousel: params?.isCarousel,
     });
+    const data = await this.getJson<unknown[]>(`/tags?${query}`, options);
+    if (!Array.isArray(data)) return [];
+    this.schemas?.validate(GAMMA_SCHEMAS.tag, data);
+    return data.map((item) => this.normalizeTag(item as Record<string, unknown>));
+  }
+
+  /**
+   * Get a single tag by ID or slug
+   *
+   * @returns The tag if found, null otherwise
+   */
+  async getTag(tag: GammaTagRef, options?: RequestOptions): Promise<GammaTag | null> {
+    const data = await this.getJson<Record<string, unknown>>(tagPath(tag), options, true);
+    if (!data) return null;
+    this.schemas?.validate(GAMMA_SCHEMAS.tag, data);
+    return this.normalizeTag(data);
+  }
+
+  /**
+   * Get the tags related to a tag
+   *
+   * @param tag - Tag ID or slug
+   * @param params - Related-tag filters
+   * @param options - Abort signal and timeout
+   *
+   * @example
+   * ```typescript
+   * // Sub-categories of "crypto" that have open events
+   * const related = await client.getRelatedTags({ slug: 'crypto' }, { omitEmpty: true, status: 'active' });
+   * ```
+   */
+  async getRelatedTags(
+    tag: GammaTagRef,
+    params?: RelatedTagsParams,
+    options?: RequestOptions
+  ): Promise<GammaTag[]> {
+    const data = await this.getJson<unknown[]>(
+      `${tagPath(tag)}/related-tags/tags?${relatedTagsQuery(params)}`,
+      options
+    );
+    if (!Array.isArray(data)) return [];
+    this.schemas?.validate(GAMMA_SCHEMAS.tag, data);
+    return data.map((item) => this.normalizeTag(item as Record<string, unknown>));
+  }
+
+  /**
+   * Get a tag's relationships (related tag IDs and their rank)
+   */
+  async getRelatedTagRelationships(
+    tag: GammaTagRef,
+    params?: RelatedTagsParams,
+    options?: RequestOptions
+  ): Promise<GammaTagRelationship[]> {
+    const data = await this.getJson<unknown[]>(
+      `${tagPath(tag)}/related-tags?${relatedTagsQuery(params)}`,
+      options
+    );
+    if (!Array.isArray(data)) return [];
+    return data.map((item) => {
+      const r = item as Record<string, unknown>;
+      return {
+        id: String(r.id ?? ''),
+        tagId: String(r.tagID ?? ''),
+        relatedTagId: String(r.relatedTagID ?? ''),
+        rank: r.rank !== undefined ? Number(r.rank) : undefined,
+      };
+    });
+  }
+
+  /**
+   * Get markets with a tag
+   *
+   * The markets endpoint only filters by tag ID; slugs are resolved first.
+   *
+   * @param tag - Tag ID or slug
+   * @param params - Additional filters
+   * @param options - Abort signal and timeout
+   * @returns Matching markets (empty if the slug is unknown)
+   */
+  async getMarketsByTag(
+    tag: GammaTagRef,
+    params?: Omit<MarketSearchParams, 'tagId'>,
+    options?: RequestOptions
+  ): Promise<GammaMarket[]> {
+    let tagId: string;
+    if ('id' in tag) {
+      tagId = tag.id;
+    } else {
+      const resolved = await this.getTag(tag, options);
+      if (!resolved) return [];
+      tagId = resolved.id;
+    }
+    return this.getMarkets({ ...params, tagId }, options);
+  }
+
+  // ===== Series =====
+
+  /**
+   * List series of recurring events
+   *
+   * @param params - Filter and sort parameters
+   * @param options - Abort signal and timeout
+   */
+  async getSeries(params?: SeriesSearchParams, options?: RequestOptions): Promise<GammaSeries[]> {
+    const query = new URLSearchParams();
+    setParams(query, {
+      limit: params?.limit,
+      offset: params?.offset,
+      order: params?.order,
+      ascending: params?.ascending,
+      slug: params?.slugs,
+      categories_ids: params?.categoryIds,
+      categories_labels: params?.categoryLabels,
+      closed: params?.closed,
+      recurrence: params?.recurrence,
+    });
+    const data = await this.getJson<unknown[]>(`/series?${query}`, options);
+    if (!Array.isArray(data)) return [];
+    this.schemas?.validate(GAMMA_SCHEMAS.series, data);
+    return data.map((item) => this.normalizeSeries(item as Record<string, unknown>));
+  }
+
+  /**
+   * Get a single series, with its events
+   *
+   * @returns The series if found, null otherwise
+   */
+  async getSeriesById(id: string, options?: RequestOptions): Promise<GammaSeries | null> {
+    const data = await this.getJson<Record<string, unknown>>(`/series/${id}`, options, true);
+    if (!data) return null;
+    this.schemas?.validate(GAMMA_SCHEMAS.series, data);
+    return this.normalizeSeries(data);
   }
 
   // ===== Trending =====
@@ -581,6 +1085,7 @@ export class GammaApiClient {
    * Get trending markets sorted by 24-hour volume
    *
    * @param limit - Maximum number of markets to return (default: 20)
+   * @param options - Abort signal and timeout
    * @returns Array of active markets sorted by volume
    *
    * @remarks
@@ -607,14 +1112,14 @@ export class GammaApiClient {
    * }
    * ```
    */
-  async getTrendingMarkets(limit = 20): Promise<GammaMarket[]> {
+  async getTrendingMarkets(limit = 20, options?: RequestOptions): Promise<GammaMarket[]> {
     return this.getMarkets({
       active: true,
       closed: false,
       order: 'volume24hr',
       ascending: false,
       limit,
-    });
+    }, options);
   }
 
   // ===== Data Normalization =====
@@ -658,6 +1163,13 @@ export class GammaApiClient {
       image: m.image ? String(m.image) : undefined,
       icon: m.icon ? String(m.icon) : undefined,
       tags: m.tags ? this.parseJsonArray(m.tags, []) : undefined,
+      clobTokenIds: m.clobTokenIds
+        ? this.parseJsonArray<string>(m.clobTokenIds, []).map(String)
+        : undefined,
+      negRisk: m.negRisk !== undefined ? Boolean(m.negRisk) : undefined,
+      negRiskMarketId: m.negRiskMarketID ? String(m.negRiskMarketID) : undefined,
+      questionId: m.questionID ? String(m.questionID) : undefined,
+      groupItemTitle: m.groupItemTitle ? String(m.groupItemTitle) : undefined,
     };
   }
 
@@ -674,9 +1186,75 @@ export class GammaApiClient {
       startDate: e.startDate ? new Date(String(e.startDate)) : undefined,
       endDate: e.endDate ? new Date(String(e.endDate)) : undefined,
       image: e.image ? String(e.image) : undefined,
+      negRisk: e.negRisk !== undefined ? Boolean(e.negRisk) : undefined,
+      negRiskMarketId: e.negRiskMarketID ? String(e.negRiskMarketID) : undefined,
+      tags: Array.isArray(e.tags)
+        ? e.tags.map((t: Record<string, unknown>) => this.normalizeTag(t))
+        : undefined,
+    };
+  }
+
+  private normalizeTag(t: Record<string, unknown>): GammaTag {
+    return {
+      id: String(t.id || ''),
+      label: String(t.label || ''),
+      slug: String(t.slug || ''),
+      createdAt: new Date(String(t.createdAt || 0)),
+      updatedAt: new Date(String(t.updatedAt || t.createdAt || 0)),
+      publishedAt: t.publishedAt ? new Date(String(t.publishedAt)) : undefined,
+      forceShow: t.forceShow !== undefined ? Boolean(t.forceShow) : undefined,
+      forceHide: t.forceHide !== undefined ? Boolean(t.forceHide) : undefined,
+      updatedBy: t.updatedBy !== undefined ? Number(t.updatedBy) : undefined,
+      requiresTranslation: Boolean(t.requiresTranslation),
     };
   }
 
+  private normalizeSeries(s: Record<string, unknown>): GammaSeries {
+    const events = s.events;
+    return {
+      id: String(s.id || ''),
+      slug: String(s.slug || ''),
+      title: String(s.title || ''),
+      ticker: s.ticker ? String(s.ticker) : undefined,
+      seriesType: s.seriesType ? String(s.seriesType) : undefined,
+      recurrence: s.recurrence ? String(s.recurrence) : undefined,
+      image: s.image ? String(s.image) : undefined,
+      active: Boolean(s.active),
+      closed: Boolean(s.closed),
+      archived: s.archived !== undefined ? Boolean(s.archived) : undefined,
+      volume: s.volume !== undefined ? Number(s.volume) : undefined,
+      volume24hr: s.volume24hr !== undefined ? Number(s.volume24hr) : undefined,
+      liquidity: s.liquidity !== undefined ? Number(s.liquidity) : undefined,
+      startDate: s.startDate ? new Date(String(s.startDate)) : undefined,
+      events: Array.isArray(events)
+        ? events.map((e: Record<string, unknown>) => this.normalizeEvent(e))
+        : [],
+      tags: Array.isArray(s.tags)
+        ? s.tags.map((t: Record<string, unknown>) => this.normalizeTag(t))
+        : undefined,
+    };
+  }
+
+  /**
+   * GET a JSON payload through the rate limiter
+   *
+   * @param allowNotFound - Resolve null on 404 instead of throwing
+   */
+  private getJson<T>(path: string, options?: RequestOptions, allowNotFound = false): Promise<T | null> {
+    return this.rateLimiter.execute(ApiType.GAMMA_API, async (signal) => {
+      const response = await fetch(`${this.baseUrl}${path}`, { signal });
+      if (!response.ok) {
+        if (allowNotFound && response.status === 404) return null;
+        throw PolymarketError.fromHttpError(
+          response.status,
+          await response.json().catch(() => null),
+          response.headers
+        );
+      }
+      return (await response.json()) as T;
+    }, undefined, options);
+  }
+
   private parseJsonArray<T>(value: unknown, fallback: T[]): T[] {
     if (Array.isArray(value)) return value as T[];
     if (typeof value === 'string') {
@@ -689,3 +1267,33 @@ export class GammaApiClient {
     return fallback;
   }
 }
+
+// ===== Query Helpers =====
+
+/**
+ * Set query parameters, skipping undefined values; arrays repeat the key
+ * and dates are sent as ISO 8601
+ */
+function setParams(
+  query: URLSearchParams,
+  params: Record<string, string | number | boolean | Date | string[] | undefined>
+): void {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      for (const item of value) query.append(key, item);
+    } else {
+      query.set(key, value instanceof Date ? value.toISOString() : String(value));
+    }
+  }
+}
+
+function tagPath(tag: GammaTagRef): string {
+  return 'id' in tag ? `/tags/${tag.id}` : `/tags/slug/${encodeURIComponent(tag.slug)}`;
+}
+
+function relatedTagsQuery(params?: RelatedTagsParams): URLSearchParams {
+  const query = new URLSearchParams();
+  setParams(query, { omit_empty: params?.omitEmpty, status: params?.status });
+  return query;
+}
@@ -13,7 +13,12 @@
  */
 
 import { RateLimiter, ApiType } from '../core/rate-limiter.js';
+import { PolymarketError, ErrorCode } from '../core/errors.js';
 import type { UnifiedCache } from '../core/unified-cache.js';
+import type { PolymarketEndpoints } from '../core/types.js';
+import type { SchemaValidator, ResponseSchema } from '../core/schema.js';
+import type { RequestOptions } from '../core/request-options.js';
+import { SUBGRAPH_SCHEMAS } from '../core/response-schemas.js';
 
 // ==================== 端点配置 ====================
 
@@ -138,16 +143,31 @@ interface GraphQLResponse<T> {
 // ==================== 客户端实现 ====================
 
 export class SubgraphClient {
+  private endpoints: Record<SubgraphName, string>;
+
   constructor(
     private rateLimiter: RateLimiter,
-    private cache: UnifiedCache
-  ) {}
+    private cache: UnifiedCache,
+    endpoints?: PolymarketEndpoints,
+    private schemas?: SchemaValidator
+  ) {
+    // 未覆盖的 subgraph 使用默认 Goldsky 端点
+    this.endpoints = { ...SUBGRAPH_ENDPOINTS, ...endpoints?.subgraphs };
+  }
 
   /**
    * 执行 GraphQL 查询
+   *
+   * @param schema - 校验返回实体的 schema (查询的唯一顶层字段)
+   * @param options - 取消信号与超时
    */
-  private async query<T>(subgraph: SubgraphName, queryStr: string): Promise<T> {
-    const endpoint = SUBGRAPH_ENDPOINTS[subgraph];
+  private async query<T>(
+    subgraph: SubgraphName,
+    queryStr: string,
+    schema?: ResponseSchema,
+    options?: RequestOptions
+  ): Promise<T> {
+    const endpoint = this.endpoints[subgraph];
     const cacheKey = `subgraph:${subgraph}:${queryStr}`;
 
     // 检查缓存
@@ -157,30 +177,46 @@ export class SubgraphClient {
     }
 
     // 限流并执行请求
-    const data = await this.rateLimiter.execute(ApiType.SUBGRAPH, async () => {
+    const data = await this.rateLimiter.execute(ApiType.SUBGRAPH, async (signal) => {
       const response = await fetch(endpoint, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ query: queryStr }),
+        signal,
       });
 
       if (!response.ok) {
         const text = await response.text();
-        throw new Error(`Subgraph request failed: HTTP ${response.status} - ${text.slice(0, 200)}`);
+        const error = new PolymarketError(
+          ErrorCode.API_ERROR,
+          `Subgraph request failed: HTTP ${response.status} - ${text.slice(0, 200)}`,
+          response.status >= 500
+        );
+        error.status = response.status;
+        throw error;
       }
 
       const result = (await response.json()) as GraphQLResponse<T>;
 
       if (result.errors && result.errors.length > 0) {
-        throw new Error(`GraphQL error: ${result.errors.map((e) => e.message).join(', ')}`);
+        throw new PolymarketError(ErrorCode.API_ERROR, `GraphQL error: ${result.errors.map((e) => e.message).join(', ')}`);
       }
 
       if (!result.data) {
-        throw new Error(`No data returned from subgraph. Response: ${JSON.stringify(result).slice(0, 200)}`);
+        throw new PolymarketError(
+          ErrorCode.INVALID_RESPONSE,
+          `No data returned from subgraph. Response: ${JSON.stringify(result).slice(0, 200)}`
+        );
+      }
+
+      if (schema) {
+        for (const entity of Object.values(result.data as Record<string, unknown>)) {
+          this.schemas?.validate(schema, entity);
+        }
       }
 
       return result.data;
-    });
+    }, undefined, options);
 
     // 缓存结果 (短 TTL，subgraph 数据更新较快)
     await this.cache.set(cacheKey, data, 30_000);
@@ -236,7 +272,7 @@ export class SubgraphClient {
   /**
    * 获取用户余额
    */
-  async getUserBalances(user: string, params: SubgraphQueryParams = {}): Promise<UserBalance[]> {
+  async getUserBalances(user: string, params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<UserBalance[]> {
     const query = this.buildQuery(
       'userBalances',
       ['id', 'user', 'asset', 'balance'],
@@ -245,14 +281,14 @@ export class SubgraphClient {
         where: { ...params.where, user: user.toLowerCase() },
       }
     );
-    const result = await this.query<{ userBalances: UserBalance[] }>('positions', query);
+    const result = await this.query<{ userBalances: UserBalance[] }>('positions', query, SUBGRAPH_SCHEMAS.userBalance, options);
     return result.userBalances;
   }
 
   /**
    * 获取 Net 用户余额
    */
-  async getNetUserBalances(user: string, params: SubgraphQueryParams = {}): Promise<NetUserBalance[]> {
+  async getNetUserBalances(user: string, params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<NetUserBalance[]> {
     const query = this.buildQuery(
       'netUserBalances',
       ['id', 'user', 'asset', 'balance'],
@@ -261,7 +297,7 @@ export class SubgraphClient {
         where: { ...params.where, user: user.toLowerCase() },
       }
     );
-    const result = await this.query<{ netUserBalances: NetUserBalance[] }>('positions', query);
+    const result = await this.query<{ netUserBalances: NetUserBalance[] }>('positions', query, SUBGRAPH_SCHEMAS.userBalance, options);
     return result.netUserBalances;
   }
 
@@ -270,7 +306,7 @@ export class SubgraphClient {
   /**
    * 获取用户持仓 (含 PnL)
    */
-  async getUserPositions(user: string, params: SubgraphQueryParams = {}): Promise<UserPosition[]> {
+  async getUserPositions(user: string, params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<UserPosition[]> {
     const query = this.buildQuery(
       'userPositions',
       ['id', 'user', 'tokenId', 'amount', 'avgPrice', 'realizedPnl', 'totalBought'],
@@ -281,27 +317,27 @@ export class SubgraphClient {
         where: { ...params.where, user: user.toLowerCase() },
       }
     );
-    const result = await this.query<{ userPositions: UserPosition[] }>('pnl', query);
+    const result = await this.query<{ userPositions: UserPosition[] }>('pnl', query, SUBGRAPH_SCHEMAS.userPosition, options);
     return result.userPositions;
   }
 
   /**
    * 获取 Condition 结算状态
    */
-  async getConditions(params: SubgraphQueryParams = {}): Promise<Condition[]> {
+  async getConditions(params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<Condition[]> {
     const query = this.buildQuery(
       'conditions',
       ['id', 'positionIds', 'payoutNumerators', 'payoutDenominator'],
       params
     );
-    const result = await this.query<{ conditions: Condition[] }>('pnl', query);
+    const result = await this.query<{ conditions: Condition[] }>('pnl', query, SUBGRAPH_SCHEMAS.condition, options);
     return result.conditions;
   }
 
   /**
    * 获取单个 Condition
    */
-  async getCondition(conditionId: string): Promise<Condition | null> {
+  async getCondition(conditionId: string, options?: RequestOptions): Promise<Condition | null> {
     const query = `{
       condition(id: "${conditionId.toLowerCase()}") {
         id
@@ -310,15 +346,15 @@ export class SubgraphClient {
         payoutDenominator
       }
     }`;
-    const result = await this.query<{ condition: Condition | null }>('pnl', query);
+    const result = await this.query<{ condition: Condition | null }>('pnl', query, SUBGRAPH_SCHEMAS.condition, options);
     return result.condition;
   }
 
   /**
    * 检查 Condition 是否已结算
    */
-  async isConditionResolved(conditionId: string): Promise<boolean> {
-    const condition = await this.getCondition(conditionId);
+  async isConditionResolved(conditionId: string, options?: RequestOptions): Promise<boolean> {
+    const condition = await this.getCondition(conditionId, options);
     if (!condition) return false;
     return condition.payoutNumerators.length > 0 && condition.payoutDenominator !== '0';
   }
@@ -328,7 +364,7 @@ export class SubgraphClient {
   /**
    * 获取用户的 Split 事件
    */
-  async getSplits(user: string, params: SubgraphQueryParams = {}): Promise<Split[]> {
+  async getSplits(user: string, params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<Split[]> {
     const query = this.buildQuery(
       'splits',
       ['id', 'timestamp', 'stakeholder', 'condition', 'amount'],
@@ -339,14 +375,14 @@ export class SubgraphClient {
         where: { ...params.where, stakeholder: user.toLowerCase() },
       }
     );
-    const result = await this.query<{ splits: Split[] }>('activity', query);
+    const result = await this.query<{ splits: Split[] }>('activity', query, SUBGRAPH_SCHEMAS.split, options);
     return result.splits;
   }
 
   /**
    * 获取用户的 Merge 事件
    */
-  async getMerges(user: string, params: SubgraphQueryParams = {}): Promise<Merge[]> {
+  async getMerges(user: string, params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<Merge[]> {
     const query = this.buildQuery(
       'merges',
       ['id', 'timestamp', 'stakeholder', 'condition', 'amount'],
@@ -357,14 +393,14 @@ export class SubgraphClient {
         where: { ...params.where, stakeholder: user.toLowerCase() },
       }
     );
-    const result = await this.query<{ merges: Merge[] }>('activity', query);
+    const result = await this.query<{ merges: Merge[] }>('activity', query, SUBGRAPH_SCHEMAS.merge, options);
     return result.merges;
   }
 
   /**
    * 获取用户的 Redemption 事件
    */
-  async getRedemptions(user: string, params: SubgraphQueryParams = {}): Promise<Redemption[]> {
+  async getRedemptions(user: string, params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<Redemption[]> {
     const query = this.buildQuery(
       'redemptions',
       ['id', 'timestamp', 'redeemer', 'condition', 'payout'],
@@ -375,14 +411,14 @@ export class SubgraphClient {
         where: { ...params.where, redeemer: user.toLowerCase() },
       }
     );
-    const result = await this.query<{ redemptions: Redemption[] }>('activity', query);
+    const result = await this.query<{ redemptions: Redemption[] }>('activity', query, SUBGRAPH_SCHEMAS.redemption, options);
     return result.redemptions;
   }
 
   /**
    * 获取最近的 Redemption 事件 (不限用户)
    */
-  async getRecentRedemptions(params: SubgraphQueryParams = {}): Promise<Redemption[]> {
+  async getRecentRedemptions(params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<Redemption[]> {
     const query = this.buildQuery(
       'redemptions',
       ['id', 'timestamp', 'redeemer', 'condition', 'payout'],
@@ -393,7 +429,7 @@ export class SubgraphClient {
         ...params,
       }
     );
-    const result = await this.query<{ redemptions: Redemption[] }>('activity', query);
+    const result = await this.query<{ redemptions: Redemption[] }>('activity', query, SUBGRAPH_SCHEMAS.redemption, options);
     return result.redemptions;
   }
 
@@ -402,21 +438,21 @@ export class SubgraphClient {
   /**
    * 获取市场 Open Interest
    */
-  async getMarketOpenInterest(conditionId: string): Promise<MarketOpenInterest | null> {
+  async getMarketOpenInterest(conditionId: string, options?: RequestOptions): Promise<MarketOpenInterest | null> {
     const query = `{
       marketOpenInterest(id: "${conditionId.toLowerCase()}") {
         id
         amount
       }
     }`;
-    const result = await this.query<{ marketOpenInterest: MarketOpenInterest | null }>('oi', query);
+    const result = await this.query<{ marketOpenInterest: MarketOpenInterest | null }>('oi', query, SUBGRAPH_SCHEMAS.openInterest, options);
     return result.marketOpenInterest;
   }
 
   /**
    * 获取 Top 市场按 OI 排序
    */
-  async getTopMarketsByOI(params: SubgraphQueryParams = {}): Promise<MarketOpenInterest[]> {
+  async getTopMarketsByOI(params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<MarketOpenInterest[]> {
     const query = this.buildQuery(
       'marketOpenInterests',
       ['id', 'amount'],
@@ -427,21 +463,21 @@ export class SubgraphClient {
         ...params,
       }
     );
-    const result = await this.query<{ marketOpenInterests: MarketOpenInterest[] }>('oi', query);
+    const result = await this.query<{ marketOpenInterests: MarketOpenInterest[] }>('oi', query, SUBGRAPH_SCHEMAS.openInterest, options);
     return result.marketOpenInterests;
   }
 
   /**
    * 获取全局 Open Interest
    */
-  async getGlobalOpenInterest(): Promise<string> {
+  async getGlobalOpenInterest(options?: RequestOptions): Promise<string> {
     const query = `{
       globalOpenInterests(first: 1) {
         id
         amount
       }
     }`;
-    const result = await this.query<{ globalOpenInterests: GlobalOpenInterest[] }>('oi', query);
+    const result = await this.query<{ globalOpenInterests: GlobalOpenInterest[] }>('oi', query, SUBGRAPH_SCHEMAS.openInterest, options);
     return result.globalOpenInterests[0]?.amount || '0';
   }
 
@@ -450,7 +486,7 @@ export class SubgraphClient {
   /**
    * 获取订单成交事件
    */
-  async getOrderFilledEvents(params: SubgraphQueryParams = {}): Promise<OrderFilledEvent[]> {
+  async getOrderFilledEvents(params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<OrderFilledEvent[]> {
     const query = this.buildQuery(
       'orderFilledEvents',
       ['id', 'transactionHash', 'timestamp', 'orderHash', 'maker', 'taker', 'makerAssetId', 'takerAssetId', 'makerAmountFilled', 'takerAmountFilled', 'fee'],
@@ -461,14 +497,14 @@ export class SubgraphClient {
         ...params,
       }
     );
-    const result = await this.query<{ orderFilledEvents: OrderFilledEvent[] }>('orderbook', query);
+    const result = await this.query<{ orderFilledEvents: OrderFilledEvent[] }>('orderbook', query, SUBGRAPH_SCHEMAS.orderFilledEvent, options);
     return result.orderFilledEvents;
   }
 
   /**
    * 获取用户作为 maker 的成交事件
    */
-  async getMakerFills(maker: string, params: SubgraphQueryParams = {}): Promise<OrderFilledEvent[]> {
+  async getMakerFills(maker: string, params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<OrderFilledEvent[]> {
     const query = this.buildQuery(
       'orderFilledEvents',
       ['id', 'transactionHash', 'timestamp', 'orderHash', 'maker', 'taker', 'makerAssetId', 'takerAssetId', 'makerAmountFilled', 'takerAmountFilled', 'fee'],
@@ -479,14 +515,14 @@ export class SubgraphClient {
         where: { ...params.where, maker: maker.toLowerCase() },
       }
     );
-    const result = await this.query<{ orderFilledEvents: OrderFilledEvent[] }>('orderbook', query);
+    const result = await this.query<{ orderFilledEvents: OrderFilledEvent[] }>('orderbook', query, SUBGRAPH_SCHEMAS.orderFilledEvent, options);
     return result.orderFilledEvents;
   }
 
   /**
    * 获取用户作为 taker 的成交事件
    */
-  async getTakerFills(taker: string, params: SubgraphQueryParams = {}): Promise<OrderFilledEvent[]> {
+  async getTakerFills(taker: string, params: SubgraphQueryParams = {}, options?: RequestOptions): Promise<OrderFilledEvent[]> {
     const query = this.buildQuery(
       'orderFilledEvents',
       ['id', 'transactionHash', 'timestamp', 'orderHash', 'maker', 'taker', 'makerAssetId', 'takerAssetId', 'makerAmountFilled', 'takerAmountFilled', 'fee'],
@@ -497,21 +533,21 @@ export class SubgraphClient {
         where: { ...params.where, taker: taker.toLowerCase() },
       }
     );
-    const result = await this.query<{ orderFilledEvents: OrderFilledEvent[] }>('orderbook', query);
+    const result = await this.query<{ orderFilledEvents: OrderFilledEvent[] }>('orderbook', query, SUBGRAPH_SCHEMAS.orderFilledEvent, options);
     return result.orderFilledEvents;
   }
 
   /**
    * 获取市场数据
    */
-  async getMarketData(assetId: string): Promise<MarketData | null> {
+  async getMarketData(assetId: string, options?: RequestOptions): Promise<MarketData | null> {
     const query = `{
       marketData(id: "${assetId}") {
         id
         volume
       }
     }`;
-    const result = await this.query<{ marketData: MarketData | null }>('orderbook', query);
+    const result = await this.query<{ marketData: MarketData | null }>('orderbook', query, SUBGRAPH_SCHEMAS.marketData, options);
     return result.marketData;
   }
 
@@ -520,7 +556,7 @@ export class SubgraphClient {
   /**
    * 获取用户完整的链上活动摘要
    */
-  async getUserActivitySummary(user: string): Promise<{
+  async getUserActivitySummary(user: string, options?: RequestOptions): Promise<{
     positions: UserPosition[];
     splits: Split[];
     merges: Merge[];
@@ -529,12 +565,12 @@ export class SubgraphClient {
     takerFills: OrderFilledEvent[];
   }> {
     const [positions, splits, merges, redemptions, makerFills, takerFills] = await Promise.all([
-      this.getUserPositions(user, { first: 100 }),
-      this.getSplits(user, { first: 50 }),
-      this.getMerges(user, { first: 50 }),
-      this.getRedemptions(user, { first: 50 }),
-      this.getMakerFills(user, { first: 50 }),
-      this.getTakerFills(user, { first: 50 }),
+      this.getUserPositions(user, { first: 100 }, options),
+      this.getSplits(user, { first: 50 }, options),
+      this.getMerges(user, { first: 50 }, options),
+      this.getRedemptions(user, { first: 50 }, options),
+      this.getMakerFills(user, { first: 50 }, options),
+      this.getTakerFills(user, { first: 50 }, options),
     ]);
 
     return { positions, splits, merges, redemptions, makerFills, takerFills };
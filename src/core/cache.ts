@@ -1,5 +1,5 @@
 /**
- * Simple in-memory cache with TTL support
+ * Simple in-memory cache with TTL support and an optional LRU size cap
  */
 
 interface CacheEntry<T> {
@@ -7,8 +7,19 @@ interface CacheEntry<T> {
   expiresAt: number;
 }
 
+export interface CacheOptions {
+  /** Evict the least recently used entries beyond this many (default: unbounded) */
+  maxEntries?: number;
+}
+
 export class Cache {
+  // Map iteration order doubles as recency order: oldest first
   private store: Map<string, CacheEntry<unknown>> = new Map();
+  private maxEntries: number;
+
+  constructor(options: CacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
 
   /**
    * Get a cached value
@@ -20,6 +31,10 @@ export class Cache {
       this.store.delete(key);
       return undefined;
     }
+    if (this.maxEntries !== Infinity) {
+      this.store.delete(key);
+      this.store.set(key, entry);
+    }
     return entry.value as T;
   }
 
@@ -27,10 +42,15 @@ export class Cache {
    * Set a cached value with TTL
    */
   set<T>(key: string, value: T, ttlMs: number): void {
+    this.store.delete(key);
     this.store.set(key, {
       value,
       expiresAt: Date.now() + ttlMs,
     });
+    while (this.store.size > this.maxEntries) {
+      const oldest = this.store.keys().next().value as string;
+      this.store.delete(oldest);
+    }
   }
 
   /**
@@ -48,6 +68,13 @@ export class Cache {
     return value;
   }
 
+  /**
+   * Remove a single key
+   */
+  delete(key: string): void {
+    this.store.delete(key);
+  }
+
   /**
    * Invalidate all keys matching a pattern
    */
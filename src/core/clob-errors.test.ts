@@ -0,0 +1,50 @@
+/**
+ * CLOB Rejection Classifier Unit Tests
+ *
+ * Focus: CLOB error strings → ErrorCode with parsed details
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyClobRejection, orderFailure, orderRejection } from './clob-errors.js';
+import { ErrorCode } from './errors.js';
+
+describe('classifyClobRejection', () => {
+  it.each([
+    [
+      'not enough balance / allowance: the balance is not enough -> balance: 2500000, order amount: 10000000',
+      ErrorCode.INSUFFICIENT_BALANCE,
+      { balance: 2.5, required: 10 },
+    ],
+    ['not enough balance / allowance: the allowance is not enough', ErrorCode.INSUFFICIENT_ALLOWANCE, {}],
+    [
+      'order 0xabc is invalid. Price (0.555) breaks minimum tick size rule: 0.01',
+      ErrorCode.INVALID_TICK_SIZE,
+      { price: 0.555, tickSize: '0.01' },
+    ],
+    [
+      'order 0xabc is invalid. Size (2) lower than the minimum: 5',
+      ErrorCode.ORDER_TOO_SMALL,
+      { size: 2, minimumSize: 5 },
+    ],
+    ['the market is not yet ready to process new orders', ErrorCode.MARKET_NOT_ACCEPTING_ORDERS, {}],
+    ['order 0xabc is invalid. Duplicated.', ErrorCode.DUPLICATE_ORDER, {}],
+    [
+      "order couldn't be fully filled. FOK orders are fully filled or killed.",
+      ErrorCode.ORDER_NOT_FILLED,
+      { orderType: 'FOK' },
+    ],
+    ['no orders found to match with FAK order', ErrorCode.ORDER_NOT_FILLED, { orderType: 'FAK' }],
+    ['invalid nonce', ErrorCode.INVALID_NONCE, {}],
+    ['invalid expiration value', ErrorCode.INVALID_EXPIRATION, {}],
+  ])('should classify %s', (message, code, details) => {
+    expect(classifyClobRejection(message, 400)).toEqual({ code, details });
+  });
+
+  it('should fall back on the HTTP status for unknown messages', () => {
+    expect(classifyClobRejection('something new', 400).code).toBe(ErrorCode.ORDER_REJECTED);
+    expect(classifyClobRejection('something new', 502).code).toBe(ErrorCode.ORDER_FAILED);
+    expect(orderRejection('something new').errorCode).toBe(ErrorCode.ORDER_REJECTED);
+    expect(orderFailure('Order failed: fetch failed').errorCode).toBe(ErrorCode.ORDER_FAILED);
+    expect(orderFailure('Order failed: invalid nonce').errorCode).toBe(ErrorCode.INVALID_NONCE);
+  });
+});
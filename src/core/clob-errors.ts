@@ -0,0 +1,173 @@
+/**
+ * CLOB order rejection classifier
+ *
+ * The CLOB reports rejected orders as free text (`errorMsg`, or `error` on
+ * HTTP errors). This maps those strings, and the SDK's own pre-submit
+ * checks, to specific ErrorCodes with the numbers parsed out of the message,
+ * so callers can branch on `errorCode` instead of matching strings.
+ *
+ * @example
+ * ```typescript
+ * const result = await sdk.tradingService.createLimitOrder(params);
+ * if (result.errorCode === ErrorCode.INVALID_TICK_SIZE) {
+ *   // retry on the new tick: result.errorDetails.tickSize
+ * }
+ * ```
+ */
+
+import { ErrorCode } from './errors.js';
+
+/**
+ * Values parsed from a rejection message (only those the message carries)
+ */
+export interface ClobRejectionDetails {
+  /** Order price */
+  price?: number;
+  /** Market tick size the price must be a multiple of */
+  tickSize?: string;
+  /** Order size (shares), or value / amount (USDC) for value minimums */
+  size?: number;
+  /** Minimum the size fell below */
+  minimumSize?: number;
+  /** Available balance, in USDC or shares */
+  balance?: number;
+  /** Balance the order needed, in USDC or shares */
+  required?: number;
+  /** Market order type that could not be filled */
+  orderType?: 'FOK' | 'FAK';
+}
+
+export interface ClobRejection {
+  code: ErrorCode;
+  details: ClobRejectionDetails;
+}
+
+interface RejectionRule {
+  code: ErrorCode;
+  pattern: RegExp;
+  parse?: (message: string) => ClobRejectionDetails;
+}
+
+// CLOB balances are reported in base units (6 decimals for USDC.e and outcome tokens)
+const BASE_UNITS = 1e6;
+
+const RULES: RejectionRule[] = [
+  {
+    code: ErrorCode.INSUFFICIENT_ALLOWANCE,
+    pattern: /allowance is not enough|not enough allowance|insufficient allowance/i,
+    parse: parseBalance,
+  },
+  {
+    code: ErrorCode.INSUFFICIENT_BALANCE,
+    pattern: /not enough balance|balance is not enough|insufficient (?:balance|funds)/i,
+    parse: parseBalance,
+  },
+  {
+    code: ErrorCode.INVALID_TICK_SIZE,
+    pattern: /tick size|INVALID_ORDER_MIN_TICK_SIZE/i,
+    parse: (message) => ({
+      price: matchNumber(message, /price \(([\d.]+)\)/i) ?? matchNumber(message, /\(got ([\d.]+)\)/i),
+      tickSize: message.match(/tick size rule: ([\d.]+)/i)?.[1] ?? message.match(/multiple of ([\d.]+) tick size/i)?.[1],
+    }),
+  },
+  {
+    code: ErrorCode.ORDER_TOO_SMALL,
+    pattern: /lower than the minimum|below (?:polymarket )?minimum|must be at least|INVALID_ORDER_MIN_SIZE/i,
+    parse: (message) => ({
+      size: matchNumber(message, /(?:size|value|amount) \(\$?([\d.]+)\)/i) ?? matchNumber(message, /\(got \$?([\d.]+)\)/i),
+      minimumSize: matchNumber(message, /minimum:? \(?\$?([\d.]+)/i) ?? matchNumber(message, /at least \$?([\d.]+)/i),
+    }),
+  },
+  {
+    code: ErrorCode.MARKET_NOT_ACCEPTING_ORDERS,
+    pattern: /not accepting orders|not yet ready|MARKET_NOT_READY|closed.only|orderbook .*does not exist|no orderbook exists/i,
+  },
+  {
+    code: ErrorCode.DUPLICATE_ORDER,
+    pattern: /duplicate/i,
+  },
+  {
+    code: ErrorCode.ORDER_NOT_FILLED,
+    pattern: /fully filled or killed|couldn't be fully filled|no orders found to match/i,
+    parse: (message) => ({ orderType: /FAK/.test(message) ? 'FAK' : 'FOK' }),
+  },
+  {
+    code: ErrorCode.INVALID_NONCE,
+    pattern: /nonce/i,
+  },
+  {
+    code: ErrorCode.INVALID_EXPIRATION,
+    pattern: /expiration/i,
+  },
+];
+
+/**
+ * Classify a rejection message
+ *
+ * Unrecognized messages map to ORDER_REJECTED, or ORDER_FAILED for 5xx responses.
+ *
+ * @param message - `errorMsg`, or `error` from a CLOB error response
+ * @param status - HTTP status of the response, if any
+ */
+export function classifyClobRejection(message: string | undefined, status?: number): ClobRejection {
+  const text = message ?? '';
+  for (const rule of RULES) {
+    if (rule.pattern.test(text)) {
+      return { code: rule.code, details: stripUndefined(rule.parse?.(text) ?? {}) };
+    }
+  }
+  return { code: status !== undefined && status >= 500 ? ErrorCode.ORDER_FAILED : ErrorCode.ORDER_REJECTED, details: {} };
+}
+
+export interface FailedOrderResult {
+  success: false;
+  errorMsg: string;
+  errorCode: ErrorCode;
+  errorDetails: ClobRejectionDetails;
+}
+
+/**
+ * A failed OrderResult for an order the CLOB (or a pre-submit check) rejected
+ */
+export function orderRejection(errorMsg: string, status?: number): FailedOrderResult {
+  const { code, details } = classifyClobRejection(errorMsg, status);
+  return { success: false, errorMsg, errorCode: code, errorDetails: details };
+}
+
+/**
+ * A failed OrderResult for an order that never got an answer
+ * (network error, signing failure); unrecognized messages map to ORDER_FAILED
+ */
+export function orderFailure(errorMsg: string): FailedOrderResult {
+  const result = orderRejection(errorMsg);
+  if (result.errorCode === ErrorCode.ORDER_REJECTED) {
+    result.errorCode = ErrorCode.ORDER_FAILED;
+  }
+  return result;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseBalance(message: string): ClobRejectionDetails {
+  const balance = matchNumber(message, /balance: ([\d.]+)/i);
+  const required = matchNumber(message, /order amount: ([\d.]+)/i);
+  return {
+    balance: balance === undefined ? undefined : balance / BASE_UNITS,
+    required: required === undefined ? undefined : required / BASE_UNITS,
+  };
+}
+
+function matchNumber(message: string, pattern: RegExp): number | undefined {
+  const match = message.match(pattern);
+  if (!match) return undefined;
+  const value = Number(match[1]);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function stripUndefined(details: ClobRejectionDetails): ClobRejectionDetails {
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined)
+  ) as ClobRejectionDetails;
+}
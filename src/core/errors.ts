@@ -6,7 +6,9 @@ export enum ErrorCode {
   // Network errors
   NETWORK_ERROR = 'NETWORK_ERROR',
   TIMEOUT = 'TIMEOUT',
+  ABORTED = 'ABORTED',
   RATE_LIMITED = 'RATE_LIMITED',
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
 
   // Authentication errors
   AUTH_FAILED = 'AUTH_FAILED',
@@ -24,6 +26,20 @@ export enum ErrorCode {
   ORDER_FAILED = 'ORDER_FAILED',
   MARKET_CLOSED = 'MARKET_CLOSED',
 
+  // CLOB order rejections (see clob-errors.ts)
+  INSUFFICIENT_ALLOWANCE = 'INSUFFICIENT_ALLOWANCE',
+  INVALID_TICK_SIZE = 'INVALID_TICK_SIZE',
+  ORDER_TOO_SMALL = 'ORDER_TOO_SMALL',
+  MARKET_NOT_ACCEPTING_ORDERS = 'MARKET_NOT_ACCEPTING_ORDERS',
+  DUPLICATE_ORDER = 'DUPLICATE_ORDER',
+  ORDER_NOT_FILLED = 'ORDER_NOT_FILLED',
+  INVALID_NONCE = 'INVALID_NONCE',
+  INVALID_EXPIRATION = 'INVALID_EXPIRATION',
+
+  // Risk errors (pre-trade checks)
+  RISK_LIMIT_EXCEEDED = 'RISK_LIMIT_EXCEEDED',
+  KILL_SWITCH_ACTIVE = 'KILL_SWITCH_ACTIVE',
+
   // API errors
   API_ERROR = 'API_ERROR',
 
@@ -34,7 +50,19 @@ export enum ErrorCode {
   INVALID_CONFIG = 'INVALID_CONFIG',
 }
 
+/**
+ * Response headers as exposed by fetch (`Response.headers`)
+ */
+export interface HttpHeadersLike {
+  get(name: string): string | null;
+}
+
 export class PolymarketError extends Error {
+  /** HTTP status of the failed response, if any */
+  public status?: number;
+  /** Server-requested wait before retrying (from `Retry-After`), in ms */
+  public retryAfterMs?: number;
+
   constructor(
     public code: ErrorCode,
     message: string,
@@ -46,9 +74,17 @@ export class PolymarketError extends Error {
   }
 
   /**
-   * Create error from HTTP response status
+   * Create error from HTTP response status.
+   * Pass the response headers to keep `Retry-After` on 429/503 responses.
    */
-  static fromHttpError(status: number, body?: unknown): PolymarketError {
+  static fromHttpError(status: number, body?: unknown, headers?: HttpHeadersLike): PolymarketError {
+    const error = PolymarketError.fromHttpStatus(status, body);
+    error.status = status;
+    error.retryAfterMs = parseRetryAfter(headers?.get('retry-after'));
+    return error;
+  }
+
+  private static fromHttpStatus(status: number, body?: unknown): PolymarketError {
     const bodyMessage =
       body && typeof body === 'object' && 'message' in body
         ? String((body as { message: unknown }).message)
@@ -91,6 +127,22 @@ export class PolymarketError extends Error {
   }
 }
 
+/**
+ * Parse a `Retry-After` header value (delay in seconds or an HTTP date)
+ * @returns Delay in ms, or undefined if missing or unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
 /**
  * Retry decorator for async functions
  */
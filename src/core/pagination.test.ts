@@ -0,0 +1,94 @@
+/**
+ * PageIterator Unit Tests
+ *
+ * Focus: offset paging, timestamp windows past the offset cap, resume and early stop
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PageIterator } from './pagination.js';
+
+interface Item {
+  id: number;
+  timestamp: number;
+}
+
+// Newest first, two items per timestamp: ids 0..19 at timestamps 100, 100, 99, 99, ...
+const ITEMS: Item[] = Array.from({ length: 20 }, (_, id) => ({ id, timestamp: 100 - Math.floor(id / 2) }));
+
+/**
+ * Fake descending endpoint: `boundary` keeps items at or before it, like Data API `end`
+ */
+function createSource(maxOffset: number) {
+  const calls: Array<{ offset: number; limit: number; boundary?: number }> = [];
+  const fetchPage = async (offset: number, limit: number, boundary: number | undefined) => {
+    if (offset > maxOffset) throw new Error(`offset ${offset} past cap`);
+    calls.push({ offset, limit, boundary });
+    const window = boundary === undefined ? ITEMS : ITEMS.filter((item) => item.timestamp <= boundary);
+    return window.slice(offset, offset + limit);
+  };
+  return { calls, fetchPage };
+}
+
+describe('PageIterator', () => {
+  it('should page by offset until a short page', async () => {
+    const source = createSource(Infinity);
+    const items = await new PageIterator<Item>({ pageSize: 8, fetchPage: source.fetchPage }).toArray();
+
+    expect(items.map((item) => item.id)).toEqual(ITEMS.map((item) => item.id));
+    expect(source.calls.map((call) => call.offset)).toEqual([0, 8, 16]);
+  });
+
+  it('should continue in timestamp windows past the offset cap without duplicates', async () => {
+    const source = createSource(5);
+    const items = await new PageIterator<Item>({
+      pageSize: 4,
+      maxOffset: 5,
+      timestampOf: (item) => item.timestamp,
+      fetchPage: source.fetchPage,
+    }).toArray();
+
+    expect(items.map((item) => item.id)).toEqual(ITEMS.map((item) => item.id));
+    // First window stops at the cap; the next starts at the last timestamp, past the item already seen there
+    expect(source.calls.slice(0, 3)).toEqual([
+      { offset: 0, limit: 4, boundary: undefined },
+      { offset: 4, limit: 1, boundary: undefined },
+      { offset: 1, limit: 4, boundary: 98 },
+    ]);
+  });
+
+  it('should stop at the offset cap without timestamps', async () => {
+    const source = createSource(5);
+    const iterator = new PageIterator<Item>({ pageSize: 4, maxOffset: 5, fetchPage: source.fetchPage });
+    const items = await iterator.toArray();
+    expect(items).toHaveLength(5);
+    expect(iterator.truncated).toBe(true);
+    expect(iterator.cursor.offset).toBe(5);
+
+    const complete = new PageIterator<Item>({ pageSize: 8, fetchPage: createSource(Infinity).fetchPage });
+    await complete.toArray();
+    expect(complete.truncated).toBe(false);
+  });
+
+  it('should stop early and resume from the saved cursor', async () => {
+    const source = createSource(5);
+    const config = { pageSize: 4, maxOffset: 5, timestampOf: (item: Item) => item.timestamp, fetchPage: source.fetchPage };
+
+    const first = new PageIterator<Item>(config);
+    const seen: number[] = [];
+    for await (const item of first) {
+      seen.push(item.id);
+      if (item.id === 6) break;
+    }
+
+    const rest = await new PageIterator<Item>({ ...config, cursor: first.cursor }).toArray();
+    expect([...seen, ...rest.map((item) => item.id)]).toEqual(ITEMS.map((item) => item.id));
+  });
+
+  it('should respect maxItems', async () => {
+    const source = createSource(Infinity);
+    const items = await new PageIterator<Item>({ pageSize: 8, maxItems: 3, fetchPage: source.fetchPage }).toArray();
+
+    expect(items.map((item) => item.id)).toEqual([0, 1, 2]);
+    expect(source.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Async-iterator pagination for offset-based list endpoints
+ *
+ * A PageIterator fetches one page at a time as the caller consumes items,
+ * so breaking out of `for await` stops fetching. Its `cursor` always points
+ * just past the last item yielded; pass it back to resume later.
+ *
+ * Endpoints with an offset cap (the Data API rejects offsets past 10,000)
+ * continue in timestamp windows when the iterator knows item timestamps:
+ * the next window is bounded by the last item's timestamp, skipping the
+ * items at that timestamp it already yielded. Without timestamps, iteration
+ * stops at the cap and `truncated` tells the caller items may remain.
+ *
+ * @example
+ * ```typescript
+ * const activity = sdk.dataApi.iterateActivity(address, { type: 'TRADE' });
+ * for await (const item of activity) {
+ *   if (item.timestamp < cutoff) break;
+ *   process(item);
+ * }
+ * saveCursor(activity.cursor);
+ * ```
+ */
+
+import type { RequestOptions } from './request-options.js';
+
+/**
+ * Position in a paginated list; plain JSON, safe to persist
+ */
+export interface PageCursor {
+  /** Offset of the next item within the current window */
+  offset: number;
+  /** Timestamp bound of the current window, once the offset cap forced a new one */
+  boundary?: number;
+  /** Timestamp of the last item yielded */
+  lastTimestamp?: number;
+  /** Items yielded in the current window that share lastTimestamp */
+  lastTimestampCount?: number;
+}
+
+export interface IterateOptions extends RequestOptions {
+  /** Resume from a cursor saved from an earlier iterator */
+  cursor?: PageCursor;
+  /** Stop after this many items */
+  maxItems?: number;
+  /** Items per request (default and maximum depend on the endpoint) */
+  pageSize?: number;
+}
+
+export interface PageIteratorConfig<T> {
+  pageSize: number;
+  /** Largest offset the endpoint accepts (default: unlimited) */
+  maxOffset?: number;
+  /** Fetch `limit` items at `offset`, within the window bounded by `boundary` if set */
+  fetchPage: (offset: number, limit: number, boundary: number | undefined) => Promise<T[]>;
+  /** Item timestamp; without it, iteration stops at maxOffset */
+  timestampOf?: (item: T) => number;
+  cursor?: PageCursor;
+  maxItems?: number;
+}
+
+export class PageIterator<T> implements AsyncIterable<T> {
+  private position: PageCursor;
+  private yielded = 0;
+  private stoppedAtCap = false;
+
+  constructor(private config: PageIteratorConfig<T>) {
+    this.position = { ...(config.cursor ?? { offset: 0 }) };
+  }
+
+  /**
+   * Position just past the last item yielded
+   */
+  get cursor(): PageCursor {
+    return { ...this.position };
+  }
+
+  /**
+   * Whether iteration ended at the endpoint's offset cap with items possibly left
+   */
+  get truncated(): boolean {
+    return this.stoppedAtCap;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    const { pageSize, maxOffset = Infinity, timestampOf, maxItems = Infinity } = this.config;
+
+    while (this.yielded < maxItems) {
+      if (this.position.offset >= maxOffset && !this.openNextWindow(maxOffset)) {
+        this.stoppedAtCap = true;
+        return;
+      }
+
+      const limit = Math.min(pageSize, maxOffset - this.position.offset);
+      const page = await this.config.fetchPage(this.position.offset, limit, this.position.boundary);
+
+      for (const item of page) {
+        this.advance(timestampOf?.(item));
+        yield item;
+        if (++this.yielded >= maxItems) return;
+      }
+
+      if (page.length < limit) return;
+    }
+  }
+
+  /**
+   * Collect the remaining items into an array
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  private advance(timestamp: number | undefined): void {
+    const position = this.position;
+    position.offset++;
+    if (timestamp === undefined) return;
+    if (timestamp === position.lastTimestamp) {
+      position.lastTimestampCount = (position.lastTimestampCount ?? 0) + 1;
+    } else {
+      position.lastTimestamp = timestamp;
+      position.lastTimestampCount = 1;
+    }
+  }
+
+  /**
+   * Start a window at the last timestamp yielded, past the items already seen there
+   */
+  private openNextWindow(maxOffset: number): boolean {
+    const { lastTimestamp, lastTimestampCount = 0 } = this.position;
+    if (!this.config.timestampOf || lastTimestamp === undefined) return false;
+    // More items at one timestamp than the cap allows: no window can get past them
+    if (lastTimestampCount >= maxOffset) return false;
+
+    this.position = {
+      offset: lastTimestampCount,
+      boundary: lastTimestamp,
+      lastTimestamp,
+      lastTimestampCount,
+    };
+    return true;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * RateLimitStore Unit Tests
+ *
+ * Focus: window accounting in both stores, and two RateLimiters sharing one budget
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MemoryRateLimitStore, RedisRateLimitStore, type RedisRateLimitClient } from './rate-limit-store.js';
+import { RateLimiter, ApiType } from './rate-limiter.js';
+
+/** Local stand-in for the two Redis commands the store uses */
+class FakeRedis implements RedisRateLimitClient {
+  counters = new Map<string, number>();
+  expiries = new Map<string, number>();
+
+  async incr(key: string): Promise<number> {
+    const next = (this.counters.get(key) ?? 0) + 1;
+    this.counters.set(key, next);
+    return next;
+  }
+
+  async pexpire(key: string, milliseconds: number): Promise<number> {
+    this.expiries.set(key, milliseconds);
+    return 1;
+  }
+}
+
+describe('RateLimitStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should grant `limit` tokens per window in memory', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(10_250);
+    const store = new MemoryRateLimitStore();
+
+    expect(await store.take('a', 2, 1000)).toBe(0);
+    expect(await store.take('a', 2, 1000)).toBe(0);
+    expect(await store.take('a', 2, 1000)).toBe(750);
+    expect(await store.take('b', 2, 1000)).toBe(0);
+
+    vi.setSystemTime(11_000);
+    expect(await store.take('a', 2, 1000)).toBe(0);
+  });
+
+  it('should count windows in Redis under a shared prefix', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(10_250);
+    const redis = new FakeRedis();
+    const store = new RedisRateLimitStore(redis, { keyPrefix: 'test:' });
+
+    expect(await store.take('clob-api:order', 1, 1000)).toBe(0);
+    expect(await store.take('clob-api:order', 1, 1000)).toBe(750);
+    expect(redis.counters.get('test:clob-api:order:10')).toBe(2);
+    expect(redis.expiries.get('test:clob-api:order:10')).toBe(2000);
+  });
+
+  it('should make two limiters share one budget', async () => {
+    const store = new RedisRateLimitStore(new FakeRedis());
+    const a = new RateLimiter({ store });
+    const b = new RateLimiter({ store });
+
+    const starts: number[] = [];
+    const call = () => Promise.resolve(starts.push(Date.now()));
+    await Promise.all([
+      ...Array.from({ length: 6 }, () => a.execute(ApiType.GAMMA_API, call)),
+      ...Array.from({ length: 6 }, () => b.execute(ApiType.GAMMA_API, call)),
+    ]);
+
+    const perWindow = new Map<number, number>();
+    for (const t of starts) {
+      const window = Math.floor(t / 1000);
+      perWindow.set(window, (perWindow.get(window) ?? 0) + 1);
+    }
+    expect(starts).toHaveLength(12);
+    expect(perWindow.size).toBeGreaterThan(1);
+    expect(Math.max(...perWindow.values())).toBeLessThanOrEqual(10);
+  });
+
+  it('should fall back to local limits when the store fails', async () => {
+    const limiter = new RateLimiter({
+      store: { take: () => Promise.reject(new Error('connection refused')) },
+    });
+    const errors: unknown[] = [];
+    limiter.on('storeError', (e) => errors.push(e));
+
+    await expect(limiter.execute(ApiType.DATA_API, async () => 'ok')).resolves.toBe('ok');
+    expect(errors).toHaveLength(1);
+  });
+});
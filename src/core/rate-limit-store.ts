@@ -0,0 +1,102 @@
+/**
+ * Rate limit stores for RateLimiter
+ *
+ * A store holds the token buckets behind each API's limit. The in-memory
+ * store only limits the current process; a Redis store lets every process
+ * on the same IP draw from one shared budget.
+ *
+ * Buckets refill in fixed windows (`limit` tokens every `intervalMs`,
+ * aligned to the epoch), the same shape as Bottleneck's reservoir settings.
+ */
+
+/**
+ * Backing store for shared rate limit budgets
+ */
+export interface RateLimitStore {
+  /**
+   * Take one token from the bucket `key`
+   *
+   * @param key - Bucket name (e.g. `clob-api:order`)
+   * @param limit - Tokens per window
+   * @param intervalMs - Window length
+   * @returns 0 if a token was taken, otherwise ms until the next window
+   */
+  take(key: string, limit: number, intervalMs: number): Promise<number>;
+}
+
+/**
+ * Process-local store (default)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows: Map<string, { window: number; count: number }> = new Map();
+
+  async take(key: string, limit: number, intervalMs: number): Promise<number> {
+    const now = Date.now();
+    const window = Math.floor(now / intervalMs);
+
+    const entry = this.windows.get(key);
+    if (!entry || entry.window !== window) {
+      this.windows.set(key, { window, count: 1 });
+      return 0;
+    }
+    if (entry.count < limit) {
+      entry.count++;
+      return 0;
+    }
+    return (window + 1) * intervalMs - now;
+  }
+
+  clear(): void {
+    this.windows.clear();
+  }
+}
+
+/**
+ * The Redis commands RedisRateLimitStore needs.
+ * An ioredis client (or `RedisClient.getClient()` from `@catalyst-team/cache`)
+ * satisfies it directly.
+ */
+export interface RedisRateLimitClient {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<unknown>;
+}
+
+export interface RedisRateLimitStoreOptions {
+  /** Key prefix shared by all cooperating processes (default: 'poly-sdk:ratelimit:') */
+  keyPrefix?: string;
+}
+
+/**
+ * Store shared across processes through Redis
+ *
+ * Each window is one counter key (`INCR`), expired shortly after the window
+ * ends. Processes should have roughly synchronized clocks.
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis';
+ *
+ * const sdk = new PolymarketSDK({
+ *   rateLimit: { store: new RedisRateLimitStore(new Redis(process.env.REDIS_URL)) },
+ * });
+ * ```
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private keyPrefix: string;
+
+  constructor(private client: RedisRateLimitClient, options: RedisRateLimitStoreOptions = {}) {
+    this.keyPrefix = options.keyPrefix ?? 'poly-sdk:ratelimit:';
+  }
+
+  async take(key: string, limit: number, intervalMs: number): Promise<number> {
+    const now = Date.now();
+    const window = Math.floor(now / intervalMs);
+    const windowKey = `${this.keyPrefix}${key}:${window}`;
+
+    const count = await this.client.incr(windowKey);
+    if (count === 1) {
+      await this.client.pexpire(windowKey, intervalMs * 2);
+    }
+    return count <= limit ? 0 : (window + 1) * intervalMs - now;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * RateLimiter Unit Tests
+ *
+ * Focus: throttling on 429s, Retry-After pauses, ramp-up and CLOB endpoint buckets
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter, ApiType, ClobEndpoint, type RateLimitThrottle } from './rate-limiter.js';
+import { PolymarketError, ErrorCode, parseRetryAfter } from './errors.js';
+import { BinanceService } from '../services/binance-service.js';
+import { createUnifiedCache } from './unified-cache.js';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1_700_000_000_000);
+    limiter = new RateLimiter({
+      rampIntervalMs: 1000,
+      rampStep: 0.25,
+      retryPolicies: { [ApiType.DATA_API]: { maxAttempts: 1 } },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should throttle on a RATE_LIMITED error and honour Retry-After', async () => {
+    const events: RateLimitThrottle[] = [];
+    limiter.on('throttled', (e) => events.push(e));
+
+    const error = PolymarketError.fromHttpError(429, undefined, new Headers({ 'retry-after': '5' }));
+    expect(error.code).toBe(ErrorCode.RATE_LIMITED);
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBe(5000);
+
+    await expect(limiter.execute(ApiType.DATA_API, () => Promise.reject(error))).rejects.toBe(error);
+
+    const stats = limiter.getStats(ApiType.DATA_API)!;
+    expect(stats.factor).toBe(0.5);
+    expect(stats.pausedUntil).toBe(Date.now() + 5000);
+    expect(stats.throttleCount).toBe(1);
+    expect(stats.throttles).toEqual(events);
+    expect(events[0]).toMatchObject({ api: ApiType.DATA_API, retryAfterMs: 5000, factor: 0.5 });
+  });
+
+  it('should ramp the limit back up after the pause', () => {
+    limiter.reportRateLimit(ApiType.GAMMA_API, 1000);
+    limiter.reportRateLimit(ApiType.GAMMA_API, 1000);
+    expect(limiter.getStats(ApiType.GAMMA_API)!.factor).toBe(0.25);
+
+    vi.setSystemTime(Date.now() + 1000 + 1000);
+    expect(limiter.getStats(ApiType.GAMMA_API)).toMatchObject({ factor: 0.5, pausedUntil: null });
+
+    vi.setSystemTime(Date.now() + 5000);
+    expect(limiter.getStats(ApiType.GAMMA_API)!.factor).toBe(1);
+  });
+
+  it('should throttle only the CLOB endpoint bucket that returned a 429', async () => {
+    const result = await limiter.execute(
+      ApiType.CLOB_API,
+      async () => ({ error: 'Too Many Requests', status: 429 }),
+      ClobEndpoint.ORDER
+    );
+    expect(result.status).toBe(429);
+
+    expect(limiter.getStats(ApiType.CLOB_API, ClobEndpoint.ORDER)).toMatchObject({ throttleCount: 1, factor: 0.5 });
+    expect(limiter.getStats(ApiType.CLOB_API, ClobEndpoint.BOOK)).toMatchObject({ throttleCount: 0, factor: 1 });
+    expect(limiter.getStats(ApiType.CLOB_API)).toMatchObject({ throttleCount: 0, factor: 1 });
+
+    limiter.reset();
+    expect(limiter.getStats(ApiType.CLOB_API, ClobEndpoint.ORDER)).toMatchObject({ throttleCount: 0, factor: 1, throttles: [] });
+  });
+
+  it('should not adapt when disabled', async () => {
+    const fixed = new RateLimiter({ adaptive: false });
+    fixed.reportRateLimit(ApiType.DATA_API, 1000);
+    expect(fixed.getStats(ApiType.DATA_API)).toMatchObject({ factor: 1, pausedUntil: null, throttleCount: 0 });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delay-seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe('RateLimiter cancellation', () => {
+  it('should reject with TIMEOUT and abort the request signal', async () => {
+    const limiter = new RateLimiter();
+    let requestSignal: AbortSignal | undefined;
+
+    const call = limiter.execute(ApiType.GAMMA_API, (signal) => {
+      requestSignal = signal;
+      return new Promise<never>(() => {});
+    }, undefined, { timeoutMs: 20 });
+
+    await expect(call).rejects.toMatchObject({ code: ErrorCode.TIMEOUT });
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  it('should drop queued work when the caller aborts', async () => {
+    const limiter = new RateLimiter();
+    const controller = new AbortController();
+    const queued = vi.fn(async () => 'sent');
+
+    const first = limiter.execute(ApiType.DATA_API, async () => 'first');
+    const second = limiter.execute(ApiType.DATA_API, queued, undefined, { signal: controller.signal });
+    const secondRejected = expect(second).rejects.toMatchObject({ code: ErrorCode.ABORTED });
+    controller.abort();
+
+    await secondRejected;
+    await expect(first).resolves.toBe('first');
+    // Let the Data API bucket's minimum interval pass
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(queued).not.toHaveBeenCalled();
+    expect(limiter.getCircuitState(ApiType.DATA_API)).toBe('closed');
+  });
+
+  it('should not start a call whose signal is already aborted', async () => {
+    const limiter = new RateLimiter();
+    const fn = vi.fn(async () => 'sent');
+
+    await expect(
+      limiter.execute(ApiType.GAMMA_API, fn, undefined, { signal: AbortSignal.abort() })
+    ).rejects.toBeInstanceOf(PolymarketError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe('Shared cached fetches', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should let one caller abort without rejecting the others sharing the fetch', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      await gate;
+      if (init?.signal?.aborted) throw new Error('aborted');
+      return new Response(JSON.stringify({ symbol: 'BTCUSDT', price: '65000.5' }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const binance = new BinanceService(new RateLimiter(), createUnifiedCache());
+    const controller = new AbortController();
+    const aborted = binance.getPrice('BTCUSDT', { signal: controller.signal });
+    const patient = binance.getPrice('BTCUSDT');
+    const abortedRejected = expect(aborted).rejects.toMatchObject({ code: ErrorCode.ABORTED });
+
+    // Let the first caller's fetch start before aborting
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+    await abortedRejected;
+    release();
+
+    await expect(patient).resolves.toBe(65000.5);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,10 +2,44 @@
  * Rate Limiter for Polymarket APIs
  * - Data API: 100ms minimum interval
  * - Gamma API: 10 req/s
- * - CLOB API: 10 req/s
+ * - CLOB API: 10 req/s, with separate buckets for book reads, order posts
+ *   and cancels
+ *
+ * Limits adapt to the server: a 429 (thrown as RATE_LIMITED, or returned as
+ * `{ status: 429 }` by the CLOB client) pauses the bucket for `Retry-After`,
+ * halves its request rate, and then ramps it back up step by step.
+ *
+ * Every request also takes a token from a RateLimitStore. The default store
+ * is process-local; a shared store (e.g. RedisRateLimitStore) makes all
+ * processes on one IP share each API's budget.
+ *
+ * Failures are retried per API with jittered backoff, and a circuit breaker
+ * per API fails calls fast while that API is degraded (see retry-policy.ts).
+ *
+ * Each call is reported to the configured Telemetry as an `http.request`
+ * span, with per-attempt latency in a histogram per API.
+ *
+ * A call's RequestOptions (signal, timeoutMs) cover queueing, retries and
+ * the request itself; fn receives the signal to pass on to fetch.
  */
 
+import { EventEmitter } from 'events';
 import Bottleneck from 'bottleneck';
+import { ErrorCode, PolymarketError, parseRetryAfter } from './errors.js';
+import { MemoryRateLimitStore, type RateLimitStore } from './rate-limit-store.js';
+import { TELEMETRY_METRICS, noopTelemetry, type Telemetry, type TelemetrySpan } from './telemetry.js';
+import { abortError, createCallSignal, raceAbort, type RequestOptions } from './request-options.js';
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_POLICY,
+  classifyFailure,
+  computeRetryDelay,
+  resolveRetryPolicy,
+  type CircuitState,
+  type CircuitStateChange,
+  type RetryPolicy,
+  type RetryPolicyOverrides,
+} from './retry-policy.js';
 
 export enum ApiType {
   DATA_API = 'data-api',
@@ -15,6 +49,16 @@ export enum ApiType {
   BINANCE = 'binance',
 }
 
+/**
+ * CLOB endpoint groups with their own limits.
+ * Requests without an endpoint use the general CLOB_API bucket.
+ */
+export enum ClobEndpoint {
+  BOOK = 'book',
+  ORDER = 'order',
+  CANCEL = 'cancel',
+}
+
 const API_LIMITS: Record<ApiType, Bottleneck.ConstructorOptions> = {
   [ApiType.DATA_API]: {
     minTime: 100, // 100ms minimum interval
@@ -42,45 +86,516 @@ const API_LIMITS: Record<ApiType, Bottleneck.ConstructorOptions> = {
   },
 };
 
-export class RateLimiter {
-  private limiters: Map<ApiType, Bottleneck> = new Map();
+const API_RETRY_POLICIES: Record<ApiType, RetryPolicy> = {
+  [ApiType.DATA_API]: DEFAULT_RETRY_POLICY,
+  [ApiType.GAMMA_API]: DEFAULT_RETRY_POLICY,
+  [ApiType.CLOB_API]: resolveRetryPolicy(DEFAULT_RETRY_POLICY, {
+    baseDelayMs: 250,
+    maxDelayMs: 2000,
+    breaker: { resetTimeoutMs: 15_000 },
+  }),
+  [ApiType.SUBGRAPH]: resolveRetryPolicy(DEFAULT_RETRY_POLICY, { baseDelayMs: 1000, maxDelayMs: 8000 }),
+  [ApiType.BINANCE]: DEFAULT_RETRY_POLICY,
+};
+
+// Well below the CLOB's documented per-endpoint limits
+const CLOB_ENDPOINT_LIMITS: Record<ClobEndpoint, Bottleneck.ConstructorOptions> = {
+  [ClobEndpoint.BOOK]: {
+    reservoir: 15,
+    reservoirRefreshAmount: 15,
+    reservoirRefreshInterval: 1000,
+  },
+  [ClobEndpoint.ORDER]: {
+    reservoir: 20,
+    reservoirRefreshAmount: 20,
+    reservoirRefreshInterval: 1000,
+  },
+  [ClobEndpoint.CANCEL]: {
+    reservoir: 20,
+    reservoirRefreshAmount: 20,
+    reservoirRefreshInterval: 1000,
+  },
+};
+
+export interface RateLimiterConfig {
+  /** React to 429 responses (default: true) */
+  adaptive?: boolean;
+  /** Limit multiplier applied on each 429 (default: 0.5) */
+  backoffFactor?: number;
+  /** Lowest limit multiplier (default: 0.1) */
+  minFactor?: number;
+  /** Pause when a 429 carries no Retry-After, in ms (default: 1000) */
+  defaultRetryAfterMs?: number;
+  /** How often the multiplier ramps back up, in ms (default: 10000) */
+  rampIntervalMs?: number;
+  /** Multiplier added per ramp step (default: 0.1) */
+  rampStep?: number;
+  /** Throttle events kept per bucket for getStats() (default: 20) */
+  historySize?: number;
+  /** Token bucket store; share one across processes to share their budget (default: in-memory) */
+  store?: RateLimitStore;
+  /** Retry and circuit breaker overrides per API */
+  retryPolicies?: Partial<Record<ApiType, RetryPolicyOverrides>>;
+  /** Receives request spans, latency histograms and throttle counters */
+  telemetry?: Telemetry;
+}
+
+/**
+ * One reaction to a 429
+ */
+export interface RateLimitThrottle {
+  api: ApiType;
+  endpoint?: ClobEndpoint;
+  timestamp: number;
+  /** Retry-After sent by the server, if any */
+  retryAfterMs?: number;
+  /** Requests are held until this time */
+  pausedUntil: number;
+  /** Limit multiplier after the throttle */
+  factor: number;
+}
+
+export interface RateLimiterStats {
+  running: number;
+  queued: number;
+  /** Current limit multiplier (1 = configured limits) */
+  factor: number;
+  /** Requests are held until this time (null when not paused) */
+  pausedUntil: number | null;
+  /** Total 429s seen */
+  throttleCount: number;
+  /** Most recent throttles, oldest first */
+  throttles: RateLimitThrottle[];
+}
+
+interface Bucket {
+  api: ApiType;
+  endpoint?: ClobEndpoint;
+  limiter: Bottleneck;
+  /** Spacing between requests at the configured limits, in ms */
+  baseIntervalMs: number;
+  /** Store tokens per window at the configured limits */
+  storeLimit: number;
+  storeWindowMs: number;
+  /** Limit multiplier set by the last throttle; ramps up after pausedUntil */
+  factor: number;
+  pausedUntil: number;
+  /** Earliest start of the next request while throttled */
+  nextSlot: number;
+  throttleCount: number;
+  throttles: RateLimitThrottle[];
+}
+
+export class RateLimiter extends EventEmitter {
+  private config: Required<Omit<RateLimiterConfig, 'store' | 'retryPolicies' | 'telemetry'>>;
+  private store: RateLimitStore;
+  private telemetry: Telemetry;
+  private policies = {} as Record<ApiType, RetryPolicy>;
+  private breakers = new Map<ApiType, CircuitBreaker>();
+  private buckets: Map<string, Bucket> = new Map();
+
+  constructor(config: RateLimiterConfig = {}) {
+    super();
+
+    this.config = {
+      adaptive: config.adaptive ?? true,
+      backoffFactor: config.backoffFactor ?? 0.5,
+      minFactor: config.minFactor ?? 0.1,
+      defaultRetryAfterMs: config.defaultRetryAfterMs ?? 1000,
+      rampIntervalMs: config.rampIntervalMs ?? 10_000,
+      rampStep: config.rampStep ?? 0.1,
+      historySize: config.historySize ?? 20,
+    };
+    this.store = config.store ?? new MemoryRateLimitStore();
+    this.telemetry = config.telemetry ?? noopTelemetry;
+
+    for (const api of Object.values(ApiType)) {
+      const policy = resolveRetryPolicy(API_RETRY_POLICIES[api], config.retryPolicies?.[api]);
+      this.policies[api] = policy;
+      this.breakers.set(api, new CircuitBreaker(policy.breaker, (from, to, failures) => {
+        const change: CircuitStateChange = { api, from, to, timestamp: Date.now(), failures };
+        this.telemetry.log(to === 'open' ? 'warn' : 'info', `Circuit ${from} -> ${to} for ${api}`, { api, failures });
+        this.emit('circuitStateChange', change);
+      }));
+    }
 
-  constructor() {
-    for (const [type, config] of Object.entries(API_LIMITS)) {
-      this.limiters.set(type as ApiType, new Bottleneck(config));
+    for (const [type, options] of Object.entries(API_LIMITS)) {
+      this.addBucket(type as ApiType, undefined, options);
+    }
+    for (const [endpoint, options] of Object.entries(CLOB_ENDPOINT_LIMITS)) {
+      this.addBucket(ApiType.CLOB_API, endpoint as ClobEndpoint, options);
     }
   }
 
   /**
-   * Execute a function with rate limiting
+   * Execute a function with rate limiting, retries and the API's circuit breaker
+   *
+   * Order posts (ClobEndpoint.ORDER) are never retried: they are not idempotent.
+   *
+   * @param api - API whose limits apply
+   * @param fn - Request to run
+   * @param endpoint - CLOB endpoint group with its own bucket (CLOB_API only)
+   * @param options - Cancellation signal and deadline for the whole call
+   * @throws PolymarketError(CIRCUIT_OPEN) while the API's circuit is open
+   * @throws PolymarketError(TIMEOUT | ABORTED) when the deadline passes or the signal aborts
    */
-  async execute<T>(api: ApiType, fn: () => Promise<T>): Promise<T> {
-    const limiter = this.limiters.get(api);
-    if (!limiter) throw new Error(`Unknown API type: ${api}`);
-    return limiter.schedule(fn);
+  async execute<T>(
+    api: ApiType,
+    fn: (signal?: AbortSignal) => Promise<T>,
+    endpoint?: ClobEndpoint,
+    options?: RequestOptions
+  ): Promise<T> {
+    const span = this.telemetry.startSpan('http.request', { api, endpoint });
+    const call = createCallSignal(options);
+    try {
+      const result = await this.executeWithRetry(api, fn, endpoint, span, call.signal);
+      span.end();
+      return result;
+    } catch (error) {
+      span.end(error);
+      throw error;
+    } finally {
+      call.dispose();
+    }
   }
 
   /**
    * Execute multiple functions in order with rate limiting
    */
-  async executeBatch<T>(api: ApiType, fns: (() => Promise<T>)[]): Promise<T[]> {
+  async executeBatch<T>(api: ApiType, fns: (() => Promise<T>)[], endpoint?: ClobEndpoint): Promise<T[]> {
     const results: T[] = [];
     for (const fn of fns) {
-      results.push(await this.execute(api, fn));
+      results.push(await this.execute(api, fn, endpoint));
     }
     return results;
   }
 
+  /**
+   * Report the raw result of a call whose fn maps it before returning
+   * (e.g. a CLOB `{ error, status }`): 429s throttle the bucket and
+   * server-side failures count against the circuit breaker
+   */
+  reportResult(api: ApiType, result: unknown, endpoint?: ClobEndpoint): void {
+    if (isRateLimitResponse(result)) {
+      this.reportRateLimit(api, retryAfterOf(result), endpoint);
+    }
+    if (classifyFailure(result, this.policies[api])?.breakerFailure) {
+      this.breakers.get(api)!.recordFailure();
+    }
+  }
+
+  /**
+   * Current circuit breaker state for an API
+   */
+  getCircuitState(api: ApiType): CircuitState {
+    return this.breakers.get(api)!.getState();
+  }
+
+  /**
+   * Report a 429 seen outside execute() (e.g. from a raw fetch)
+   */
+  reportRateLimit(api: ApiType, retryAfterMs?: number, endpoint?: ClobEndpoint): void {
+    const bucket = this.getBucket(api, endpoint);
+    if (bucket) this.throttle(bucket, retryAfterMs);
+  }
+
   /**
    * Get current limiter statistics
    */
-  getStats(api: ApiType): { running: number; queued: number } | null {
-    const limiter = this.limiters.get(api);
-    if (!limiter) return null;
-    const counts = limiter.counts();
+  getStats(api: ApiType, endpoint?: ClobEndpoint): RateLimiterStats | null {
+    const bucket = this.getBucket(api, endpoint);
+    if (!bucket) return null;
+    const now = Date.now();
+    const counts = bucket.limiter.counts();
     return {
       running: counts.RUNNING,
       queued: counts.QUEUED,
+      factor: this.currentFactor(bucket, now),
+      pausedUntil: bucket.pausedUntil > now ? bucket.pausedUntil : null,
+      throttleCount: bucket.throttleCount,
+      throttles: [...bucket.throttles],
     };
   }
+
+  /**
+   * Restore configured limits, close all circuits and clear pauses and history
+   */
+  reset(): void {
+    for (const breaker of this.breakers.values()) {
+      breaker.reset();
+    }
+    for (const bucket of this.buckets.values()) {
+      bucket.factor = 1;
+      bucket.pausedUntil = 0;
+      bucket.nextSlot = 0;
+      bucket.throttleCount = 0;
+      bucket.throttles = [];
+    }
+  }
+
+  // ============================================================================
+  // Private
+  // ============================================================================
+
+  private addBucket(api: ApiType, endpoint: ClobEndpoint | undefined, options: Bottleneck.ConstructorOptions): void {
+    const { reservoirRefreshInterval: refreshMs, reservoirRefreshAmount: refreshAmount } = options;
+    const baseIntervalMs = refreshMs && refreshAmount ? refreshMs / refreshAmount : options.minTime ?? 0;
+    // minTime-only buckets become "1000 / minTime per second" in the store
+    const storeWindowMs = refreshMs && refreshAmount ? refreshMs : 1000;
+    const storeLimit = refreshMs && refreshAmount ? refreshAmount : Math.floor(1000 / Math.max(1, baseIntervalMs));
+
+    this.buckets.set(bucketKey(api, endpoint), {
+      api,
+      endpoint,
+      limiter: new Bottleneck(options),
+      baseIntervalMs,
+      storeLimit,
+      storeWindowMs,
+      factor: 1,
+      pausedUntil: 0,
+      nextSlot: 0,
+      throttleCount: 0,
+      throttles: [],
+    });
+  }
+
+  /**
+   * Attempts of one execute() call, within the API's retry policy
+   */
+  private async executeWithRetry<T>(
+    api: ApiType,
+    fn: (signal?: AbortSignal) => Promise<T>,
+    endpoint: ClobEndpoint | undefined,
+    span: TelemetrySpan,
+    signal: AbortSignal | undefined
+  ): Promise<T> {
+    const bucket = this.getBucket(api, endpoint);
+    if (!bucket) throw new Error(`Unknown API type: ${api}`);
+
+    const policy = this.policies[api];
+    const breaker = this.breakers.get(api)!;
+    const maxAttempts = endpoint === ClobEndpoint.ORDER ? 1 : policy.maxAttempts;
+
+    for (let attempt = 1; ; attempt++) {
+      span.setAttribute('attempts', attempt);
+      if (signal?.aborted) throw abortError(signal);
+      if (!breaker.tryAcquire()) {
+        throw new PolymarketError(ErrorCode.CIRCUIT_OPEN, `Circuit open for ${api}: too many recent failures`);
+      }
+
+      let result: T | undefined;
+      let thrown = false;
+      let error: unknown;
+      try {
+        result = await raceAbort(this.runLimited(bucket, fn, signal), signal);
+      } catch (e) {
+        thrown = true;
+        error = e;
+      }
+
+      if (signal?.aborted) {
+        // A timeout counts against the breaker like any hung request; a caller's abort does not
+        const reason = abortError(signal);
+        if (reason.code === ErrorCode.TIMEOUT) {
+          breaker.recordFailure();
+        } else {
+          breaker.release();
+        }
+        throw reason;
+      }
+
+      // The CLOB client reports failures as `{ error, status }` results
+      const failure = thrown ? error : result;
+      const classification = classifyFailure(failure, policy);
+      if (!classification) {
+        breaker.recordSuccess();
+        return result as T;
+      }
+      if (classification.status !== undefined) {
+        span.setAttribute('status', classification.status);
+      }
+      if (classification.breakerFailure) {
+        breaker.recordFailure();
+      } else {
+        breaker.release();
+      }
+
+      if (!classification.retryable || attempt >= maxAttempts) {
+        if (thrown) throw error;
+        return result as T;
+      }
+      // A 429 already paused the bucket for Retry-After
+      if (!isRateLimitResponse(failure)) {
+        await raceAbort(sleep(computeRetryDelay(policy, attempt)), signal);
+      }
+    }
+  }
+
+  /**
+   * One attempt: wait for the bucket, run fn, and throttle on a 429
+   */
+  private async runLimited<T>(
+    bucket: Bucket,
+    fn: (signal?: AbortSignal) => Promise<T>,
+    signal: AbortSignal | undefined
+  ): Promise<T> {
+    await this.acquire(bucket);
+    if (signal?.aborted) throw abortError(signal);
+    await this.takeToken(bucket);
+    return bucket.limiter.schedule(async () => {
+      // Queued before a 429 arrived: wait out the pause like new requests
+      if (bucket.pausedUntil > Date.now()) {
+        await this.acquire(bucket);
+      }
+      // Aborted while queued: give the slot back without sending
+      if (signal?.aborted) throw abortError(signal);
+
+      const start = performance.now();
+      try {
+        const result = await fn(signal);
+        this.recordLatency(bucket, start, result);
+        // The CLOB client returns HTTP errors as `{ error, status }` instead of throwing
+        if (isRateLimitResponse(result)) {
+          this.throttle(bucket, retryAfterOf(result));
+        }
+        return result;
+      } catch (error) {
+        this.recordLatency(bucket, start, error);
+        if (isRateLimitResponse(error)) {
+          this.throttle(bucket, retryAfterOf(error));
+        }
+        throw error;
+      }
+    });
+  }
+
+  private recordLatency(bucket: Bucket, start: number, outcome: unknown): void {
+    const failure = classifyFailure(outcome, this.policies[bucket.api]);
+    this.telemetry.recordHistogram(TELEMETRY_METRICS.HTTP_REQUEST_DURATION, (performance.now() - start) / 1000, {
+      api: bucket.api,
+      endpoint: bucket.endpoint,
+      outcome: !failure ? 'ok' : failure.status === 429 ? 'rate_limited' : 'error',
+    });
+  }
+
+  private getBucket(api: ApiType, endpoint?: ClobEndpoint): Bucket | undefined {
+    return (endpoint && this.buckets.get(bucketKey(api, endpoint))) || this.buckets.get(api);
+  }
+
+  /**
+   * Wait for the bucket's pause to end and, while throttled, for the next
+   * slot at the reduced rate. Free while the bucket is at full limits;
+   * Bottleneck enforces those.
+   */
+  private async acquire(bucket: Bucket): Promise<void> {
+    const now = Date.now();
+    const factor = this.currentFactor(bucket, now);
+    if (factor >= 1 && bucket.pausedUntil <= now) return;
+
+    const start = Math.max(now, bucket.pausedUntil, bucket.nextSlot);
+    bucket.nextSlot = start + (factor < 1 ? bucket.baseIntervalMs / factor : 0);
+    if (start > now) {
+      await sleep(start - now);
+    }
+  }
+
+  /**
+   * Take a token from the store, waiting for the next window while the
+   * bucket's budget is spent. Store failures fall back to local limits.
+   */
+  private async takeToken(bucket: Bucket): Promise<void> {
+    const key = bucketKey(bucket.api, bucket.endpoint);
+    for (;;) {
+      const limit = Math.max(1, Math.floor(bucket.storeLimit * this.currentFactor(bucket, Date.now())));
+      let waitMs: number;
+      try {
+        waitMs = await this.store.take(key, limit, bucket.storeWindowMs);
+      } catch (error) {
+        this.emit('storeError', error);
+        return;
+      }
+      if (waitMs <= 0) return;
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Limit multiplier: the throttled value during the pause, then one
+   * rampStep higher per rampIntervalMs until back to 1
+   */
+  private currentFactor(bucket: Bucket, now: number): number {
+    if (bucket.factor >= 1 || now <= bucket.pausedUntil) return bucket.factor;
+    const steps = Math.floor((now - bucket.pausedUntil) / this.config.rampIntervalMs);
+    return Math.min(1, bucket.factor + steps * this.config.rampStep);
+  }
+
+  /**
+   * Pause the bucket for Retry-After and shrink its rate
+   */
+  private throttle(bucket: Bucket, retryAfterMs?: number): void {
+    if (!this.config.adaptive) return;
+
+    const now = Date.now();
+    bucket.factor = Math.max(this.config.minFactor, this.currentFactor(bucket, now) * this.config.backoffFactor);
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, now + (retryAfterMs ?? this.config.defaultRetryAfterMs));
+    bucket.throttleCount++;
+
+    const event: RateLimitThrottle = {
+      api: bucket.api,
+      endpoint: bucket.endpoint,
+      timestamp: now,
+      retryAfterMs,
+      pausedUntil: bucket.pausedUntil,
+      factor: bucket.factor,
+    };
+    bucket.throttles.push(event);
+    if (bucket.throttles.length > this.config.historySize) {
+      bucket.throttles.shift();
+    }
+
+    this.telemetry.incrementCounter(TELEMETRY_METRICS.RATE_LIMIT_THROTTLES, 1, {
+      api: bucket.api,
+      endpoint: bucket.endpoint,
+    });
+    this.emit('throttled', event);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function bucketKey(api: ApiType, endpoint?: ClobEndpoint): string {
+  return endpoint ? `${api}:${endpoint}` : api;
+}
+
+/**
+ * 429 as a PolymarketError, an axios-style error, or a CLOB client error result
+ */
+function isRateLimitResponse(value: unknown): boolean {
+  if (value instanceof PolymarketError) {
+    return value.code === ErrorCode.RATE_LIMITED;
+  }
+  if (!value || typeof value !== 'object') return false;
+
+  const candidate = value as { status?: unknown; response?: { status?: unknown } };
+  return candidate.status === 429 || candidate.response?.status === 429;
+}
+
+function retryAfterOf(value: unknown): number | undefined {
+  if (value instanceof PolymarketError) {
+    return value.retryAfterMs;
+  }
+
+  const headers = (value as { response?: { headers?: unknown } }).response?.headers;
+  if (!headers || typeof headers !== 'object') return undefined;
+
+  const header = typeof (headers as { get?: unknown }).get === 'function'
+    ? (headers as { get(name: string): unknown }).get('retry-after')
+    : (headers as Record<string, unknown>)['retry-after'];
+  return typeof header === 'string' ? parseRetryAfter(header) : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
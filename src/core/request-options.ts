@@ -0,0 +1,123 @@
+/**
+ * Per-call cancellation and timeouts
+ *
+ * Client methods take a `RequestOptions` bag that RateLimiter.execute()
+ * turns into one AbortSignal for the whole call: it aborts queued work
+ * before it takes a slot, the retry backoff, and the in-flight fetch.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const trades = await sdk.dataApi.getTrades({ limit: 100 }, {
+ *   signal: controller.signal,
+ *   timeoutMs: 5_000,
+ * });
+ * ```
+ */
+
+import { ErrorCode, PolymarketError } from './errors.js';
+
+export interface RequestOptions {
+  /** Cancels the call; it rejects with ErrorCode.ABORTED */
+  signal?: AbortSignal;
+  /** Deadline for the whole call, including queueing and retries; it rejects with ErrorCode.TIMEOUT */
+  timeoutMs?: number;
+}
+
+export interface CallSignal {
+  signal?: AbortSignal;
+  /** Clear the timeout timer and detach from the caller's signal */
+  dispose(): void;
+}
+
+/**
+ * Combine the caller's signal and timeout into one signal (undefined if neither is set)
+ */
+export function createCallSignal(options: RequestOptions = {}): CallSignal {
+  const { signal, timeoutMs } = options;
+  if (!signal && timeoutMs === undefined) {
+    return { dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortError(signal!));
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = timeoutMs === undefined
+    ? undefined
+    : setTimeout(() => {
+        controller.abort(new PolymarketError(ErrorCode.TIMEOUT, `Request timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * The error an aborted call rejects with: the signal's reason if it is a
+ * PolymarketError (e.g. a TIMEOUT), else ABORTED
+ */
+export function abortError(signal: AbortSignal): PolymarketError {
+  const reason: unknown = signal.reason;
+  if (reason instanceof PolymarketError) return reason;
+  return new PolymarketError(
+    ErrorCode.ABORTED,
+    'Request aborted',
+    false,
+    reason instanceof Error ? reason : undefined
+  );
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(abortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Run a request that does not go through RateLimiter under the caller's
+ * signal and deadline
+ */
+export async function withRequestOptions<T>(
+  options: RequestOptions,
+  fn: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  const call = createCallSignal(options);
+  try {
+    return await raceAbort(fn(call.signal), call.signal);
+  } catch (error) {
+    if (call.signal?.aborted) throw abortError(call.signal);
+    throw error;
+  } finally {
+    call.dispose();
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * Declarative schemas for raw API payloads
+ *
+ * Data API, CLOB orderbook and Subgraph schemas list every field the
+ * endpoint returns (Subgraph: every field the SDK's queries select), so new
+ * fields show up as drift. Gamma and CLOB market payloads are wide and
+ * change often; their schemas only declare the fields the SDK reads.
+ */
+
+import { ApiType } from './rate-limiter.js';
+import { defineSchema } from './schema.js';
+
+// Fields shared by trade-like Data API payloads
+const DATA_API_MARKET_FIELDS = {
+  proxyWallet: 'string',
+  asset: 'string',
+  conditionId: 'string',
+  title: 'string?',
+  slug: 'string?',
+  icon: 'string?',
+  eventSlug: 'string?',
+  outcome: 'string?',
+  outcomeIndex: 'number?',
+};
+
+const DATA_API_PROFILE_FIELDS = {
+  name: 'string?',
+  pseudonym: 'string?',
+  bio: 'string?',
+  profileImage: 'string?',
+  profileImageOptimized: 'string?',
+};
+
+export const DATA_API_SCHEMAS = {
+  position: defineSchema('position', ApiType.DATA_API, {
+    ...DATA_API_MARKET_FIELDS,
+    size: 'number',
+    avgPrice: 'number',
+    initialValue: 'number?',
+    currentValue: 'number?',
+    cashPnl: 'number?',
+    percentPnl: 'number?',
+    totalBought: 'number?',
+    realizedPnl: 'number?',
+    percentRealizedPnl: 'number?',
+    curPrice: 'number?',
+    redeemable: 'boolean?',
+    mergeable: 'boolean?',
+    eventId: 'string|number?',
+    oppositeOutcome: 'string?',
+    oppositeAsset: 'string?',
+    endDate: 'string?',
+    negativeRisk: 'boolean?',
+  }),
+  closedPosition: defineSchema('closedPosition', ApiType.DATA_API, {
+    ...DATA_API_MARKET_FIELDS,
+    avgPrice: 'number',
+    totalBought: 'number?',
+    realizedPnl: 'number',
+    curPrice: 'number?',
+    timestamp: 'number',
+    oppositeOutcome: 'string?',
+    oppositeAsset: 'string?',
+    endDate: 'string?',
+  }),
+  activity: defineSchema('activity', ApiType.DATA_API, {
+    ...DATA_API_MARKET_FIELDS,
+    ...DATA_API_PROFILE_FIELDS,
+    timestamp: 'number',
+    type: 'string',
+    side: 'string?',
+    size: 'number',
+    usdcSize: 'number?',
+    price: 'number?',
+    transactionHash: 'string',
+  }),
+  trade: defineSchema('trade', ApiType.DATA_API, {
+    ...DATA_API_MARKET_FIELDS,
+    ...DATA_API_PROFILE_FIELDS,
+    side: 'string',
+    size: 'number',
+    price: 'number',
+    timestamp: 'number',
+    transactionHash: 'string?',
+  }),
+  leaderboardEntry: defineSchema('leaderboardEntry', ApiType.DATA_API, {
+    rank: 'string|number',
+    proxyWallet: 'string',
+    userName: 'string?',
+    xUsername: 'string?',
+    verifiedBadge: 'boolean?',
+    vol: 'number',
+    pnl: 'number',
+    profileImage: 'string?',
+    positions: 'number|null?',
+    trades: 'number|null?',
+  }),
+  holderGroup: defineSchema('holderGroup', ApiType.DATA_API, {
+    token: 'string',
+    holders: 'array',
+  }),
+  holder: defineSchema('holder', ApiType.DATA_API, {
+    ...DATA_API_PROFILE_FIELDS,
+    proxyWallet: 'string',
+    asset: 'string',
+    amount: 'number',
+    outcomeIndex: 'number',
+    displayUsernamePublic: 'boolean?',
+    value: 'number?',
+  }),
+  accountValue: defineSchema('accountValue', ApiType.DATA_API, {
+    user: 'string',
+    value: 'number',
+  }),
+};
+
+export const GAMMA_SCHEMAS = {
+  market: defineSchema('gammaMarket', ApiType.GAMMA_API, {
+    id: 'string',
+    conditionId: 'string',
+    slug: 'string',
+    question: 'string',
+    description: 'string|null?',
+    outcomes: 'string|array',
+    outcomePrices: 'string|array?',
+    volume: 'string|number?',
+    volume24hr: 'number|string?',
+    volume1wk: 'number|string?',
+    liquidity: 'string|number?',
+    spread: 'number?',
+    oneDayPriceChange: 'number?',
+    oneWeekPriceChange: 'number?',
+    lastTradePrice: 'number?',
+    bestBid: 'number?',
+    bestAsk: 'number?',
+    endDate: 'string?',
+    createdAt: 'string?',
+    startDate: 'string?',
+    acceptingOrdersTimestamp: 'string?',
+    active: 'boolean',
+    closed: 'boolean',
+    image: 'string|null?',
+    icon: 'string|null?',
+    tags: 'string|array?',
+    clobTokenIds: 'string|array?',
+    negRisk: 'boolean?',
+    negRiskMarketID: 'string?',
+    questionID: 'string?',
+    groupItemTitle: 'string?',
+  }, { reportUnexpected: false }),
+  event: defineSchema('gammaEvent', ApiType.GAMMA_API, {
+    id: 'string',
+    slug: 'string',
+    title: 'string',
+    description: 'string|null?',
+    markets: 'array?',
+    startDate: 'string?',
+    endDate: 'string?',
+    image: 'string|null?',
+    negRisk: 'boolean?',
+    negRiskMarketID: 'string?',
+    tags: 'array?',
+  }, { reportUnexpected: false }),
+  tag: defineSchema('gammaTag', ApiType.GAMMA_API, {
+    id: 'string',
+    label: 'string',
+    slug: 'string',
+    createdAt: 'string?',
+    updatedAt: 'string?',
+    publishedAt: 'string?',
+    forceShow: 'boolean?',
+    forceHide: 'boolean?',
+    updatedBy: 'number?',
+    requiresTranslation: 'boolean?',
+  }, { reportUnexpected: false }),
+  series: defineSchema('gammaSeries', ApiType.GAMMA_API, {
+    id: 'string',
+    slug: 'string',
+    title: 'string',
+    ticker: 'string?',
+    seriesType: 'string?',
+    recurrence: 'string?',
+    image: 'string|null?',
+    active: 'boolean?',
+    closed: 'boolean?',
+    archived: 'boolean?',
+    volume: 'number|string?',
+    volume24hr: 'number|string?',
+    liquidity: 'number|string?',
+    startDate: 'string?',
+    events: 'array?',
+    tags: 'array?',
+  }, { reportUnexpected: false }),
+};
+
+export const CLOB_SCHEMAS = {
+  market: defineSchema('clobMarket', ApiType.CLOB_API, {
+    condition_id: 'string',
+    question_id: 'string?',
+    market_slug: 'string',
+    question: 'string',
+    description: 'string?',
+    tokens: 'array',
+    active: 'boolean',
+    closed: 'boolean',
+    accepting_orders: 'boolean',
+    end_date_iso: 'string|null?',
+    neg_risk: 'boolean?',
+    minimum_order_size: 'number|string?',
+    minimum_tick_size: 'number|string?',
+  }, { reportUnexpected: false }),
+  orderbook: defineSchema('orderbook', ApiType.CLOB_API, {
+    market: 'string',
+    asset_id: 'string',
+    timestamp: 'string',
+    hash: 'string',
+    bids: 'array',
+    asks: 'array',
+    min_order_size: 'string?',
+    tick_size: 'string?',
+    neg_risk: 'boolean?',
+    last_trade_price: 'string?',
+  }),
+};
+
+export const SUBGRAPH_SCHEMAS = {
+  userBalance: defineSchema('userBalance', ApiType.SUBGRAPH, {
+    id: 'string',
+    user: 'string',
+    asset: 'string',
+    balance: 'string',
+  }),
+  userPosition: defineSchema('userPosition', ApiType.SUBGRAPH, {
+    id: 'string',
+    user: 'string',
+    tokenId: 'string',
+    amount: 'string',
+    avgPrice: 'string',
+    realizedPnl: 'string',
+    totalBought: 'string',
+  }),
+  condition: defineSchema('condition', ApiType.SUBGRAPH, {
+    id: 'string',
+    positionIds: 'array',
+    payoutNumerators: 'array',
+    payoutDenominator: 'string',
+  }),
+  split: defineSchema('split', ApiType.SUBGRAPH, {
+    id: 'string',
+    timestamp: 'string',
+    stakeholder: 'string',
+    condition: 'string',
+    amount: 'string',
+  }),
+  merge: defineSchema('merge', ApiType.SUBGRAPH, {
+    id: 'string',
+    timestamp: 'string',
+    stakeholder: 'string',
+    condition: 'string',
+    amount: 'string',
+  }),
+  redemption: defineSchema('redemption', ApiType.SUBGRAPH, {
+    id: 'string',
+    timestamp: 'string',
+    redeemer: 'string',
+    condition: 'string',
+    payout: 'string',
+  }),
+  openInterest: defineSchema('openInterest', ApiType.SUBGRAPH, {
+    id: 'string',
+    amount: 'string',
+  }),
+  orderFilledEvent: defineSchema('orderFilledEvent', ApiType.SUBGRAPH, {
+    id: 'string',
+    transactionHash: 'string',
+    timestamp: 'string',
+    orderHash: 'string',
+    maker: 'string',
+    taker: 'string',
+    makerAssetId: 'string',
+    takerAssetId: 'string',
+    makerAmountFilled: 'string',
+    takerAmountFilled: 'string',
+    fee: 'string',
+  }),
+  marketData: defineSchema('marketData', ApiType.SUBGRAPH, {
+    id: 'string',
+    volume: 'string',
+  }),
+};
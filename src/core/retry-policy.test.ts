@@ -0,0 +1,156 @@
+/**
+ * Retry Policy Unit Tests
+ *
+ * Focus: jittered backoff, which failures are retried, and circuit breaker transitions
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DEFAULT_RETRY_POLICY, computeRetryDelay, resolveRetryPolicy, type CircuitStateChange } from './retry-policy.js';
+import { RateLimiter, ApiType, ClobEndpoint } from './rate-limiter.js';
+import { PolymarketError, ErrorCode } from './errors.js';
+import { TradingService } from '../services/trading-service.js';
+import { createUnifiedCache } from './unified-cache.js';
+
+const serverError = () => PolymarketError.fromHttpError(503);
+
+describe('computeRetryDelay', () => {
+  it('should double the cap per attempt and jitter below it', () => {
+    const policy = resolveRetryPolicy(DEFAULT_RETRY_POLICY, { baseDelayMs: 100, maxDelayMs: 300 });
+
+    expect(computeRetryDelay({ ...policy, jitter: false }, 1)).toBe(100);
+    expect(computeRetryDelay({ ...policy, jitter: false }, 2)).toBe(200);
+    expect(computeRetryDelay({ ...policy, jitter: false }, 5)).toBe(300);
+    expect(computeRetryDelay(policy, 2, () => 0.5)).toBe(100);
+  });
+});
+
+describe('RateLimiter retries and circuit breaker', () => {
+  let limiter: RateLimiter;
+  let changes: CircuitStateChange[];
+
+  beforeEach(() => {
+    limiter = new RateLimiter({
+      retryPolicies: {
+        [ApiType.DATA_API]: { baseDelayMs: 1, breaker: { failureThreshold: 3, resetTimeoutMs: 30 } },
+        [ApiType.CLOB_API]: { baseDelayMs: 1 },
+      },
+    });
+    changes = [];
+    limiter.on('circuitStateChange', (c) => changes.push(c));
+  });
+
+  it('should retry retryable failures up to maxAttempts', async () => {
+    let calls = 0;
+    const result = await limiter.execute(ApiType.DATA_API, async () => {
+      if (++calls < 3) throw serverError();
+      return 'ok';
+    });
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+  });
+
+  it('should not retry client errors or order posts', async () => {
+    let calls = 0;
+    await expect(limiter.execute(ApiType.DATA_API, async () => {
+      calls++;
+      throw PolymarketError.fromHttpError(404);
+    })).rejects.toMatchObject({ code: ErrorCode.MARKET_NOT_FOUND });
+    expect(calls).toBe(1);
+
+    calls = 0;
+    const result = await limiter.execute(ApiType.CLOB_API, async () => {
+      calls++;
+      return { error: 'upstream', status: 502 };
+    }, ClobEndpoint.ORDER);
+    expect(result.status).toBe(502);
+    expect(calls).toBe(1);
+  });
+
+  it('should open, fail fast, and close again after a successful trial call', async () => {
+    await expect(limiter.execute(ApiType.DATA_API, () => Promise.reject(serverError()))).rejects.toThrow();
+    expect(limiter.getCircuitState(ApiType.DATA_API)).toBe('open');
+    expect(changes).toEqual([expect.objectContaining({ api: ApiType.DATA_API, from: 'closed', to: 'open', failures: 3 })]);
+
+    let calls = 0;
+    await expect(limiter.execute(ApiType.DATA_API, async () => ++calls)).rejects.toMatchObject({
+      code: ErrorCode.CIRCUIT_OPEN,
+    });
+    expect(calls).toBe(0);
+    // Other APIs are unaffected
+    expect(limiter.getCircuitState(ApiType.GAMMA_API)).toBe('closed');
+
+    await new Promise((r) => setTimeout(r, 40));
+    expect(limiter.getCircuitState(ApiType.DATA_API)).toBe('half-open');
+    await expect(limiter.execute(ApiType.DATA_API, async () => ++calls)).resolves.toBe(1);
+    expect(limiter.getCircuitState(ApiType.DATA_API)).toBe('closed');
+    expect(changes.map((c) => c.to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should count failures reported from mapped CLOB results', () => {
+    const clob = new RateLimiter({ retryPolicies: { [ApiType.CLOB_API]: { breaker: { failureThreshold: 2 } } } });
+    clob.reportResult(ApiType.CLOB_API, { error: 'Bad Request', status: 400 }, ClobEndpoint.CANCEL);
+    clob.reportResult(ApiType.CLOB_API, { error: 'upstream', status: 502 }, ClobEndpoint.CANCEL);
+    expect(clob.getCircuitState(ApiType.CLOB_API)).toBe('closed');
+    clob.reportResult(ApiType.CLOB_API, { error: 'socket hang up' }, ClobEndpoint.CANCEL);
+    expect(clob.getCircuitState(ApiType.CLOB_API)).toBe('open');
+  });
+
+  it('should only treat network errors without a status as transport failures', async () => {
+    let calls = 0;
+    const parseError = () => limiter.execute(ApiType.DATA_API, async () => {
+      calls++;
+      throw new SyntaxError('Unexpected token < in JSON at position 0');
+    });
+    for (let i = 0; i < 3; i++) {
+      await expect(parseError()).rejects.toThrow(SyntaxError);
+    }
+    expect(calls).toBe(3);
+    expect(limiter.getCircuitState(ApiType.DATA_API)).toBe('closed');
+
+    calls = 0;
+    const result = await limiter.execute(ApiType.DATA_API, async () => {
+      if (++calls < 2) throw Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+      return 'ok';
+    });
+    expect(result).toBe('ok');
+    expect(calls).toBe(2);
+  });
+
+  it('should return a failed order result instead of throwing while the CLOB circuit is open', async () => {
+    const clob = new RateLimiter({ retryPolicies: { [ApiType.CLOB_API]: { breaker: { failureThreshold: 1 } } } });
+    clob.reportResult(ApiType.CLOB_API, { error: 'upstream', status: 502 }, ClobEndpoint.ORDER);
+    expect(clob.getCircuitState(ApiType.CLOB_API)).toBe('open');
+
+    const trading = new TradingService(clob, createUnifiedCache(), { privateKey: '0x' + '11'.repeat(32) });
+    const createAndPostOrder = vi.fn();
+    Object.assign(trading as any, { initialized: true, clobClient: { createAndPostOrder } });
+
+    const result = await trading.createLimitOrder({ tokenId: 'token', side: 'BUY', price: 0.5, size: 10 });
+    expect(result).toMatchObject({ success: false, errorCode: ErrorCode.CIRCUIT_OPEN });
+    expect(createAndPostOrder).not.toHaveBeenCalled();
+  });
+
+  it('should not close a half-open CLOB circuit when an order fails in its tick size lookup', async () => {
+    const clob = new RateLimiter({
+      retryPolicies: { [ApiType.CLOB_API]: { maxAttempts: 1, breaker: { failureThreshold: 1, resetTimeoutMs: 20 } } },
+    });
+    clob.reportResult(ApiType.CLOB_API, { error: 'upstream', status: 502 }, ClobEndpoint.ORDER);
+    await new Promise((r) => setTimeout(r, 30));
+    expect(clob.getCircuitState(ApiType.CLOB_API)).toBe('half-open');
+
+    const trading = new TradingService(clob, createUnifiedCache(), { privateKey: '0x' + '11'.repeat(32) });
+    const clobClient = {
+      // The trial call: tick size of an uncached token fails upstream
+      getTickSize: vi.fn(() => Promise.reject(serverError())),
+      getNegRisk: vi.fn(async () => false),
+      createAndPostOrder: vi.fn(),
+    };
+    Object.assign(trading as any, { initialized: true, clobClient });
+
+    const result = await trading.createLimitOrder({ tokenId: 'uncached', side: 'BUY', price: 0.5, size: 10 });
+    expect(result).toMatchObject({ success: false, errorCode: ErrorCode.CIRCUIT_OPEN });
+    expect(clob.getCircuitState(ApiType.CLOB_API)).not.toBe('closed');
+    expect(clobClient.getNegRisk).not.toHaveBeenCalled();
+    expect(clobClient.createAndPostOrder).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Retry policies and circuit breakers per API
+ *
+ * RateLimiter applies these around every request:
+ * - Transient failures (network errors, retryable statuses) are retried with
+ *   exponential backoff and full jitter, honouring Retry-After
+ * - Server-side failures (network errors, 5xx) feed a circuit breaker; once
+ *   it opens, calls fail fast with CIRCUIT_OPEN until a half-open trial
+ *   call succeeds
+ */
+
+import { ErrorCode, PolymarketError } from './errors.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  /** Failures within failureWindowMs that open the circuit (default: 5) */
+  failureThreshold: number;
+  /** Window for counting failures, in ms (default: 30000) */
+  failureWindowMs: number;
+  /** How long the circuit stays open before a trial call, in ms (default: 30000) */
+  resetTimeoutMs: number;
+  /** Concurrent trial calls while half-open (default: 1) */
+  halfOpenMaxCalls: number;
+}
+
+export interface RetryPolicy {
+  /** Attempts per call, including the first (default: 3) */
+  maxAttempts: number;
+  /** Backoff before the second attempt, doubled per attempt, in ms */
+  baseDelayMs: number;
+  /** Backoff cap, in ms */
+  maxDelayMs: number;
+  /** Randomize each backoff between 0 and its cap ("full jitter") (default: true) */
+  jitter: boolean;
+  /** HTTP statuses worth retrying */
+  retryableStatuses: number[];
+  breaker: CircuitBreakerConfig;
+}
+
+/**
+ * Per-API overrides; unset fields keep the defaults
+ */
+export type RetryPolicyOverrides = Partial<Omit<RetryPolicy, 'breaker'>> & {
+  breaker?: Partial<CircuitBreakerConfig>;
+};
+
+export interface CircuitStateChange {
+  /** ApiType the breaker guards */
+  api: string;
+  from: CircuitState;
+  to: CircuitState;
+  timestamp: number;
+  /** Failures counted in the window when the circuit opened */
+  failures: number;
+}
+
+const DEFAULT_BREAKER: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  failureWindowMs: 30_000,
+  resetTimeoutMs: 30_000,
+  halfOpenMaxCalls: 1,
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+  jitter: true,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  breaker: DEFAULT_BREAKER,
+};
+
+export function resolveRetryPolicy(base: RetryPolicy, overrides: RetryPolicyOverrides = {}): RetryPolicy {
+  return {
+    ...base,
+    ...overrides,
+    breaker: { ...base.breaker, ...overrides.breaker },
+  };
+}
+
+/**
+ * Backoff before the attempt after `attempt` (1-based)
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  return policy.jitter ? Math.floor(random() * cap) : cap;
+}
+
+/**
+ * How a failed call (thrown error or CLOB `{ error, status }` result) should be treated
+ */
+export interface FailureClassification {
+  status?: number;
+  /** Worth another attempt */
+  retryable: boolean;
+  /** Counts against the circuit breaker (network errors and 5xx) */
+  breakerFailure: boolean;
+}
+
+// Node / undici / axios codes for a request that never got a response
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ENOTFOUND', 'ETIMEDOUT',
+  'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'ERR_NETWORK',
+]);
+
+/**
+ * Whether an error without an HTTP status came from the transport (socket
+ * errors, DNS, `fetch failed`) rather than from parsing or a bug
+ */
+export function isNetworkError(error: Error): boolean {
+  const codeOf = (e: unknown) => (e && typeof e === 'object' ? (e as { code?: unknown }).code : undefined);
+  for (const code of [codeOf(error), codeOf((error as { cause?: unknown }).cause)]) {
+    if (typeof code === 'string' && (NETWORK_ERROR_CODES.has(code) || code.startsWith('UND_ERR_'))) {
+      return true;
+    }
+  }
+  // fetch() rejects with a bare TypeError when the request cannot be sent
+  return error instanceof TypeError && /fetch failed|failed to fetch|network/i.test(error.message);
+}
+
+/**
+ * Classify a thrown error or returned value; null when it is not a failure
+ */
+export function classifyFailure(value: unknown, policy: RetryPolicy): FailureClassification | null {
+  if (value instanceof PolymarketError) {
+    const status = value.status;
+    const rateLimited = value.code === ErrorCode.RATE_LIMITED || status === 429;
+    if (status !== undefined) {
+      return { status, retryable: policy.retryableStatuses.includes(status), breakerFailure: status >= 500 };
+    }
+    const networkFailure = value.code === ErrorCode.NETWORK_ERROR || value.code === ErrorCode.TIMEOUT;
+    return { retryable: value.retryable || rateLimited, breakerFailure: networkFailure && !rateLimited };
+  }
+
+  if (!value || typeof value !== 'object') return null;
+
+  const candidate = value as { error?: unknown; status?: unknown; response?: { status?: unknown } };
+  const status = typeof candidate.status === 'number'
+    ? candidate.status
+    : typeof candidate.response?.status === 'number' ? candidate.response.status : undefined;
+
+  // Not an error object, and not a CLOB client error result
+  if (!(value instanceof Error) && candidate.error === undefined) return null;
+
+  if (status === undefined) {
+    // CLOB results only omit the status when the request never got a response;
+    // other errors (a JSON SyntaxError, a bug) say nothing about the API's health
+    if (!(value instanceof Error) || isNetworkError(value)) {
+      return { retryable: true, breakerFailure: true };
+    }
+    return { retryable: false, breakerFailure: false };
+  }
+  return { status, retryable: policy.retryableStatuses.includes(status), breakerFailure: status >= 500 };
+}
+
+/**
+ * Closed → open after failureThreshold failures within failureWindowMs;
+ * open → half-open after resetTimeoutMs; half-open → closed on a successful
+ * trial call, or back to open on a failed one.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures: number[] = [];
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+
+  constructor(
+    private config: CircuitBreakerConfig,
+    private onStateChange?: (from: CircuitState, to: CircuitState, failures: number) => void
+  ) {}
+
+  getState(now: number = Date.now()): CircuitState {
+    if (this.state === 'open' && now - this.openedAt >= this.config.resetTimeoutMs) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Reserve a call. False while open, or while half-open with all trial slots taken.
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    const state = this.getState(now);
+    if (state === 'open') return false;
+    if (state === 'half-open') {
+      if (this.halfOpenCalls >= this.config.halfOpenMaxCalls) return false;
+      this.halfOpenCalls++;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.state === 'half-open') {
+      this.failures = [];
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    if (this.state === 'open') return;
+    if (this.state === 'half-open') {
+      this.open(now);
+      return;
+    }
+
+    this.failures.push(now);
+    this.failures = this.failures.filter((t) => now - t < this.config.failureWindowMs);
+    if (this.failures.length >= this.config.failureThreshold) {
+      this.open(now);
+    }
+  }
+
+  /**
+   * Give back a trial slot for a call that neither succeeded nor failed (e.g. a 4xx)
+   */
+  release(): void {
+    if (this.state === 'half-open' && this.halfOpenCalls > 0) {
+      this.halfOpenCalls--;
+    }
+  }
+
+  reset(): void {
+    this.failures = [];
+    if (this.state !== 'closed') this.transition('closed');
+  }
+
+  private open(now: number): void {
+    this.openedAt = now;
+    this.transition('open');
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+    this.halfOpenCalls = 0;
+    this.onStateChange?.(from, to, this.failures.length);
+  }
+}
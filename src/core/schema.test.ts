@@ -0,0 +1,113 @@
+/**
+ * SchemaValidator Unit Tests
+ *
+ * Focus: drift detection, de-duplication and validation modes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SchemaValidator, defineSchema, type SchemaDrift } from './schema.js';
+import { DATA_API_SCHEMAS } from './response-schemas.js';
+import { ApiType } from './rate-limiter.js';
+import { PolymarketError, ErrorCode } from './errors.js';
+
+const schema = defineSchema('thing', ApiType.DATA_API, {
+  id: 'string',
+  price: 'number|string',
+  note: 'string|null?',
+});
+
+function collect(validator: SchemaValidator): SchemaDrift[] {
+  const drifts: SchemaDrift[] = [];
+  validator.on('schemaDrift', (drift: SchemaDrift) => drifts.push(drift));
+  return drifts;
+}
+
+describe('SchemaValidator', () => {
+  it('should accept payloads that match the schema', () => {
+    const validator = new SchemaValidator();
+    const drifts = collect(validator);
+
+    expect(validator.validate(schema, [{ id: 'a', price: 0.5 }, { id: 'b', price: '0.5', note: null }])).toBeNull();
+    expect(validator.validate(schema, null)).toBeNull();
+    expect(drifts).toEqual([]);
+  });
+
+  it('should report unexpected, missing and mistyped fields once', () => {
+    const validator = new SchemaValidator();
+    const drifts = collect(validator);
+    const payload = [{ id: 'a', price: true, feeRate: 0 }, { id: 'b', feeRate: 0 }];
+
+    validator.validate(schema, payload);
+    validator.validate(schema, payload);
+
+    expect(drifts).toHaveLength(1);
+    expect(drifts[0]).toMatchObject({
+      schema: 'thing',
+      api: ApiType.DATA_API,
+      unexpectedFields: ['feeRate'],
+      missingFields: ['price'],
+      typeMismatches: [{ field: 'price', expected: 'number|string', actual: 'boolean' }],
+    });
+    expect(validator.getDriftReports()).toHaveLength(1);
+  });
+
+  it('should only check the first sampleSize list items', () => {
+    const validator = new SchemaValidator({ sampleSize: 1 });
+    expect(validator.validate(schema, [{ id: 'a', price: 1 }, { id: 'b' }])).toBeNull();
+  });
+
+  it('should not report unexpected fields for partial schemas', () => {
+    const validator = new SchemaValidator();
+    const partial = defineSchema('partial', ApiType.GAMMA_API, { id: 'string' }, { reportUnexpected: false });
+    expect(validator.validate(partial, { id: '1', anything: 'else' })).toBeNull();
+  });
+
+  it('should throw INVALID_RESPONSE in strict mode, but not for unexpected fields', () => {
+    const validator = new SchemaValidator({ mode: 'strict' });
+    const drifts = collect(validator);
+
+    expect(validator.validate(schema, { id: 'a', price: 1, extra: 1 })?.unexpectedFields).toEqual(['extra']);
+
+    let error: unknown;
+    try {
+      validator.validate(schema, { price: 1 });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(PolymarketError);
+    expect((error as PolymarketError).code).toBe(ErrorCode.INVALID_RESPONSE);
+    expect((error as PolymarketError).message).toContain('missing id');
+    expect(drifts).toHaveLength(2);
+  });
+
+  it('should skip validation when off', () => {
+    const validator = new SchemaValidator({ mode: 'off' });
+    expect(validator.validate(schema, { nothing: 'matches' })).toBeNull();
+  });
+
+  it('should match a current Data API trade payload', () => {
+    const validator = new SchemaValidator({ mode: 'strict' });
+    const trade = {
+      proxyWallet: '0xabc',
+      side: 'BUY',
+      asset: '123',
+      conditionId: '0xdef',
+      size: 10,
+      price: 0.42,
+      timestamp: 1700000000,
+      title: 'Will it rain?',
+      slug: 'will-it-rain',
+      icon: 'https://example.com/icon.png',
+      eventSlug: 'rain',
+      outcome: 'Yes',
+      outcomeIndex: 0,
+      name: 'trader',
+      pseudonym: 'Quiet-Trader',
+      bio: '',
+      profileImage: '',
+      profileImageOptimized: '',
+      transactionHash: '0x123',
+    };
+    expect(validator.validate(DATA_API_SCHEMAS.trade, [trade])).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Runtime response validation and schema drift detection
+ *
+ * Clients check raw API payloads against declarative schemas (see
+ * response-schemas.ts) before normalizing them. Each schema lists the
+ * fields a payload carries and their JSON types:
+ *
+ * - `'string'`, `'number'`, `'boolean'`, `'object'`, `'array'`, `'null'`
+ * - `'number|string'` accepts either type
+ * - a trailing `?` marks the field optional
+ *
+ * Modes:
+ * - `off`: no validation
+ * - `warn` (default): emit `schemaDrift` and keep going
+ * - `strict`: also throw INVALID_RESPONSE on missing or mistyped fields
+ *   (unexpected fields are reported, never fatal)
+ *
+ * @example
+ * ```typescript
+ * const sdk = new PolymarketSDK({ schemaValidation: 'warn' });
+ * sdk.onSchemaDrift((drift) => {
+ *   console.warn(`${drift.schema}: new fields ${drift.unexpectedFields.join(', ')}`);
+ * });
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import { PolymarketError, ErrorCode } from './errors.js';
+import type { ApiType } from './rate-limiter.js';
+
+export type SchemaValidationMode = 'off' | 'warn' | 'strict';
+
+export type SchemaFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface SchemaField {
+  types: SchemaFieldType[];
+  optional: boolean;
+}
+
+export interface ResponseSchema {
+  name: string;
+  api: ApiType;
+  fields: Record<string, SchemaField>;
+  /** Report fields the schema does not list */
+  reportUnexpected: boolean;
+}
+
+export interface ResponseSchemaOptions {
+  /**
+   * Report fields the schema does not list (default: true).
+   * Turn off for wide payloads where only the fields the SDK reads are declared.
+   */
+  reportUnexpected?: boolean;
+}
+
+/**
+ * Build a schema from compact field specs, e.g. `{ id: 'string', volume: 'number|string?' }`
+ */
+export function defineSchema(
+  name: string,
+  api: ApiType,
+  fields: Record<string, string>,
+  options: ResponseSchemaOptions = {}
+): ResponseSchema {
+  const parsed: Record<string, SchemaField> = {};
+  for (const [field, spec] of Object.entries(fields)) {
+    const optional = spec.endsWith('?');
+    const types = (optional ? spec.slice(0, -1) : spec).split('|') as SchemaFieldType[];
+    parsed[field] = { types, optional };
+  }
+  return { name, api, fields: parsed, reportUnexpected: options.reportUnexpected ?? true };
+}
+
+export interface SchemaTypeMismatch {
+  field: string;
+  expected: string;
+  actual: SchemaFieldType | 'undefined';
+}
+
+/**
+ * Emitted as `schemaDrift` the first time a payload differs from its schema
+ * in a given way
+ */
+export interface SchemaDrift {
+  schema: string;
+  api: ApiType;
+  /** Fields the payload carries that the schema does not list */
+  unexpectedFields: string[];
+  /** Required fields the payload lacks */
+  missingFields: string[];
+  typeMismatches: SchemaTypeMismatch[];
+  timestamp: number;
+}
+
+export interface SchemaValidatorConfig {
+  /** Validation mode (default: 'warn') */
+  mode?: SchemaValidationMode;
+  /** List items checked per response (default: 5) */
+  sampleSize?: number;
+}
+
+export class SchemaValidator extends EventEmitter {
+  private mode: SchemaValidationMode;
+  private sampleSize: number;
+  private reported: Map<string, SchemaDrift> = new Map();
+
+  constructor(config: SchemaValidatorConfig = {}) {
+    super();
+    this.mode = config.mode ?? 'warn';
+    this.sampleSize = config.sampleSize ?? 5;
+  }
+
+  getMode(): SchemaValidationMode {
+    return this.mode;
+  }
+
+  setMode(mode: SchemaValidationMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Check a payload (an object, or a list of objects) against a schema
+   *
+   * @returns The drift found, or null if the payload matches
+   * @throws PolymarketError INVALID_RESPONSE in strict mode on missing or mistyped fields
+   */
+  validate(schema: ResponseSchema, payload: unknown): SchemaDrift | null {
+    if (this.mode === 'off' || payload === null || payload === undefined) return null;
+
+    const items = Array.isArray(payload) ? payload.slice(0, this.sampleSize) : [payload];
+    const unexpected = new Set<string>();
+    const missing = new Set<string>();
+    const mismatches = new Map<string, SchemaTypeMismatch>();
+
+    for (const item of items) {
+      if (!isRecord(item)) {
+        mismatches.set('', { field: '', expected: 'object', actual: typeOf(item) });
+        continue;
+      }
+      for (const [field, spec] of Object.entries(schema.fields)) {
+        const value = item[field];
+        if (value === undefined) {
+          if (!spec.optional) missing.add(field);
+        } else {
+          const actual = typeOf(value);
+          if (!(spec.types as string[]).includes(actual)) {
+            mismatches.set(field, { field, expected: spec.types.join('|'), actual });
+          }
+        }
+      }
+      if (schema.reportUnexpected) {
+        for (const field of Object.keys(item)) {
+          if (!(field in schema.fields)) unexpected.add(field);
+        }
+      }
+    }
+
+    if (unexpected.size === 0 && missing.size === 0 && mismatches.size === 0) return null;
+
+    const drift: SchemaDrift = {
+      schema: schema.name,
+      api: schema.api,
+      unexpectedFields: [...unexpected].sort(),
+      missingFields: [...missing].sort(),
+      typeMismatches: [...mismatches.values()].sort((a, b) => a.field.localeCompare(b.field)),
+      timestamp: Date.now(),
+    };
+
+    const signature = JSON.stringify([drift.schema, drift.unexpectedFields, drift.missingFields, drift.typeMismatches]);
+    if (!this.reported.has(signature)) {
+      this.reported.set(signature, drift);
+      this.emit('schemaDrift', drift);
+    }
+
+    if (this.mode === 'strict' && (drift.missingFields.length > 0 || drift.typeMismatches.length > 0)) {
+      throw new PolymarketError(ErrorCode.INVALID_RESPONSE, describeDrift(drift));
+    }
+    return drift;
+  }
+
+  /**
+   * Distinct drifts reported so far
+   */
+  getDriftReports(): SchemaDrift[] {
+    return [...this.reported.values()];
+  }
+
+  /**
+   * Forget reported drifts so they are emitted again
+   */
+  reset(): void {
+    this.reported.clear();
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): SchemaFieldType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  if (type === 'string' || type === 'number' || type === 'boolean' || type === 'undefined') return type;
+  return 'object';
+}
+
+function describeDrift(drift: SchemaDrift): string {
+  const problems = [
+    ...drift.missingFields.map((field) => `missing ${field}`),
+    ...drift.typeMismatches.map(({ field, expected, actual }) =>
+      `${field || 'payload'} is ${actual}, expected ${expected}`
+    ),
+  ];
+  return `${drift.api} response does not match ${drift.schema} schema: ${problems.join('; ')}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Telemetry Unit Tests
+ *
+ * Focus: Prometheus text output, RateLimiter request metrics and on-chain
+ * transaction tracing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PrometheusTelemetry, TELEMETRY_METRICS, traceTransaction, type TelemetryLogLevel } from './telemetry.js';
+import { RateLimiter, ApiType } from './rate-limiter.js';
+import { PolymarketError, ErrorCode } from './errors.js';
+
+describe('PrometheusTelemetry', () => {
+  it('should render counters with escaped labels', () => {
+    const telemetry = new PrometheusTelemetry();
+    telemetry.incrementCounter(TELEMETRY_METRICS.ORDERS, 1, { event: 'created' });
+    telemetry.incrementCounter(TELEMETRY_METRICS.ORDERS, 2, { event: 'created' });
+    telemetry.incrementCounter('custom_total', 1, { note: 'say "hi"\n', skipped: undefined });
+
+    expect(telemetry.getCounter(TELEMETRY_METRICS.ORDERS, { event: 'created' })).toBe(3);
+    const text = telemetry.metrics();
+    expect(text).toContain('# HELP poly_sdk_orders_total Order lifecycle events');
+    expect(text).toContain('# TYPE poly_sdk_orders_total counter');
+    expect(text).toContain('poly_sdk_orders_total{event="created"} 3');
+    expect(text).toContain('custom_total{note="say \\"hi\\"\\n"} 1');
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const telemetry = new PrometheusTelemetry({ buckets: [0.1, 1] });
+    telemetry.recordHistogram('latency_seconds', 0.05, { api: 'x' });
+    telemetry.recordHistogram('latency_seconds', 0.5, { api: 'x' });
+    telemetry.recordHistogram('latency_seconds', 2, { api: 'x' });
+
+    const lines = telemetry.metrics().split('\n');
+    expect(lines).toContain('# TYPE latency_seconds histogram');
+    expect(lines).toContain('latency_seconds_bucket{api="x",le="0.1"} 1');
+    expect(lines).toContain('latency_seconds_bucket{api="x",le="1"} 2');
+    expect(lines).toContain('latency_seconds_bucket{api="x",le="+Inf"} 3');
+    expect(lines).toContain('latency_seconds_sum{api="x"} 2.55');
+    expect(lines).toContain('latency_seconds_count{api="x"} 3');
+  });
+
+  it('should forward logs and report failed spans', () => {
+    const logs: Array<[TelemetryLogLevel, string]> = [];
+    const telemetry = new PrometheusTelemetry({ logger: (level, message) => logs.push([level, message]) });
+
+    telemetry.log('info', 'hello');
+    const span = telemetry.startSpan('onchain.tx');
+    span.end(new Error('reverted'));
+    span.end();
+
+    expect(logs).toEqual([['info', 'hello'], ['warn', 'onchain.tx failed: reverted']]);
+    expect(telemetry.metrics()).toContain('poly_sdk_span_duration_seconds_count{span="onchain.tx",outcome="error"} 1');
+  });
+});
+
+describe('RateLimiter telemetry', () => {
+  it('should record request latency per API and outcome', async () => {
+    const telemetry = new PrometheusTelemetry();
+    const limiter = new RateLimiter({
+      telemetry,
+      retryPolicies: { [ApiType.GAMMA_API]: { maxAttempts: 1 } },
+    });
+
+    await limiter.execute(ApiType.GAMMA_API, async () => 'ok');
+    await expect(
+      limiter.execute(ApiType.GAMMA_API, () => Promise.reject(new PolymarketError(ErrorCode.API_ERROR, 'boom')))
+    ).rejects.toThrow('boom');
+
+    const text = telemetry.metrics();
+    expect(text).toContain('poly_sdk_http_request_duration_seconds_count{api="gamma-api",outcome="ok"} 1');
+    expect(text).toContain('poly_sdk_http_request_duration_seconds_count{api="gamma-api",outcome="error"} 1');
+    expect(text).toContain('poly_sdk_span_duration_seconds_count{span="http.request",outcome="error"} 1');
+  });
+});
+
+describe('traceTransaction', () => {
+  it('should count confirmed and failed transactions once they settle', async () => {
+    const telemetry = new PrometheusTelemetry();
+    const send = (receipt: Promise<unknown>) => traceTransaction(telemetry, 'approve', { service: 'test' }, async () => ({
+      hash: '0xabc',
+      wait: () => receipt,
+    }));
+
+    const confirmed = await send(Promise.resolve({ status: 1 }));
+    expect(telemetry.getCounter(TELEMETRY_METRICS.ONCHAIN_TRANSACTIONS, { method: 'approve', outcome: 'confirmed' })).toBe(0);
+    await expect(confirmed.wait()).resolves.toEqual({ status: 1 });
+
+    const reverted = await send(Promise.reject(new Error('reverted')));
+    await expect(reverted.wait()).rejects.toThrow('reverted');
+    await expect(traceTransaction(telemetry, 'approve', {}, () => Promise.reject(new Error('rejected by user'))))
+      .rejects.toThrow('rejected by user');
+
+    expect(telemetry.getCounter(TELEMETRY_METRICS.ONCHAIN_TRANSACTIONS, { method: 'approve', outcome: 'confirmed' })).toBe(1);
+    expect(telemetry.getCounter(TELEMETRY_METRICS.ONCHAIN_TRANSACTIONS, { method: 'approve', outcome: 'failed' })).toBe(2);
+  });
+});
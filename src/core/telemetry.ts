@@ -0,0 +1,294 @@
+/**
+ * Telemetry hooks for poly-sdk
+ *
+ * Services report through a pluggable `Telemetry`:
+ * - Structured logs (level, message, attributes)
+ * - Spans around HTTP calls and on-chain transactions
+ * - Counters and histograms (WebSocket messages, reconnects, orders, fills)
+ *
+ * The default is a no-op. `PrometheusTelemetry` keeps the metrics in memory
+ * and renders them in the Prometheus text exposition format.
+ *
+ * @example
+ * ```typescript
+ * const telemetry = new PrometheusTelemetry();
+ * const sdk = new PolymarketSDK({ telemetry });
+ *
+ * http.createServer((req, res) => {
+ *   res.setHeader('Content-Type', PrometheusTelemetry.CONTENT_TYPE);
+ *   res.end(telemetry.metrics());
+ * }).listen(9464);
+ * ```
+ */
+
+export type TelemetryLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type TelemetryAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): void;
+  /** End the span; pass the error if the operation failed */
+  end(error?: unknown): void;
+}
+
+export interface Telemetry {
+  log(level: TelemetryLogLevel, message: string, attributes?: TelemetryAttributes): void;
+  startSpan(name: string, attributes?: TelemetryAttributes): TelemetrySpan;
+  incrementCounter(name: string, value?: number, labels?: TelemetryAttributes): void;
+  recordHistogram(name: string, value: number, labels?: TelemetryAttributes): void;
+}
+
+/**
+ * Metric names reported by the SDK
+ */
+export const TELEMETRY_METRICS = {
+  /** Histogram, seconds; labels: api, endpoint, outcome */
+  HTTP_REQUEST_DURATION: 'poly_sdk_http_request_duration_seconds',
+  /** Counter; labels: api, endpoint */
+  RATE_LIMIT_THROTTLES: 'poly_sdk_rate_limit_throttles_total',
+  /** Counter; labels: channel, topic, type */
+  WS_MESSAGES: 'poly_sdk_ws_messages_total',
+  /** Counter; labels: channel */
+  WS_RECONNECTS: 'poly_sdk_ws_reconnects_total',
+  /** Counter; labels: event (created, rejected, open, filled, cancelled, expired, ...) */
+  ORDERS: 'poly_sdk_orders_total',
+  /** Counter; labels: complete */
+  FILLS: 'poly_sdk_fills_total',
+  /** Counter; labels: method, outcome (confirmed, failed) */
+  ONCHAIN_TRANSACTIONS: 'poly_sdk_onchain_transactions_total',
+  /** Histogram, seconds; labels: span, outcome */
+  SPAN_DURATION: 'poly_sdk_span_duration_seconds',
+} as const;
+
+const METRIC_HELP: Record<string, string> = {
+  [TELEMETRY_METRICS.HTTP_REQUEST_DURATION]: 'HTTP request latency per API',
+  [TELEMETRY_METRICS.RATE_LIMIT_THROTTLES]: '429 responses that throttled a rate limit bucket',
+  [TELEMETRY_METRICS.WS_MESSAGES]: 'WebSocket messages received',
+  [TELEMETRY_METRICS.WS_RECONNECTS]: 'WebSocket reconnects',
+  [TELEMETRY_METRICS.ORDERS]: 'Order lifecycle events',
+  [TELEMETRY_METRICS.FILLS]: 'Order fills',
+  [TELEMETRY_METRICS.ONCHAIN_TRANSACTIONS]: 'On-chain transactions',
+  [TELEMETRY_METRICS.SPAN_DURATION]: 'Span durations',
+};
+
+const NOOP_SPAN: TelemetrySpan = {
+  setAttribute: () => {},
+  end: () => {},
+};
+
+export const noopTelemetry: Telemetry = {
+  log: () => {},
+  startSpan: () => NOOP_SPAN,
+  incrementCounter: () => {},
+  recordHistogram: () => {},
+};
+
+/**
+ * Submit an on-chain transaction and report it as an `onchain.tx` span and an
+ * ONCHAIN_TRANSACTIONS count
+ *
+ * The span covers submission and, once the caller awaits `tx.wait()`,
+ * confirmation; the outcome counter is recorded when the transaction
+ * fails to submit, confirms, or reverts.
+ */
+export async function traceTransaction<T extends { hash: string; wait: (confirmations?: number) => Promise<unknown> }>(
+  telemetry: Telemetry,
+  method: string,
+  attributes: TelemetryAttributes,
+  submit: () => Promise<T>
+): Promise<T> {
+  const span = telemetry.startSpan('onchain.tx', { method, ...attributes });
+  const finish = (error?: unknown) => {
+    telemetry.incrementCounter(TELEMETRY_METRICS.ONCHAIN_TRANSACTIONS, 1, {
+      method,
+      outcome: error === undefined ? 'confirmed' : 'failed',
+    });
+    span.end(error);
+  };
+
+  let tx: T;
+  try {
+    tx = await submit();
+  } catch (error) {
+    finish(error);
+    throw error;
+  }
+  span.setAttribute('hash', tx.hash);
+
+  const wait = tx.wait.bind(tx);
+  tx.wait = (async (confirmations?: number) => {
+    try {
+      const receipt = await wait(confirmations);
+      finish();
+      return receipt;
+    } catch (error) {
+      finish(error);
+      throw error;
+    }
+  }) as T['wait'];
+  return tx;
+}
+
+// ============================================================================
+// Prometheus exporter
+// ============================================================================
+
+export interface PrometheusTelemetryOptions {
+  /** Histogram bucket upper bounds, in the metric's unit (default: 5ms to 10s) */
+  buckets?: number[];
+  /** Receives log calls (default: dropped) */
+  logger?: (level: TelemetryLogLevel, message: string, attributes?: TelemetryAttributes) => void;
+}
+
+interface HistogramSeries {
+  labels: TelemetryAttributes;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class PrometheusTelemetry implements Telemetry {
+  static readonly CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private buckets: number[];
+  private logger?: PrometheusTelemetryOptions['logger'];
+  private counters: Map<string, Map<string, { labels: TelemetryAttributes; value: number }>> = new Map();
+  private histograms: Map<string, Map<string, HistogramSeries>> = new Map();
+
+  constructor(options: PrometheusTelemetryOptions = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    this.logger = options.logger;
+  }
+
+  log(level: TelemetryLogLevel, message: string, attributes?: TelemetryAttributes): void {
+    this.logger?.(level, message, attributes);
+  }
+
+  /**
+   * Spans are exported as SPAN_DURATION observations
+   */
+  startSpan(name: string, attributes: TelemetryAttributes = {}): TelemetrySpan {
+    const start = performance.now();
+    let ended = false;
+    return {
+      setAttribute: () => {},
+      end: (error?: unknown) => {
+        if (ended) return;
+        ended = true;
+        this.recordHistogram(TELEMETRY_METRICS.SPAN_DURATION, (performance.now() - start) / 1000, {
+          span: name,
+          outcome: error === undefined ? 'ok' : 'error',
+        });
+        if (error !== undefined) {
+          this.log('warn', `${name} failed: ${error instanceof Error ? error.message : String(error)}`, attributes);
+        }
+      },
+    };
+  }
+
+  incrementCounter(name: string, value = 1, labels: TelemetryAttributes = {}): void {
+    const series = this.getSeries(this.counters, name);
+    const key = labelKey(labels);
+    const entry = series.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      series.set(key, { labels, value });
+    }
+  }
+
+  recordHistogram(name: string, value: number, labels: TelemetryAttributes = {}): void {
+    const series = this.getSeries(this.histograms, name);
+    const key = labelKey(labels);
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      series.set(key, entry);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) entry.buckets[i]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /**
+   * Current value of a counter series (0 if never incremented)
+   */
+  getCounter(name: string, labels: TelemetryAttributes = {}): number {
+    return this.counters.get(name)?.get(labelKey(labels))?.value ?? 0;
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  metrics(): string {
+    const lines: string[] = [];
+
+    for (const [name, series] of this.counters) {
+      pushHeader(lines, name, 'counter');
+      for (const { labels, value } of series.values()) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+    }
+
+    for (const [name, series] of this.histograms) {
+      pushHeader(lines, name, 'histogram');
+      for (const entry of series.values()) {
+        this.buckets.forEach((bound, i) => {
+          lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: String(bound) })} ${entry.buckets[i]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: '+Inf' })} ${entry.count}`);
+        lines.push(`${name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+        lines.push(`${name}_count${formatLabels(entry.labels)} ${entry.count}`);
+      }
+    }
+
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+  }
+
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  private getSeries<T>(store: Map<string, Map<string, T>>, name: string): Map<string, T> {
+    let series = store.get(name);
+    if (!series) {
+      series = new Map();
+      store.set(name, series);
+    }
+    return series;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function definedLabels(labels: TelemetryAttributes): [string, string][] {
+  return Object.entries(labels)
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+    .map(([key, value]) => [key, String(value)]);
+}
+
+function labelKey(labels: TelemetryAttributes): string {
+  return JSON.stringify(definedLabels(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: TelemetryAttributes): string {
+  const pairs = definedLabels(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function pushHeader(lines: string[], name: string, type: 'counter' | 'histogram'): void {
+  const help = METRIC_HELP[name];
+  if (help) lines.push(`# HELP ${name} ${help}`);
+  lines.push(`# TYPE ${name} ${type}`);
+}
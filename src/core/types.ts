@@ -3,6 +3,9 @@
  */
 
 import type { CacheAdapter } from '@catalyst-team/cache';
+import type { RateLimiterConfig } from './rate-limiter.js';
+import type { Telemetry } from './telemetry.js';
+import type { SchemaValidationMode } from './schema.js';
 
 // ===== Basic Trading Types =====
 
@@ -20,6 +23,20 @@ export type Side = 'BUY' | 'SELL';
  */
 export type OrderType = 'GTC' | 'FOK' | 'GTD' | 'FAK';
 
+/**
+ * Order signature type - who holds the funds the signer trades for
+ * - EOA: the signing wallet itself holds the funds
+ * - POLY_PROXY: a Polymarket proxy wallet (email / Magic login) holds the funds
+ * - POLY_GNOSIS_SAFE: a Gnosis Safe (browser wallet login) holds the funds
+ *
+ * Values match the `signatureType` field of CLOB orders.
+ */
+export enum SignatureType {
+  EOA = 0,
+  POLY_PROXY = 1,
+  POLY_GNOSIS_SAFE = 2,
+}
+
 /**
  * ============================================================================
  * Order Status - Internal State Management
@@ -240,6 +257,12 @@ export interface PolySDKOptions {
    */
   cache?: CacheAdapter;
 
+  /**
+   * Max entries in the built-in memory cache, evicting least recently used
+   * (default: unbounded). Ignored when `cache` is provided.
+   */
+  cacheMaxEntries?: number;
+
   /**
    * Blockchain chain ID (default: 137 for Polygon mainnet)
    */
@@ -258,6 +281,96 @@ export interface PolySDKOptions {
     secret: string;
     passphrase: string;
   };
+
+  /**
+   * Who holds the trading funds (default: EOA). Set POLY_PROXY or
+   * POLY_GNOSIS_SAFE together with `funderAddress` to trade a Polymarket
+   * proxy wallet or Safe with its owner's private key.
+   */
+  signatureType?: SignatureType;
+
+  /**
+   * Proxy wallet / Safe address holding the funds
+   */
+  funderAddress?: string;
+
+  /**
+   * Endpoint overrides (staging, CI, recorded-fixture servers).
+   * Unset entries fall back to the production Polymarket endpoints.
+   */
+  endpoints?: PolymarketEndpoints;
+
+  /**
+   * How the rate limiter reacts to 429s (backoff, Retry-After pauses, ramp-up)
+   */
+  rateLimit?: RateLimiterConfig;
+
+  /**
+   * Structured logs, spans and metrics from HTTP calls, WebSocket messages,
+   * order lifecycle and on-chain transactions (default: no-op).
+   * Use PrometheusTelemetry for a built-in metrics exporter.
+   */
+  telemetry?: Telemetry;
+
+  /**
+   * Run sdk.cacheSync while connected (default: false). It subscribes to
+   * lifecycle events for every market so resolutions drop cached data.
+   */
+  cacheSync?: boolean;
+
+  /**
+   * Check Data API, Gamma, CLOB and Subgraph responses against the SDK's
+   * schemas (default: 'warn'). Drift is reported through sdk.onSchemaDrift();
+   * 'strict' also rejects responses with missing or mistyped fields.
+   */
+  schemaValidation?: SchemaValidationMode;
+}
+
+/**
+ * Endpoint registry for every remote service the SDK talks to
+ *
+ * All fields are optional; each client falls back to its production
+ * default for anything not overridden.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new PolymarketSDK({
+ *   endpoints: {
+ *     dataApi: 'http://localhost:4001',
+ *     gammaApi: 'http://localhost:4002',
+ *     clob: 'http://localhost:4003',
+ *     subgraphs: { pnl: 'http://localhost:4004/pnl' },
+ *     ws: { market: 'ws://localhost:4005/ws/market' },
+ *   },
+ * });
+ * ```
+ */
+export interface PolymarketEndpoints {
+  /** Data API (default: https://data-api.polymarket.com) */
+  dataApi?: string;
+  /** Gamma API (default: https://gamma-api.polymarket.com) */
+  gammaApi?: string;
+  /** CLOB REST API (default: https://clob.polymarket.com) */
+  clob?: string;
+  /** Binance REST API (default: https://api.binance.com) */
+  binance?: string;
+  /** Goldsky subgraph endpoints, per subgraph (defaults: SUBGRAPH_ENDPOINTS) */
+  subgraphs?: {
+    positions?: string;
+    pnl?: string;
+    activity?: string;
+    oi?: string;
+    orderbook?: string;
+  };
+  /** WebSocket endpoints (defaults: WS_ENDPOINTS) */
+  ws?: {
+    /** CLOB market channel */
+    market?: string;
+    /** CLOB user channel */
+    user?: string;
+    /** Live data (crypto prices) */
+    liveData?: string;
+  };
 }
 
 // K-Line interval types
@@ -589,6 +702,79 @@ export interface UnifiedMarket {
   source: 'gamma' | 'clob' | 'merged';
 }
 
+/**
+ * Outcome token of an event market, with live top of book
+ */
+export interface EventMarketToken extends MarketToken {
+  /** Best bid (null when the book has no bids) */
+  bestBid: number | null;
+  /** Best ask (null when the book has no asks) */
+  bestAsk: number | null;
+  /** Mid of best bid/ask; falls back to the Gamma price when a side is empty */
+  midpoint: number;
+}
+
+/**
+ * Child market of a UnifiedEvent
+ */
+export interface UnifiedEventMarket {
+  conditionId: string;
+  slug: string;
+  question: string;
+  /** Short outcome label within the event (e.g. a candidate name) */
+  groupItemTitle?: string;
+  /** Outcome tokens in CLOB order (tokens[0] = Yes/primary) */
+  tokens: EventMarketToken[];
+  negRisk: boolean;
+  /**
+   * Implied probability of the primary outcome (tokens[0].midpoint)
+   */
+  impliedProbability: number;
+  volume: number;
+  liquidity: number;
+  active: boolean;
+  closed: boolean;
+  endDate: Date;
+}
+
+/**
+ * Multi-market event with every child market's tokens and top of book
+ *
+ * @example
+ * ```typescript
+ * const event = await sdk.markets.getEvent('presidential-election-winner-2028');
+ * for (const m of event.markets) {
+ *   console.log(`${m.groupItemTitle}: ${(m.impliedProbability * 100).toFixed(1)}%`);
+ * }
+ * console.log(`Overround: ${event.overround.toFixed(3)}`);
+ * ```
+ */
+export interface UnifiedEvent {
+  /** Gamma event ID */
+  id: string;
+  slug: string;
+  title: string;
+  description?: string;
+  /** Exactly one child market resolves YES */
+  negRisk: boolean;
+  negRiskMarketId?: string;
+  markets: UnifiedEventMarket[];
+  /**
+   * Sum of YES midpoints across open markets.
+   * For neg-risk events, anything above 1 is the book's overround (vig).
+   */
+  overround: number;
+  /**
+   * True when the CLOB books could not be fetched: every midpoint is then the
+   * Gamma price and every best bid/ask is null
+   */
+  degraded: boolean;
+  startDate?: Date;
+  endDate?: Date;
+  /** When the books were fetched (Unix ms) */
+  timestamp: number;
+}
+
 // ===== Binary Token Helpers =====
 
 /**
@@ -0,0 +1,139 @@
+/**
+ * UnifiedCache Unit Tests
+ *
+ * Focus: single-flight getOrSet, stale-while-revalidate and the LRU cap,
+ * for both the legacy Cache and CacheAdapter wrappers
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { CacheAdapter } from '@catalyst-team/cache';
+import { Cache } from './cache.js';
+import { LegacyCacheWrapper, CacheAdapterWrapper, type UnifiedCache } from './unified-cache.js';
+
+/** Minimal CacheAdapter with second TTLs */
+class MapAdapter implements CacheAdapter {
+  private store = new Map<string, { value: unknown; expiresAt: number }>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.store.get(key);
+    if (!entry || Date.now() > entry.expiresAt) return null;
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttl = 60): Promise<void> {
+    this.store.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+  }
+
+  async del(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.get(key)) !== null;
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+}
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+describe.each([
+  ['LegacyCacheWrapper', () => new LegacyCacheWrapper(new Cache())],
+  ['CacheAdapterWrapper', () => new CacheAdapterWrapper(new MapAdapter())],
+])('%s', (_name, create: () => UnifiedCache) => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run one factory for concurrent misses', async () => {
+    const cache = create();
+    const gate = deferred<string>();
+    const factory = vi.fn(() => gate.promise);
+
+    const results = Promise.all([1, 2, 3].map(() => cache.getOrSet('k', 5000, factory)));
+    gate.resolve('v');
+
+    expect(await results).toEqual(['v', 'v', 'v']);
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(await cache.get('k')).toBe('v');
+  });
+
+  it('should not cache a failed factory', async () => {
+    const cache = create();
+    await expect(cache.getOrSet('k', 5000, () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(await cache.getOrSet('k', 5000, async () => 'v')).toBe('v');
+  });
+
+  it('should serve stale values while one background refresh runs', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = create();
+    const options = { staleWhileRevalidateMs: 10_000 };
+
+    expect(await cache.getOrSet('k', 1000, async () => 'v1', options)).toBe('v1');
+
+    vi.setSystemTime(Date.now() + 2000);
+    const gate = deferred<string>();
+    const refresh = vi.fn(() => gate.promise);
+    expect(await cache.getOrSet('k', 1000, refresh, options)).toBe('v1');
+    expect(await cache.getOrSet('k', 1000, refresh, options)).toBe('v1');
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    gate.resolve('v2');
+    await gate.promise;
+    await new Promise((r) => setImmediate(r));
+    expect(await cache.getOrSet('k', 1000, refresh, options)).toBe('v2');
+    expect(await cache.get('k')).toBe('v2');
+  });
+
+  it('should drop in-flight results when invalidated', async () => {
+    const cache = create();
+    const gate = deferred<string>();
+    const factory = vi.fn(() => gate.promise);
+    const pending = cache.getOrSet('market:0xabc', 5000, factory);
+    await vi.waitFor(() => expect(factory).toHaveBeenCalled());
+
+    cache.clear();
+    gate.resolve('old');
+    expect(await pending).toBe('old');
+    expect(await cache.get('market:0xabc')).toBeUndefined();
+  });
+
+  it('should only drop in-flight results of the deleted key', async () => {
+    const cache = create();
+    const gates = { a: deferred<string>(), b: deferred<string>() };
+    const factoryA = vi.fn(() => gates.a.promise);
+    const factoryB = vi.fn(() => gates.b.promise);
+    const pendingA = cache.getOrSet('market:a', 5000, factoryA);
+    const pendingB = cache.getOrSet('market:b', 5000, factoryB);
+    await vi.waitFor(() => expect(factoryB).toHaveBeenCalled());
+
+    await cache.delete('market:a');
+    gates.a.resolve('old-a');
+    gates.b.resolve('b');
+    await Promise.all([pendingA, pendingB]);
+
+    expect(await cache.get('market:a')).toBeUndefined();
+    expect(await cache.get('market:b')).toBe('b');
+  });
+});
+
+describe('Cache LRU cap', () => {
+  it('should evict the least recently used entry', () => {
+    const cache = new Cache({ maxEntries: 2 });
+    cache.set('a', 1, 5000);
+    cache.set('b', 2, 5000);
+    cache.get('a');
+    cache.set('c', 3, 5000);
+
+    expect(cache.size()).toBe(2);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+  });
+});
@@ -7,54 +7,189 @@
  *
  * This allows the SDK to accept external cache adapters while maintaining
  * backward compatibility with existing code.
+ *
+ * Both wrappers share getOrSet semantics:
+ * - Single-flight: concurrent misses for a key run the factory once
+ * - Stale-while-revalidate (opt-in per call): an expired value is served
+ *   while one background refresh replaces it
  */
 
 import type { CacheAdapter } from '@catalyst-team/cache';
 import { Cache, CACHE_TTL } from './cache.js';
 
+export interface GetOrSetOptions {
+  /**
+   * Keep serving the value for this long after ttlMs while a background
+   * refresh runs. A failed refresh keeps the stale value until it runs out.
+   */
+  staleWhileRevalidateMs?: number;
+}
+
 /**
  * Unified cache interface that works with both legacy Cache and CacheAdapter
  *
  * Key features:
  * - Async API (compatible with CacheAdapter)
  * - Millisecond TTL (compatible with existing SDK code)
- * - getOrSet helper for cache-aside pattern
+ * - getOrSet helper for cache-aside pattern, with single-flight factories
+ *   and optional stale-while-revalidate
  */
 export interface UnifiedCache {
   get<T>(key: string): Promise<T | undefined>;
   set<T>(key: string, value: T, ttlMs: number): Promise<void>;
-  getOrSet<T>(key: string, ttlMs: number, factory: () => Promise<T>): Promise<T>;
+  getOrSet<T>(key: string, ttlMs: number, factory: () => Promise<T>, options?: GetOrSetOptions): Promise<T>;
+  delete(key: string): Promise<void>;
   invalidate(pattern: string): Promise<void>;
   clear(): void;
 }
 
 /**
- * Wraps the legacy Cache class to provide async interface
+ * Value stored by stale-while-revalidate getOrSet calls: the backing cache
+ * keeps it for ttl + stale window, staleAt marks where the ttl ends
+ */
+interface SwrEnvelope<T> {
+  __swr: true;
+  value: T;
+  staleAt: number;
+}
+
+function isSwrEnvelope(value: unknown): value is SwrEnvelope<unknown> {
+  return typeof value === 'object' && value !== null && (value as { __swr?: unknown }).__swr === true;
+}
+
+/**
+ * A running getOrSet factory. `discarded` is set when its key is deleted,
+ * invalidated or cleared, so it doesn't write back an outdated value.
+ */
+interface InflightLoad {
+  promise: Promise<unknown>;
+  discarded: boolean;
+}
+
+/**
+ * getOrSet on top of raw get/set, shared by both wrappers
  */
-export class LegacyCacheWrapper implements UnifiedCache {
-  constructor(private cache: Cache) {}
+abstract class CoalescingCache implements UnifiedCache {
+  private inflight: Map<string, InflightLoad> = new Map();
+
+  protected abstract getRaw(key: string): Promise<unknown>;
+  protected abstract setRaw(key: string, value: unknown, ttlMs: number): Promise<void>;
+  protected abstract deleteRaw(key: string): Promise<void>;
+  protected abstract invalidateRaw(pattern: string): Promise<void>;
+  protected abstract clearRaw(): void;
 
   async get<T>(key: string): Promise<T | undefined> {
-    return this.cache.get<T>(key);
+    const raw = await this.getRaw(key);
+    return (isSwrEnvelope(raw) ? raw.value : raw) as T | undefined;
   }
 
   async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
-    this.cache.set(key, value, ttlMs);
+    await this.setRaw(key, value, ttlMs);
   }
 
   async getOrSet<T>(
     key: string,
     ttlMs: number,
-    factory: () => Promise<T>
+    factory: () => Promise<T>,
+    options: GetOrSetOptions = {}
   ): Promise<T> {
-    return this.cache.getOrSet(key, ttlMs, factory);
+    const raw = await this.getRaw(key);
+    if (raw !== undefined) {
+      if (!isSwrEnvelope(raw)) return raw as T;
+      if (Date.now() >= raw.staleAt) {
+        // Background refresh; its errors leave the stale value in place
+        this.load(key, ttlMs, factory, options).catch(() => {});
+      }
+      return raw.value as T;
+    }
+    return this.load(key, ttlMs, factory, options);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.discard(key);
+    await this.deleteRaw(key);
   }
 
   async invalidate(pattern: string): Promise<void> {
-    this.cache.invalidate(pattern);
+    for (const key of this.inflight.keys()) {
+      if (key.includes(pattern)) this.discard(key);
+    }
+    await this.invalidateRaw(pattern);
   }
 
   clear(): void {
+    for (const key of this.inflight.keys()) {
+      this.discard(key);
+    }
+    this.clearRaw();
+  }
+
+  /**
+   * Drop the key's running factory; loads of other keys still write back
+   */
+  private discard(key: string): void {
+    const load = this.inflight.get(key);
+    if (load) {
+      load.discarded = true;
+      this.inflight.delete(key);
+    }
+  }
+
+  /**
+   * Run the factory once per key at a time and store its result
+   */
+  private load<T>(key: string, ttlMs: number, factory: () => Promise<T>, options: GetOrSetOptions): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending.promise as Promise<T>;
+
+    const load: InflightLoad = { promise: Promise.resolve(), discarded: false };
+    const promise = factory()
+      .then(async (value) => {
+        if (!load.discarded) {
+          const swrMs = options.staleWhileRevalidateMs ?? 0;
+          if (swrMs > 0) {
+            const envelope: SwrEnvelope<T> = { __swr: true, value, staleAt: Date.now() + ttlMs };
+            await this.setRaw(key, envelope, ttlMs + swrMs);
+          } else {
+            await this.setRaw(key, value, ttlMs);
+          }
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === load) this.inflight.delete(key);
+      });
+    load.promise = promise;
+    this.inflight.set(key, load);
+    return promise;
+  }
+}
+
+/**
+ * Wraps the legacy Cache class to provide async interface
+ */
+export class LegacyCacheWrapper extends CoalescingCache {
+  constructor(private cache: Cache) {
+    super();
+  }
+
+  protected async getRaw(key: string): Promise<unknown> {
+    return this.cache.get(key);
+  }
+
+  protected async setRaw(key: string, value: unknown, ttlMs: number): Promise<void> {
+    this.cache.set(key, value, ttlMs);
+  }
+
+  protected async deleteRaw(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+
+  protected async invalidateRaw(pattern: string): Promise<void> {
+    this.cache.invalidate(pattern);
+  }
+
+  protected clearRaw(): void {
     this.cache.clear();
   }
 }
@@ -68,15 +203,17 @@ export class LegacyCacheWrapper implements UnifiedCache {
  * - Implements getOrSet helper
  * - Implements pattern-based invalidation (limited support)
  */
-export class CacheAdapterWrapper implements UnifiedCache {
-  constructor(private adapter: CacheAdapter) {}
+export class CacheAdapterWrapper extends CoalescingCache {
+  constructor(private adapter: CacheAdapter) {
+    super();
+  }
 
-  async get<T>(key: string): Promise<T | undefined> {
-    const value = await this.adapter.get<T>(key);
+  protected async getRaw(key: string): Promise<unknown> {
+    const value = await this.adapter.get(key);
     return value ?? undefined;
   }
 
-  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+  protected async setRaw(key: string, value: unknown, ttlMs: number): Promise<void> {
     // Convert milliseconds to seconds
     const ttlSeconds = Math.ceil(ttlMs / 1000);
 
@@ -90,29 +227,11 @@ export class CacheAdapterWrapper implements UnifiedCache {
     }
   }
 
-  async getOrSet<T>(
-    key: string,
-    ttlMs: number,
-    factory: () => Promise<T>
-  ): Promise<T> {
-    const cached = await this.adapter.get<T>(key);
-    if (cached !== null) return cached;
-
-    const value = await factory();
-    const ttlSeconds = Math.ceil(ttlMs / 1000);
-
-    // Check if this is a CacheManager
-    if ('getStats' in this.adapter) {
-      // This is a CacheManager
-      await (this.adapter as any).set(key, value, { ttl: ttlSeconds });
-    } else {
-      // This is a regular CacheAdapter
-      await this.adapter.set(key, value, ttlSeconds);
-    }
-    return value;
+  protected async deleteRaw(key: string): Promise<void> {
+    await this.adapter.del(key);
   }
 
-  async invalidate(pattern: string): Promise<void> {
+  protected async invalidateRaw(pattern: string): Promise<void> {
     // CacheAdapter doesn't have pattern matching
     // Best we can do is warn - this is a limitation
     console.warn(
@@ -120,7 +239,7 @@ export class CacheAdapterWrapper implements UnifiedCache {
     );
   }
 
-  clear(): void {
+  protected clearRaw(): void {
     void this.adapter.clear?.();
   }
 }
@@ -129,11 +248,12 @@ export class CacheAdapterWrapper implements UnifiedCache {
  * Create a UnifiedCache from either legacy Cache or CacheAdapter
  */
 export function createUnifiedCache(
-  cache?: CacheAdapter | Cache
+  cache?: CacheAdapter | Cache,
+  options: { maxEntries?: number } = {}
 ): UnifiedCache {
   if (!cache) {
     // No cache provided, create default legacy cache
-    return new LegacyCacheWrapper(new Cache());
+    return new LegacyCacheWrapper(new Cache({ maxEntries: options.maxEntries }));
   }
 
   // Check if it's a CacheAdapter (has async get method)
@@ -0,0 +1,229 @@
+/**
+ * Stable column schemas for history exports
+ *
+ * Column names are snake_case and their order is fixed, so files from
+ * different runs (and formats) line up. New columns are only ever appended.
+ * Timestamps are Unix ms; prices are decimal (0-1) and sizes are in shares
+ * or USDC, including subgraph amounts, which arrive in 6-decimal base units.
+ */
+
+import type { Activity, ClosedPosition, MarketHolder, Position, Trade } from '../clients/data-api.js';
+import type { OrderFilledEvent } from '../clients/subgraph.js';
+import type { ExportColumn, ExportColumnType, ExportRecordType, ExportRow } from './types.js';
+
+const USDC_DECIMALS = 1e6;
+
+function columns(spec: Record<string, ExportColumnType>): ExportColumn[] {
+  return Object.entries(spec).map(([name, type]) => ({ name, type }));
+}
+
+export const EXPORT_COLUMNS: Record<ExportRecordType, ExportColumn[]> = {
+  trades: columns({
+    timestamp: 'timestamp',
+    transaction_hash: 'string',
+    proxy_wallet: 'string',
+    condition_id: 'string',
+    asset: 'string',
+    outcome: 'string',
+    outcome_index: 'integer',
+    side: 'string',
+    price: 'number',
+    size: 'number',
+    usdc_size: 'number',
+    title: 'string',
+    slug: 'string',
+  }),
+  activity: columns({
+    timestamp: 'timestamp',
+    transaction_hash: 'string',
+    proxy_wallet: 'string',
+    type: 'string',
+    condition_id: 'string',
+    asset: 'string',
+    outcome: 'string',
+    outcome_index: 'integer',
+    side: 'string',
+    price: 'number',
+    size: 'number',
+    usdc_size: 'number',
+    title: 'string',
+    slug: 'string',
+  }),
+  positions: columns({
+    snapshot_at: 'timestamp',
+    proxy_wallet: 'string',
+    condition_id: 'string',
+    asset: 'string',
+    outcome: 'string',
+    outcome_index: 'integer',
+    size: 'number',
+    avg_price: 'number',
+    cur_price: 'number',
+    initial_value: 'number',
+    current_value: 'number',
+    cash_pnl: 'number',
+    percent_pnl: 'number',
+    realized_pnl: 'number',
+    total_bought: 'number',
+    redeemable: 'boolean',
+    mergeable: 'boolean',
+    end_date: 'string',
+    title: 'string',
+    slug: 'string',
+  }),
+  closedPositions: columns({
+    timestamp: 'timestamp',
+    proxy_wallet: 'string',
+    condition_id: 'string',
+    asset: 'string',
+    outcome: 'string',
+    outcome_index: 'integer',
+    avg_price: 'number',
+    total_bought: 'number',
+    realized_pnl: 'number',
+    cur_price: 'number',
+    end_date: 'string',
+    title: 'string',
+    slug: 'string',
+  }),
+  holders: columns({
+    snapshot_at: 'timestamp',
+    condition_id: 'string',
+    proxy_wallet: 'string',
+    outcome: 'string',
+    size: 'number',
+    value: 'number',
+    user_name: 'string',
+  }),
+  orderFilled: columns({
+    timestamp: 'timestamp',
+    transaction_hash: 'string',
+    id: 'string',
+    order_hash: 'string',
+    maker: 'string',
+    taker: 'string',
+    token_id: 'string',
+    maker_side: 'string',
+    price: 'number',
+    size: 'number',
+    usdc_size: 'number',
+    fee: 'number',
+  }),
+};
+
+// ===== Row mappers =====
+
+export function tradeRow(trade: Trade): ExportRow {
+  return {
+    timestamp: trade.timestamp,
+    transaction_hash: trade.transactionHash ?? null,
+    proxy_wallet: trade.proxyWallet ?? null,
+    condition_id: trade.market,
+    asset: trade.asset,
+    outcome: trade.outcome ?? null,
+    outcome_index: trade.outcomeIndex ?? null,
+    side: trade.side,
+    price: trade.price,
+    size: trade.size,
+    usdc_size: trade.price * trade.size,
+    title: trade.title ?? null,
+    slug: trade.slug ?? null,
+  };
+}
+
+export function activityRow(activity: Activity): ExportRow {
+  return {
+    timestamp: activity.timestamp,
+    transaction_hash: activity.transactionHash,
+    proxy_wallet: activity.proxyWallet ?? null,
+    type: activity.type,
+    condition_id: activity.conditionId,
+    asset: activity.asset,
+    outcome: activity.outcome ?? null,
+    outcome_index: activity.outcomeIndex ?? null,
+    side: activity.side ?? null,
+    price: activity.price ?? null,
+    size: activity.size,
+    usdc_size: activity.usdcSize ?? null,
+    title: activity.title ?? null,
+    slug: activity.slug ?? null,
+  };
+}
+
+export function positionRow(position: Position, snapshotAt: number): ExportRow {
+  return {
+    snapshot_at: snapshotAt,
+    proxy_wallet: position.proxyWallet ?? null,
+    condition_id: position.conditionId,
+    asset: position.asset,
+    outcome: position.outcome,
+    outcome_index: position.outcomeIndex,
+    size: position.size,
+    avg_price: position.avgPrice,
+    cur_price: position.curPrice ?? null,
+    initial_value: position.initialValue ?? null,
+    current_value: position.currentValue ?? null,
+    cash_pnl: position.cashPnl ?? null,
+    percent_pnl: position.percentPnl ?? null,
+    realized_pnl: position.realizedPnl ?? null,
+    total_bought: position.totalBought ?? null,
+    redeemable: position.redeemable ?? null,
+    mergeable: position.mergeable ?? null,
+    end_date: position.endDate ?? null,
+    title: position.title,
+    slug: position.slug ?? null,
+  };
+}
+
+export function closedPositionRow(position: ClosedPosition): ExportRow {
+  return {
+    timestamp: position.timestamp,
+    proxy_wallet: position.proxyWallet,
+    condition_id: position.conditionId,
+    asset: position.asset,
+    outcome: position.outcome,
+    outcome_index: position.outcomeIndex,
+    avg_price: position.avgPrice,
+    total_bought: position.totalBought,
+    realized_pnl: position.realizedPnl,
+    cur_price: position.curPrice,
+    end_date: position.endDate ?? null,
+    title: position.title,
+    slug: position.slug ?? null,
+  };
+}
+
+export function holderRow(holder: MarketHolder, conditionId: string, snapshotAt: number): ExportRow {
+  return {
+    snapshot_at: snapshotAt,
+    condition_id: conditionId,
+    proxy_wallet: holder.proxyWallet,
+    outcome: holder.outcome,
+    size: holder.size,
+    value: holder.value ?? null,
+    user_name: holder.userName ?? null,
+  };
+}
+
+/**
+ * One row per fill, from the maker's side: makerAssetId "0" (USDC) means the maker bought
+ */
+export function orderFilledRow(fill: OrderFilledEvent): ExportRow {
+  const makerBuys = fill.makerAssetId === '0';
+  const tokens = Number(makerBuys ? fill.takerAmountFilled : fill.makerAmountFilled) / USDC_DECIMALS;
+  const usdc = Number(makerBuys ? fill.makerAmountFilled : fill.takerAmountFilled) / USDC_DECIMALS;
+  return {
+    timestamp: Number(fill.timestamp) * 1000,
+    transaction_hash: fill.transactionHash,
+    id: fill.id,
+    order_hash: fill.orderHash,
+    maker: fill.maker.toLowerCase(),
+    taker: fill.taker.toLowerCase(),
+    token_id: makerBuys ? fill.takerAssetId : fill.makerAssetId,
+    maker_side: makerBuys ? 'BUY' : 'SELL',
+    price: tokens > 0 ? usdc / tokens : null,
+    size: tokens,
+    usdc_size: usdc,
+    fee: Number(fill.fee) / USDC_DECIMALS,
+  };
+}
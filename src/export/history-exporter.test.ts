@@ -0,0 +1,166 @@
+/**
+ * HistoryExporter Unit Tests
+ *
+ * Focus: stable columns, resuming an interrupted export, and Parquet parts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HistoryExporter } from './history-exporter.js';
+import { EXPORT_COLUMNS } from './columns.js';
+import { PageIterator, type IterateOptions } from '../core/pagination.js';
+import type { Activity, DataApiClient } from '../clients/data-api.js';
+import type { OrderFilledEvent, SubgraphClient } from '../clients/subgraph.js';
+import type { ParquetWriterFactory } from './types.js';
+
+const ADDRESS = '0xabc';
+const BASE_MS = Date.parse('2025-01-01T00:00:00Z');
+
+// Newest first, one per second
+const ACTIVITY: Activity[] = Array.from({ length: 1200 }, (_, i) => ({
+  type: 'TRADE',
+  side: 'BUY',
+  size: 10,
+  price: 0.25,
+  usdcSize: 2.5,
+  asset: 'token-1',
+  conditionId: '0xcond',
+  outcome: 'Yes',
+  title: i === 0 ? 'Will it rain, "tomorrow"?' : 'Will it rain?',
+  timestamp: BASE_MS + (1200 - i) * 1000,
+  transactionHash: `0x${i}`,
+}));
+
+const fill = (id: string, seconds: number, maker: string, taker: string): OrderFilledEvent => ({
+  id,
+  transactionHash: `0xtx-${id}`,
+  timestamp: String(seconds),
+  orderHash: `0xorder-${id}`,
+  maker,
+  taker,
+  makerAssetId: '0',
+  takerAssetId: 'token-1',
+  makerAmountFilled: '2500000',
+  takerAmountFilled: '10000000',
+  fee: '0',
+});
+
+class FakeSources {
+  failAtOffset: number | null = null;
+  fills: OrderFilledEvent[] = [];
+
+  dataApi = {
+    iterateActivity: (_address: string, _params: unknown, options: IterateOptions = {}) =>
+      new PageIterator<Activity>({
+        pageSize: 100,
+        cursor: options.cursor,
+        fetchPage: async (offset, limit) => {
+          if (this.failAtOffset !== null && offset >= this.failAtOffset) {
+            this.failAtOffset = null;
+            throw new Error('connection reset');
+          }
+          return ACTIVITY.slice(offset, offset + limit);
+        },
+      }),
+  } as unknown as DataApiClient;
+
+  subgraph = {
+    getOrderFilledEvents: async (params: { where: Record<string, string>; first: number }) => {
+      const { maker, taker, timestamp_gte } = params.where;
+      return this.fills
+        .filter((f) => (maker ? f.maker === maker : f.taker === taker) && Number(f.timestamp) >= Number(timestamp_gte))
+        .slice(0, params.first);
+    },
+  } as unknown as SubgraphClient;
+}
+
+describe('HistoryExporter', () => {
+  let dir: string;
+  let sources: FakeSources;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'history-export-'));
+    sources = new FakeSources();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should resume an interrupted CSV export without duplicate or partial rows', async () => {
+    const exporter = new HistoryExporter(sources.dataApi, sources.subgraph);
+    const request = { address: ADDRESS, recordTypes: ['activity' as const], format: 'csv' as const, outputDir: dir };
+
+    sources.failAtOffset = 800;
+    await expect(exporter.export(request)).rejects.toThrow('connection reset');
+    // Rows written after the last checkpoint are dropped on resume
+    await appendFile(join(dir, 'activity.csv'), 'partial,row\n');
+
+    const result = await exporter.export(request);
+    expect(result.resumed).toBe(true);
+    expect(result.files).toEqual([{ recordType: 'activity', files: [join(dir, 'activity.csv')], rows: 1200 }]);
+
+    const lines = (await readFile(join(dir, 'activity.csv'), 'utf8')).trim().split('\n');
+    expect(lines[0]).toBe(EXPORT_COLUMNS.activity.map((c) => c.name).join(','));
+    expect(lines).toHaveLength(1201);
+    expect(lines[1]).toBe(
+      `${new Date(BASE_MS + 1200_000).toISOString()},0x0,,TRADE,0xcond,token-1,Yes,,BUY,0.25,10,2.5,"Will it rain, ""tomorrow""?",`
+    );
+    expect(new Set(lines.slice(1).map((line) => line.split(',')[1])).size).toBe(1200);
+  });
+
+  it('should refuse to resume a different export into the same directory', async () => {
+    const exporter = new HistoryExporter(sources.dataApi, sources.subgraph);
+    await exporter.export({ address: ADDRESS, recordTypes: ['activity'], format: 'ndjson', outputDir: dir });
+
+    await expect(
+      exporter.export({ address: '0xdef', recordTypes: ['activity'], format: 'ndjson', outputDir: dir })
+    ).rejects.toThrow('different export');
+  });
+
+  it('should write order fills once per fill across maker and taker streams', async () => {
+    sources.fills = [
+      fill('a', 100, ADDRESS, '0xother'),
+      fill('b', 101, '0xother', ADDRESS),
+      fill('c', 102, ADDRESS, ADDRESS),
+    ];
+    const exporter = new HistoryExporter(sources.dataApi, sources.subgraph);
+    await exporter.export({ address: ADDRESS, recordTypes: ['orderFilled'], format: 'ndjson', outputDir: dir });
+
+    const rows = (await readFile(join(dir, 'orderFilled.ndjson'), 'utf8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(rows.map((row) => row.id)).toEqual(['a', 'c', 'b']);
+    expect(rows[0]).toMatchObject({ timestamp: new Date(100_000).toISOString(), maker_side: 'BUY', price: 0.25, size: 10 });
+  });
+
+  it('should split Parquet output into parts through the writer factory', async () => {
+    const written: Record<string, Array<Record<string, unknown>>> = {};
+    const factory: ParquetWriterFactory = async (path) => {
+      written[path] = [];
+      return {
+        appendRow: async (row) => {
+          written[path].push(row);
+        },
+        close: async () => {},
+      };
+    };
+    const exporter = new HistoryExporter(sources.dataApi, sources.subgraph, { parquetWriterFactory: factory, rowsPerPart: 1000 });
+
+    const result = await exporter.export({ address: ADDRESS, recordTypes: ['activity'], format: 'parquet', outputDir: dir });
+
+    expect(result.files[0].files).toEqual([join(dir, 'activity-00001.parquet'), join(dir, 'activity-00002.parquet')]);
+    expect(written[result.files[0].files[1]]).toHaveLength(200);
+    expect(written[result.files[0].files[0]][0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should reject record types the target does not support', async () => {
+    const exporter = new HistoryExporter(sources.dataApi, sources.subgraph);
+    await expect(
+      exporter.export({ conditionId: '0xcond', recordTypes: ['activity'], format: 'csv', outputDir: dir })
+    ).rejects.toThrow('activity export needs an address');
+  });
+});
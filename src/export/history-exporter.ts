@@ -0,0 +1,381 @@
+/**
+ * HistoryExporter
+ *
+ * Streams wallet or market history from the Data API and the orderbook
+ * subgraph to CSV, NDJSON or Parquet files, one file (or set of Parquet
+ * parts) per record type, with the fixed columns in EXPORT_COLUMNS.
+ *
+ * Progress is checkpointed to `.export-state.json` in the output directory;
+ * running the same request again continues where an interrupted run stopped.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new HistoryExporter(sdk.dataApi, sdk.subgraph);
+ * exporter.on('progress', ({ recordType, rows }) => console.log(recordType, rows));
+ *
+ * const result = await exporter.export({
+ *   address: '0x...',
+ *   recordTypes: ['activity', 'closedPositions', 'orderFilled'],
+ *   start: Date.parse('2025-01-01'),
+ *   format: 'csv',
+ *   outputDir: './exports/0x...',
+ * });
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { DataApiClient } from '../clients/data-api.js';
+import type { OrderFilledEvent, SubgraphClient } from '../clients/subgraph.js';
+import { ErrorCode, PolymarketError } from '../core/errors.js';
+import type { PageCursor, PageIterator } from '../core/pagination.js';
+import type { RequestOptions } from '../core/request-options.js';
+import {
+  EXPORT_COLUMNS,
+  activityRow,
+  closedPositionRow,
+  holderRow,
+  orderFilledRow,
+  positionRow,
+  tradeRow,
+} from './columns.js';
+import { ParquetSink, TextFileSink, type ExportSink } from './writers.js';
+import type {
+  ExportCheckpoint,
+  ExportFileResult,
+  ExportProgress,
+  ExportRecordType,
+  ExportRequest,
+  ExportResult,
+  ExportRow,
+  ExportTypeState,
+  ParquetWriterFactory,
+  SubgraphExportCursor,
+} from './types.js';
+
+export interface HistoryExporterConfig {
+  /** Required for the 'parquet' format */
+  parquetWriterFactory?: ParquetWriterFactory;
+  /** Rows per Parquet part file (default: 100,000) */
+  rowsPerPart?: number;
+}
+
+interface Batch {
+  rows: ExportRow[];
+  cursor?: PageCursor | SubgraphExportCursor;
+}
+
+interface FillStream {
+  where: Record<string, unknown>;
+  /** Fills already written by an earlier stream */
+  skip?: (fill: OrderFilledEvent) => boolean;
+}
+
+const CHECKPOINT_FILE = '.export-state.json';
+// Items read between checkpoints
+const BATCH_SIZE = 500;
+const SUBGRAPH_PAGE_SIZE = 1000;
+
+const ADDRESS_TYPES: ExportRecordType[] = ['activity', 'positions', 'closedPositions'];
+const CONDITION_TYPES: ExportRecordType[] = ['holders'];
+
+export class HistoryExporter extends EventEmitter {
+  constructor(
+    private dataApi: DataApiClient,
+    private subgraph: SubgraphClient,
+    private config: HistoryExporterConfig = {}
+  ) {
+    super();
+  }
+
+  /**
+   * Export the requested record types, resuming from a checkpoint if one exists
+   *
+   * @param request - Target, record types, time range, format and output directory
+   * @param options - Abort signal and timeout, per request
+   * @throws PolymarketError INVALID_CONFIG for unsupported target/type combinations,
+   *   a missing Parquet writer, or a checkpoint from a different request
+   */
+  async export(request: ExportRequest, options?: RequestOptions): Promise<ExportResult> {
+    const startedAt = Date.now();
+    const normalized = this.normalizeRequest(request);
+    this.validate(normalized);
+
+    await mkdir(normalized.outputDir, { recursive: true });
+    const existing = request.resume === false ? null : await this.loadCheckpoint(normalized.outputDir);
+    if (existing && JSON.stringify(existing.request) !== JSON.stringify(normalized)) {
+      throw new PolymarketError(
+        ErrorCode.INVALID_CONFIG,
+        `${normalized.outputDir} holds a checkpoint for a different export; pass resume: false to overwrite it`
+      );
+    }
+
+    const checkpoint: ExportCheckpoint = existing ?? { version: 1, request: normalized, types: {}, updatedAt: startedAt };
+    const files: ExportFileResult[] = [];
+
+    for (const recordType of normalized.recordTypes) {
+      const state = checkpoint.types[recordType] ?? { rows: 0, done: false };
+      const sink = this.createSink(normalized, recordType, state);
+
+      if (!state.done) {
+        const saved = { ...state };
+        await sink.open();
+        let rows = state.rows;
+
+        for await (const batch of this.stream(normalized, recordType, state.cursor, options)) {
+          rows += batch.rows.length;
+          if (await sink.write(batch.rows)) {
+            Object.assign(saved, { rows, cursor: batch.cursor, ...sink.position() });
+            await this.saveCheckpoint(checkpoint, recordType, saved);
+          }
+          this.emit('progress', { recordType, rows } satisfies ExportProgress);
+        }
+
+        await sink.close();
+        await this.saveCheckpoint(checkpoint, recordType, { rows, done: true, ...sink.position() });
+      }
+
+      const final = checkpoint.types[recordType]!;
+      files.push({ recordType, files: sink.files(), rows: final.rows });
+    }
+
+    return { files, resumed: existing !== null, durationMs: Date.now() - startedAt };
+  }
+
+  // ===== Streams =====
+
+  private stream(
+    request: Omit<ExportRequest, 'resume'>,
+    recordType: ExportRecordType,
+    cursor: ExportTypeState['cursor'],
+    options?: RequestOptions
+  ): AsyncGenerator<Batch> {
+    const { address, conditionId, start, end } = request;
+    const pageCursor = cursor as PageCursor | undefined;
+    const market = conditionId ? [conditionId] : undefined;
+    // Newest-first streams: skip records after `end`, stop at the first one before `start`
+    const inRange = (timestamp: number) =>
+      end !== undefined && timestamp > end ? 'skip' : start !== undefined && timestamp < start ? 'stop' : 'keep';
+
+    switch (recordType) {
+      case 'trades': {
+        const params = address
+          ? { user: address, market: conditionId, takerOnly: false }
+          : { market: conditionId, takerOnly: false };
+        const iterator = this.dataApi.iterateTrades(params, { ...options, cursor: pageCursor });
+        return pageBatches(iterator, tradeRow, (trade) => inRange(trade.timestamp));
+      }
+      case 'activity': {
+        const params = {
+          market,
+          start: start !== undefined ? Math.floor(start / 1000) : undefined,
+          end: end !== undefined ? Math.floor(end / 1000) : undefined,
+        };
+        const iterator = this.dataApi.iterateActivity(address!, params, { ...options, cursor: pageCursor });
+        return pageBatches(iterator, activityRow, (activity) => inRange(activity.timestamp));
+      }
+      case 'positions': {
+        const iterator = this.dataApi.iteratePositions(address!, { market }, { ...options, cursor: pageCursor });
+        return pageBatches(iterator, (position) => positionRow(position, Date.now()));
+      }
+      case 'closedPositions': {
+        const iterator = this.dataApi.iterateClosedPositions(
+          address!,
+          { market, sortBy: 'TIMESTAMP', sortDirection: 'DESC' },
+          { ...options, cursor: pageCursor }
+        );
+        return pageBatches(iterator, closedPositionRow, (position) => inRange(position.timestamp));
+      }
+      case 'holders':
+        return this.holderBatches(conditionId!, options);
+      case 'orderFilled':
+        return this.fillBatches(request, cursor as SubgraphExportCursor | undefined, options);
+    }
+  }
+
+  private async *holderBatches(conditionId: string, options?: RequestOptions): AsyncGenerator<Batch> {
+    const holders = await this.dataApi.getMarketHolders({ market: conditionId }, options);
+    const snapshotAt = Date.now();
+    yield { rows: holders.map((holder) => holderRow(holder, conditionId, snapshotAt)) };
+  }
+
+  /**
+   * Orderbook subgraph fills, oldest first, one stream per side of the match
+   */
+  private async *fillBatches(
+    request: Omit<ExportRequest, 'resume'>,
+    cursor: SubgraphExportCursor | undefined,
+    options?: RequestOptions
+  ): AsyncGenerator<Batch> {
+    const streams = await this.fillStreams(request, options);
+    const startSeconds = request.start !== undefined ? Math.floor(request.start / 1000) : 0;
+    const endSeconds = request.end !== undefined ? Math.floor(request.end / 1000) : undefined;
+    let position: SubgraphExportCursor = cursor ?? { stream: 0, since: startSeconds, seenIds: [] };
+
+    while (position.stream < streams.length) {
+      const stream = streams[position.stream];
+      const page = await this.subgraph.getOrderFilledEvents(
+        {
+          first: SUBGRAPH_PAGE_SIZE,
+          orderBy: 'timestamp',
+          orderDirection: 'asc',
+          where: {
+            ...stream.where,
+            timestamp_gte: String(position.since),
+            ...(endSeconds !== undefined ? { timestamp_lte: String(endSeconds) } : {}),
+          },
+        },
+        options
+      );
+
+      const seen = new Set(position.seenIds);
+      const fresh = page.filter((fill) => !seen.has(fill.id));
+      const rows = fresh.filter((fill) => !stream.skip?.(fill)).map(orderFilledRow);
+
+      // A full page of one timestamp can't be paged past with a timestamp cursor
+      if (page.length < SUBGRAPH_PAGE_SIZE || fresh.length === 0) {
+        position = { stream: position.stream + 1, since: startSeconds, seenIds: [] };
+      } else {
+        const last = Number(page[page.length - 1].timestamp);
+        const atLast = fresh.filter((fill) => Number(fill.timestamp) === last).map((fill) => fill.id);
+        position = {
+          stream: position.stream,
+          since: last,
+          seenIds: last === position.since ? [...position.seenIds, ...atLast] : atLast,
+        };
+      }
+      yield { rows, cursor: position };
+    }
+  }
+
+  private async fillStreams(request: Omit<ExportRequest, 'resume'>, options?: RequestOptions): Promise<FillStream[]> {
+    if (request.address) {
+      const address = request.address;
+      return [
+        { where: { maker: address } },
+        { where: { taker: address }, skip: (fill) => fill.maker.toLowerCase() === address },
+      ];
+    }
+
+    const condition = await this.subgraph.getCondition(request.conditionId!, options);
+    if (!condition) {
+      throw new PolymarketError(ErrorCode.MARKET_NOT_FOUND, `Condition not found: ${request.conditionId}`);
+    }
+    const tokenIds = condition.positionIds;
+    return [
+      { where: { makerAssetId_in: tokenIds } },
+      { where: { takerAssetId_in: tokenIds }, skip: (fill) => tokenIds.includes(fill.makerAssetId) },
+    ];
+  }
+
+  // ===== Output =====
+
+  private createSink(
+    request: Omit<ExportRequest, 'resume'>,
+    recordType: ExportRecordType,
+    state: ExportTypeState
+  ): ExportSink {
+    const columns = EXPORT_COLUMNS[recordType];
+    if (request.format === 'parquet') {
+      return new ParquetSink(
+        request.outputDir,
+        recordType,
+        columns,
+        this.config.parquetWriterFactory!,
+        this.config.rowsPerPart ?? 100_000,
+        state
+      );
+    }
+    const path = join(request.outputDir, `${recordType}.${request.format}`);
+    return new TextFileSink(path, request.format, columns, state);
+  }
+
+  private async loadCheckpoint(outputDir: string): Promise<ExportCheckpoint | null> {
+    try {
+      const raw = await readFile(join(outputDir, CHECKPOINT_FILE), 'utf8');
+      return JSON.parse(raw) as ExportCheckpoint;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async saveCheckpoint(
+    checkpoint: ExportCheckpoint,
+    recordType: ExportRecordType,
+    state: ExportTypeState
+  ): Promise<void> {
+    checkpoint.types[recordType] = state;
+    checkpoint.updatedAt = Date.now();
+    const path = join(checkpoint.request.outputDir, CHECKPOINT_FILE);
+    await writeFile(`${path}.tmp`, JSON.stringify(checkpoint), 'utf8');
+    await rename(`${path}.tmp`, path);
+  }
+
+  // ===== Validation =====
+
+  /**
+   * Fixed key order, so checkpoints compare equal across runs
+   */
+  private normalizeRequest(request: ExportRequest): Omit<ExportRequest, 'resume'> {
+    return {
+      address: request.address?.toLowerCase(),
+      conditionId: request.conditionId,
+      recordTypes: [...new Set(request.recordTypes)],
+      start: request.start,
+      end: request.end,
+      format: request.format,
+      outputDir: request.outputDir,
+    };
+  }
+
+  private validate(request: Omit<ExportRequest, 'resume'>): void {
+    const invalid = (message: string) => new PolymarketError(ErrorCode.INVALID_CONFIG, message);
+
+    if (!request.address && !request.conditionId) {
+      throw invalid('Export needs an address or a conditionId');
+    }
+    if (request.recordTypes.length === 0) {
+      throw invalid('Export needs at least one record type');
+    }
+    for (const recordType of request.recordTypes) {
+      if (ADDRESS_TYPES.includes(recordType) && !request.address) {
+        throw invalid(`${recordType} export needs an address`);
+      }
+      if (CONDITION_TYPES.includes(recordType) && !request.conditionId) {
+        throw invalid(`${recordType} export needs a conditionId`);
+      }
+    }
+    if (request.format === 'parquet' && !this.config.parquetWriterFactory) {
+      throw invalid('Parquet export needs a parquetWriterFactory');
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Group iterator items into batches that end on a resumable cursor
+ */
+async function* pageBatches<T>(
+  iterator: PageIterator<T>,
+  toRow: (item: T) => ExportRow,
+  filter?: (item: T) => 'keep' | 'skip' | 'stop'
+): AsyncGenerator<Batch> {
+  let rows: ExportRow[] = [];
+  let read = 0;
+
+  for await (const item of iterator) {
+    const verdict = filter?.(item) ?? 'keep';
+    if (verdict === 'stop') break;
+    if (verdict === 'keep') rows.push(toRow(item));
+    if (++read % BATCH_SIZE === 0) {
+      yield { rows, cursor: iterator.cursor };
+      rows = [];
+    }
+  }
+  yield { rows, cursor: iterator.cursor };
+}
@@ -0,0 +1,4 @@
+export { HistoryExporter, type HistoryExporterConfig } from './history-exporter.js';
+export { EXPORT_COLUMNS } from './columns.js';
+export { toParquetSchemaFields } from './writers.js';
+export * from './types.js';
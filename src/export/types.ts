@@ -0,0 +1,138 @@
+/**
+ * History Export Types
+ */
+
+import type { PageCursor } from '../core/pagination.js';
+
+// ============================================================================
+// Request
+// ============================================================================
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+/**
+ * Record types and the targets they accept:
+ * - trades: address or conditionId (Data API /trades, newest 10,000)
+ * - activity: address, optionally narrowed to conditionId
+ * - positions: address, optionally narrowed to conditionId (current snapshot)
+ * - closedPositions: address, optionally narrowed to conditionId
+ * - holders: conditionId (current snapshot)
+ * - orderFilled: address (maker and taker fills) or conditionId (orderbook subgraph)
+ */
+export type ExportRecordType = 'trades' | 'activity' | 'positions' | 'closedPositions' | 'holders' | 'orderFilled';
+
+export interface ExportRequest {
+  /** Wallet address to export */
+  address?: string;
+  /** Market condition ID to export (or to narrow an address export) */
+  conditionId?: string;
+  recordTypes: ExportRecordType[];
+  /** Earliest record, inclusive (Unix ms); ignored by snapshot types */
+  start?: number;
+  /** Latest record, inclusive (Unix ms); ignored by snapshot types */
+  end?: number;
+  format: ExportFormat;
+  /** Directory for the output files and the resume checkpoint */
+  outputDir: string;
+  /**
+   * Continue an interrupted export of the same request from its checkpoint
+   * (default: true). False starts over, overwriting earlier output.
+   */
+  resume?: boolean;
+}
+
+// ============================================================================
+// Columns
+// ============================================================================
+
+/**
+ * Column value types. In CSV and NDJSON, timestamps are ISO 8601 (UTC);
+ * in Parquet they are TIMESTAMP_MILLIS.
+ */
+export type ExportColumnType = 'string' | 'number' | 'integer' | 'boolean' | 'timestamp';
+
+export interface ExportColumn {
+  name: string;
+  type: ExportColumnType;
+}
+
+/**
+ * One output row; timestamp columns hold Unix ms
+ */
+export type ExportRow = Record<string, string | number | boolean | null>;
+
+// ============================================================================
+// Parquet
+// ============================================================================
+
+/**
+ * Minimal Parquet writer (e.g. parquetjs `ParquetWriter`); the SDK does not
+ * bundle a Parquet encoder
+ */
+export interface ParquetWriterLike {
+  appendRow(row: Record<string, unknown>): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Open a Parquet file at `path` for rows with the given columns
+ */
+export type ParquetWriterFactory = (path: string, columns: ExportColumn[]) => Promise<ParquetWriterLike>;
+
+// ============================================================================
+// Progress & Checkpoint
+// ============================================================================
+
+/**
+ * Position in the orderbook subgraph fill streams
+ */
+export interface SubgraphExportCursor {
+  /** Index of the stream being read (e.g. maker fills, then taker fills) */
+  stream: number;
+  /** Timestamp (Unix seconds) the next page starts at */
+  since: number;
+  /** Entity IDs already written at `since` */
+  seenIds: string[];
+}
+
+export interface ExportTypeState {
+  /** Rows written so far */
+  rows: number;
+  done: boolean;
+  cursor?: PageCursor | SubgraphExportCursor;
+  /** CSV/NDJSON: file size at the last checkpoint */
+  bytes?: number;
+  /** Parquet: part files completed */
+  parts?: number;
+}
+
+/**
+ * Resume checkpoint, stored as `.export-state.json` in the output directory
+ */
+export interface ExportCheckpoint {
+  version: 1;
+  /** The request this checkpoint belongs to (minus `resume`) */
+  request: Omit<ExportRequest, 'resume'>;
+  types: Partial<Record<ExportRecordType, ExportTypeState>>;
+  updatedAt: number;
+}
+
+export interface ExportProgress {
+  recordType: ExportRecordType;
+  /** Rows written for this record type so far */
+  rows: number;
+}
+
+export interface ExportFileResult {
+  recordType: ExportRecordType;
+  /** Output files (Parquet exports are split into parts) */
+  files: string[];
+  rows: number;
+}
+
+export interface ExportResult {
+  files: ExportFileResult[];
+  /** Whether the export continued from a checkpoint */
+  resumed: boolean;
+  durationMs: number;
+}
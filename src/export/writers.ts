@@ -0,0 +1,213 @@
+/**
+ * Output sinks for history exports
+ *
+ * A sink reports when written rows are durable, so the exporter only
+ * checkpoints positions it can resume from:
+ * - CSV/NDJSON: every write; a resumed file is truncated back to the
+ *   checkpointed size, dropping rows written after it
+ * - Parquet: when a part file is closed; an unfinished part is rewritten
+ */
+
+import { appendFile, truncate, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type {
+  ExportColumn,
+  ExportRecordType,
+  ExportRow,
+  ExportTypeState,
+  ParquetWriterFactory,
+  ParquetWriterLike,
+} from './types.js';
+
+export interface ExportSink {
+  /** Prepare the output, discarding anything past the checkpointed position */
+  open(): Promise<void>;
+  /** Append rows; resolves true once everything written so far is durable */
+  write(rows: ExportRow[]): Promise<boolean>;
+  /** Finish the output */
+  close(): Promise<void>;
+  /** Checkpoint fields for the durable position */
+  position(): Pick<ExportTypeState, 'bytes' | 'parts'>;
+  files(): string[];
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function formatValue(value: ExportRow[string] | undefined, column: ExportColumn): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (column.type === 'timestamp') return new Date(value as number).toISOString();
+  return value;
+}
+
+function csvField(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function encodeCsvHeader(columns: ExportColumn[]): string {
+  return columns.map((c) => csvField(c.name)).join(',') + '\n';
+}
+
+export function encodeCsvRow(row: ExportRow, columns: ExportColumn[]): string {
+  return columns.map((c) => csvField(formatValue(row[c.name], c))).join(',') + '\n';
+}
+
+export function encodeNdjsonRow(row: ExportRow, columns: ExportColumn[]): string {
+  const record: Record<string, unknown> = {};
+  for (const column of columns) {
+    record[column.name] = formatValue(row[column.name], column);
+  }
+  return JSON.stringify(record) + '\n';
+}
+
+// ============================================================================
+// TextFileSink
+// ============================================================================
+
+/**
+ * CSV (with header) or NDJSON file
+ */
+export class TextFileSink implements ExportSink {
+  private bytes: number;
+
+  constructor(
+    private readonly path: string,
+    private readonly format: 'csv' | 'ndjson',
+    private readonly columns: ExportColumn[],
+    state?: ExportTypeState
+  ) {
+    this.bytes = state?.bytes ?? 0;
+  }
+
+  async open(): Promise<void> {
+    if (this.bytes > 0) {
+      await truncate(this.path, this.bytes);
+      return;
+    }
+    const header = this.format === 'csv' ? encodeCsvHeader(this.columns) : '';
+    await writeFile(this.path, header, 'utf8');
+    this.bytes = Buffer.byteLength(header);
+  }
+
+  async write(rows: ExportRow[]): Promise<boolean> {
+    if (rows.length === 0) return true;
+    const encode = this.format === 'csv' ? encodeCsvRow : encodeNdjsonRow;
+    const text = rows.map((row) => encode(row, this.columns)).join('');
+    await appendFile(this.path, text, 'utf8');
+    this.bytes += Buffer.byteLength(text);
+    return true;
+  }
+
+  async close(): Promise<void> {}
+
+  position(): Pick<ExportTypeState, 'bytes'> {
+    return { bytes: this.bytes };
+  }
+
+  files(): string[] {
+    return [this.path];
+  }
+}
+
+// ============================================================================
+// ParquetSink
+// ============================================================================
+
+/**
+ * Parquet part files (`<recordType>-00001.parquet`, ...), each closed after
+ * `rowsPerPart` rows
+ */
+export class ParquetSink implements ExportSink {
+  private parts: number;
+  private writer: ParquetWriterLike | null = null;
+  private partRows = 0;
+
+  constructor(
+    private readonly directory: string,
+    private readonly recordType: ExportRecordType,
+    private readonly columns: ExportColumn[],
+    private readonly factory: ParquetWriterFactory,
+    private readonly rowsPerPart: number,
+    state?: ExportTypeState
+  ) {
+    this.parts = state?.parts ?? 0;
+  }
+
+  async open(): Promise<void> {}
+
+  async write(rows: ExportRow[]): Promise<boolean> {
+    if (rows.length === 0) return this.writer === null;
+    if (!this.writer) {
+      this.writer = await this.factory(this.partPath(this.parts + 1), this.columns);
+      this.partRows = 0;
+    }
+    for (const row of rows) {
+      await this.writer.appendRow(this.toParquetRow(row));
+    }
+    this.partRows += rows.length;
+    if (this.partRows < this.rowsPerPart) return false;
+
+    await this.closePart();
+    return true;
+  }
+
+  async close(): Promise<void> {
+    if (this.writer) await this.closePart();
+  }
+
+  position(): Pick<ExportTypeState, 'parts'> {
+    return { parts: this.parts };
+  }
+
+  files(): string[] {
+    return Array.from({ length: this.parts }, (_, i) => this.partPath(i + 1));
+  }
+
+  private async closePart(): Promise<void> {
+    await this.writer!.close();
+    this.writer = null;
+    this.parts++;
+  }
+
+  private partPath(part: number): string {
+    return join(this.directory, `${this.recordType}-${String(part).padStart(5, '0')}.parquet`);
+  }
+
+  private toParquetRow(row: ExportRow): Record<string, unknown> {
+    const record: Record<string, unknown> = {};
+    for (const column of this.columns) {
+      const value = row[column.name];
+      // Omitted fields are written as null by parquetjs-style writers
+      if (value === null || value === undefined) continue;
+      record[column.name] = column.type === 'timestamp' ? new Date(value as number) : value;
+    }
+    return record;
+  }
+}
+
+/**
+ * Column types as parquetjs schema fields, for use in a ParquetWriterFactory
+ *
+ * @example
+ * ```typescript
+ * import { ParquetSchema, ParquetWriter } from '@dsnp/parquetjs';
+ *
+ * const parquetWriterFactory: ParquetWriterFactory = (path, columns) =>
+ *   ParquetWriter.openFile(new ParquetSchema(toParquetSchemaFields(columns)), path);
+ * ```
+ */
+export function toParquetSchemaFields(
+  columns: ExportColumn[]
+): Record<string, { type: string; optional: true }> {
+  const types: Record<ExportColumn['type'], string> = {
+    string: 'UTF8',
+    number: 'DOUBLE',
+    integer: 'INT64',
+    boolean: 'BOOLEAN',
+    timestamp: 'TIMESTAMP_MILLIS',
+  };
+  return Object.fromEntries(columns.map((c) => [c.name, { type: types[c.type], optional: true as const }]));
+}
@@ -9,9 +9,44 @@
  */
 
 // Core infrastructure
-export { RateLimiter, ApiType } from './core/rate-limiter.js';
+export { RateLimiter, ApiType, ClobEndpoint } from './core/rate-limiter.js';
+export type { RateLimiterConfig, RateLimitThrottle, RateLimiterStats } from './core/rate-limiter.js';
+export type { RequestOptions } from './core/request-options.js';
+export { PageIterator } from './core/pagination.js';
+export type { PageCursor, IterateOptions, PageIteratorConfig } from './core/pagination.js';
+export { MemoryRateLimitStore, RedisRateLimitStore } from './core/rate-limit-store.js';
+export type { RateLimitStore, RedisRateLimitClient, RedisRateLimitStoreOptions } from './core/rate-limit-store.js';
+export { CircuitBreaker, DEFAULT_RETRY_POLICY, computeRetryDelay } from './core/retry-policy.js';
+export type {
+  CircuitState,
+  CircuitStateChange,
+  CircuitBreakerConfig,
+  RetryPolicy,
+  RetryPolicyOverrides,
+} from './core/retry-policy.js';
+export { PrometheusTelemetry, TELEMETRY_METRICS, noopTelemetry } from './core/telemetry.js';
+export type {
+  Telemetry,
+  TelemetrySpan,
+  TelemetryLogLevel,
+  TelemetryAttributes,
+  PrometheusTelemetryOptions,
+} from './core/telemetry.js';
+export { SchemaValidator, defineSchema } from './core/schema.js';
+export type {
+  SchemaValidationMode,
+  SchemaValidatorConfig,
+  SchemaDrift,
+  SchemaTypeMismatch,
+  SchemaFieldType,
+  ResponseSchema,
+  ResponseSchemaOptions,
+} from './core/schema.js';
+export { DATA_API_SCHEMAS, GAMMA_SCHEMAS, CLOB_SCHEMAS, SUBGRAPH_SCHEMAS } from './core/response-schemas.js';
 export { Cache, CACHE_TTL } from './core/cache.js';
-export { PolymarketError, ErrorCode, withRetry } from './core/errors.js';
+export { PolymarketError, ErrorCode, withRetry, parseRetryAfter } from './core/errors.js';
+export { classifyClobRejection } from './core/clob-errors.js';
+export type { ClobRejection, ClobRejectionDetails } from './core/clob-errors.js';
 export * from './core/types.js';
 
 // Order status utilities
@@ -29,7 +64,7 @@ export {
 } from './core/order-status.js';
 
 // Cache integration (new)
-export type { UnifiedCache } from './core/unified-cache.js';
+export type { UnifiedCache, GetOrSetOptions } from './core/unified-cache.js';
 export { createUnifiedCache } from './core/unified-cache.js';
 
 // API Clients
@@ -61,7 +96,16 @@ export { GammaApiClient } from './clients/gamma-api.js';
 export type {
   GammaMarket,
   GammaEvent,
+  GammaTag,
+  GammaTagRef,
+  GammaTagRelationship,
+  GammaSeries,
+  GammaDateInput,
   MarketSearchParams,
+  EventSearchParams,
+  TagListParams,
+  RelatedTagsParams,
+  SeriesSearchParams,
 } from './clients/gamma-api.js';
 
 // ClobApiClient has been removed - use TradingService instead
@@ -109,12 +153,48 @@ export type {
   UserPeriodStats,
 } from './services/wallet-service.js';
 
-export { MarketService, getIntervalMs as getIntervalMsService } from './services/market-service.js';
-export type { ResolvedMarketTokens } from './services/market-service.js';
+// WalletSyncService - Incremental local wallet history
+export { WalletSyncService } from './services/wallet-sync-service.js';
+export type { WalletSyncConfig, WalletSyncResult, WalletHistoryFilter } from './services/wallet-sync-service.js';
+export {
+  InMemoryWalletHistoryStore,
+  FileWalletHistoryStore,
+  WALLET_SYNC_SOURCES,
+  recordTimestamp,
+} from './services/wallet-history-store.js';
+export type {
+  WalletHistory,
+  WalletHistoryRecord,
+  WalletHistoryRecords,
+  WalletHistoryStore,
+  WalletSyncSource,
+  WalletSyncState,
+} from './services/wallet-history-store.js';
+
+// HolderAnalyticsService - Holder concentration per market outcome
+export {
+  HolderAnalyticsService,
+  topNShare,
+  herfindahlIndex,
+  giniCoefficient,
+} from './services/holder-analytics-service.js';
+export type {
+  HolderAnalyticsConfig,
+  HolderAnalytics,
+  OutcomeHolderAnalytics,
+  HolderConcentrationChange,
+} from './services/holder-analytics-service.js';
+
+export { MarketService, getIntervalMs as getIntervalMsService, calculateOverround } from './services/market-service.js';
+export type { ResolvedMarketTokens, GetMarketOptions } from './services/market-service.js';
 
 // Real-time (V2 - using custom RealTimeDataClient)
 export { RealtimeServiceV2 } from './services/realtime-service-v2.js';
 
+// Local L2 orderbook (snapshot + price_change deltas)
+export { LocalOrderbook } from './services/local-orderbook.js';
+export type { PriceLevelDelta, TopOfBook } from './services/local-orderbook.js';
+
 // RealTimeDataClient (low-level WebSocket client, use RealtimeServiceV2 for most cases)
 export {
   RealTimeDataClient,
@@ -129,6 +209,7 @@ export type {
   OrderbookSnapshot,
   LastTradeInfo,
   PriceChange,
+  BookUpdatedEvent,
   TickSizeChange,
   BestBidAsk,
   MarketEvent,
@@ -142,12 +223,29 @@ export type {
   RFQQuote,
   Subscription,
   MarketSubscription,
+  EventBookUpdate,
   MarketDataHandlers,
   UserDataHandlers,
   CryptoPriceHandlers,
   EquityPriceHandlers,
+  RealtimeChannel,
+  RawRealtimeMessage,
 } from './services/realtime-service-v2.js';
 
+// Record / replay of raw realtime messages (NDJSON)
+export { RealtimeRecorder } from './services/realtime-recorder.js';
+export type { RealtimeRecorderConfig, RecorderStats } from './services/realtime-recorder.js';
+export { ReplayRealtimeService } from './services/replay-realtime-service.js';
+export type { ReplayRealtimeConfig, ReplayStats } from './services/replay-realtime-service.js';
+
+// Realtime-driven cache invalidation (tick size changes, resolutions)
+export { CacheInvalidationBridge } from './services/cache-invalidation-bridge.js';
+export type {
+  CacheInvalidationTargets,
+  CacheInvalidationBridgeConfig,
+  CacheInvalidationEvent,
+} from './services/cache-invalidation-bridge.js';
+
 // RealtimeService (legacy) has been removed - use RealtimeServiceV2 instead
 
 // ============================================================================
@@ -223,6 +321,29 @@ export type {
   ReportSummary,
 } from './wallet-report/index.js';
 
+// HistoryExporter (Bulk export to CSV, NDJSON and Parquet)
+// ============================================================================
+
+export { HistoryExporter, EXPORT_COLUMNS, toParquetSchemaFields } from './export/index.js';
+
+export type {
+  HistoryExporterConfig,
+  ExportFormat,
+  ExportRecordType,
+  ExportRequest,
+  ExportColumn,
+  ExportColumnType,
+  ExportRow,
+  ParquetWriterLike,
+  ParquetWriterFactory,
+  SubgraphExportCursor,
+  ExportTypeState,
+  ExportCheckpoint,
+  ExportProgress,
+  ExportFileResult,
+  ExportResult,
+} from './export/index.js';
+
 // SignalService (Client for SignalWorker)
 // ============================================================================
 
@@ -286,6 +407,23 @@ export type {
   ScanResult,
 } from './services/arbitrage-service.js';
 
+// EventArbitrageService (Multi-outcome neg-risk event arbitrage)
+export { EventArbitrageService } from './services/event-arbitrage-service.js';
+export type {
+  EventOutcomeConfig,
+  EventArbitrageConfig,
+  EventArbitrageServiceConfig,
+  EventOrderbookState,
+  EventBalanceState,
+  EventArbitrageLeg,
+  EventArbitrageOpportunity,
+  EventArbitrageLegResult,
+  EventArbitrageExecutionResult,
+  EventScanCriteria,
+  EventScanResult,
+  EventArbitrageServiceEvents,
+} from './services/event-arbitrage-service.js';
+
 // SmartMoneyService - Smart Money detection and Copy Trading
 export {
   SmartMoneyService,
@@ -357,6 +495,15 @@ export type {
   DipArbPhase,
   DipArbLegInfo,
 } from './services/dip-arb-types.js';
+export { DipArbBacktester, expandDipArbGrid } from './services/dip-arb-backtester.js';
+export type {
+  DipArbBacktestConfig,
+  DipArbBacktestParams,
+  DipArbParameterGrid,
+  DipArbBacktestRound,
+  DipArbBacktestSummary,
+  DipArbBacktestResult,
+} from './services/dip-arb-backtester.js';
 
 // BinanceService - BTC/ETH/SOL K-line data from Binance
 export { BinanceService } from './services/binance-service.js';
@@ -378,6 +525,8 @@ export {
 } from './services/trading-service.js';
 export type {
   TradingServiceConfig,
+  TradingClient,
+  UserEventSource,
   // Order types - Side and OrderType are re-exported from core/types.ts via trading-service.ts
   // They are also exported via `export * from './core/types.js'` above
   ApiCredentials,
@@ -386,6 +535,7 @@ export type {
   // Results
   Order,
   OrderResult,
+  OrderRejection,
   TradeInfo,
   // Rewards
   UserEarning,
@@ -411,6 +561,31 @@ export type {
 
 // OrderManager - Unified order creation + lifecycle monitoring
 export { OrderManager, OrderHandleImpl } from './services/order-manager.js';
+
+// RiskManager - Pre-trade limits and kill switch around OrderManager
+export { RiskManager } from './services/risk-manager.js';
+export type {
+  RiskLimits,
+  RiskManagerConfig,
+  RiskLimitType,
+  RiskRejectEvent,
+  KillSwitchEvent,
+  RiskPosition,
+  RiskSnapshot,
+} from './services/risk-manager.js';
+
+// SimulatedTradingService - Paper-trading exchange (TradingClient implementation)
+export { SimulatedTradingService } from './services/simulated-trading-service.js';
+export type {
+  SimulatedTradingConfig,
+  SimulatedBookInput,
+  SimulatedBookSource,
+  SimulatedBalances,
+} from './services/simulated-trading-service.js';
+
+// OrderJournal - Persistent watched-order store for OrderManager crash recovery
+export { InMemoryOrderJournal, FileOrderJournal } from './services/order-journal.js';
+export type { OrderJournal, JournaledOrder, JournaledFill } from './services/order-journal.js';
 export type {
   OrderManagerConfig,
   OrderMetadata,
@@ -422,6 +597,7 @@ export type {
   CancelEvent,
   ExpireEvent,
   RejectEvent,
+  RecoveryEvent,
   // OrderHandle types
   OrderHandleStatus,
   OrderFinalResult,
@@ -453,6 +629,7 @@ export {
   NEG_RISK_ADAPTER,
   USDC_DECIMALS,
   calculateConditionId,
+  calculateNegRiskIndexSet,
   parseUsdc,
   formatUsdc,
 } from './clients/ctf-client.js';
@@ -466,6 +643,8 @@ export type {
   GasEstimate,
   TransactionStatus,
   TokenIds,
+  CtfOperationOptions,
+  ConvertResult,
 } from './clients/ctf-client.js';
 export { RevertReason } from './clients/ctf-client.js';
 
@@ -508,6 +687,7 @@ export type {
   SupportedToken,
   SwapQuote,
   SwapResult,
+  SwapServiceConfig,
   TokenBalance,
   TransferResult,
 } from './services/swap-service.js';
@@ -545,6 +725,8 @@ export {
   formatUSDC,
   calculatePnL,
   checkArbitrage,
+  checkEventArbitrage,
+  calculateBasketDepth,
   getEffectivePrices,
   ROUNDING_CONFIG,
 } from './utils/price-utils.js';
@@ -571,18 +753,24 @@ export type {
 
 // ===== Main SDK Class =====
 
-import { RateLimiter } from './core/rate-limiter.js';
+import { RateLimiter, ApiType, ClobEndpoint, type RateLimiterStats } from './core/rate-limiter.js';
+import type { CircuitState, CircuitStateChange } from './core/retry-policy.js';
+import { SchemaValidator, type SchemaDrift } from './core/schema.js';
 import { DataApiClient } from './clients/data-api.js';
 import { GammaApiClient } from './clients/gamma-api.js';
 import { SubgraphClient } from './clients/subgraph.js';
 import { WalletService } from './services/wallet-service.js';
-import { MarketService } from './services/market-service.js';
+import { WalletSyncService } from './services/wallet-sync-service.js';
+import { HolderAnalyticsService } from './services/holder-analytics-service.js';
+import { MarketService, type GetMarketOptions } from './services/market-service.js';
 import { TradingService } from './services/trading-service.js';
 import { RealtimeServiceV2 } from './services/realtime-service-v2.js';
 import { SmartMoneyService } from './services/smart-money-service.js';
 import { BinanceService } from './services/binance-service.js';
 import { DipArbService } from './services/dip-arb-service.js';
-import type { UnifiedMarket, ProcessedOrderbook, ArbitrageOpportunity, KLineInterval, KLineCandle, DualKLineData, PolySDKOptions } from './core/types.js';
+import { CacheInvalidationBridge } from './services/cache-invalidation-bridge.js';
+import type { UnifiedMarket, UnifiedEvent, ProcessedOrderbook, ArbitrageOpportunity, KLineInterval, KLineCandle, DualKLineData, PolySDKOptions } from './core/types.js';
+import type { RequestOptions } from './core/request-options.js';
 import { createUnifiedCache, type UnifiedCache } from './core/unified-cache.js';
 
 // Re-export for backward compatibility
@@ -592,6 +780,8 @@ export class PolymarketSDK {
   // Infrastructure
   private rateLimiter: RateLimiter;
   private cache: UnifiedCache;
+  /** Response schema validation; see onSchemaDrift() */
+  public readonly schemas: SchemaValidator;
 
   // API Clients
   public readonly dataApi: DataApiClient;
@@ -601,25 +791,34 @@ export class PolymarketSDK {
 
   // Services
   public readonly wallets: WalletService;
+  /** Incremental wallet history (in-memory store); see WalletSyncService */
+  public readonly walletSync: WalletSyncService;
   public readonly markets: MarketService;
   public readonly realtime: RealtimeServiceV2;
   public readonly smartMoney: SmartMoneyService;
+  /** Holder concentration analytics per market outcome */
+  public readonly holders: HolderAnalyticsService;
   public readonly binance: BinanceService;
   public readonly dipArb: DipArbService;
+  /** Keeps cached tick sizes and market data in step with realtime events (runs while connected with `cacheSync: true`) */
+  public readonly cacheSync: CacheInvalidationBridge;
 
   // Initialization state
   private _initialized = false;
+  private cacheSyncEnabled: boolean;
+  private readonly startCacheSync = () => this.cacheSync.start();
 
   constructor(config: PolymarketSDKConfig = {}) {
     // Initialize infrastructure
-    this.rateLimiter = new RateLimiter();
+    this.rateLimiter = new RateLimiter({ telemetry: config.telemetry, ...config.rateLimit });
 
     // Create unified cache (supports both legacy Cache and CacheAdapter)
-    this.cache = createUnifiedCache(config.cache);
+    this.cache = createUnifiedCache(config.cache, { maxEntries: config.cacheMaxEntries });
+    this.schemas = new SchemaValidator({ mode: config.schemaValidation });
 
     // Initialize API clients
-    this.dataApi = new DataApiClient(this.rateLimiter, this.cache);
-    this.gammaApi = new GammaApiClient(this.rateLimiter, this.cache);
+    this.dataApi = new DataApiClient(this.rateLimiter, this.cache, config.endpoints, this.schemas);
+    this.gammaApi = new GammaApiClient(this.rateLimiter, this.cache, config.endpoints, this.schemas);
 
     // TradingService requires a private key - use provided key or dummy key for read-only
     const privateKey = config.privateKey || '0x' + '1'.repeat(64);
@@ -627,22 +826,39 @@ export class PolymarketSDK {
       privateKey,
       chainId: config.chainId,
       credentials: config.creds,
+      endpoints: config.endpoints,
+      signatureType: config.signatureType,
+      funderAddress: config.funderAddress,
     });
 
-    this.subgraph = new SubgraphClient(this.rateLimiter, this.cache);
+    this.subgraph = new SubgraphClient(this.rateLimiter, this.cache, config.endpoints, this.schemas);
 
     // Initialize services
     this.wallets = new WalletService(this.dataApi, this.subgraph, this.cache);
-    this.binance = new BinanceService(this.rateLimiter, this.cache);
-    this.markets = new MarketService(this.gammaApi, this.dataApi, this.rateLimiter, this.cache, undefined, this.binance);
-    this.realtime = new RealtimeServiceV2();
+    this.walletSync = new WalletSyncService(this.dataApi, this.subgraph);
+    this.binance = new BinanceService(this.rateLimiter, this.cache, config.endpoints);
+    this.markets = new MarketService(
+      this.gammaApi,
+      this.dataApi,
+      this.rateLimiter,
+      this.cache,
+      { endpoints: config.endpoints, schemas: this.schemas, telemetry: config.telemetry },
+      this.binance
+    );
+    this.realtime = new RealtimeServiceV2({ endpoints: config.endpoints, telemetry: config.telemetry }, this.markets);
+    this.cacheSync = new CacheInvalidationBridge(this.realtime, {
+      markets: this.markets,
+      trading: this.tradingService,
+    });
+    this.cacheSyncEnabled = config.cacheSync ?? false;
     this.smartMoney = new SmartMoneyService(
       this.wallets,
       this.realtime,
       this.tradingService,
       this.dataApi,  // DataApiClient (required)
-      {}  // default config
+      { telemetry: config.telemetry }
     );
+    this.holders = new HolderAnalyticsService(this.dataApi, this.smartMoney);
 
     // Initialize DipArbService
     this.dipArb = new DipArbService(
@@ -650,7 +866,8 @@ export class PolymarketSDK {
       this.tradingService,
       this.markets,
       config.privateKey,
-      config.chainId
+      config.chainId,
+      config.telemetry
     );
   }
 
@@ -715,6 +932,15 @@ export class PolymarketSDK {
    */
   connect(): void {
     this.realtime.connect();
+    if (!this.cacheSyncEnabled) return;
+
+    // Lifecycle subscriptions need an open socket; repeated calls keep one pending start
+    this.realtime.off('connected', this.startCacheSync);
+    if (this.realtime.isConnected?.()) {
+      this.startCacheSync();
+    } else {
+      this.realtime.once('connected', this.startCacheSync);
+    }
   }
 
   /**
@@ -739,6 +965,8 @@ export class PolymarketSDK {
    * Stop SDK - disconnect all services and clean up
    */
   stop(): void {
+    this.realtime.off('connected', this.startCacheSync);
+    this.cacheSync.stop();
     this.dipArb.stop();
     this.smartMoney.disconnect();
     this.realtime.disconnect();
@@ -758,8 +986,16 @@ export class PolymarketSDK {
    * Get market by slug or condition ID
    * Delegates to MarketService which handles merging Gamma and CLOB data
    */
-  async getMarket(identifier: string): Promise<UnifiedMarket> {
-    return this.markets.getMarket(identifier);
+  async getMarket(identifier: string, options?: GetMarketOptions): Promise<UnifiedMarket> {
+    return this.markets.getMarket(identifier, options);
+  }
+
+  /**
+   * Get a multi-market event by slug or Gamma event ID
+   * Delegates to MarketService, which adds live top of book per child market
+   */
+  async getEvent(slugOrId: string, options?: RequestOptions): Promise<UnifiedEvent> {
+    return this.markets.getEvent(slugOrId, options);
   }
 
   // ===== Orderbook Analysis =====
@@ -805,6 +1041,55 @@ export class PolymarketSDK {
     return null;
   }
 
+  // ===== Rate Limiting =====
+
+  /**
+   * The SDK's RateLimiter, to pass to services built outside the SDK
+   * (OrderManager, ArbitrageService, EventArbitrageService) so they share its
+   * budgets, 429 pauses and circuit breakers. Throttling only coordinates
+   * between users of the same limiter.
+   */
+  getRateLimiter(): RateLimiter {
+    return this.rateLimiter;
+  }
+
+  /**
+   * Current limits and recent 429 throttles for an API (or CLOB endpoint)
+   */
+  getRateLimitStats(api: ApiType, endpoint?: ClobEndpoint): RateLimiterStats | null {
+    return this.rateLimiter.getStats(api, endpoint);
+  }
+
+  /**
+   * Circuit breaker state for an API ('open' while it is failing fast)
+   */
+  getCircuitState(api: ApiType): CircuitState {
+    return this.rateLimiter.getCircuitState(api);
+  }
+
+  /**
+   * Subscribe to circuit breaker transitions, e.g. to pause quoting while the CLOB is degraded
+   * @returns Unsubscribe function
+   */
+  onCircuitStateChange(handler: (change: CircuitStateChange) => void): () => void {
+    this.rateLimiter.on('circuitStateChange', handler);
+    return () => {
+      this.rateLimiter.off('circuitStateChange', handler);
+    };
+  }
+
+  /**
+   * Subscribe to API response drift (unexpected, missing or mistyped fields),
+   * reported once per distinct difference
+   * @returns Unsubscribe function
+   */
+  onSchemaDrift(handler: (drift: SchemaDrift) => void): () => void {
+    this.schemas.on('schemaDrift', handler);
+    return () => {
+      this.schemas.off('schemaDrift', handler);
+    };
+  }
+
   // ===== Cache Management =====
 
   /**
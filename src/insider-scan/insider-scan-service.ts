@@ -31,11 +31,12 @@ import type {
   GetCandidatesParams,
   GetScanHistoryParams,
 } from './types.js';
+import { withRequestOptions, type RequestOptions } from '../core/request-options.js';
 
 export interface InsiderScanServiceConfig {
   /** Base URL of InsiderScanWorker (e.g., http://localhost:8788) */
   baseUrl: string;
-  /** Request timeout in milliseconds (default: 30000) */
+  /** Request timeout in milliseconds, unless a call passes its own (default: 30000) */
   timeoutMs?: number;
 }
 
@@ -55,15 +56,15 @@ export class InsiderScanService {
   /**
    * Check worker health and get basic stats
    */
-  async health(): Promise<InsiderScanHealthResponse> {
-    return this.fetchJson('/v1/health') as Promise<InsiderScanHealthResponse>;
+  async health(options?: RequestOptions): Promise<InsiderScanHealthResponse> {
+    return this.fetchJson('/v1/health', {}, options) as Promise<InsiderScanHealthResponse>;
   }
 
   /**
    * Get detailed statistics
    */
-  async getStats(): Promise<InsiderStatsResponse> {
-    return this.fetchJson('/v1/stats') as Promise<InsiderStatsResponse>;
+  async getStats(options?: RequestOptions): Promise<InsiderStatsResponse> {
+    return this.fetchJson('/v1/stats', {}, options) as Promise<InsiderStatsResponse>;
   }
 
   // ============================================================================
@@ -73,7 +74,7 @@ export class InsiderScanService {
   /**
    * Get insider candidates with filtering
    */
-  async getCandidates(params: GetCandidatesParams = {}): Promise<GetCandidatesResponse> {
+  async getCandidates(params: GetCandidatesParams = {}, options?: RequestOptions): Promise<GetCandidatesResponse> {
     const query = new URLSearchParams();
     if (params.minScore != null) query.set('minScore', String(params.minScore));
     if (params.maxScore != null) query.set('maxScore', String(params.maxScore));
@@ -91,9 +92,9 @@ export class InsiderScanService {
   /**
    * Get a specific candidate by address
    */
-  async getCandidate(address: string): Promise<InsiderCandidateDetails | null> {
+  async getCandidate(address: string, options?: RequestOptions): Promise<InsiderCandidateDetails | null> {
     try {
-      return await this.fetchJson(`/v1/candidates/${address.toLowerCase()}`) as InsiderCandidateDetails;
+      return await this.fetchJson(`/v1/candidates/${address.toLowerCase()}`, {}, options) as InsiderCandidateDetails;
     } catch (error) {
       if (error instanceof Error && error.message.includes('404')) {
         return null;
@@ -105,11 +106,11 @@ export class InsiderScanService {
   /**
    * Delete a candidate
    */
-  async deleteCandidate(address: string): Promise<boolean> {
+  async deleteCandidate(address: string, options?: RequestOptions): Promise<boolean> {
     try {
       await this.fetchJson(`/v1/candidates/${address.toLowerCase()}`, {
         method: 'DELETE',
-      });
+      }, options);
       return true;
     } catch (error) {
       if (error instanceof Error && error.message.includes('404')) {
@@ -126,16 +127,16 @@ export class InsiderScanService {
   /**
    * Scan a market for insider activity
    */
-  async scanMarket(conditionId: string): Promise<ScanMarketResponse> {
+  async scanMarket(conditionId: string, options?: RequestOptions): Promise<ScanMarketResponse> {
     return this.fetchJson(`/v1/scan/${conditionId}`, {
       method: 'POST',
-    }) as Promise<ScanMarketResponse>;
+    }, options) as Promise<ScanMarketResponse>;
   }
 
   /**
    * Get scan history
    */
-  async getScanHistory(params: GetScanHistoryParams = {}): Promise<GetScanHistoryResponse> {
+  async getScanHistory(params: GetScanHistoryParams = {}, options?: RequestOptions): Promise<GetScanHistoryResponse> {
     const query = new URLSearchParams();
     if (params.conditionId) query.set('conditionId', params.conditionId);
     if (params.limit != null) query.set('limit', String(params.limit));
@@ -149,17 +150,15 @@ export class InsiderScanService {
   // Private Methods
   // ============================================================================
 
-  private async fetchJson(path: string, options: RequestInit = {}): Promise<unknown> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
-
-    try {
+  private async fetchJson(path: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<unknown> {
+    const { signal, timeoutMs = this.timeoutMs } = options;
+    return withRequestOptions({ signal, timeoutMs }, async (callSignal) => {
       const res = await fetch(`${this.baseUrl}${path}`, {
-        ...options,
-        signal: controller.signal,
+        ...init,
+        signal: callSignal,
         headers: {
           'Content-Type': 'application/json',
-          ...options.headers,
+          ...init.headers,
         },
       });
 
@@ -169,8 +168,6 @@ export class InsiderScanService {
       }
 
       return await res.json();
-    } finally {
-      clearTimeout(timeout);
-    }
+    });
   }
 }
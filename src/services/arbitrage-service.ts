@@ -25,14 +25,15 @@ import {
   type MarketSubscription,
   type OrderbookSnapshot,
 } from './realtime-service-v2.js';
-import { TradingService } from './trading-service.js';
+import { TradingService, type TradingClient } from './trading-service.js';
 import { MarketService } from './market-service.js';
 import { CTFClient, type TokenIds } from '../clients/ctf-client.js';
 import { GammaApiClient } from '../clients/gamma-api.js';
 import { RateLimiter } from '../core/rate-limiter.js';
+import { noopTelemetry, type Telemetry } from '../core/telemetry.js';
 import { createUnifiedCache } from '../core/unified-cache.js';
 import { getEffectivePrices } from '../utils/price-utils.js';
-import type { BookUpdate } from '../core/types.js';
+import type { BookUpdate, PolymarketEndpoints } from '../core/types.js';
 
 // ===== Types =====
 
@@ -54,6 +55,11 @@ export interface ArbitrageServiceConfig {
   privateKey?: string;
   /** RPC URL for CTF operations */
   rpcUrl?: string;
+  /**
+   * Trading backend for order execution (default: TradingService built from `privateKey`).
+   * Pass a SimulatedTradingService to paper-trade; CTF split/merge still needs `privateKey`.
+   */
+  tradingService?: TradingClient;
   /** Minimum profit threshold (default: 0.005 = 0.5%) */
   profitThreshold?: number;
   /** Minimum trade size in USDC (default: 5) */
@@ -66,6 +72,12 @@ export interface ArbitrageServiceConfig {
   autoExecute?: boolean;
   /** Enable logging (default: true) */
   enableLogging?: boolean;
+  /** Receives logs, request metrics and on-chain transaction spans */
+  telemetry?: Telemetry;
+  /** Rate limiter for API calls (default: a new RateLimiter; pass `sdk.getRateLimiter()` to share the SDK's) */
+  rateLimiter?: RateLimiter;
+  /** Endpoint overrides for the internal WebSocket, CLOB and Gamma clients (pass the SDK's) */
+  endpoints?: PolymarketEndpoints;
   /** Cooldown between executions in ms (default: 5000) */
   executionCooldown?: number;
 
@@ -249,11 +261,13 @@ export class ArbitrageService extends EventEmitter {
   private realtimeService: RealtimeServiceV2;
   private marketSubscription: MarketSubscription | null = null;
   private ctf: CTFClient | null = null;
-  private tradingService: TradingService | null = null;
+  private tradingService: TradingClient | null = null;
   private rateLimiter: RateLimiter;
+  private telemetry: Telemetry;
+  private endpoints?: PolymarketEndpoints;
 
   private market: ArbitrageMarketConfig | null = null;
-  private config: Omit<Required<ArbitrageServiceConfig>, 'privateKey' | 'rpcUrl' | 'rebalanceInterval'> & {
+  private config: Omit<Required<ArbitrageServiceConfig>, 'privateKey' | 'rpcUrl' | 'tradingService' | 'rebalanceInterval' | 'telemetry' | 'rateLimiter' | 'endpoints'> & {
     privateKey?: string;
     rpcUrl?: string;
     rebalanceIntervalMs: number;
@@ -317,23 +331,31 @@ export class ArbitrageService extends EventEmitter {
       autoFixImbalance: config.autoFixImbalance ?? true,
     };
 
-    this.rateLimiter = new RateLimiter();
-    this.realtimeService = new RealtimeServiceV2({ debug: false });
+    this.telemetry = config.telemetry ?? noopTelemetry;
+    this.rateLimiter = config.rateLimiter ?? new RateLimiter({ telemetry: this.telemetry });
+    this.endpoints = config.endpoints;
+    this.realtimeService = new RealtimeServiceV2({ debug: false, telemetry: this.telemetry, endpoints: this.endpoints });
 
     // Initialize trading clients if private key provided
     if (this.config.privateKey) {
       this.ctf = new CTFClient({
         privateKey: this.config.privateKey,
         rpcUrl: this.config.rpcUrl,
+        telemetry: this.telemetry,
       });
 
       const cache = createUnifiedCache();
       this.tradingService = new TradingService(this.rateLimiter, cache, {
         privateKey: this.config.privateKey,
         chainId: 137,
+        endpoints: this.endpoints,
       });
     }
 
+    if (config.tradingService) {
+      this.tradingService = config.tradingService;
+    }
+
     // RealtimeServiceV2 event handlers are set up during subscription
   }
 
@@ -962,7 +984,10 @@ export class ArbitrageService extends EventEmitter {
       // If we can't determine resolution, try to get market status from MarketService
       try {
         const cache = createUnifiedCache();
-        const tempMarketService = new MarketService(undefined, undefined, this.rateLimiter, cache);
+        const tempMarketService = new MarketService(undefined, undefined, this.rateLimiter, cache, {
+          endpoints: this.endpoints,
+          telemetry: this.telemetry,
+        });
         const clobMarket = await tempMarketService.getClobMarket(market.conditionId);
         if (clobMarket) {
           marketStatus = clobMarket.closed ? 'resolved' : 'active';
@@ -1588,6 +1613,7 @@ export class ArbitrageService extends EventEmitter {
   }
 
   private log(message: string): void {
+    this.telemetry.log('info', message, { service: 'ArbitrageService' });
     if (this.config.enableLogging) {
       console.log(`[ArbitrageService] ${message}`);
     }
@@ -1630,8 +1656,11 @@ export class ArbitrageService extends EventEmitter {
 
     // Create temporary API clients for scanning
     const cache = createUnifiedCache();
-    const gammaApi = new GammaApiClient(this.rateLimiter, cache);
-    const tempMarketService = new MarketService(gammaApi, undefined, this.rateLimiter, cache);
+    const gammaApi = new GammaApiClient(this.rateLimiter, cache, this.endpoints);
+    const tempMarketService = new MarketService(gammaApi, undefined, this.rateLimiter, cache, {
+      endpoints: this.endpoints,
+      telemetry: this.telemetry,
+    });
 
     // Fetch active markets from Gamma API
     const markets = await gammaApi.getMarkets({
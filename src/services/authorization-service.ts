@@ -11,6 +11,7 @@
  */
 
 import { ethers } from 'ethers';
+import { noopTelemetry, traceTransaction, type Telemetry } from '../core/telemetry.js';
 import {
   CTF_CONTRACT,
   NEG_RISK_CTF_EXCHANGE,
@@ -68,6 +69,8 @@ export interface ApprovalsResult {
 
 export interface AuthorizationServiceConfig {
   provider?: ethers.providers.Provider;
+  /** Receives an `onchain.tx` span and count per approval transaction */
+  telemetry?: Telemetry;
 }
 
 // Contracts that need ERC20 approval
@@ -107,10 +110,19 @@ const ERC1155_OPERATORS = [
 export class AuthorizationService {
   private signer: ethers.Wallet;
   private provider: ethers.providers.Provider;
+  private telemetry: Telemetry;
 
   constructor(signer: ethers.Wallet, config: AuthorizationServiceConfig = {}) {
     this.signer = signer;
     this.provider = config.provider || signer.provider || new ethers.providers.JsonRpcProvider('https://polygon-rpc.com');
+    this.telemetry = config.telemetry ?? noopTelemetry;
+  }
+
+  /**
+   * Submit a transaction and report it to telemetry (see traceTransaction)
+   */
+  private sendTransaction(method: string, submit: () => Promise<ethers.ContractTransaction>): Promise<ethers.ContractTransaction> {
+    return traceTransaction(this.telemetry, method, { service: 'AuthorizationService' }, submit);
   }
 
   /**
@@ -219,9 +231,9 @@ export class AuthorizationService {
       }
 
       try {
-        const tx = await usdc.approve(spender.address, ethers.constants.MaxUint256, {
+        const tx = await this.sendTransaction('approve', () => usdc.approve(spender.address, ethers.constants.MaxUint256, {
           gasPrice: adjustedGasPrice,
-        });
+        }));
         await tx.wait();
         erc20Results.push({
           contract: spender.name,
@@ -253,10 +265,10 @@ export class AuthorizationService {
       }
 
       try {
-        const tx = await conditionalTokens.setApprovalForAll(operator.address, true, {
+        const tx = await this.sendTransaction('setApprovalForAll', () => conditionalTokens.setApprovalForAll(operator.address, true, {
           gasPrice: adjustedGasPrice,
           gasLimit: 100000,
-        });
+        }));
         await tx.wait();
         erc1155Results.push({
           contract: operator.name,
@@ -304,9 +316,9 @@ export class AuthorizationService {
     const gasPrice = await this.provider.getGasPrice();
 
     try {
-      const tx = await usdc.approve(spenderAddress, amount, {
+      const tx = await this.sendTransaction('approve', () => usdc.approve(spenderAddress, amount, {
         gasPrice: gasPrice.mul(150).div(100),
-      });
+      }));
       await tx.wait();
       return {
         contract: spenderAddress,
@@ -336,10 +348,10 @@ export class AuthorizationService {
     const gasPrice = await this.provider.getGasPrice();
 
     try {
-      const tx = await conditionalTokens.setApprovalForAll(operatorAddress, approved, {
+      const tx = await this.sendTransaction('setApprovalForAll', () => conditionalTokens.setApprovalForAll(operatorAddress, approved, {
         gasPrice: gasPrice.mul(150).div(100),
         gasLimit: 100000,
-      });
+      }));
       await tx.wait();
       return {
         contract: operatorAddress,
@@ -13,7 +13,9 @@
 import { RateLimiter, ApiType } from '../core/rate-limiter.js';
 import type { UnifiedCache } from '../core/unified-cache.js';
 import { CACHE_TTL } from '../core/cache.js';
-import { PolymarketError, ErrorCode } from '../core/errors.js';
+import { PolymarketError, ErrorCode, parseRetryAfter } from '../core/errors.js';
+import type { PolymarketEndpoints } from '../core/types.js';
+import { withRequestOptions, type RequestOptions } from '../core/request-options.js';
 
 // ============================================================================
 // Types
@@ -97,10 +99,15 @@ const VALID_INTERVALS: Set<BinanceInterval> = new Set([
 // ============================================================================
 
 export class BinanceService {
+  private baseUrl: string;
+
   constructor(
     private rateLimiter: RateLimiter,
-    private cache: UnifiedCache
-  ) {}
+    private cache: UnifiedCache,
+    endpoints?: PolymarketEndpoints
+  ) {
+    this.baseUrl = endpoints?.binance || BINANCE_BASE_URL;
+  }
 
   /**
    * Get K-lines (candlestick data) for a symbol
@@ -108,6 +115,7 @@ export class BinanceService {
    * @param symbol - Trading pair (BTCUSDT, ETHUSDT, SOLUSDT)
    * @param interval - K-line interval
    * @param options - Optional parameters
+   * @param requestOptions - Abort signal and timeout
    * @returns Array of K-line candles
    *
    * @example
@@ -119,7 +127,8 @@ export class BinanceService {
   async getKLines(
     symbol: BinanceSymbol,
     interval: BinanceInterval,
-    options?: BinanceKLineOptions
+    options?: BinanceKLineOptions,
+    requestOptions?: RequestOptions
   ): Promise<BinanceKLine[]> {
     // Validate inputs
     this.validateSymbol(symbol);
@@ -130,14 +139,16 @@ export class BinanceService {
     // Build cache key
     const cacheKey = this.buildKLineCacheKey(symbol, interval, options);
 
-    return this.cache.getOrSet(cacheKey, CACHE_TTL.BINANCE_KLINE, async () => {
-      return this.rateLimiter.execute(ApiType.BINANCE, async () => {
+    // Concurrent callers share one fetch, so it runs without any caller's
+    // signal; each caller's abort and timeout only end its own wait
+    return withRequestOptions(requestOptions ?? {}, () => this.cache.getOrSet(cacheKey, CACHE_TTL.BINANCE_KLINE, async () => {
+      return this.rateLimiter.execute(ApiType.BINANCE, async (signal) => {
         const url = this.buildKLinesUrl(symbol, interval, {
           ...options,
           limit,
         });
 
-        const response = await fetch(url);
+        const response = await fetch(url, { signal });
 
         if (!response.ok) {
           await this.handleApiError(response);
@@ -146,13 +157,14 @@ export class BinanceService {
         const data = await response.json() as unknown[][];
         return this.parseKLines(data);
       });
-    });
+    }));
   }
 
   /**
    * Get current price for a symbol
    *
    * @param symbol - Trading pair (BTCUSDT, ETHUSDT, SOLUSDT)
+   * @param options - Abort signal and timeout
    * @returns Current price
    *
    * @example
@@ -161,16 +173,16 @@ export class BinanceService {
    * console.log(`BTC price: $${price}`);
    * ```
    */
-  async getPrice(symbol: BinanceSymbol): Promise<number> {
+  async getPrice(symbol: BinanceSymbol, options?: RequestOptions): Promise<number> {
     this.validateSymbol(symbol);
 
     const cacheKey = `binance:price:${symbol}`;
 
-    return this.cache.getOrSet(cacheKey, CACHE_TTL.BINANCE_PRICE, async () => {
-      return this.rateLimiter.execute(ApiType.BINANCE, async () => {
-        const url = `${BINANCE_BASE_URL}${BINANCE_PRICE_ENDPOINT}?symbol=${symbol}`;
+    return withRequestOptions(options ?? {}, () => this.cache.getOrSet(cacheKey, CACHE_TTL.BINANCE_PRICE, async () => {
+      return this.rateLimiter.execute(ApiType.BINANCE, async (signal) => {
+        const url = `${this.baseUrl}${BINANCE_PRICE_ENDPOINT}?symbol=${symbol}`;
 
-        const response = await fetch(url);
+        const response = await fetch(url, { signal });
 
         if (!response.ok) {
           await this.handleApiError(response);
@@ -179,7 +191,7 @@ export class BinanceService {
         const data = await response.json() as { symbol: string; price: string };
         return parseFloat(data.price);
       });
-    });
+    }));
   }
 
   /**
@@ -190,6 +202,7 @@ export class BinanceService {
    *
    * @param symbol - Trading pair (BTCUSDT, ETHUSDT, SOLUSDT)
    * @param timestamp - Unix timestamp in milliseconds
+   * @param options - Abort signal and timeout
    * @returns Price at the given timestamp
    *
    * @example
@@ -199,14 +212,14 @@ export class BinanceService {
    * const price = await binanceService.getPriceAt('BTCUSDT', oneHourAgo);
    * ```
    */
-  async getPriceAt(symbol: BinanceSymbol, timestamp: number): Promise<number> {
+  async getPriceAt(symbol: BinanceSymbol, timestamp: number, options?: RequestOptions): Promise<number> {
     this.validateSymbol(symbol);
 
     // Fetch a single 1-minute candle at the specified time
     const klines = await this.getKLines(symbol, '1m', {
       startTime: timestamp,
       limit: 1,
-    });
+    }, options);
 
     if (klines.length === 0) {
       throw new PolymarketError(
@@ -222,12 +235,13 @@ export class BinanceService {
    * Get multiple prices at once
    *
    * @param symbols - Array of trading pairs
+   * @param options - Abort signal and timeout
    * @returns Map of symbol to price
    */
-  async getPrices(symbols: BinanceSymbol[]): Promise<Map<BinanceSymbol, number>> {
+  async getPrices(symbols: BinanceSymbol[], options?: RequestOptions): Promise<Map<BinanceSymbol, number>> {
     const prices = await Promise.all(
       symbols.map(async (symbol) => {
-        const price = await this.getPrice(symbol);
+        const price = await this.getPrice(symbol, options);
         return [symbol, price] as const;
       })
     );
@@ -241,17 +255,19 @@ export class BinanceService {
    * @param symbol - Trading pair
    * @param startTime - Start time (Unix ms)
    * @param endTime - End time (Unix ms, defaults to now)
+   * @param options - Abort signal and timeout
    * @returns Price change percentage
    */
   async getPriceChange(
     symbol: BinanceSymbol,
     startTime: number,
-    endTime?: number
+    endTime?: number,
+    options?: RequestOptions
   ): Promise<{ startPrice: number; endPrice: number; changePercent: number }> {
     const [startKlines, endKlines] = await Promise.all([
-      this.getKLines(symbol, '1m', { startTime, limit: 1 }),
+      this.getKLines(symbol, '1m', { startTime, limit: 1 }, options),
       endTime
-        ? this.getKLines(symbol, '1m', { startTime: endTime, limit: 1 })
+        ? this.getKLines(symbol, '1m', { startTime: endTime, limit: 1 }, options)
         : Promise.resolve([]),
     ]);
 
@@ -263,7 +279,7 @@ export class BinanceService {
       );
     }
 
-    const endPrice = endKlines[0]?.close ?? (await this.getPrice(symbol));
+    const endPrice = endKlines[0]?.close ?? (await this.getPrice(symbol, options));
     const changePercent = ((endPrice - startPrice) / startPrice) * 100;
 
     return { startPrice, endPrice, changePercent };
@@ -331,7 +347,7 @@ export class BinanceService {
       params.set('limit', options.limit.toString());
     }
 
-    return `${BINANCE_BASE_URL}${BINANCE_KLINES_ENDPOINT}?${params.toString()}`;
+    return `${this.baseUrl}${BINANCE_KLINES_ENDPOINT}?${params.toString()}`;
   }
 
   /**
@@ -382,27 +398,34 @@ export class BinanceService {
 
     // Handle rate limiting
     if (response.status === 429 || errorBody?.code === -1015) {
-      throw new PolymarketError(
+      const error = new PolymarketError(
         ErrorCode.RATE_LIMITED,
         message,
         true // retryable
       );
+      error.status = response.status;
+      error.retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      throw error;
     }
 
     // Handle invalid symbol/parameters
     if (errorBody?.code === -1121 || errorBody?.code === -1100) {
-      throw new PolymarketError(
+      const error = new PolymarketError(
         ErrorCode.INVALID_CONFIG,
         message,
         false
       );
+      error.status = response.status;
+      throw error;
     }
 
     // Generic API error
-    throw new PolymarketError(
+    const error = new PolymarketError(
       ErrorCode.API_ERROR,
       message,
       response.status >= 500 // retryable for server errors
     );
+    error.status = response.status;
+    throw error;
   }
 }
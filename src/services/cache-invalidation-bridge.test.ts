@@ -0,0 +1,167 @@
+/**
+ * CacheInvalidationBridge Unit Tests
+ *
+ * Focus: tick_size_change and market_resolved events reaching the
+ * TradingService/MarketService caches and OrderManager validation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { CacheInvalidationBridge, type CacheInvalidationEvent } from './cache-invalidation-bridge.js';
+import { TradingService } from './trading-service.js';
+import { MarketService } from './market-service.js';
+import { OrderManager } from './order-manager.js';
+import { RateLimiter } from '../core/rate-limiter.js';
+import { createUnifiedCache, type UnifiedCache } from '../core/unified-cache.js';
+import type { RealtimeServiceV2, TickSizeChange, MarketEvent } from './realtime-service-v2.js';
+import { PolymarketSDK } from '../index.js';
+
+const PRIVATE_KEY = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+const CONDITION = '0xcondition';
+const TOKEN = 'token-yes';
+
+class FakeRealtime extends EventEmitter {
+  subscribeMarketEvents = vi.fn(() => ({ id: 'lifecycle', topic: 'clob_market', type: 'lifecycle', unsubscribe: vi.fn() }));
+}
+
+describe('CacheInvalidationBridge', () => {
+  let realtime: FakeRealtime;
+  let cache: UnifiedCache;
+  let trading: TradingService;
+  let markets: MarketService;
+  let orderManager: OrderManager;
+  let createLimitOrder: ReturnType<typeof vi.fn>;
+  let bridge: CacheInvalidationBridge;
+  let events: CacheInvalidationEvent[];
+
+  const nextEvent = () => new Promise<void>((resolve) => bridge.once('invalidated', () => resolve()));
+
+  beforeEach(async () => {
+    realtime = new FakeRealtime();
+    cache = createUnifiedCache();
+    const rateLimiter = new RateLimiter();
+    trading = new TradingService(rateLimiter, cache, { privateKey: PRIVATE_KEY });
+    markets = new MarketService(undefined, undefined, rateLimiter, cache);
+
+    createLimitOrder = vi.fn(async () => ({ success: false, errorMsg: 'not submitted in tests' }));
+    orderManager = new OrderManager({
+      privateKey: PRIVATE_KEY,
+      rateLimiter,
+      cache,
+      mode: 'polling',
+      pollingInterval: 60_000,
+      polygonRpcUrl: '',
+      tradingService: { initialize: async () => {}, createLimitOrder } as any,
+    });
+    await orderManager.start();
+
+    bridge = new CacheInvalidationBridge(realtime as unknown as RealtimeServiceV2, {
+      markets,
+      trading,
+      orderManager,
+    });
+    events = [];
+    bridge.on('invalidated', (e) => events.push(e));
+    bridge.start();
+  });
+
+  afterEach(() => {
+    bridge.stop();
+    orderManager.stop();
+  });
+
+  it('should update cached tick sizes and let finer-tick orders through', async () => {
+    await cache.set(`clob:tickSize:${TOKEN}`, '0.01', 60_000);
+    await cache.set(`clob:market:${CONDITION}`, { conditionId: CONDITION }, 60_000);
+
+    const order = { tokenId: TOKEN, side: 'BUY' as const, price: 0.965, size: 10 };
+    expect((await orderManager.createOrder(order)).errorMsg).toContain('multiple of 0.01 tick size');
+
+    const change: TickSizeChange = {
+      assetId: TOKEN,
+      market: CONDITION,
+      oldTickSize: '0.01',
+      newTickSize: '0.001',
+      timestamp: 1,
+    };
+    const done = nextEvent();
+    realtime.emit('tickSizeChange', change);
+    await done;
+
+    expect(await trading.getTickSize(TOKEN)).toBe('0.001');
+    expect(await cache.get(`clob:market:${CONDITION}`)).toBeUndefined();
+    expect(events[0]).toMatchObject({ reason: 'tickSizeChange', conditionId: CONDITION, tokenIds: [TOKEN], tickSize: '0.001' });
+
+    await orderManager.createOrder(order);
+    expect(createLimitOrder).toHaveBeenCalledWith(order);
+  });
+
+  it('should not create OrderManager metadata for a change without a condition ID', async () => {
+    const done = nextEvent();
+    realtime.emit('tickSizeChange', { assetId: TOKEN, market: '', oldTickSize: '0.01', newTickSize: '0.001', timestamp: 1 });
+    await done;
+
+    expect(await trading.getTickSize(TOKEN)).toBe('0.001');
+    expect((orderManager as any).marketCache.has('')).toBe(false);
+  });
+
+  it('should drop cached data and reject orders once a market resolves', async () => {
+    await cache.set(`market:${CONDITION}`, { conditionId: CONDITION }, 60_000);
+    await cache.set(`clob:negRisk:${TOKEN}`, false, 60_000);
+
+    const event: MarketEvent = {
+      conditionId: CONDITION,
+      type: 'resolved',
+      data: { market: CONDITION, assets_ids: [TOKEN, 'token-no'] },
+      timestamp: 2,
+    };
+    const done = nextEvent();
+    realtime.emit('marketEvent', event);
+    await done;
+
+    expect(await cache.get(`market:${CONDITION}`)).toBeUndefined();
+    expect(await cache.get(`clob:negRisk:${TOKEN}`)).toBeUndefined();
+
+    const result = await orderManager.createOrder({ tokenId: 'token-no', side: 'SELL', price: 0.5, size: 10 });
+    expect(result).toMatchObject({ success: false, errorMsg: `Market is closed: ${CONDITION}` });
+    expect(createLimitOrder).not.toHaveBeenCalled();
+  });
+
+  it('should subscribe to lifecycle events and detach on stop', () => {
+    expect(realtime.subscribeMarketEvents).toHaveBeenCalledTimes(1);
+    bridge.stop();
+    expect(realtime.listenerCount('tickSizeChange')).toBe(0);
+    expect(realtime.listenerCount('marketEvent')).toBe(0);
+    expect(realtime.subscribeMarketEvents.mock.results[0].value.unsubscribe).toHaveBeenCalled();
+  });
+});
+
+describe('PolymarketSDK cacheSync', () => {
+  const connectOffline = (sdk: PolymarketSDK) => {
+    vi.spyOn(sdk.realtime, 'connect').mockResolvedValue();
+    vi.spyOn(sdk.realtime, 'isConnected').mockReturnValue(false);
+    const start = vi.spyOn(sdk.cacheSync, 'start').mockImplementation(() => {});
+    return start;
+  };
+
+  it('should not start unless enabled', () => {
+    const sdk = new PolymarketSDK();
+    const start = connectOffline(sdk);
+
+    sdk.connect();
+    sdk.realtime.emit('connected');
+    expect(start).not.toHaveBeenCalled();
+  });
+
+  it('should start once per connection however often connect() is called', () => {
+    const sdk = new PolymarketSDK({ cacheSync: true });
+    const start = connectOffline(sdk);
+
+    sdk.connect();
+    sdk.connect();
+    expect(sdk.realtime.listenerCount('connected')).toBe(1);
+
+    sdk.realtime.emit('connected');
+    expect(start).toHaveBeenCalledTimes(1);
+  });
+});
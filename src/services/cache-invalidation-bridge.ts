@@ -0,0 +1,170 @@
+/**
+ * CacheInvalidationBridge
+ *
+ * Keeps cached market metadata in step with realtime CLOB events:
+ * - tick_size_change: updates TradingService's cached tick size, drops the
+ *   market's cached CLOB/getMarket entries, and updates OrderManager's
+ *   market metadata so limit orders validate against the new tick
+ * - market_resolved: drops the market's cached entries and marks it closed
+ *   in OrderManager
+ *
+ * Tick size changes arrive for markets subscribed through RealtimeServiceV2;
+ * the bridge subscribes to market lifecycle events itself.
+ *
+ * @example
+ * ```typescript
+ * const bridge = new CacheInvalidationBridge(sdk.realtime, {
+ *   markets: sdk.markets,
+ *   trading: sdk.tradingService,
+ *   orderManager,
+ * });
+ * bridge.start();
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import type { RealtimeServiceV2, TickSizeChange, MarketEvent, Subscription } from './realtime-service-v2.js';
+import type { MarketService } from './market-service.js';
+import type { TickSize } from '@polymarket/clob-client';
+import type { TradingService } from './trading-service.js';
+import type { OrderManager } from './order-manager.js';
+
+export interface CacheInvalidationTargets {
+  markets?: Pick<MarketService, 'invalidateMarket'>;
+  trading?: Pick<TradingService, 'setTickSize' | 'invalidateTokenMetadata'>;
+  orderManager?: Pick<OrderManager, 'applyTickSizeChange' | 'markMarketResolved'>;
+}
+
+export interface CacheInvalidationBridgeConfig {
+  /** Subscribe to market_created/market_resolved on start (default: true) */
+  subscribeMarketEvents?: boolean;
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+/**
+ * Emitted as `invalidated` after the caches were updated for an event
+ */
+export interface CacheInvalidationEvent {
+  reason: 'tickSizeChange' | 'marketResolved';
+  conditionId: string;
+  tokenIds: string[];
+  tickSize?: string;
+  timestamp: number;
+}
+
+export class CacheInvalidationBridge extends EventEmitter {
+  private config: Required<CacheInvalidationBridgeConfig>;
+  private lifecycleSubscription: Subscription | null = null;
+  private running = false;
+
+  private readonly tickSizeHandler = (change: TickSizeChange) => {
+    void this.handleTickSizeChange(change);
+  };
+
+  private readonly marketEventHandler = (event: MarketEvent) => {
+    if (event.type === 'resolved') {
+      void this.handleMarketResolved(event);
+    }
+  };
+
+  constructor(
+    private realtime: RealtimeServiceV2,
+    private targets: CacheInvalidationTargets,
+    config: CacheInvalidationBridgeConfig = {}
+  ) {
+    super();
+    this.config = {
+      subscribeMarketEvents: config.subscribeMarketEvents ?? true,
+      debug: config.debug ?? false,
+    };
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.realtime.on('tickSizeChange', this.tickSizeHandler);
+    this.realtime.on('marketEvent', this.marketEventHandler);
+    if (this.config.subscribeMarketEvents) {
+      this.lifecycleSubscription = this.realtime.subscribeMarketEvents({});
+    }
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+
+    this.realtime.off('tickSizeChange', this.tickSizeHandler);
+    this.realtime.off('marketEvent', this.marketEventHandler);
+    this.lifecycleSubscription?.unsubscribe();
+    this.lifecycleSubscription = null;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // ============================================================================
+  // Private
+  // ============================================================================
+
+  private async handleTickSizeChange(change: TickSizeChange): Promise<void> {
+    if (!change.assetId || !change.newTickSize) return;
+
+    this.log(`Tick size ${change.oldTickSize} -> ${change.newTickSize} for ${change.assetId}`);
+    // Without a condition ID only the token-level tick size can be updated
+    if (change.market) {
+      this.targets.orderManager?.applyTickSizeChange(change.market, change.assetId, change.newTickSize);
+    }
+
+    await this.apply(
+      {
+        reason: 'tickSizeChange',
+        conditionId: change.market,
+        tokenIds: [change.assetId],
+        tickSize: change.newTickSize,
+        timestamp: change.timestamp,
+      },
+      [
+        this.targets.trading?.setTickSize(change.assetId, change.newTickSize as TickSize),
+        change.market ? this.targets.markets?.invalidateMarket(change.market) : undefined,
+      ]
+    );
+  }
+
+  private async handleMarketResolved(event: MarketEvent): Promise<void> {
+    if (!event.conditionId) return;
+
+    const tokenIds = Array.isArray(event.data.assets_ids)
+      ? (event.data.assets_ids as unknown[]).filter((id): id is string => typeof id === 'string')
+      : [];
+
+    this.log(`Market resolved: ${event.conditionId}`);
+    this.targets.orderManager?.markMarketResolved(event.conditionId, tokenIds);
+
+    await this.apply(
+      { reason: 'marketResolved', conditionId: event.conditionId, tokenIds, timestamp: event.timestamp },
+      [
+        this.targets.markets?.invalidateMarket(event.conditionId),
+        ...tokenIds.map((tokenId) => this.targets.trading?.invalidateTokenMetadata(tokenId)),
+      ]
+    );
+  }
+
+  private async apply(event: CacheInvalidationEvent, updates: (Promise<void> | undefined)[]): Promise<void> {
+    const results = await Promise.allSettled(updates);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        this.log(`Cache update failed: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+      }
+    }
+    this.emit('invalidated', event);
+  }
+
+  private log(message: string): void {
+    if (this.config.debug) {
+      console.log(`[CacheInvalidationBridge] ${message}`);
+    }
+  }
+}
@@ -49,6 +49,9 @@
 import { EventEmitter } from 'events';
 import { ethers, Contract } from 'ethers';
 import { CTFClient, CTF_CONTRACT, type SplitResult, type MergeResult, type RedeemResult } from '../clients/ctf-client.js';
+import { SignatureType } from '../core/types.js';
+import { PolymarketError, ErrorCode } from '../core/errors.js';
+import { noopTelemetry, type Telemetry } from '../core/telemetry.js';
 
 // ============================================================================
 // Configuration & Types
@@ -69,6 +72,15 @@ export interface CTFManagerConfig {
   chainId?: number;
   /** Enable debug logging */
   debug?: boolean;
+  /** Receives logs and on-chain transaction spans */
+  telemetry?: Telemetry;
+  /**
+   * Who holds the funds (default: EOA). POLY_GNOSIS_SAFE executes operations
+   * through the Safe at `funderAddress`; POLY_PROXY is not supported on-chain.
+   */
+  signatureType?: SignatureType;
+  /** Safe holding the funds (required for POLY_GNOSIS_SAFE) */
+  funderAddress?: string;
 }
 
 /**
@@ -136,7 +148,8 @@ export class CTFManager extends EventEmitter {
   private ctfContract: Contract;
 
   // ========== Configuration ==========
-  private config: Required<CTFManagerConfig>;
+  private config: Required<Omit<CTFManagerConfig, 'signatureType' | 'funderAddress' | 'telemetry'>>;
+  private telemetry: Telemetry;
   private initialized = false;
   private userAddress: string;
 
@@ -153,19 +166,33 @@ export class CTFManager extends EventEmitter {
       ...config,
     };
 
+    this.telemetry = config.telemetry ?? noopTelemetry;
+
+    const signatureType = config.signatureType ?? SignatureType.EOA;
+    if (signatureType === SignatureType.POLY_PROXY) {
+      throw new PolymarketError(
+        ErrorCode.INVALID_CONFIG,
+        'CTF operations from Polymarket proxy wallets are not supported; use an EOA or Safe'
+      );
+    }
+    if (signatureType === SignatureType.POLY_GNOSIS_SAFE && !config.funderAddress) {
+      throw new PolymarketError(ErrorCode.INVALID_CONFIG, 'funderAddress (Safe address) is required for POLY_GNOSIS_SAFE');
+    }
+
     // Initialize CTFClient for operations
     this.ctfClient = new CTFClient({
       privateKey: config.privateKey,
       rpcUrl: this.config.rpcUrl,
       chainId: this.config.chainId,
+      safeAddress: signatureType === SignatureType.POLY_GNOSIS_SAFE ? config.funderAddress : undefined,
+      telemetry: config.telemetry,
     });
 
     // Initialize provider for event listening
     this.provider = new ethers.providers.JsonRpcProvider(this.config.rpcUrl);
 
-    // Get user address from private key
-    const wallet = new ethers.Wallet(config.privateKey);
-    this.userAddress = wallet.address;
+    // Track the address holding the funds (the Safe, or the private key's wallet)
+    this.userAddress = this.ctfClient.getFundsAddress();
 
     // Initialize CTF contract for event listening
     const CTF_ABI = [
@@ -740,13 +767,14 @@ export class CTFManager extends EventEmitter {
    * Log message (if debug enabled)
    */
   private log(message: string): void {
+    this.telemetry.log('debug', message, { service: 'CTFManager' });
     if (this.config.debug) {
       console.log(`[CTFManager] ${message}`);
     }
   }
 
   /**
-   * Get current balances
+   * Get current balances of the funds address
    */
   async getBalances(): Promise<{
     primary: string;
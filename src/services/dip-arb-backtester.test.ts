@@ -0,0 +1,139 @@
+/**
+ * DipArbBacktester Unit Tests
+ *
+ * Focus: DipArbService trading a recorded market on the replay clock,
+ * per-round settlement, and parameter sweeps.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DipArbBacktester, expandDipArbGrid } from './dip-arb-backtester.js';
+import type { DipArbMarketConfig } from './dip-arb-types.js';
+import type { RawRealtimeMessage } from './realtime-service-v2.js';
+
+const T0 = 1700000000000;
+const UP = 'up-token';
+const DOWN = 'down-token';
+
+const MARKET: DipArbMarketConfig = {
+  name: 'BTC Up or Down',
+  slug: 'btc-updown-15m-test',
+  conditionId: '0xcondition',
+  upTokenId: UP,
+  downTokenId: DOWN,
+  underlying: 'BTC',
+  durationMinutes: 15,
+  endTime: new Date(T0 + 15 * 60 * 1000),
+};
+
+const book = (at: number, tokenId: string, bid: number, ask: number): RawRealtimeMessage => ({
+  channel: 'market',
+  receivedAt: at,
+  message: {
+    topic: 'clob_market',
+    type: 'book',
+    timestamp: at,
+    payload: {
+      asset_id: tokenId,
+      market: MARKET.conditionId,
+      hash: `h${at}`,
+      timestamp: String(at),
+      bids: [{ price: String(bid), size: '200' }],
+      asks: [{ price: String(ask), size: '200' }],
+    },
+  },
+});
+
+const chainlink = (at: number, value: number): RawRealtimeMessage => ({
+  channel: 'crypto',
+  receivedAt: at,
+  message: { topic: 'crypto_prices_chainlink', type: 'update', timestamp: at, payload: { symbol: 'BTC/USD', value, timestamp: at } },
+});
+
+const RECORDING: RawRealtimeMessage[] = [
+  chainlink(T0, 100),
+  book(T0 + 1000, UP, 0.48, 0.5),
+  book(T0 + 1000, DOWN, 0.48, 0.5),
+  // UP dips 40% within the 3s sliding window → Leg1 UP
+  book(T0 + 5000, UP, 0.28, 0.3),
+  // DOWN cheap enough to hedge at 0.306 + 0.561 <= 0.92 → Leg2 DOWN
+  book(T0 + 10000, DOWN, 0.53, 0.55),
+  book(T0 + 20000, UP, 0.48, 0.5),
+  book(T0 + 200000, UP, 0.28, 0.3),
+  chainlink(T0 + 800000, 101),
+  chainlink(T0 + 15 * 60 * 1000 + 1, 99),
+];
+
+describe('DipArbBacktester', () => {
+  let dir: string;
+  let backtester: DipArbBacktester;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'poly-diparb-'));
+    writeFileSync(join(dir, 'realtime-0001.ndjson'), RECORDING.map((m) => JSON.stringify(m)).join('\n') + '\n');
+    backtester = new DipArbBacktester({ files: dir, markets: [MARKET] });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fill both legs on the replay clock and merge the pairs', async () => {
+    const result = await backtester.run();
+
+    expect(result.rounds).toHaveLength(2);
+    const [round] = result.rounds;
+    expect(round.status).toBe('completed');
+    expect(round.startTime).toBe(T0 + 1000);
+    expect(round.leg1).toMatchObject({ side: 'UP', timestamp: T0 + 5000 });
+    expect(round.leg2).toMatchObject({ side: 'DOWN', timestamp: T0 + 10000 });
+    expect(round.winner).toBe('UP');
+    // 20.4 pairs bought for 6.12 + 11.22 USDC
+    expect(round.mergedShares).toBeCloseTo(20.4);
+    expect(round.pnl).toBeCloseTo(3.06);
+
+    expect(result.summary).toMatchObject({
+      rounds: 2,
+      tradedRounds: 1,
+      leg1Fills: 1,
+      leg2Fills: 1,
+      emergencyExits: 0,
+      merges: 1,
+      hitRate: 1,
+      unresolvedRounds: 0,
+    });
+    expect(result.replay.messages).toBe(RECORDING.length);
+  });
+
+  it('should exit Leg1 after the Leg2 timeout and settle the rest at resolution', async () => {
+    const result = await backtester.run({ sumTarget: 0.8 });
+
+    const [round] = result.rounds;
+    expect(round.status).toBe('expired');
+    expect(round.leg2).toBeUndefined();
+    expect(round.exit?.success).toBe(true);
+    expect(round.mergedShares).toBe(0);
+    // DipArbService sells `shares * ask` (6) shares at the 0.28 bid; 14.4 UP shares pay out
+    expect(round.pnl).toBeCloseTo(-6.12 + 1.68 + 14.4);
+    expect(result.summary).toMatchObject({ leg1Fills: 1, leg2Fills: 0, emergencyExits: 1, merges: 0 });
+  });
+
+  it('should sweep the cartesian product of a parameter grid', async () => {
+    expect(expandDipArbGrid({ dipThreshold: [0.1, 0.5], sumTarget: [0.8, 0.92] })).toEqual([
+      { dipThreshold: 0.1, sumTarget: 0.8 },
+      { dipThreshold: 0.1, sumTarget: 0.92 },
+      { dipThreshold: 0.5, sumTarget: 0.8 },
+      { dipThreshold: 0.5, sumTarget: 0.92 },
+    ]);
+    expect(expandDipArbGrid({})).toEqual([{}]);
+
+    const results = await backtester.sweep({ dipThreshold: [0.15, 0.5], enableSurge: [false] });
+    expect(results.map((r) => r.params)).toEqual([
+      { dipThreshold: 0.15, enableSurge: false },
+      { dipThreshold: 0.5, enableSurge: false },
+    ]);
+    expect(results.map((r) => r.summary.leg1Fills)).toEqual([1, 0]);
+  });
+});
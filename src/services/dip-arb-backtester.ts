@@ -0,0 +1,415 @@
+/**
+ * DipArb Backtester
+ *
+ * Runs DipArbService's signal detection and execution logic against recorded
+ * order books and Chainlink prices (RealtimeRecorder NDJSON files) on a
+ * simulated clock:
+ *
+ * - ReplayRealtimeService dispatches the recording one message at a time
+ * - DipArbService runs unchanged, with `now` set to the replay clock and
+ *   `autoExecute` on
+ * - SimulatedTradingService fills its market orders against the replayed
+ *   books (one simulated wallet per market)
+ *
+ * Each market is settled at its end time. UP + DOWN pairs are worth $1
+ * (merged right away when `autoMerge` is on); unhedged shares pay $1 if their
+ * side won, judged by the recorded Chainlink price at the end versus the
+ * price at market start.
+ *
+ * Limitations:
+ * - Orders fill against the book of the message that triggered them, before
+ *   the next message is dispatched; split orders go back to back
+ *   (`orderIntervalMs` is ignored)
+ * - Only liquidity present in the recording can be taken
+ *
+ * @example
+ * ```typescript
+ * const backtester = new DipArbBacktester({
+ *   files: './recordings',
+ *   markets: [btc15m],
+ *   strategy: { shares: 20 },
+ * });
+ *
+ * const results = await backtester.sweep({
+ *   dipThreshold: [0.1, 0.15, 0.2],
+ *   sumTarget: [0.9, 0.95],
+ * });
+ * for (const { params, summary } of results) {
+ *   console.log(params, summary.pnl.toFixed(2), summary.hitRate);
+ * }
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import { DipArbService } from './dip-arb-service.js';
+import { ReplayRealtimeService, type ReplayStats } from './replay-realtime-service.js';
+import { SimulatedTradingService } from './simulated-trading-service.js';
+import type { CryptoPrice } from './realtime-service-v2.js';
+import type {
+  DipArbServiceConfig,
+  DipArbMarketConfig,
+  DipArbLegInfo,
+  DipArbExecutionResult,
+  DipArbNewRoundEvent,
+  DipArbRoundResult,
+  DipArbSide,
+} from './dip-arb-types.js';
+import { PolymarketError, ErrorCode } from '../core/errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Strategy parameters that can be backtested and swept */
+export type DipArbBacktestParams = Omit<DipArbServiceConfig, 'logHandler' | 'now'>;
+
+/** Candidate values per parameter; sweep() runs the cartesian product */
+export type DipArbParameterGrid = {
+  [K in keyof DipArbBacktestParams]?: Array<NonNullable<DipArbBacktestParams[K]>>;
+};
+
+export interface DipArbBacktestConfig {
+  /** Recorded NDJSON files or directories (see ReplayRealtimeService) */
+  files: string | string[];
+  /** Markets to trade; each is monitored from `endTime - durationMinutes` until `endTime` */
+  markets: DipArbMarketConfig[];
+  /** Parameters shared by every run; run() / sweep() values override them */
+  strategy?: DipArbBacktestParams;
+  /** Starting USDC of each market's simulated wallet (default: 1000) */
+  initialUsdc?: number;
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+export interface DipArbBacktestRound {
+  /** Market slug */
+  market: string;
+  roundId: string;
+  startTime: number;
+  priceToBeat: number;
+  /** 'open' = the market ended before the round completed or expired */
+  status: 'completed' | 'expired' | 'open';
+  leg1?: DipArbLegInfo;
+  leg2?: DipArbLegInfo;
+  /** Leg1 sell after a Leg2 timeout */
+  exit?: DipArbExecutionResult | null;
+  /** UP + DOWN pairs merged back to USDC (autoMerge) */
+  mergedShares: number;
+  /** Winning side, or null if the recording has no Chainlink prices for it */
+  winner: DipArbSide | null;
+  /** Cash flow plus settlement value, in USDC */
+  pnl: number;
+}
+
+export interface DipArbBacktestSummary {
+  rounds: number;
+  /** Rounds with a Leg1 fill */
+  tradedRounds: number;
+  leg1Fills: number;
+  leg2Fills: number;
+  /** Expired rounds whose Leg1 sell went through */
+  emergencyExits: number;
+  merges: number;
+  pnl: number;
+  /** Profitable traded rounds / traded rounds */
+  hitRate: number;
+  /** Traded rounds with no winner; their unhedged shares are valued at 0 */
+  unresolvedRounds: number;
+}
+
+export interface DipArbBacktestResult {
+  /** Parameters of this run (on top of `strategy`) */
+  params: DipArbBacktestParams;
+  rounds: DipArbBacktestRound[];
+  summary: DipArbBacktestSummary;
+  replay: ReplayStats;
+}
+
+interface WalletSnapshot {
+  usdc: number;
+  up: number;
+  down: number;
+}
+
+interface MarketRun {
+  market: DipArbMarketConfig;
+  service: DipArbService;
+  sim: SimulatedTradingService;
+  disconnectBooks: () => void;
+  /** Chainlink price when the market opened */
+  openPrice: number | null;
+  rounds: Array<{ round: DipArbBacktestRound; start: WalletSnapshot }>;
+}
+
+// ============================================================================
+// DipArbBacktester Implementation
+// ============================================================================
+
+export class DipArbBacktester extends EventEmitter {
+  private config: Required<Omit<DipArbBacktestConfig, 'strategy'>> & { strategy: DipArbBacktestParams };
+
+  constructor(config: DipArbBacktestConfig) {
+    super();
+
+    if (config.markets.length === 0) {
+      throw new PolymarketError(ErrorCode.INVALID_CONFIG, 'DipArbBacktester needs at least one market');
+    }
+
+    this.config = {
+      strategy: {},
+      initialUsdc: 1000,
+      debug: false,
+      ...config,
+    };
+  }
+
+  /**
+   * Replay the recording once with the given parameters
+   */
+  async run(params: DipArbBacktestParams = {}): Promise<DipArbBacktestResult> {
+    const replay = new ReplayRealtimeService({ files: this.config.files, speed: Infinity, channels: ['market', 'crypto'] });
+    const now = () => replay.getClock() ?? 0;
+    const strategy: DipArbServiceConfig = {
+      ...this.config.strategy,
+      ...params,
+      autoExecute: true,
+      orderIntervalMs: 0,
+      now,
+    };
+    // DipArbService always prints start/stop; keep quiet unless asked
+    if (!strategy.debug) {
+      strategy.logHandler = () => {};
+    }
+
+    const pending = [...this.config.markets].sort((a, b) => a.endTime.getTime() - b.endTime.getTime());
+    const active: MarketRun[] = [];
+    const rounds: DipArbBacktestRound[] = [];
+    const prices = new Map<string, number>();
+
+    const onPrice = (price: CryptoPrice) => {
+      prices.set(price.symbol, price.price);
+      for (const run of active) {
+        if (run.openPrice === null && price.symbol === chainlinkSymbol(run.market)) {
+          run.openPrice = price.price;
+        }
+      }
+    };
+    replay.on('cryptoChainlinkPrice', onPrice);
+    await replay.connect();
+
+    try {
+      let next: number | null;
+      while ((next = await replay.peekTime()) !== null) {
+        for (const run of active.filter((r) => next! >= r.market.endTime.getTime())) {
+          active.splice(active.indexOf(run), 1);
+          rounds.push(...(await this.settle(run, prices.get(chainlinkSymbol(run.market)) ?? null, true)));
+        }
+
+        while (pending.length > 0 && marketStart(pending[0]) <= next) {
+          const market = pending.shift()!;
+          if (market.endTime.getTime() > next) {
+            active.push(await this.startMarket(market, replay, strategy, prices.get(chainlinkSymbol(market)) ?? null));
+          }
+        }
+
+        await replay.step();
+        // Let executions triggered by this message finish before the next one
+        await flush();
+      }
+
+      // Recording ended before these markets did
+      for (const run of active) {
+        rounds.push(...(await this.settle(run, null, false)));
+      }
+    } finally {
+      replay.off('cryptoChainlinkPrice', onPrice);
+      replay.disconnect();
+    }
+
+    return {
+      params,
+      rounds,
+      summary: summarize(rounds),
+      replay: replay.getReplayStats(),
+    };
+  }
+
+  /**
+   * Run every combination of the grid's values, one replay each
+   */
+  async sweep(grid: DipArbParameterGrid): Promise<DipArbBacktestResult[]> {
+    const combinations = expandDipArbGrid(grid);
+    const results: DipArbBacktestResult[] = [];
+
+    for (let i = 0; i < combinations.length; i++) {
+      this.log(`Run ${i + 1}/${combinations.length}: ${JSON.stringify(combinations[i])}`);
+      const result = await this.run(combinations[i]);
+      results.push(result);
+      this.emit('runComplete', result);
+    }
+
+    return results;
+  }
+
+  // ============================================================================
+  // Private
+  // ============================================================================
+
+  private async startMarket(
+    market: DipArbMarketConfig,
+    replay: ReplayRealtimeService,
+    strategy: DipArbServiceConfig,
+    openPrice: number | null
+  ): Promise<MarketRun> {
+    const sim = new SimulatedTradingService({ initialUsdc: this.config.initialUsdc, now: strategy.now });
+    const disconnectBooks = sim.connectOrderbooks(replay);
+    for (const tokenId of [market.upTokenId, market.downTokenId]) {
+      const book = replay.getBook(tokenId);
+      if (book) sim.updateBook(book);
+    }
+
+    const service = new DipArbService(replay, sim, null);
+    service.updateConfig(strategy);
+
+    const run: MarketRun = { market, service, sim, disconnectBooks, openPrice, rounds: [] };
+
+    service.on('newRound', (event: DipArbNewRoundEvent) => {
+      run.rounds.push({
+        round: {
+          market: market.slug,
+          roundId: event.roundId,
+          startTime: event.startTime,
+          priceToBeat: event.priceToBeat,
+          status: 'open',
+          mergedShares: 0,
+          winner: null,
+          pnl: 0,
+        },
+        start: snapshot(sim, market),
+      });
+    });
+
+    service.on('roundComplete', (result: DipArbRoundResult) => {
+      const entry = run.rounds.find((r) => r.round.roundId === result.roundId);
+      if (!entry) return;
+      entry.round.status = result.status === 'expired' ? 'expired' : 'completed';
+      entry.round.leg1 = result.leg1;
+      entry.round.leg2 = result.leg2;
+      if (result.status === 'expired') {
+        entry.round.exit = result.exitResult ?? null;
+      }
+    });
+
+    service.on('error', (error: Error) => this.log(`${market.slug}: ${error.message}`));
+
+    this.log(`Starting ${market.slug}`);
+    await service.start(market);
+    return run;
+  }
+
+  /**
+   * Stop a market's service and value each round from its wallet changes
+   */
+  private async settle(run: MarketRun, closePrice: number | null, ended: boolean): Promise<DipArbBacktestRound[]> {
+    const { market, service, sim } = run;
+
+    // An open round may still hold a Leg1 fill
+    const current = service.getCurrentRound();
+    const last = run.rounds[run.rounds.length - 1];
+    if (current && last?.round.roundId === current.roundId && last.round.status === 'open') {
+      last.round.leg1 = current.leg1;
+    }
+
+    await service.stop();
+    run.disconnectBooks();
+
+    const winner: DipArbSide | null = ended && run.openPrice !== null && closePrice !== null
+      ? (closePrice >= run.openPrice ? 'UP' : 'DOWN')
+      : null;
+    const autoMerge = service.getConfig().autoMerge;
+    const final = snapshot(sim, market);
+
+    const rounds = run.rounds.map(({ round, start }, i) => {
+      const end = run.rounds[i + 1]?.start ?? final;
+      const up = end.up - start.up;
+      const down = end.down - start.down;
+      const pairs = Math.max(0, Math.min(up, down));
+
+      // Pairs redeem for $1 whoever wins; the rest pays out on the winning side only
+      let value = pairs;
+      if (winner === 'UP') value += up - pairs;
+      if (winner === 'DOWN') value += down - pairs;
+
+      round.mergedShares = autoMerge && round.status === 'completed' ? pairs : 0;
+      round.winner = winner;
+      round.pnl = end.usdc - start.usdc + value;
+      return round;
+    });
+
+    this.log(`Settled ${market.slug}: ${rounds.length} rounds, winner ${winner ?? 'unknown'}`);
+    return rounds;
+  }
+
+  private log(message: string): void {
+    if (this.config.debug) {
+      console.log(`[DipArbBacktester] ${message}`);
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Cartesian product of a parameter grid.
+ * An empty grid yields a single run with no overrides.
+ */
+export function expandDipArbGrid(grid: DipArbParameterGrid): DipArbBacktestParams[] {
+  let combinations: DipArbBacktestParams[] = [{}];
+
+  for (const [key, values] of Object.entries(grid) as Array<[keyof DipArbBacktestParams, unknown[] | undefined]>) {
+    if (!values || values.length === 0) continue;
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [key]: value }))
+    );
+  }
+
+  return combinations;
+}
+
+function summarize(rounds: DipArbBacktestRound[]): DipArbBacktestSummary {
+  const traded = rounds.filter((r) => r.leg1);
+  return {
+    rounds: rounds.length,
+    tradedRounds: traded.length,
+    leg1Fills: traded.length,
+    leg2Fills: rounds.filter((r) => r.leg2).length,
+    emergencyExits: rounds.filter((r) => r.exit?.success).length,
+    merges: rounds.filter((r) => r.mergedShares > 0).length,
+    pnl: rounds.reduce((sum, r) => sum + r.pnl, 0),
+    hitRate: traded.length > 0 ? traded.filter((r) => r.pnl > 0).length / traded.length : 0,
+    unresolvedRounds: traded.filter((r) => r.winner === null).length,
+  };
+}
+
+function snapshot(sim: SimulatedTradingService, market: DipArbMarketConfig): WalletSnapshot {
+  const { usdc, positions } = sim.getBalances();
+  return {
+    usdc,
+    up: positions[market.upTokenId] ?? 0,
+    down: positions[market.downTokenId] ?? 0,
+  };
+}
+
+function marketStart(market: DipArbMarketConfig): number {
+  return market.endTime.getTime() - market.durationMinutes * 60 * 1000;
+}
+
+function chainlinkSymbol(market: DipArbMarketConfig): string {
+  return `${market.underlying}/USD`;
+}
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
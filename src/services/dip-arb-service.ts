@@ -36,9 +36,10 @@ import {
   type Subscription,
   type CryptoPrice,
 } from './realtime-service-v2.js';
-import { TradingService, type MarketOrderParams } from './trading-service.js';
+import type { TradingClient, MarketOrderParams } from './trading-service.js';
 import { MarketService } from './market-service.js';
 import { CTFClient } from '../clients/ctf-client.js';
+import { noopTelemetry, type Telemetry } from '../core/telemetry.js';
 import type { Side } from '../core/types.js';
 import {
   type DipArbServiceConfig,
@@ -78,9 +79,10 @@ import {
 export class DipArbService extends EventEmitter {
   // Dependencies
   private realtimeService: RealtimeServiceV2;
-  private tradingService: TradingService | null = null;
-  private marketService: MarketService;
+  private tradingService: TradingClient | null = null;
+  private marketService: MarketService | null;
   private ctf: CTFClient | null = null;
+  private telemetry: Telemetry;
 
   // Configuration
   private config: DipArbConfigInternal;
@@ -129,21 +131,23 @@ export class DipArbService extends EventEmitter {
 
   constructor(
     realtimeService: RealtimeServiceV2,
-    tradingService: TradingService | null,
-    marketService: MarketService,
+    tradingService: TradingClient | null,
+    marketService: MarketService | null,
     privateKey?: string,
-    chainId: number = 137
+    chainId: number = 137,
+    telemetry: Telemetry = noopTelemetry
   ) {
     super();
 
     this.realtimeService = realtimeService;
     this.tradingService = tradingService;
     this.marketService = marketService;
+    this.telemetry = telemetry;
 
     // Initialize with default config
     this.config = { ...DEFAULT_DIP_ARB_CONFIG };
     this.autoRotateConfig = { ...DEFAULT_AUTO_ROTATE_CONFIG };
-    this.stats = createDipArbInitialStats();
+    this.stats = createDipArbInitialStats(this.now());
 
     // Initialize CTF if private key provided
     if (privateKey) {
@@ -151,6 +155,7 @@ export class DipArbService extends EventEmitter {
         privateKey,
         rpcUrl: 'https://polygon-rpc.com',
         chainId,
+        telemetry,
       });
     }
   }
@@ -191,6 +196,11 @@ export class DipArbService extends EventEmitter {
       limit = 20,
     } = options;
 
+    if (!this.marketService) {
+      this.log('No MarketService configured - cannot scan markets');
+      return [];
+    }
+
     try {
       const gammaMarkets = await this.marketService.scanCryptoShortTermMarkets({
         coin: coin as 'BTC' | 'ETH' | 'SOL' | 'XRP' | 'all',
@@ -301,7 +311,7 @@ export class DipArbService extends EventEmitter {
 
     this.market = market;
     this.isRunning = true;
-    this.stats = createDipArbInitialStats();
+    this.stats = createDipArbInitialStats(this.now());
     this.priceHistory = [];  // Clear price history for new market
 
     this.log(`Starting Dip Arb monitor for: ${market.name}`);
@@ -349,14 +359,11 @@ export class DipArbService extends EventEmitter {
     // Subscribe to Chainlink prices for the underlying asset
     // Format: ETH -> ETH/USD
     const chainlinkSymbol = `${market.underlying}/USD`;
-    console.log(`[DipArb] Subscribing to Chainlink prices: ${chainlinkSymbol}`);
+    this.log(`Subscribing to Chainlink prices: ${chainlinkSymbol}`);
     this.chainlinkSubscription = this.realtimeService.subscribeCryptoChainlinkPrices(
       [chainlinkSymbol],
       {
-        onPrice: (price: CryptoPrice) => {
-          console.log(`[DipArb] Chainlink price received: ${price.symbol} = $${price.price}`);
-          this.handleChainlinkPriceUpdate(price);
-        },
+        onPrice: (price: CryptoPrice) => this.handleChainlinkPriceUpdate(price),
       }
     );
 
@@ -447,7 +454,7 @@ export class DipArbService extends EventEmitter {
     }
 
     // Update stats
-    this.stats.runningTimeMs = Date.now() - this.stats.startTime;
+    this.stats.runningTimeMs = this.now() - this.stats.startTime;
 
     this.log('Stopped');
     this.log(`Rounds monitored: ${this.stats.roundsMonitored}`);
@@ -479,7 +486,7 @@ export class DipArbService extends EventEmitter {
   getStats(): DipArbStats {
     return {
       ...this.stats,
-      runningTimeMs: this.isRunning ? Date.now() - this.stats.startTime : this.stats.runningTimeMs,
+      runningTimeMs: this.isRunning ? this.now() - this.stats.startTime : this.stats.runningTimeMs,
       currentRound: this.currentRound ? {
         roundId: this.currentRound.roundId,
         phase: this.currentRound.phase,
@@ -512,7 +519,7 @@ export class DipArbService extends EventEmitter {
    * Execute Leg1 trade
    */
   async executeLeg1(signal: DipArbLeg1Signal): Promise<DipArbExecutionResult> {
-    const startTime = Date.now();
+    const startTime = this.now();
 
     if (!this.tradingService || !this.market || !this.currentRound) {
       this.isExecuting = false;  // Reset in case handleSignal() set it
@@ -521,7 +528,7 @@ export class DipArbService extends EventEmitter {
         leg: 'leg1',
         roundId: signal.roundId,
         error: 'Trading service not available or no active round',
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
 
@@ -585,17 +592,17 @@ export class DipArbService extends EventEmitter {
           side: signal.dipSide,
           price: avgPrice,
           shares: totalSharesFilled,
-          timestamp: Date.now(),
+          timestamp: this.now(),
           tokenId: signal.tokenId,
         };
         this.currentRound.phase = 'leg1_filled';
         this.stats.leg1Filled++;
 
-        this.lastExecutionTime = Date.now();
+        this.lastExecutionTime = this.now();
 
         // Detailed execution logging
         const slippage = ((avgPrice - signal.currentPrice) / signal.currentPrice * 100);
-        const execTimeMs = Date.now() - startTime;
+        const execTimeMs = this.now() - startTime;
 
         this.log(`✅ Leg1 FILLED: ${signal.dipSide} x${totalSharesFilled.toFixed(1)} @ ${avgPrice.toFixed(4)}`);
         this.log(`   Expected: ${signal.currentPrice.toFixed(4)} | Actual: ${avgPrice.toFixed(4)} | Slippage: ${slippage >= 0 ? '+' : ''}${slippage.toFixed(2)}%`);
@@ -622,7 +629,7 @@ export class DipArbService extends EventEmitter {
           leg: 'leg1',
           roundId: signal.roundId,
           error: 'All orders failed',
-          executionTimeMs: Date.now() - startTime,
+          executionTimeMs: this.now() - startTime,
         };
       }
     } catch (error) {
@@ -631,7 +638,7 @@ export class DipArbService extends EventEmitter {
         leg: 'leg1',
         roundId: signal.roundId,
         error: error instanceof Error ? error.message : String(error),
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     } finally {
       this.isExecuting = false;
@@ -642,7 +649,7 @@ export class DipArbService extends EventEmitter {
    * Execute Leg2 trade
    */
   async executeLeg2(signal: DipArbLeg2Signal): Promise<DipArbExecutionResult> {
-    const startTime = Date.now();
+    const startTime = this.now();
 
     if (!this.tradingService || !this.market || !this.currentRound) {
       this.isExecuting = false;  // Reset in case handleSignal() set it
@@ -651,7 +658,7 @@ export class DipArbService extends EventEmitter {
         leg: 'leg2',
         roundId: signal.roundId,
         error: 'Trading service not available or no active round',
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
 
@@ -717,7 +724,7 @@ export class DipArbService extends EventEmitter {
           side: signal.hedgeSide,
           price: avgPrice,
           shares: totalSharesFilled,
-          timestamp: Date.now(),
+          timestamp: this.now(),
           tokenId: signal.tokenId,
         };
         this.currentRound.phase = 'completed';
@@ -729,11 +736,11 @@ export class DipArbService extends EventEmitter {
         this.stats.totalProfit += this.currentRound.profit * totalSharesFilled;
         this.stats.totalSpent += actualTotalCost * totalSharesFilled;
 
-        this.lastExecutionTime = Date.now();
+        this.lastExecutionTime = this.now();
 
         // Detailed execution logging
         const slippage = ((avgPrice - signal.currentPrice) / signal.currentPrice * 100);
-        const execTimeMs = Date.now() - startTime;
+        const execTimeMs = this.now() - startTime;
         const profitPerShare = this.currentRound.profit;
         const totalProfit = profitPerShare * totalSharesFilled;
 
@@ -776,7 +783,7 @@ export class DipArbService extends EventEmitter {
           price: avgPrice,
           shares: totalSharesFilled,
           orderId: lastOrderId,
-          executionTimeMs: Date.now() - startTime,
+          executionTimeMs: this.now() - startTime,
         };
       } else {
         return {
@@ -784,7 +791,7 @@ export class DipArbService extends EventEmitter {
           leg: 'leg2',
           roundId: signal.roundId,
           error: 'All orders failed',
-          executionTimeMs: Date.now() - startTime,
+          executionTimeMs: this.now() - startTime,
         };
       }
     } catch (error) {
@@ -793,7 +800,7 @@ export class DipArbService extends EventEmitter {
         leg: 'leg2',
         roundId: signal.roundId,
         error: error instanceof Error ? error.message : String(error),
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     } finally {
       this.isExecuting = false;
@@ -807,7 +814,7 @@ export class DipArbService extends EventEmitter {
    * This locks in profit immediately after Leg2 completes.
    */
   async merge(): Promise<DipArbExecutionResult> {
-    const startTime = Date.now();
+    const startTime = this.now();
     const roundId = this.currentRound?.roundId || 'unknown';
 
     if (!this.ctf || !this.market || !this.currentRound) {
@@ -816,7 +823,7 @@ export class DipArbService extends EventEmitter {
         leg: 'merge',
         roundId,
         error: 'CTF client not available or no completed round',
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
 
@@ -832,7 +839,7 @@ export class DipArbService extends EventEmitter {
         leg: 'merge',
         roundId,
         error: 'No shares to merge',
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
 
@@ -862,7 +869,7 @@ export class DipArbService extends EventEmitter {
         roundId,
         shares,
         txHash: result.txHash,
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -872,7 +879,7 @@ export class DipArbService extends EventEmitter {
         leg: 'merge',
         roundId,
         error: errorMsg,
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
   }
@@ -925,7 +932,7 @@ export class DipArbService extends EventEmitter {
     if (upAsk <= 0 || downAsk <= 0) return;
 
     this.priceHistory.push({
-      timestamp: Date.now(),
+      timestamp: this.now(),
       upAsk,
       downAsk,
     });
@@ -944,7 +951,7 @@ export class DipArbService extends EventEmitter {
    * @returns Price from that time, or null if not available
    */
   private getPriceFromHistory(side: 'UP' | 'DOWN', msAgo: number): number | null {
-    const targetTime = Date.now() - msAgo;
+    const targetTime = this.now() - msAgo;
 
     // Find the closest price point at or before targetTime
     for (let i = this.priceHistory.length - 1; i >= 0; i--) {
@@ -992,7 +999,7 @@ export class DipArbService extends EventEmitter {
     // If no current round or current round is completed/expired, start new round
     if (!this.currentRound || this.currentRound.phase === 'completed' || this.currentRound.phase === 'expired') {
       // Check if market is still active
-      if (new Date() >= this.market.endTime) {
+      if (this.now() >= this.market.endTime.getTime()) {
         // Always log market end (not just in debug mode)
         if (!this.currentRound) {
           console.log('[DipArb] Market has ended before round could start');
@@ -1008,13 +1015,14 @@ export class DipArbService extends EventEmitter {
       const priceToBeat = this.currentUnderlyingPrice || 0;
 
       // Create new round
-      const roundId = `${this.market.slug}-${Date.now()}`;
+      const roundId = `${this.market.slug}-${this.now()}`;
       this.currentRound = createDipArbRoundState(
         roundId,
         priceToBeat,
         upPrice,
         downPrice,
-        this.market.durationMinutes
+        this.market.durationMinutes,
+        this.now()
       );
 
       // Clear price history for new round - we only want to detect instant drops within this round
@@ -1040,7 +1048,7 @@ export class DipArbService extends EventEmitter {
 
     // Check for round expiration - exit Leg1 if Leg2 times out
     if (this.currentRound && this.currentRound.phase === 'leg1_filled') {
-      const elapsed = (Date.now() - (this.currentRound.leg1?.timestamp || this.currentRound.startTime)) / 1000;
+      const elapsed = (this.now() - (this.currentRound.leg1?.timestamp || this.currentRound.startTime)) / 1000;
       if (elapsed > this.config.leg2TimeoutSeconds) {
         // ✅ FIX: Exit Leg1 position to avoid unhedged exposure
         this.log(`⚠️ Leg2 timeout (${elapsed.toFixed(0)}s > ${this.config.leg2TimeoutSeconds}s), exiting Leg1 position...`);
@@ -1077,7 +1085,7 @@ export class DipArbService extends EventEmitter {
     }
 
     const leg1 = this.currentRound.leg1;
-    const startTime = Date.now();
+    const startTime = this.now();
 
     try {
       this.log(`Selling ${leg1.shares} ${leg1.side} tokens...`);
@@ -1097,7 +1105,7 @@ export class DipArbService extends EventEmitter {
           leg: 'exit',
           roundId: this.currentRound.roundId,
           error: `Exit amount ($${exitAmount.toFixed(2)}) below Polymarket minimum ($1) - holding to expiry`,
-          executionTimeMs: Date.now() - startTime,
+          executionTimeMs: this.now() - startTime,
         };
       }
 
@@ -1125,7 +1133,7 @@ export class DipArbService extends EventEmitter {
           price: soldPrice,
           shares: leg1.shares,
           orderId: result.orderId,
-          executionTimeMs: Date.now() - startTime,
+          executionTimeMs: this.now() - startTime,
         };
       } else {
         this.log(`❌ Leg1 exit failed: ${result.errorMsg}`);
@@ -1134,7 +1142,7 @@ export class DipArbService extends EventEmitter {
           leg: 'exit',
           roundId: this.currentRound.roundId,
           error: result.errorMsg,
-          executionTimeMs: Date.now() - startTime,
+          executionTimeMs: this.now() - startTime,
         };
       }
     } catch (error) {
@@ -1144,7 +1152,7 @@ export class DipArbService extends EventEmitter {
         leg: 'exit',
         roundId: this.currentRound.roundId,
         error: error instanceof Error ? error.message : String(error),
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
   }
@@ -1168,7 +1176,7 @@ export class DipArbService extends EventEmitter {
     if (!this.currentRound || !this.market) return null;
 
     // Check if within trading window (轮次开始后的交易窗口)
-    const elapsed = (Date.now() - this.currentRound.startTime) / 60000;
+    const elapsed = (this.now() - this.currentRound.startTime) / 60000;
     if (elapsed > this.config.windowMinutes) {
       return null;
     }
@@ -1347,7 +1355,7 @@ export class DipArbService extends EventEmitter {
     // Check if profitable - 只用 sumTarget 控制
     if (totalCost > this.config.sumTarget) {
       // 每 5 秒输出一次等待日志，避免刷屏
-      if (this.config.debug && Date.now() % 5000 < 100) {
+      if (this.config.debug && this.now() % 5000 < 100) {
         const profitRate = calculateDipArbProfitRate(totalCost);
         this.log(`⏳ Waiting Leg2: ${hedgeSide} @ ${currentPrice.toFixed(4)}, cost ${totalCost.toFixed(4)} > ${this.config.sumTarget}, profit ${(profitRate * 100).toFixed(1)}%`);
       }
@@ -1433,7 +1441,7 @@ export class DipArbService extends EventEmitter {
       return;
     }
 
-    const now = Date.now();
+    const now = this.now();
     if (now - this.lastExecutionTime < this.config.executionCooldown) {
       // Skip - within cooldown period
       if (this.config.debug) {
@@ -1534,7 +1542,7 @@ export class DipArbService extends EventEmitter {
 
     try {
       // Scan for recently ended markets of the configured underlyings
-      const now = Date.now();
+      const now = this.now();
       const markets = await this.scanUpcomingMarkets({
         coin: this.autoRotateConfig.underlyings.length === 1
           ? this.autoRotateConfig.underlyings[0]
@@ -1661,14 +1669,14 @@ export class DipArbService extends EventEmitter {
    * - 'sell': 直接卖出 token（更快但可能有滑点）
    */
   async settle(strategy: 'redeem' | 'sell' = 'redeem'): Promise<DipArbSettleResult> {
-    const startTime = Date.now();
+    const startTime = this.now();
 
     if (!this.market || !this.currentRound) {
       return {
         success: false,
         strategy,
         error: 'No active market or round',
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
 
@@ -1683,7 +1691,7 @@ export class DipArbService extends EventEmitter {
         success: false,
         strategy,
         error: error instanceof Error ? error.message : String(error),
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
   }
@@ -1714,7 +1722,7 @@ export class DipArbService extends EventEmitter {
       previousMarket: this.market?.conditionId,
       newMarket: nextMarket.conditionId,
       reason: 'manual',
-      timestamp: Date.now(),
+      timestamp: this.now(),
     };
     this.emit('rotate', event);
 
@@ -1776,7 +1784,7 @@ export class DipArbService extends EventEmitter {
       market,
       round,
       marketEndTime: market.endTime.getTime(),
-      addedAt: Date.now(),
+      addedAt: this.now(),
       retryCount: 0,
     };
     this.pendingRedemptions.push(pending);
@@ -1792,7 +1800,7 @@ export class DipArbService extends EventEmitter {
       return;
     }
 
-    const now = Date.now();
+    const now = this.now();
     const waitMs = (this.autoRotateConfig.redeemWaitMinutes || 5) * 60 * 1000;
 
     for (let i = this.pendingRedemptions.length - 1; i >= 0; i--) {
@@ -1900,7 +1908,7 @@ export class DipArbService extends EventEmitter {
       return;
     }
 
-    const now = Date.now();
+    const now = this.now();
     const endTime = this.market.endTime.getTime();
     const timeUntilEnd = endTime - now;
     const preloadMs = (this.autoRotateConfig.preloadMinutes || 2) * 60 * 1000;
@@ -1959,7 +1967,7 @@ export class DipArbService extends EventEmitter {
           previousMarket: previousMarket.conditionId,
           newMarket: newMarket.conditionId,
           reason: 'marketEnded',
-          timestamp: Date.now(),
+          timestamp: this.now(),
         };
         this.emit('rotate', event);
       } else {
@@ -1982,7 +1990,7 @@ export class DipArbService extends EventEmitter {
             previousMarket: previousMarket.conditionId,
             newMarket: newMarket.conditionId,
             reason: 'marketEnded',
-            timestamp: Date.now(),
+            timestamp: this.now(),
           };
           this.emit('rotate', event);
         } else {
@@ -2019,14 +2027,14 @@ export class DipArbService extends EventEmitter {
   }
 
   private async settleByRedeem(): Promise<DipArbSettleResult> {
-    const startTime = Date.now();
+    const startTime = this.now();
 
     if (!this.ctf || !this.market) {
       return {
         success: false,
         strategy: 'redeem',
         error: 'CTF client or market not available',
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
 
@@ -2039,7 +2047,7 @@ export class DipArbService extends EventEmitter {
           success: false,
           strategy: 'redeem',
           error: 'Market not yet resolved',
-          executionTimeMs: Date.now() - startTime,
+          executionTimeMs: this.now() - startTime,
         };
       }
 
@@ -2056,27 +2064,27 @@ export class DipArbService extends EventEmitter {
         strategy: 'redeem',
         txHash: result.txHash,
         amountReceived: result.usdcReceived ? parseFloat(result.usdcReceived) : undefined,
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     } catch (error) {
       return {
         success: false,
         strategy: 'redeem',
         error: error instanceof Error ? error.message : String(error),
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
   }
 
   private async settleBySell(): Promise<DipArbSettleResult> {
-    const startTime = Date.now();
+    const startTime = this.now();
 
     if (!this.tradingService || !this.market || !this.currentRound) {
       return {
         success: false,
         strategy: 'sell',
         error: 'Trading service or market not available',
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
 
@@ -2119,14 +2127,14 @@ export class DipArbService extends EventEmitter {
         success: true,
         strategy: 'sell',
         amountReceived: totalReceived,
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     } catch (error) {
       return {
         success: false,
         strategy: 'sell',
         error: error instanceof Error ? error.message : String(error),
-        executionTimeMs: Date.now() - startTime,
+        executionTimeMs: this.now() - startTime,
       };
     }
   }
@@ -2144,7 +2152,7 @@ export class DipArbService extends EventEmitter {
     const downAsk = this.downAsks[0]?.price ?? 0;
 
     this.orderbookBuffer.push({
-      timestamp: Date.now(),
+      timestamp: this.now(),
       upAsk,
       downAsk,
       upDepth: this.upAsks.length,
@@ -2162,7 +2170,7 @@ export class DipArbService extends EventEmitter {
    * Reduces log noise from ~10 logs/sec to 1 log/10sec
    */
   private maybeLogOrderbookSummary(): void {
-    const now = Date.now();
+    const now = this.now();
 
     // Only log every ORDERBOOK_LOG_INTERVAL_MS
     if (now - this.lastOrderbookLogTime < this.ORDERBOOK_LOG_INTERVAL_MS) {
@@ -2206,7 +2214,16 @@ export class DipArbService extends EventEmitter {
     this.log(`   Change: UP ${upChange}% | DOWN ${downChange}%`);
   }
 
+  /**
+   * Current time (config.now in backtests, Date.now otherwise)
+   */
+  private now(): number {
+    return this.config.now ? this.config.now() : Date.now();
+  }
+
   private log(message: string): void {
+    this.telemetry.log('debug', message, { service: 'DipArb' });
+
     const shouldLog = this.config.debug || message.startsWith('Starting') || message.startsWith('Stopped');
     if (!shouldLog) return;
 
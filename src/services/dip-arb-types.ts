@@ -150,13 +150,21 @@ export interface DipArbServiceConfig {
    * }
    */
   logHandler?: (message: string) => void;
+
+  /**
+   * 自定义时钟（Unix ms）
+   * 回测时传入回放时钟，所有轮次、窗口和冷却计时都基于此时钟
+   * @default Date.now
+   */
+  now?: () => number;
 }
 
 /**
- * 内部配置类型（不包含 logHandler，因为它是纯可选的回调函数）
+ * 内部配置类型（不包含 logHandler / now，因为它们是纯可选的回调函数）
  */
-export type DipArbConfigInternal = Required<Omit<DipArbServiceConfig, 'logHandler'>> & {
+export type DipArbConfigInternal = Required<Omit<DipArbServiceConfig, 'logHandler' | 'now'>> & {
   logHandler?: (message: string) => void;
+  now?: () => number;
 };
 
 /**
@@ -591,9 +599,9 @@ export interface DipArbRotateEvent {
 /**
  * 创建初始统计
  */
-export function createDipArbInitialStats(): DipArbStats {
+export function createDipArbInitialStats(startTime: number = Date.now()): DipArbStats {
   return {
-    startTime: Date.now(),
+    startTime,
     runningTimeMs: 0,
     roundsMonitored: 0,
     roundsCompleted: 0,
@@ -616,9 +624,9 @@ export function createDipArbRoundState(
   priceToBeat: number,
   upPrice: number,
   downPrice: number,
-  durationMinutes: number = 15
+  durationMinutes: number = 15,
+  now: number = Date.now()
 ): DipArbRoundState {
-  const now = Date.now();
   return {
     roundId,
     startTime: now,
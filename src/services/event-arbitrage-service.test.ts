@@ -0,0 +1,248 @@
+/**
+ * EventArbitrageService Unit Tests
+ *
+ * Focus: building configs from Gamma events, depth-sized basket detection,
+ * and basket execution against SimulatedTradingService.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventArbitrageService, type EventArbitrageConfig } from './event-arbitrage-service.js';
+import { SimulatedTradingService } from './simulated-trading-service.js';
+import type { GammaEvent, GammaMarket } from '../clients/gamma-api.js';
+import { PolymarketError, ErrorCode } from '../core/errors.js';
+import { RateLimiter, ApiType } from '../core/rate-limiter.js';
+import { RealTimeDataClient } from '../realtime/index.js';
+import { RealtimeServiceV2 } from './realtime-service-v2.js';
+import type { GammaApiClient } from '../clients/gamma-api.js';
+import type { MarketService } from './market-service.js';
+
+const EVENT: EventArbitrageConfig = {
+  name: 'Who will win?',
+  outcomes: ['a', 'b', 'c'].map((id) => ({
+    name: id.toUpperCase(),
+    conditionId: `0x${id}`,
+    yesTokenId: `yes-${id}`,
+    noTokenId: `no-${id}`,
+  })),
+};
+
+const gammaMarket = (overrides: Partial<GammaMarket>): GammaMarket => ({
+  id: '1',
+  conditionId: '0xa',
+  slug: 'a',
+  question: 'Will A win?',
+  outcomes: ['Yes', 'No'],
+  outcomePrices: [0.3, 0.7],
+  volume: 0,
+  liquidity: 0,
+  endDate: new Date(0),
+  active: true,
+  closed: false,
+  negRisk: true,
+  clobTokenIds: ['yes-a', 'no-a'],
+  ...overrides,
+});
+
+describe('EventArbitrageService', () => {
+  let sim: SimulatedTradingService;
+  let service: EventArbitrageService;
+
+  const setBooks = (books: Record<string, { bids: [number, number][]; asks: [number, number][] }>) => {
+    for (const [tokenId, { bids, asks }] of Object.entries(books)) {
+      const levels = (l: [number, number][]) => l.map(([price, size]) => ({ price, size }));
+      sim.updateBook({ tokenId, bids: levels(bids), asks: levels(asks), timestamp: Date.now() });
+      (service as any).handleBookUpdate(tokenId, levels(bids), levels(asks));
+    }
+  };
+
+  beforeEach(async () => {
+    sim = new SimulatedTradingService({ initialUsdc: 1000 });
+    service = new EventArbitrageService({ tradingService: sim, enableLogging: false, sizeSafetyFactor: 1 });
+    (service as any).event = EVENT;
+    await (service as any).updateBalance();
+  });
+
+  describe('toEventConfig', () => {
+    it('should keep open outcomes of a neg-risk event', () => {
+      const event: GammaEvent = {
+        id: '1',
+        slug: 'winner',
+        title: 'Winner',
+        negRisk: true,
+        markets: [
+          gammaMarket({ groupItemTitle: 'A' }),
+          gammaMarket({ conditionId: '0xb', groupItemTitle: 'B', clobTokenIds: ['yes-b', 'no-b'] }),
+          gammaMarket({ conditionId: '0xc', closed: true, clobTokenIds: ['yes-c', 'no-c'] }),
+        ],
+      };
+
+      const config = EventArbitrageService.toEventConfig(event);
+      expect(config.outcomes.map((o) => [o.name, o.yesTokenId])).toEqual([['A', 'yes-a'], ['B', 'yes-b']]);
+    });
+
+    it('should reject events that are not neg-risk', () => {
+      const event: GammaEvent = { id: '1', slug: 'x', title: 'X', markets: [gammaMarket({ negRisk: false })] };
+      expect(() => EventArbitrageService.toEventConfig(event)).toThrow(PolymarketError);
+      try {
+        EventArbitrageService.toEventConfig(event);
+      } catch (error) {
+        expect((error as PolymarketError).code).toBe(ErrorCode.INVALID_CONFIG);
+      }
+    });
+  });
+
+  it('should send Gamma requests through the rate limiter it was given', async () => {
+    const rateLimiter = new RateLimiter({ retryPolicies: { [ApiType.GAMMA_API]: { breaker: { failureThreshold: 1 } } } });
+    rateLimiter.reportResult(ApiType.GAMMA_API, { error: 'upstream', status: 502 });
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    const shared = new EventArbitrageService({ rateLimiter, enableLogging: false });
+    await expect(shared.loadEvent('winner')).rejects.toMatchObject({ code: ErrorCode.CIRCUIT_OPEN });
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+
+  it('should point its internal Gamma, CLOB and WebSocket clients at the configured endpoints', async () => {
+    const event = { id: '1', slug: 'winner', title: 'Winner', negRisk: true, markets: [
+      gammaMarket({ clobTokenIds: '["yes-a","no-a"]' as unknown as string[] }),
+      gammaMarket({ conditionId: '0xb', clobTokenIds: '["yes-b","no-b"]' as unknown as string[] }),
+    ] };
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify([event])));
+    const urls: string[] = [];
+    const connectSpy = vi.spyOn(RealTimeDataClient.prototype, 'connect').mockImplementation(function (this: RealTimeDataClient) {
+      const { url, onConnect } = (this as any).config;
+      urls.push(url);
+      onConnect?.(this);
+    });
+    const endpoints = {
+      gammaApi: 'https://gamma.test',
+      clob: 'https://clob.test',
+      ws: { market: 'wss://ws.test/market', user: 'wss://ws.test/user', liveData: 'wss://live.test' },
+    };
+
+    const configured = new EventArbitrageService({
+      privateKey: '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+      endpoints,
+      enableLogging: false,
+    });
+    await configured.loadEvent('winner');
+    expect(String(fetchSpy.mock.calls[0][0])).toMatch(/^https:\/\/gamma\.test\/events\?/);
+    expect((configured as any).tradingService.clobHost).toBe('https://clob.test');
+
+    await (configured as any).realtimeService.connect();
+    expect(urls).toEqual(['wss://ws.test/market', 'wss://ws.test/user', 'wss://live.test']);
+    (configured as any).realtimeService.disconnect();
+    fetchSpy.mockRestore();
+    connectSpy.mockRestore();
+  });
+
+  it('should not report an opportunity until every outcome has a book', () => {
+    setBooks({
+      'yes-a': { bids: [[0.28, 100]], asks: [[0.3, 100]] },
+      'yes-b': { bids: [[0.23, 100]], asks: [[0.25, 100]] },
+    });
+    expect(service.checkOpportunity()).toBeNull();
+  });
+
+  it('should size a long basket by depth and execute every leg', async () => {
+    setBooks({
+      'yes-a': { bids: [[0.28, 100]], asks: [[0.3, 10], [0.32, 100]] },
+      'yes-b': { bids: [[0.23, 100]], asks: [[0.25, 30], [0.3, 100]] },
+      'yes-c': { bids: [[0.38, 100]], asks: [[0.4, 100]] },
+    });
+
+    const opportunity = service.checkOpportunity();
+    expect(opportunity).toMatchObject({ type: 'long', recommendedSize: 30, maxOrderbookSize: 30 });
+    expect(opportunity!.legs.map((l) => l.worstPrice)).toEqual([0.32, 0.25, 0.4]);
+    expect(opportunity!.averageBasketPrice).toBeCloseTo((10 * 0.95 + 20 * 0.97) / 30);
+
+    const result = await service.execute(opportunity!);
+    expect(result.success).toBe(true);
+    expect(result.legs.every((l) => l.success)).toBe(true);
+
+    // Legs are sized in shares, so cheaper fills do not buy extra
+    const { yesTokens } = service.getBalance();
+    for (const outcome of EVENT.outcomes) {
+      expect(yesTokens[outcome.yesTokenId]).toBeCloseTo(30);
+    }
+  });
+
+  it('should sell filled legs back when the basket is incomplete', async () => {
+    setBooks({
+      'yes-a': { bids: [[0.28, 100]], asks: [[0.3, 100]] },
+      'yes-b': { bids: [[0.23, 100]], asks: [[0.25, 100]] },
+      'yes-c': { bids: [[0.38, 100]], asks: [[0.4, 100]] },
+    });
+    const opportunity = service.checkOpportunity()!;
+    // The C book thins out before the orders land
+    sim.updateBook({ tokenId: 'yes-c', bids: [{ price: 0.38, size: 100 }], asks: [{ price: 0.4, size: 5 }], timestamp: Date.now() });
+
+    const result = await service.execute(opportunity);
+
+    expect(result).toMatchObject({ success: false, unwound: true });
+    expect(result.legs.map((l) => [l.outcome.name, l.success, l.unwound])).toEqual([
+      ['A', true, true],
+      ['B', true, true],
+      ['C', false, undefined],
+    ]);
+    const { yesTokens } = service.getBalance();
+    expect(yesTokens['yes-a']).toBeCloseTo(0);
+    expect(yesTokens['yes-b']).toBeCloseTo(0);
+    // Only the spread is lost
+    expect(sim.getBalances().usdc).toBeCloseTo(1000 - opportunity.recommendedSize * 0.04);
+  });
+
+  it('should use the realtime, market and Gamma services it was given', async () => {
+    const realtime = new RealtimeServiceV2();
+    const connect = vi.spyOn(realtime, 'connect').mockResolvedValue();
+    const disconnect = vi.spyOn(realtime, 'disconnect');
+    const subscribeMarkets = vi.spyOn(realtime, 'subscribeMarkets');
+    const gammaApi = { getEventBySlug: vi.fn(async () => null) };
+    const marketService = {} as MarketService;
+
+    const shared = new EventArbitrageService({
+      realtimeService: realtime,
+      marketService,
+      gammaApi: gammaApi as unknown as GammaApiClient,
+      enableLogging: false,
+    });
+    await expect(shared.loadEvent('winner')).rejects.toMatchObject({ code: ErrorCode.MARKET_NOT_FOUND });
+    expect(gammaApi.getEventBySlug).toHaveBeenCalledWith('winner');
+
+    await shared.start(EVENT);
+    expect(connect).toHaveBeenCalled();
+    expect(subscribeMarkets.mock.calls[0][0]).toEqual(['yes-a', 'yes-b', 'yes-c']);
+    await shared.stop();
+    expect(disconnect).not.toHaveBeenCalled();
+
+    // The default realtime service resyncs books through the service's MarketService
+    const standalone = new EventArbitrageService({ marketService, enableLogging: false });
+    expect((standalone as any).realtimeService.marketService).toBe(marketService);
+  });
+
+  it('should only report short baskets for held YES tokens', async () => {
+    const books = {
+      'yes-a': { bids: [[0.4, 100]] as [number, number][], asks: [[0.42, 100]] as [number, number][] },
+      'yes-b': { bids: [[0.35, 100]] as [number, number][], asks: [[0.37, 100]] as [number, number][] },
+      'yes-c': { bids: [[0.3, 100]] as [number, number][], asks: [[0.32, 100]] as [number, number][] },
+    };
+    setBooks(books);
+    expect(service.checkOpportunity()).toBeNull();
+
+    sim = new SimulatedTradingService({
+      initialUsdc: 0,
+      initialPositions: { 'yes-a': 20, 'yes-b': 20, 'yes-c': 50 },
+    });
+    (service as any).tradingService = sim;
+    await (service as any).updateBalance();
+    setBooks(books);
+
+    const opportunity = service.checkOpportunity();
+    expect(opportunity).toMatchObject({ type: 'short', recommendedSize: 20 });
+    expect(opportunity!.profitRate).toBeCloseTo(0.05);
+
+    const result = await service.execute(opportunity!);
+    expect(result.success).toBe(true);
+    expect(sim.getBalances().usdc).toBeCloseTo(20 * 1.05);
+  });
+});
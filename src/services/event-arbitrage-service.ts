@@ -0,0 +1,807 @@
+/**
+ * EventArbitrageService - Multi-outcome (neg-risk) Event Arbitrage
+ *
+ * Monitors every outcome of a neg-risk event (e.g. "Who will win the
+ * election?") and detects when the YES books are mispriced as a whole.
+ * Exactly one market of a neg-risk event resolves YES, so a basket holding
+ * one YES share per outcome always pays out $1.
+ *
+ * Strategy:
+ * - Long Arb: Sum of YES asks < $1 → Buy YES on every outcome, hold to resolution
+ * - Short Arb: Sum of YES bids > $1 → Sell pre-held YES baskets
+ *
+ * Trade size is found by walking all books together (calculateBasketDepth),
+ * so deeper levels are only used while the marginal basket stays profitable.
+ *
+ * Caveats:
+ * - Outcomes missing from the basket break the $1 guarantee. Markets that are
+ *   closed or have no order book are excluded, so only use this on events
+ *   whose remaining outcomes are all listed.
+ * - Legs are sent in parallel as FOK orders. If only some of them fill, the
+ *   filled legs are unwound (long: sold back, short: bought back) with FAK
+ *   orders against the current books; the result reports each leg's unwind.
+ *
+ * @example
+ * ```typescript
+ * const service = new EventArbitrageService({ privateKey: '0x...', autoExecute: true });
+ * service.on('opportunity', (opp) => console.log(opp.description));
+ * await service.start('presidential-election-winner-2028');
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import {
+  RealtimeServiceV2,
+  type MarketSubscription,
+  type BookUpdatedEvent,
+} from './realtime-service-v2.js';
+import { TradingService, MIN_ORDER_VALUE_USDC, type TradingClient, type OrderResult } from './trading-service.js';
+import { MarketService } from './market-service.js';
+import { GammaApiClient, type GammaEvent } from '../clients/gamma-api.js';
+import { RateLimiter } from '../core/rate-limiter.js';
+import { createUnifiedCache } from '../core/unified-cache.js';
+import { PolymarketError, ErrorCode } from '../core/errors.js';
+import { noopTelemetry, TELEMETRY_METRICS, type Telemetry } from '../core/telemetry.js';
+import { calculateBasketDepth } from '../utils/price-utils.js';
+import type { OrderbookLevel, PolymarketEndpoints } from '../core/types.js';
+
+// ===== Types =====
+
+export interface EventOutcomeConfig {
+  /** Outcome label (groupItemTitle or question) */
+  name: string;
+  /** Condition ID of the outcome's binary market */
+  conditionId: string;
+  /** YES token ID */
+  yesTokenId: string;
+  /** NO token ID */
+  noTokenId: string;
+}
+
+export interface EventArbitrageConfig {
+  /** Event title for logging */
+  name: string;
+  /** Gamma event slug */
+  slug?: string;
+  /** Neg-risk market ID shared by the outcomes */
+  negRiskMarketId?: string;
+  /** Every outcome of the event */
+  outcomes: EventOutcomeConfig[];
+}
+
+export interface EventArbitrageServiceConfig {
+  /** Private key for trading (optional for monitor-only mode) */
+  privateKey?: string;
+  /**
+   * Trading backend for order execution (default: TradingService built from `privateKey`).
+   * Pass a SimulatedTradingService to paper-trade.
+   */
+  tradingService?: TradingClient;
+  /** Rate limiter for API calls (default: a new RateLimiter; pass `sdk.getRateLimiter()` to share the SDK's) */
+  rateLimiter?: RateLimiter;
+  /** Receives logs, per-leg order counts, request metrics and WebSocket metrics */
+  telemetry?: Telemetry;
+  /** Endpoint overrides for the internal WebSocket, CLOB and Gamma clients (pass the SDK's) */
+  endpoints?: PolymarketEndpoints;
+  /**
+   * Realtime service to subscribe through (default: a new RealtimeServiceV2
+   * that resyncs via `marketService`). Pass `sdk.realtime` to share its
+   * connection; an injected service is not disconnected by stop().
+   */
+  realtimeService?: RealtimeServiceV2;
+  /** Market service for REST order books (default: one built on `gammaApi`). Pass `sdk.markets`. */
+  marketService?: MarketService;
+  /** Gamma client used to load and scan events (default: a new GammaApiClient). Pass `sdk.gammaApi`. */
+  gammaApi?: GammaApiClient;
+  /** Minimum profit per basket (default: 0.005 = 0.5%) */
+  profitThreshold?: number;
+  /** Minimum baskets per trade (default: 5, the CLOB minimum order size) */
+  minTradeSize?: number;
+  /** Maximum baskets per trade (default: 100) */
+  maxTradeSize?: number;
+  /** Size safety factor 0-1 (default: 0.8) - use only 80% of orderbook depth to prevent partial fills */
+  sizeSafetyFactor?: number;
+  /** Auto-execute mode (default: false) */
+  autoExecute?: boolean;
+  /** Enable logging (default: true) */
+  enableLogging?: boolean;
+  /** Cooldown between executions in ms (default: 5000) */
+  executionCooldown?: number;
+  /** Balance refresh interval in ms (default: 30000) */
+  balanceRefreshInterval?: number;
+}
+
+export interface EventOrderbookState {
+  /** YES bids per token ID (highest first) */
+  bids: Record<string, OrderbookLevel[]>;
+  /** YES asks per token ID (lowest first) */
+  asks: Record<string, OrderbookLevel[]>;
+  lastUpdate: number;
+}
+
+export interface EventBalanceState {
+  usdc: number;
+  /** YES shares held per token ID */
+  yesTokens: Record<string, number>;
+  lastUpdate: number;
+}
+
+export interface EventArbitrageLeg {
+  outcome: EventOutcomeConfig;
+  /** Best price on the traded side */
+  bestPrice: number;
+  /** Worst price reached at the recommended size (used as the order's price limit) */
+  worstPrice: number;
+}
+
+export interface EventArbitrageOpportunity {
+  type: 'long' | 'short';
+  /** Profit per basket at the recommended size (0.01 = 1 cent per $1 basket) */
+  profitRate: number;
+  /** Profit in percentage */
+  profitPercent: number;
+  /** Sum of best YES asks (long) or bids (short) */
+  basketPrice: number;
+  /** Average basket cost (long) or revenue (short) at the recommended size */
+  averageBasketPrice: number;
+  legs: EventArbitrageLeg[];
+  /** Maximum profitable size based on orderbook depth */
+  maxOrderbookSize: number;
+  /** Maximum size based on balance */
+  maxBalanceSize: number;
+  /** Recommended number of baskets */
+  recommendedSize: number;
+  /** Estimated profit in USDC */
+  estimatedProfit: number;
+  description: string;
+  timestamp: number;
+}
+
+export interface EventArbitrageLegResult {
+  outcome: EventOutcomeConfig;
+  success: boolean;
+  orderId?: string;
+  errorMsg?: string;
+  /** Set on filled legs of an incomplete basket: whether the leg was unwound */
+  unwound?: boolean;
+  unwindOrderId?: string;
+  unwindError?: string;
+}
+
+export interface EventArbitrageExecutionResult {
+  success: boolean;
+  type: 'long' | 'short';
+  size: number;
+  profit: number;
+  legs: EventArbitrageLegResult[];
+  error?: string;
+  /** Incomplete basket only: true if every filled leg was unwound */
+  unwound?: boolean;
+  executionTimeMs: number;
+}
+
+export interface EventScanCriteria {
+  /** Minimum 24h volume summed over the event's markets (default: 1000) */
+  minVolume24h?: number;
+  /** Keywords matched against the event title (optional) */
+  keywords?: string[];
+  /** Maximum number of events to fetch (default: 50) */
+  limit?: number;
+}
+
+export interface EventScanResult {
+  event: EventArbitrageConfig;
+  arbType: 'long' | 'short' | 'none';
+  /** Profit per basket at the best level */
+  profitRate: number;
+  profitPercent: number;
+  /** Sum of best YES asks */
+  askSum: number;
+  /** Sum of best YES bids */
+  bidSum: number;
+  /** Profitable baskets available on the books */
+  availableSize: number;
+  volume24h: number;
+  description: string;
+}
+
+export interface EventArbitrageServiceEvents {
+  opportunity: (opportunity: EventArbitrageOpportunity) => void;
+  execution: (result: EventArbitrageExecutionResult) => void;
+  balanceUpdate: (balance: EventBalanceState) => void;
+  orderbookUpdate: (orderbook: EventOrderbookState) => void;
+  error: (error: Error) => void;
+  started: (event: EventArbitrageConfig) => void;
+  stopped: () => void;
+}
+
+// ===== EventArbitrageService =====
+
+export class EventArbitrageService extends EventEmitter {
+  private realtimeService: RealtimeServiceV2;
+  private ownsRealtimeService: boolean;
+  private marketService: MarketService;
+  private gammaApi: GammaApiClient;
+  private marketSubscription: MarketSubscription | null = null;
+  private tradingService: TradingClient | null = null;
+  private rateLimiter: RateLimiter;
+  private telemetry: Telemetry;
+  private endpoints?: PolymarketEndpoints;
+
+  private event: EventArbitrageConfig | null = null;
+  private config: Required<Omit<EventArbitrageServiceConfig, 'privateKey' | 'tradingService' | 'rateLimiter' | 'telemetry' | 'endpoints' | 'realtimeService' | 'marketService' | 'gammaApi'>>;
+
+  private orderbook: EventOrderbookState = { bids: {}, asks: {}, lastUpdate: 0 };
+  private balance: EventBalanceState = { usdc: 0, yesTokens: {}, lastUpdate: 0 };
+
+  private isExecuting = false;
+  private lastExecutionTime = 0;
+  private balanceUpdateInterval: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+
+  private stats = {
+    opportunitiesDetected: 0,
+    executionsAttempted: 0,
+    executionsSucceeded: 0,
+    totalProfit: 0,
+    startTime: 0,
+  };
+
+  constructor(config: EventArbitrageServiceConfig = {}) {
+    super();
+
+    this.config = {
+      profitThreshold: config.profitThreshold ?? 0.005,
+      minTradeSize: config.minTradeSize ?? 5,
+      maxTradeSize: config.maxTradeSize ?? 100,
+      sizeSafetyFactor: config.sizeSafetyFactor ?? 0.8,
+      autoExecute: config.autoExecute ?? false,
+      enableLogging: config.enableLogging ?? true,
+      executionCooldown: config.executionCooldown ?? 5000,
+      balanceRefreshInterval: config.balanceRefreshInterval ?? 30000,
+    };
+
+    this.telemetry = config.telemetry ?? noopTelemetry;
+    this.rateLimiter = config.rateLimiter ?? new RateLimiter({ telemetry: this.telemetry });
+    this.endpoints = config.endpoints;
+
+    const cache = createUnifiedCache();
+    this.gammaApi = config.gammaApi ?? new GammaApiClient(this.rateLimiter, cache, this.endpoints);
+    this.marketService = config.marketService ?? new MarketService(this.gammaApi, undefined, this.rateLimiter, cache, {
+      endpoints: this.endpoints,
+      telemetry: this.telemetry,
+    });
+    this.ownsRealtimeService = !config.realtimeService;
+    this.realtimeService = config.realtimeService ??
+      new RealtimeServiceV2({ debug: false, telemetry: this.telemetry, endpoints: this.endpoints }, this.marketService);
+
+    if (config.tradingService) {
+      this.tradingService = config.tradingService;
+    } else if (config.privateKey) {
+      this.tradingService = new TradingService(this.rateLimiter, createUnifiedCache(), {
+        privateKey: config.privateKey,
+        chainId: 137,
+        endpoints: this.endpoints,
+      });
+    }
+  }
+
+  // ===== Public API =====
+
+  /**
+   * Build an event config from a Gamma neg-risk event
+   *
+   * Closed markets and markets without CLOB tokens are skipped.
+   *
+   * @throws PolymarketError MARKET_NOT_FOUND if the slug is unknown,
+   *         INVALID_CONFIG if the event is not neg-risk or has < 2 tradable outcomes
+   */
+  async loadEvent(slug: string): Promise<EventArbitrageConfig> {
+    const event = await this.gammaApi.getEventBySlug(slug);
+    if (!event) {
+      throw new PolymarketError(ErrorCode.MARKET_NOT_FOUND, `Event not found: ${slug}`);
+    }
+    return EventArbitrageService.toEventConfig(event);
+  }
+
+  /**
+   * Convert a Gamma event into an EventArbitrageConfig
+   *
+   * @throws PolymarketError INVALID_CONFIG if the event is not neg-risk or has < 2 tradable outcomes
+   */
+  static toEventConfig(event: GammaEvent): EventArbitrageConfig {
+    const negRisk = event.negRisk ?? event.markets.some((m) => m.negRisk);
+    if (!negRisk) {
+      throw new PolymarketError(
+        ErrorCode.INVALID_CONFIG,
+        `Event ${event.slug} is not a neg-risk event; outcomes are not mutually exclusive`
+      );
+    }
+
+    const outcomes: EventOutcomeConfig[] = [];
+    for (const market of event.markets) {
+      if (market.closed || !market.conditionId) continue;
+      const [yesTokenId, noTokenId] = market.clobTokenIds ?? [];
+      if (!yesTokenId || !noTokenId) continue;
+      outcomes.push({
+        name: market.groupItemTitle || market.question,
+        conditionId: market.conditionId,
+        yesTokenId,
+        noTokenId,
+      });
+    }
+
+    if (outcomes.length < 2) {
+      throw new PolymarketError(
+        ErrorCode.INVALID_CONFIG,
+        `Event ${event.slug} has ${outcomes.length} tradable outcome(s); need at least 2`
+      );
+    }
+
+    return {
+      name: event.title,
+      slug: event.slug,
+      negRiskMarketId: event.negRiskMarketId ?? event.markets.find((m) => m.negRiskMarketId)?.negRiskMarketId,
+      outcomes,
+    };
+  }
+
+  /**
+   * Start monitoring an event (config or Gamma slug) for arbitrage opportunities
+   */
+  async start(event: EventArbitrageConfig | string): Promise<void> {
+    if (this.isRunning) {
+      throw new Error('EventArbitrageService is already running. Call stop() first.');
+    }
+
+    const config = typeof event === 'string' ? await this.loadEvent(event) : event;
+    this.event = config;
+    this.orderbook = { bids: {}, asks: {}, lastUpdate: 0 };
+    this.isRunning = true;
+    this.stats.startTime = Date.now();
+
+    this.log(`Starting event arbitrage monitor for: ${config.name}`);
+    this.log(`Outcomes: ${config.outcomes.length}`);
+    this.log(`Profit Threshold: ${(this.config.profitThreshold * 100).toFixed(2)}%`);
+    this.log(`Auto Execute: ${this.config.autoExecute ? 'YES' : 'NO'}`);
+
+    if (this.tradingService) {
+      await this.tradingService.initialize();
+      await this.updateBalance();
+      this.log(`USDC Balance: ${this.balance.usdc.toFixed(2)}`);
+      this.balanceUpdateInterval = setInterval(() => this.updateBalance(), this.config.balanceRefreshInterval);
+    } else {
+      this.log('No wallet configured - monitoring only');
+    }
+
+    await this.realtimeService.connect();
+    this.marketSubscription = this.realtimeService.subscribeMarkets(
+      config.outcomes.map((o) => o.yesTokenId),
+      {
+        onBookUpdated: (update: BookUpdatedEvent) => this.handleBookUpdate(update.tokenId, update.book.bids, update.book.asks),
+        onError: (error: Error) => this.emit('error', error),
+      }
+    );
+
+    this.emit('started', config);
+    this.log('Monitoring for arbitrage opportunities...');
+  }
+
+  /**
+   * Stop monitoring
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) return;
+
+    this.isRunning = false;
+
+    if (this.balanceUpdateInterval) {
+      clearInterval(this.balanceUpdateInterval);
+      this.balanceUpdateInterval = null;
+    }
+
+    if (this.marketSubscription) {
+      this.marketSubscription.unsubscribe();
+      this.marketSubscription = null;
+    }
+    if (this.ownsRealtimeService) {
+      this.realtimeService.disconnect();
+    }
+
+    this.log('Stopped');
+    this.log(`Total opportunities: ${this.stats.opportunitiesDetected}`);
+    this.log(`Executions: ${this.stats.executionsSucceeded}/${this.stats.executionsAttempted}`);
+    this.log(`Total profit: $${this.stats.totalProfit.toFixed(2)}`);
+
+    this.emit('stopped');
+  }
+
+  getEvent(): EventArbitrageConfig | null {
+    return this.event;
+  }
+
+  getOrderbook(): EventOrderbookState {
+    return { bids: { ...this.orderbook.bids }, asks: { ...this.orderbook.asks }, lastUpdate: this.orderbook.lastUpdate };
+  }
+
+  getBalance(): EventBalanceState {
+    return { ...this.balance, yesTokens: { ...this.balance.yesTokens } };
+  }
+
+  getStats() {
+    return {
+      ...this.stats,
+      runningTimeMs: this.isRunning ? Date.now() - this.stats.startTime : 0,
+    };
+  }
+
+  /**
+   * Check for an arbitrage opportunity across all outcome books
+   *
+   * Returns null until every outcome has a book on the relevant side.
+   */
+  checkOpportunity(): EventArbitrageOpportunity | null {
+    if (!this.event) return null;
+
+    const { outcomes } = this.event;
+    const asks = outcomes.map((o) => this.orderbook.asks[o.yesTokenId] ?? []);
+    const bids = outcomes.map((o) => this.orderbook.bids[o.yesTokenId] ?? []);
+    const { profitThreshold, sizeSafetyFactor, maxTradeSize, minTradeSize } = this.config;
+
+    // Long arb: buy a YES basket
+    if (asks.every((levels) => levels.length > 0)) {
+      const depth = calculateBasketDepth(asks, 'buy', 1 - profitThreshold);
+      if (depth.size > 0) {
+        const avgCost = depth.total / depth.size;
+        const balanceSize = avgCost > 0 ? this.balance.usdc / avgCost : 0;
+        const size = Math.floor(Math.min(depth.size * sizeSafetyFactor, balanceSize * sizeSafetyFactor, maxTradeSize) * 100) / 100;
+        const opportunity = size >= minTradeSize
+          ? this.buildOpportunity('long', asks, size, depth.size, balanceSize)
+          : null;
+        if (opportunity) return opportunity;
+      }
+    }
+
+    // Short arb: sell pre-held YES baskets
+    if (bids.every((levels) => levels.length > 0)) {
+      const depth = calculateBasketDepth(bids, 'sell', 1 + profitThreshold);
+      if (depth.size > 0) {
+        const heldBaskets = Math.min(...outcomes.map((o) => this.balance.yesTokens[o.yesTokenId] ?? 0));
+        const size = Math.floor(Math.min(depth.size * sizeSafetyFactor, heldBaskets, maxTradeSize) * 100) / 100;
+        if (size >= minTradeSize) {
+          return this.buildOpportunity('short', bids, size, depth.size, heldBaskets);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Execute an opportunity by sending one FOK order per outcome in parallel
+   *
+   * Each leg trades exactly `recommendedSize` shares with the leg's worst
+   * price as the limit. If only some legs fill, the filled ones are unwound.
+   */
+  async execute(opportunity: EventArbitrageOpportunity): Promise<EventArbitrageExecutionResult> {
+    const fail = (error: string): EventArbitrageExecutionResult => ({
+      success: false,
+      type: opportunity.type,
+      size: 0,
+      profit: 0,
+      legs: [],
+      error,
+      executionTimeMs: 0,
+    });
+
+    if (!this.tradingService || !this.event) {
+      return fail('Trading not configured (no private key)');
+    }
+    if (this.isExecuting) {
+      return fail('Another execution in progress');
+    }
+
+    this.isExecuting = true;
+    this.stats.executionsAttempted++;
+    const startTime = Date.now();
+    const size = opportunity.recommendedSize;
+
+    this.log(`\nExecuting ${opportunity.type === 'long' ? 'Long' : 'Short'} Event Arb (${opportunity.legs.length} legs x ${size.toFixed(2)})...`);
+
+    try {
+      const orders = await Promise.allSettled(
+        opportunity.legs.map((leg): Promise<OrderResult> =>
+          opportunity.type === 'long'
+            ? this.tradingService!.createLimitOrder({
+                tokenId: leg.outcome.yesTokenId,
+                side: 'BUY',
+                price: leg.worstPrice,
+                size,
+                orderType: 'FOK',
+              })
+            : this.tradingService!.createMarketOrder({
+                tokenId: leg.outcome.yesTokenId,
+                side: 'SELL',
+                amount: size,
+                price: leg.worstPrice,
+                orderType: 'FOK',
+              })
+        )
+      );
+
+      const legs: EventArbitrageLegResult[] = orders.map((order, i) => {
+        const outcome = opportunity.legs[i].outcome;
+        if (order.status === 'rejected') {
+          return { outcome, success: false, errorMsg: (order.reason as Error)?.message ?? String(order.reason) };
+        }
+        return { outcome, success: order.value.success, orderId: order.value.orderId, errorMsg: order.value.errorMsg };
+      });
+
+      for (const leg of legs) {
+        this.telemetry.incrementCounter(TELEMETRY_METRICS.ORDERS, 1, { event: leg.success ? 'created' : 'rejected' });
+        this.log(`     ${leg.outcome.name}: ${leg.success ? '✓' : `✗ ${leg.errorMsg ?? ''}`}`);
+      }
+
+      const failed = legs.filter((leg) => !leg.success);
+      const filled = legs.filter((leg) => leg.success);
+      if (failed.length > 0 && filled.length > 0) {
+        this.log(`  ⚠️ Partial execution - unwinding ${filled.length} filled leg(s)`);
+        await Promise.all(filled.map((leg) => this.unwindLeg(opportunity.type, leg, size)));
+      }
+
+      const result: EventArbitrageExecutionResult = failed.length === 0
+        ? {
+            success: true,
+            type: opportunity.type,
+            size,
+            profit: opportunity.profitRate * size,
+            legs,
+            executionTimeMs: Date.now() - startTime,
+          }
+        : {
+            success: false,
+            type: opportunity.type,
+            size,
+            profit: 0,
+            legs,
+            error: `${failed.length}/${legs.length} leg(s) failed: ${failed.map((l) => `${l.outcome.name}=${l.errorMsg}`).join(', ')}`,
+            unwound: filled.length > 0 ? filled.every((leg) => leg.unwound) : undefined,
+            executionTimeMs: Date.now() - startTime,
+          };
+
+      if (result.success) {
+        this.stats.executionsSucceeded++;
+        this.stats.totalProfit += result.profit;
+        this.lastExecutionTime = Date.now();
+        this.log(`  ✅ Event Arb completed! Profit: ~$${result.profit.toFixed(2)}`);
+      } else if (result.unwound === false) {
+        this.log(`  ⚠️ Unwind incomplete - basket left partially filled`);
+      }
+
+      this.emit('execution', result);
+      return result;
+    } finally {
+      this.isExecuting = false;
+      await this.updateBalance();
+    }
+  }
+
+  /**
+   * Scan active neg-risk events for arbitrage using REST order books
+   *
+   * @param criteria Filter criteria for events
+   * @param minProfit Minimum profit per basket (default: 0.005)
+   * @returns Scan results sorted by profit
+   */
+  async scanEvents(criteria: EventScanCriteria = {}, minProfit = 0.005): Promise<EventScanResult[]> {
+    const { minVolume24h = 1000, keywords = [], limit = 50 } = criteria;
+
+    const events = await this.gammaApi.getEvents({ active: true, limit });
+    this.log(`Scanning ${events.length} events (minVolume: $${minVolume24h}, minProfit: ${(minProfit * 100).toFixed(2)}%)...`);
+
+    const results: EventScanResult[] = [];
+
+    for (const gammaEvent of events) {
+      try {
+        const volume24h = gammaEvent.markets.reduce((sum, m) => sum + (m.volume24hr || 0), 0);
+        if (volume24h < minVolume24h) continue;
+        if (keywords.length > 0) {
+          const title = gammaEvent.title.toLowerCase();
+          if (!keywords.some((kw) => title.includes(kw.toLowerCase()))) continue;
+        }
+
+        let event: EventArbitrageConfig;
+        try {
+          event = EventArbitrageService.toEventConfig(gammaEvent);
+        } catch {
+          continue; // Not neg-risk or not enough outcomes
+        }
+
+        const books = await this.marketService.getTokenOrderbooks(
+          event.outcomes.map((o) => ({ tokenId: o.yesTokenId, side: 'BUY' as const }))
+        );
+        const asks = event.outcomes.map((o) => books.get(o.yesTokenId)?.asks ?? []);
+        const bids = event.outcomes.map((o) => books.get(o.yesTokenId)?.bids ?? []);
+        if (asks.some((l) => l.length === 0) || bids.some((l) => l.length === 0)) continue;
+
+        const askSum = asks.reduce((sum, levels) => sum + levels[0].price, 0);
+        const bidSum = bids.reduce((sum, levels) => sum + levels[0].price, 0);
+
+        let arbType: EventScanResult['arbType'] = 'none';
+        let profitRate = 0;
+        let availableSize = 0;
+        let description = `No opportunity (YES asks: ${askSum.toFixed(4)}, YES bids: ${bidSum.toFixed(4)})`;
+
+        if (1 - askSum > minProfit) {
+          arbType = 'long';
+          profitRate = 1 - askSum;
+          availableSize = calculateBasketDepth(asks, 'buy', 1 - minProfit).size;
+          description = `Buy YES on ${event.outcomes.length} outcomes for ${askSum.toFixed(4)} → $1 at resolution`;
+        } else if (bidSum - 1 > minProfit) {
+          arbType = 'short';
+          profitRate = bidSum - 1;
+          availableSize = calculateBasketDepth(bids, 'sell', 1 + minProfit).size;
+          description = `Sell YES on ${event.outcomes.length} outcomes for ${bidSum.toFixed(4)}`;
+        }
+
+        results.push({
+          event,
+          arbType,
+          profitRate,
+          profitPercent: profitRate * 100,
+          askSum,
+          bidSum,
+          availableSize,
+          volume24h,
+          description,
+        });
+      } catch {
+        // Skip events with errors
+        continue;
+      }
+    }
+
+    results.sort((a, b) => b.profitRate - a.profitRate || b.availableSize - a.availableSize);
+
+    this.log(`Found ${results.filter((r) => r.arbType !== 'none').length} events with arbitrage opportunities`);
+
+    return results;
+  }
+
+  // ===== Private Methods =====
+
+  private buildOpportunity(
+    type: 'long' | 'short',
+    books: OrderbookLevel[][],
+    size: number,
+    maxOrderbookSize: number,
+    maxBalanceSize: number
+  ): EventArbitrageOpportunity | null {
+    const limit = type === 'long' ? 1 - this.config.profitThreshold : 1 + this.config.profitThreshold;
+    const fill = calculateBasketDepth(books, type === 'long' ? 'buy' : 'sell', limit, size);
+    const averageBasketPrice = fill.total / fill.size;
+    const profitRate = type === 'long' ? 1 - averageBasketPrice : averageBasketPrice - 1;
+
+    // Every leg must clear the CLOB's minimum order value
+    if (type === 'long' && fill.worstPrices.some((price) => price * size < MIN_ORDER_VALUE_USDC)) {
+      return null;
+    }
+
+    const legs = this.event!.outcomes.map((outcome, i) => ({
+      outcome,
+      bestPrice: books[i][0].price,
+      worstPrice: fill.worstPrices[i],
+    }));
+    const basketPrice = legs.reduce((sum, leg) => sum + leg.bestPrice, 0);
+
+    return {
+      type,
+      profitRate,
+      profitPercent: profitRate * 100,
+      basketPrice,
+      averageBasketPrice,
+      legs,
+      maxOrderbookSize,
+      maxBalanceSize,
+      recommendedSize: size,
+      estimatedProfit: profitRate * size,
+      description: type === 'long'
+        ? `Buy YES on ${legs.length} outcomes @ ${averageBasketPrice.toFixed(4)}/basket → $1 at resolution`
+        : `Sell YES on ${legs.length} outcomes @ ${averageBasketPrice.toFixed(4)}/basket`,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Reverse a filled leg of an incomplete basket with a FAK order for `size`
+   * shares, priced at the worst level the current book needs to fill it
+   */
+  private async unwindLeg(type: 'long' | 'short', leg: EventArbitrageLegResult, size: number): Promise<void> {
+    const tokenId = leg.outcome.yesTokenId;
+    // Long legs bought YES (sell it back into the bids), short legs sold it (buy it back from the asks)
+    const side = type === 'long' ? 'SELL' : 'BUY';
+    const levels = side === 'SELL' ? this.orderbook.bids[tokenId] ?? [] : this.orderbook.asks[tokenId] ?? [];
+    const price = calculateBasketDepth([levels], side === 'SELL' ? 'sell' : 'buy', side === 'SELL' ? 0 : Infinity, size).worstPrices[0];
+
+    let result: OrderResult;
+    if (price > 0) {
+      result = await this.tradingService!.createLimitOrder({ tokenId, side, price, size, orderType: 'FAK' })
+        .catch((error: unknown) => ({ success: false, errorMsg: error instanceof Error ? error.message : String(error) }));
+    } else {
+      result = { success: false, errorMsg: `No ${side === 'SELL' ? 'bids' : 'asks'} to unwind against` };
+    }
+
+    leg.unwound = result.success;
+    leg.unwindOrderId = result.orderId;
+    leg.unwindError = result.success ? undefined : result.errorMsg;
+    this.telemetry.incrementCounter(TELEMETRY_METRICS.ORDERS, 1, { event: result.success ? 'created' : 'rejected' });
+    this.log(`     Unwind ${leg.outcome.name}: ${result.success ? `✓ ${side} ${size.toFixed(2)} @ ${price}` : `✗ ${result.errorMsg ?? ''}`}`);
+  }
+
+  private handleBookUpdate(tokenId: string, bids: OrderbookLevel[], asks: OrderbookLevel[]): void {
+    if (!this.event) return;
+    if (!this.event.outcomes.some((o) => o.yesTokenId === tokenId)) return;
+
+    this.orderbook.bids[tokenId] = [...bids].sort((a, b) => b.price - a.price);
+    this.orderbook.asks[tokenId] = [...asks].sort((a, b) => a.price - b.price);
+    this.orderbook.lastUpdate = Date.now();
+    this.emit('orderbookUpdate', this.getOrderbook());
+
+    this.checkAndHandleOpportunity();
+  }
+
+  private checkAndHandleOpportunity(): void {
+    const opportunity = this.checkOpportunity();
+    if (!opportunity) return;
+
+    this.stats.opportunitiesDetected++;
+    this.emit('opportunity', opportunity);
+
+    this.log(`\n${'!'.repeat(60)}`);
+    this.log(`${opportunity.type.toUpperCase()} EVENT ARB: ${opportunity.description}`);
+    this.log(`Profit: ${opportunity.profitPercent.toFixed(2)}%, Size: ${opportunity.recommendedSize.toFixed(2)}, Est: $${opportunity.estimatedProfit.toFixed(2)}`);
+    this.log('!'.repeat(60));
+
+    if (this.config.autoExecute && !this.isExecuting) {
+      const timeSinceLastExecution = Date.now() - this.lastExecutionTime;
+      if (timeSinceLastExecution >= this.config.executionCooldown) {
+        this.execute(opportunity).catch((error) => {
+          this.emit('error', error);
+        });
+      }
+    }
+  }
+
+  private async updateBalance(): Promise<void> {
+    if (!this.tradingService || !this.event) return;
+
+    try {
+      const [collateral, ...positions] = await Promise.all([
+        this.tradingService.getBalanceAllowance('COLLATERAL'),
+        ...this.event.outcomes.map((o) => this.tradingService!.getBalanceAllowance('CONDITIONAL', o.yesTokenId)),
+      ]);
+
+      const yesTokens: Record<string, number> = {};
+      this.event.outcomes.forEach((o, i) => {
+        yesTokens[o.yesTokenId] = Number(positions[i].balance) / 1e6;
+      });
+
+      this.balance = {
+        usdc: Number(collateral.balance) / 1e6,
+        yesTokens,
+        lastUpdate: Date.now(),
+      };
+
+      this.emit('balanceUpdate', this.getBalance());
+    } catch (error) {
+      this.emit('error', error as Error);
+    }
+  }
+
+  private log(message: string): void {
+    this.telemetry.log('info', message, { service: 'EventArbitrageService' });
+    if (this.config.enableLogging) {
+      console.log(`[EventArbitrageService] ${message}`);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * HolderAnalyticsService Unit Tests
+ *
+ * Focus: concentration metrics, smart-money and fresh-wallet shares, snapshot diffs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  HolderAnalyticsService,
+  giniCoefficient,
+  herfindahlIndex,
+  topNShare,
+} from './holder-analytics-service.js';
+import type { Activity, DataApiClient, MarketHolder } from '../clients/data-api.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('concentration metrics', () => {
+  it('should be even for equal holders', () => {
+    const sizes = [10, 10, 10, 10];
+    expect(topNShare(sizes, 1)).toBe(0.25);
+    expect(herfindahlIndex(sizes)).toBeCloseTo(0.25);
+    expect(giniCoefficient(sizes)).toBeCloseTo(0);
+  });
+
+  it('should approach the maximum when one holder has everything', () => {
+    const sizes = [100, 0, 0, 0];
+    expect(topNShare(sizes, 1)).toBe(1);
+    expect(herfindahlIndex(sizes)).toBe(1);
+    expect(giniCoefficient(sizes)).toBeCloseTo(0.75);
+  });
+
+  it('should handle empty lists', () => {
+    expect(topNShare([], 5)).toBe(0);
+    expect(herfindahlIndex([])).toBe(0);
+    expect(giniCoefficient([])).toBe(0);
+  });
+});
+
+describe('HolderAnalyticsService', () => {
+  const holder = (proxyWallet: string, size: number, outcome = 'Yes'): MarketHolder => ({ proxyWallet, size, outcome });
+
+  function createService(holders: MarketHolder[][], firstSeen: Record<string, number>) {
+    let call = 0;
+    const activityCalls: string[] = [];
+    const dataApi = {
+      getMarketHolders: async () => holders[Math.min(call++, holders.length - 1)],
+      getActivity: async (address: string) => {
+        activityCalls.push(address);
+        return firstSeen[address] ? [{ timestamp: firstSeen[address] } as Activity] : [];
+      },
+    } as unknown as DataApiClient;
+    const smartMoney = { isSmartMoney: async (address: string) => address === '0xsmart' };
+    return { service: new HolderAnalyticsService(dataApi, smartMoney, { topN: 1 }), activityCalls };
+  }
+
+  it('should compute per-outcome shares and diff against the previous snapshot', async () => {
+    const now = Date.now();
+    const { service, activityCalls } = createService(
+      [
+        [holder('0xsmart', 60), holder('0xold', 40), holder('0xno', 50, 'No')],
+        [holder('0xsmart', 60), holder('0xnew', 60), holder('0xno', 50, 'No')],
+      ],
+      { '0xsmart': now - 400 * DAY, '0xold': now - 100 * DAY, '0xno': now - 100 * DAY, '0xnew': now - DAY }
+    );
+
+    const first = await service.analyze('0xcond');
+    const yes = first.outcomes.find((o) => o.outcome === 'Yes')!;
+    expect(yes).toMatchObject({
+      holderCount: 2,
+      totalSize: 100,
+      topNShare: 0.6,
+      smartMoneyShare: 0.6,
+      smartMoneyHolders: ['0xsmart'],
+      freshWalletShare: 0,
+      change: null,
+    });
+    expect(yes.herfindahl).toBeCloseTo(0.52);
+
+    const second = await service.analyze('0xcond');
+    const yesAfter = second.outcomes.find((o) => o.outcome === 'Yes')!;
+    expect(yesAfter.freshWallets).toEqual(['0xnew']);
+    expect(yesAfter.change).toMatchObject({ since: first.timestamp, entered: ['0xnew'], exited: ['0xold'] });
+    expect(yesAfter.change!.smartMoneyShare).toBeCloseTo(-0.1);
+    expect(yesAfter.change!.freshWalletShare).toBeCloseTo(0.5);
+
+    // First-activity lookups are cached across snapshots
+    expect(activityCalls.filter((a) => a === '0xsmart')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Holder Analytics Service
+ *
+ * Concentration metrics per market outcome, built on DataApiClient.getMarketHolders:
+ * - Top-N share, Herfindahl index and Gini coefficient of holder sizes
+ * - Smart-money share (holders SmartMoneyService.isSmartMoney() flags)
+ * - Fresh-wallet share (holders whose first activity is recent)
+ * - Change since the previous snapshot of the same market
+ *
+ * The holders endpoint returns each outcome's largest holders only, so the
+ * metrics describe concentration among those holders, not the whole book.
+ *
+ * @example
+ * ```typescript
+ * const analytics = await sdk.holders.analyze(conditionId);
+ * for (const outcome of analytics.outcomes) {
+ *   console.log(`${outcome.outcome}: top ${outcome.topN} hold ${(outcome.topNShare * 100).toFixed(1)}%`);
+ *   if (outcome.change && (outcome.change.smartMoneyShare ?? 0) > 0.05) {
+ *     console.log(`  smart money added ${outcome.change.entered.length} wallets`);
+ *   }
+ * }
+ * ```
+ */
+
+import type { DataApiClient, MarketHolder } from '../clients/data-api.js';
+import type { RequestOptions } from '../core/request-options.js';
+import type { SmartMoneyService } from './smart-money-service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HolderAnalyticsConfig {
+  /** Holders counted in `topNShare` (default: 5) */
+  topN?: number;
+  /** Holders requested per market (default: the API's default) */
+  holderLimit?: number;
+  /** Wallets first active within this many days count as fresh (default: 7) */
+  freshWalletDays?: number;
+}
+
+/**
+ * Difference from the previous snapshot (current minus previous)
+ */
+export interface HolderConcentrationChange {
+  /** When the previous snapshot was taken */
+  since: number;
+  holderCount: number;
+  totalSize: number;
+  topNShare: number;
+  herfindahl: number;
+  gini: number;
+  smartMoneyShare: number | null;
+  freshWalletShare: number;
+  /** Holders not in the previous snapshot */
+  entered: string[];
+  /** Previous holders no longer listed */
+  exited: string[];
+}
+
+export interface OutcomeHolderAnalytics {
+  outcome: string;
+  holderCount: number;
+  /** Sum of holder sizes (shares) */
+  totalSize: number;
+  topN: number;
+  /** Share of totalSize held by the topN largest holders (0-1) */
+  topNShare: number;
+  /** Sum of squared holder shares (1/holderCount = even, 1 = one holder) */
+  herfindahl: number;
+  /** Gini coefficient of holder sizes (0 = even, towards 1 = concentrated) */
+  gini: number;
+  /** Share of totalSize held by smart money (null without a SmartMoneyService) */
+  smartMoneyShare: number | null;
+  smartMoneyHolders: string[];
+  /** Share of totalSize held by fresh wallets */
+  freshWalletShare: number;
+  freshWallets: string[];
+  /** Null on the first snapshot of a market */
+  change: HolderConcentrationChange | null;
+}
+
+export interface HolderAnalytics {
+  conditionId: string;
+  timestamp: number;
+  outcomes: OutcomeHolderAnalytics[];
+}
+
+interface HolderSnapshot {
+  analytics: HolderAnalytics;
+  holders: Map<string, Set<string>>;
+}
+
+// ============================================================================
+// Concentration metrics
+// ============================================================================
+
+/**
+ * Share of the total held by the `n` largest values (0 for an empty list)
+ */
+export function topNShare(sizes: number[], n: number): number {
+  const total = sum(sizes);
+  if (total <= 0) return 0;
+  const top = [...sizes].sort((a, b) => b - a).slice(0, n);
+  return sum(top) / total;
+}
+
+/**
+ * Herfindahl-Hirschman index on a 0-1 scale: the sum of squared shares
+ */
+export function herfindahlIndex(sizes: number[]): number {
+  const total = sum(sizes);
+  if (total <= 0) return 0;
+  return sizes.reduce((acc, size) => acc + (size / total) ** 2, 0);
+}
+
+/**
+ * Gini coefficient: 0 when all values are equal, (n-1)/n when one holds everything
+ */
+export function giniCoefficient(sizes: number[]): number {
+  const total = sum(sizes);
+  const n = sizes.length;
+  if (n === 0 || total <= 0) return 0;
+  const sorted = [...sizes].sort((a, b) => a - b);
+  const weighted = sorted.reduce((acc, size, i) => acc + (i + 1) * size, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((acc, value) => acc + value, 0);
+}
+
+// ============================================================================
+// HolderAnalyticsService
+// ============================================================================
+
+export class HolderAnalyticsService {
+  private snapshots: Map<string, HolderSnapshot> = new Map();
+  // First activity per wallet (Unix ms, null if none); only ever gets older, so never expires
+  private firstSeen: Map<string, number | null> = new Map();
+
+  constructor(
+    private dataApi: DataApiClient,
+    private smartMoney?: Pick<SmartMoneyService, 'isSmartMoney'>,
+    private config: HolderAnalyticsConfig = {}
+  ) {}
+
+  /**
+   * Holder concentration per outcome, compared with the previous call for the market
+   *
+   * @param conditionId - Market condition ID
+   * @param options - Abort signal and timeout, per request
+   */
+  async analyze(conditionId: string, options?: RequestOptions): Promise<HolderAnalytics> {
+    const holders = await this.dataApi.getMarketHolders(
+      { market: conditionId, limit: this.config.holderLimit },
+      options
+    );
+    const timestamp = Date.now();
+    const previous = this.snapshots.get(conditionId);
+
+    const byOutcome = new Map<string, MarketHolder[]>();
+    for (const holder of holders) {
+      const group = byOutcome.get(holder.outcome) ?? [];
+      group.push(holder);
+      byOutcome.set(holder.outcome, group);
+    }
+
+    const outcomes: OutcomeHolderAnalytics[] = [];
+    const addresses = new Map<string, Set<string>>();
+    for (const [outcome, group] of byOutcome) {
+      const current = await this.analyzeOutcome(outcome, group, timestamp, options);
+      const wallets = new Set(group.map((h) => h.proxyWallet.toLowerCase()));
+      addresses.set(outcome, wallets);
+
+      const before = previous?.analytics.outcomes.find((o) => o.outcome === outcome);
+      if (previous && before) {
+        current.change = diff(current, before, previous.analytics.timestamp, wallets, previous.holders.get(outcome)!);
+      }
+      outcomes.push(current);
+    }
+
+    const analytics: HolderAnalytics = { conditionId, timestamp, outcomes };
+    this.snapshots.set(conditionId, { analytics, holders: addresses });
+    return analytics;
+  }
+
+  /**
+   * The last analytics computed for a market, if any
+   */
+  getLastSnapshot(conditionId: string): HolderAnalytics | null {
+    return this.snapshots.get(conditionId)?.analytics ?? null;
+  }
+
+  /**
+   * Forget stored snapshots (all markets if none given)
+   */
+  clearSnapshots(conditionId?: string): void {
+    if (conditionId) {
+      this.snapshots.delete(conditionId);
+    } else {
+      this.snapshots.clear();
+    }
+  }
+
+  private async analyzeOutcome(
+    outcome: string,
+    holders: MarketHolder[],
+    now: number,
+    options?: RequestOptions
+  ): Promise<OutcomeHolderAnalytics> {
+    const topN = this.config.topN ?? 5;
+    const sizes = holders.map((h) => h.size);
+    const totalSize = sum(sizes);
+    const shareOf = (subset: MarketHolder[]) => (totalSize > 0 ? sum(subset.map((h) => h.size)) / totalSize : 0);
+
+    let smartMoneyShare: number | null = null;
+    let smartMoneyHolders: MarketHolder[] = [];
+    if (this.smartMoney) {
+      const flags = await Promise.all(holders.map((h) => this.smartMoney!.isSmartMoney(h.proxyWallet)));
+      smartMoneyHolders = holders.filter((_, i) => flags[i]);
+      smartMoneyShare = shareOf(smartMoneyHolders);
+    }
+
+    const freshCutoff = now - (this.config.freshWalletDays ?? 7) * 24 * 60 * 60 * 1000;
+    const fresh: MarketHolder[] = [];
+    for (const holder of holders) {
+      const firstSeen = await this.getFirstSeen(holder.proxyWallet, options);
+      if (firstSeen === null || firstSeen >= freshCutoff) fresh.push(holder);
+    }
+
+    return {
+      outcome,
+      holderCount: holders.length,
+      totalSize,
+      topN,
+      topNShare: topNShare(sizes, topN),
+      herfindahl: herfindahlIndex(sizes),
+      gini: giniCoefficient(sizes),
+      smartMoneyShare,
+      smartMoneyHolders: smartMoneyHolders.map((h) => h.proxyWallet.toLowerCase()),
+      freshWalletShare: shareOf(fresh),
+      freshWallets: fresh.map((h) => h.proxyWallet.toLowerCase()),
+      change: null,
+    };
+  }
+
+  private async getFirstSeen(address: string, options?: RequestOptions): Promise<number | null> {
+    const key = address.toLowerCase();
+    if (this.firstSeen.has(key)) return this.firstSeen.get(key)!;
+
+    const [first] = await this.dataApi.getActivity(
+      key,
+      { limit: 1, sortBy: 'TIMESTAMP', sortDirection: 'ASC' },
+      options
+    );
+    const firstSeen = first ? first.timestamp : null;
+    // A wallet with no activity yet may still get its first; only cache known dates
+    if (firstSeen !== null) this.firstSeen.set(key, firstSeen);
+    return firstSeen;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function diff(
+  current: OutcomeHolderAnalytics,
+  previous: OutcomeHolderAnalytics,
+  since: number,
+  wallets: Set<string>,
+  previousWallets: Set<string>
+): HolderConcentrationChange {
+  return {
+    since,
+    holderCount: current.holderCount - previous.holderCount,
+    totalSize: current.totalSize - previous.totalSize,
+    topNShare: current.topNShare - previous.topNShare,
+    herfindahl: current.herfindahl - previous.herfindahl,
+    gini: current.gini - previous.gini,
+    smartMoneyShare:
+      current.smartMoneyShare !== null && previous.smartMoneyShare !== null
+        ? current.smartMoneyShare - previous.smartMoneyShare
+        : null,
+    freshWalletShare: current.freshWalletShare - previous.freshWalletShare,
+    entered: [...wallets].filter((w) => !previousWallets.has(w)),
+    exited: [...previousWallets].filter((w) => !wallets.has(w)),
+  };
+}
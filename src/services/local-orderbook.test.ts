@@ -0,0 +1,182 @@
+/**
+ * Local Orderbook Unit Tests
+ *
+ * Focus: RealtimeServiceV2 applies price_change deltas to a local book,
+ * detects drift against the server's best bid/ask and resyncs via MarketService.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LocalOrderbook } from './local-orderbook.js';
+import { RealtimeServiceV2, type BookUpdatedEvent } from './realtime-service-v2.js';
+import type { Orderbook } from '../core/types.js';
+import { waitFor } from '../__tests__/test-utils.js';
+
+const TOKEN = 'token123';
+
+const bookPayload = {
+  asset_id: TOKEN,
+  market: '0xmarket',
+  hash: 'h0',
+  timestamp: '1700000000000',
+  tick_size: '0.01',
+  min_order_size: '5',
+  bids: [
+    { price: '0.50', size: '100' },
+    { price: '0.49', size: '200' },
+  ],
+  asks: [
+    { price: '0.52', size: '150' },
+    { price: '0.53', size: '50' },
+  ],
+};
+
+const priceChange = (overrides: Record<string, unknown>) => ({
+  market: '0xmarket',
+  asset_id: TOKEN,
+  hash: 'h1',
+  best_bid: '0.5',
+  best_ask: '0.52',
+  ...overrides,
+});
+
+describe('LocalOrderbook', () => {
+  it('should apply snapshot and deltas', () => {
+    const book = new LocalOrderbook(TOKEN);
+    book.applySnapshot({
+      bids: [{ price: 0.5, size: 100 }],
+      asks: [{ price: 0.52, size: 150 }],
+      timestamp: 1,
+      hash: 'h0',
+    });
+
+    book.applyDelta({ side: 'BUY', price: 0.51, size: 10 }, 'h1', 2);
+    book.applyDelta({ side: 'SELL', price: 0.52, size: 0 }, 'h2', 3);
+
+    expect(book.getBids()).toEqual([
+      { price: 0.51, size: 10 },
+      { price: 0.5, size: 100 },
+    ]);
+    expect(book.getAsks()).toEqual([]);
+    expect(book.hash).toBe('h2');
+    expect(book.timestamp).toBe(3);
+    expect(book.matchesTopOfBook({ bestBid: 0.51, bestAsk: 0 })).toBe(true);
+    expect(book.matchesTopOfBook({ bestBid: 0.5, bestAsk: 0 })).toBe(false);
+  });
+});
+
+describe('RealtimeServiceV2 - Local Orderbook', () => {
+  let service: RealtimeServiceV2;
+  let mockMarketService: { getTokenOrderbook: ReturnType<typeof vi.fn> };
+  let updates: BookUpdatedEvent[];
+
+  const send = (type: string, payload: unknown, timestamp = 1700000000500) => {
+    (service as any).handleMarketMessage(type, payload, timestamp);
+  };
+
+  beforeEach(() => {
+    mockMarketService = {
+      getTokenOrderbook: vi.fn(async (): Promise<Orderbook> => ({
+        tokenId: TOKEN,
+        bids: [{ price: 0.5, size: 80 }],
+        asks: [{ price: 0.52, size: 150 }],
+        timestamp: 1700000000000,
+        hash: 'rest',
+      })),
+    };
+    service = new RealtimeServiceV2({}, mockMarketService as any);
+    updates = [];
+    service.on('bookUpdated', (event: BookUpdatedEvent) => updates.push(event));
+  });
+
+  it('should seed the local book from a book snapshot', () => {
+    send('book', [bookPayload]);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].source).toBe('snapshot');
+    expect(service.getBook(TOKEN)?.bids[0]).toEqual({ price: 0.5, size: 100 });
+    expect(service.getBook(TOKEN)?.minOrderSize).toBe('5');
+    expect(service.isBookSynced(TOKEN)).toBe(true);
+  });
+
+  it('should apply price_change deltas to getBook()', () => {
+    send('book', [bookPayload]);
+    send('price_change', priceChange({ price: '0.49', size: '0', side: 'BUY' }));
+    send('price_change', priceChange({ price: '0.53', size: '75', side: 'SELL', hash: 'h2' }));
+
+    const book = service.getBook(TOKEN)!;
+    expect(book.bids).toEqual([{ price: 0.5, size: 100 }]);
+    expect(book.asks).toEqual([
+      { price: 0.52, size: 150 },
+      { price: 0.53, size: 75 },
+    ]);
+    expect(book.hash).toBe('h2');
+    expect(updates.map(u => u.source)).toEqual(['snapshot', 'delta', 'delta']);
+    expect(mockMarketService.getTokenOrderbook).not.toHaveBeenCalled();
+  });
+
+  it('should resync when top of book drifts from the server', async () => {
+    send('book', [bookPayload]);
+    // Server says best bid is 0.51 but we never saw that level
+    send('price_change', priceChange({ price: '0.49', size: '0', side: 'BUY', best_bid: '0.51' }));
+
+    expect(service.isBookSynced(TOKEN)).toBe(false);
+    await waitFor(10);
+
+    expect(mockMarketService.getTokenOrderbook).toHaveBeenCalledWith(TOKEN);
+    expect(updates[updates.length - 1].source).toBe('resync');
+    expect(service.getBook(TOKEN)?.bids).toEqual([{ price: 0.5, size: 80 }]);
+    expect(service.getBook(TOKEN)?.hash).toBe('rest');
+    expect(service.isBookSynced(TOKEN)).toBe(true);
+  });
+
+  it('should resync when a delta arrives before any snapshot', async () => {
+    send('price_change', priceChange({ price: '0.50', size: '80', side: 'BUY', hash: 'h5' }));
+    await waitFor(10);
+
+    expect(mockMarketService.getTokenOrderbook).toHaveBeenCalledTimes(1);
+    // Triggering delta is replayed on top of the REST snapshot
+    expect(service.getBook(TOKEN)?.hash).toBe('h5');
+    expect(updates[updates.length - 1].source).toBe('resync');
+  });
+
+  it('should not replay deltas already contained in the REST snapshot', async () => {
+    send('book', [bookPayload]);
+    send('price_change', priceChange({ price: '0.49', size: '0', side: 'BUY', best_bid: '0.51' }));
+    // Arrive while the REST request is in flight; the first produced the 'rest' book
+    send('price_change', priceChange({ price: '0.52', size: '999', side: 'SELL', hash: 'rest' }));
+    send('price_change', priceChange({ price: '0.53', size: '40', side: 'SELL', hash: 'h7' }));
+    await waitFor(10);
+
+    expect(service.getBook(TOKEN)?.asks).toEqual([
+      { price: 0.52, size: 150 },
+      { price: 0.53, size: 40 },
+    ]);
+    expect(service.getBook(TOKEN)?.hash).toBe('h7');
+    expect(updates[updates.length - 1].source).toBe('resync');
+  });
+
+  it('should report a desync if any replayed delta drifts, not just the last', async () => {
+    const desyncs: unknown[] = [];
+    service.on('bookDesync', (e) => desyncs.push(e));
+    send('book', [bookPayload]);
+    send('price_change', priceChange({ price: '0.49', size: '0', side: 'BUY', best_bid: '0.51' }));
+    send('price_change', priceChange({ price: '0.49', size: '0', side: 'BUY', best_bid: '0.6', hash: 'h2' }));
+    send('price_change', priceChange({ price: '0.49', size: '5', side: 'BUY', hash: 'h3' }));
+    await waitFor(10);
+
+    expect(desyncs).toHaveLength(1);
+    expect(service.isBookSynced(TOKEN)).toBe(false);
+    expect(updates.map((u) => u.source)).not.toContain('resync');
+  });
+
+  it('should emit bookDesync when no MarketService is available', () => {
+    service = new RealtimeServiceV2();
+    const desyncs: unknown[] = [];
+    service.on('bookDesync', (e) => desyncs.push(e));
+
+    send('price_change', priceChange({ price: '0.50', size: '80', side: 'BUY' }));
+
+    expect(desyncs).toHaveLength(1);
+    expect(service.isBookSynced(TOKEN)).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Local Orderbook
+ *
+ * Incremental L2 orderbook for a single token. Seeded from a full `book`
+ * snapshot (WebSocket or REST) and kept current by applying `price_change`
+ * deltas, so readers see every level change instead of waiting for the next
+ * snapshot.
+ *
+ * Integrity:
+ * - Each delta carries the server's orderbook `hash`; we track it as the
+ *   book's version so consumers can compare against REST snapshots. The
+ *   hash is a digest of the server's own book serialization (undocumented,
+ *   with fields we do not keep), so it cannot be recomputed to verify the
+ *   local levels. It is only compared for equality: when resyncing, deltas
+ *   up to the one whose hash matches the REST snapshot are already in it.
+ * - Each delta also carries the server's `best_bid` / `best_ask` after the
+ *   change. If our top of book disagrees, the local book has drifted
+ *   (missed message, out-of-order delivery) and must be resynced.
+ *
+ * @see https://docs.polymarket.com/developers/CLOB/websocket/market-channel
+ */
+
+import type { Orderbook, OrderbookLevel, Side } from '../core/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A single price level change from a `price_change` event.
+ * `size` is the new absolute size at `price` (0 removes the level).
+ */
+export interface PriceLevelDelta {
+  side: Side;
+  price: number;
+  size: number;
+}
+
+/**
+ * Server view of the top of book, sent alongside each delta
+ */
+export interface TopOfBook {
+  bestBid: number;
+  bestAsk: number;
+}
+
+// Prices are on a tick grid of at most 4 decimals; compare with tolerance
+const PRICE_EPSILON = 1e-9;
+
+// ============================================================================
+// LocalOrderbook Implementation
+// ============================================================================
+
+export class LocalOrderbook {
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  private _hash = '';
+  private _timestamp = 0;
+  private _synced = false;
+
+  constructor(public readonly tokenId: string) {}
+
+  /**
+   * Replace the book contents with a full snapshot
+   */
+  applySnapshot(book: Pick<Orderbook, 'bids' | 'asks' | 'timestamp' | 'hash'>): void {
+    this.bids.clear();
+    this.asks.clear();
+    for (const level of book.bids) {
+      if (level.size > 0) this.bids.set(level.price, level.size);
+    }
+    for (const level of book.asks) {
+      if (level.size > 0) this.asks.set(level.price, level.size);
+    }
+    this._hash = book.hash || '';
+    this._timestamp = book.timestamp;
+    this._synced = true;
+  }
+
+  /**
+   * Apply a single level change.
+   * BUY deltas update the bid side, SELL deltas update the ask side.
+   */
+  applyDelta(delta: PriceLevelDelta, hash?: string, timestamp?: number): void {
+    const levels = delta.side === 'BUY' ? this.bids : this.asks;
+    if (delta.size > 0) {
+      levels.set(delta.price, delta.size);
+    } else {
+      levels.delete(delta.price);
+    }
+    if (hash) this._hash = hash;
+    if (timestamp !== undefined && timestamp > this._timestamp) {
+      this._timestamp = timestamp;
+    }
+  }
+
+  /**
+   * Check the local top of book against the server's view.
+   * A side reported as 0 by the server is treated as empty.
+   *
+   * @returns true if both sides agree
+   */
+  matchesTopOfBook(top: TopOfBook): boolean {
+    const localBid = this.bestBid() ?? 0;
+    const localAsk = this.bestAsk() ?? 0;
+    return (
+      Math.abs(localBid - top.bestBid) < PRICE_EPSILON &&
+      Math.abs(localAsk - top.bestAsk) < PRICE_EPSILON
+    );
+  }
+
+  /**
+   * Mark the book as out of sync (it keeps its last contents until resynced)
+   */
+  invalidate(): void {
+    this._synced = false;
+  }
+
+  isSynced(): boolean {
+    return this._synced;
+  }
+
+  get hash(): string {
+    return this._hash;
+  }
+
+  get timestamp(): number {
+    return this._timestamp;
+  }
+
+  bestBid(): number | undefined {
+    let best: number | undefined;
+    for (const price of this.bids.keys()) {
+      if (best === undefined || price > best) best = price;
+    }
+    return best;
+  }
+
+  bestAsk(): number | undefined {
+    let best: number | undefined;
+    for (const price of this.asks.keys()) {
+      if (best === undefined || price < best) best = price;
+    }
+    return best;
+  }
+
+  /**
+   * Bid levels sorted by price descending
+   */
+  getBids(): OrderbookLevel[] {
+    return Array.from(this.bids, ([price, size]) => ({ price, size }))
+      .sort((a, b) => b.price - a.price);
+  }
+
+  /**
+   * Ask levels sorted by price ascending
+   */
+  getAsks(): OrderbookLevel[] {
+    return Array.from(this.asks, ([price, size]) => ({ price, size }))
+      .sort((a, b) => a.price - b.price);
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * MarketService Event Unit Tests
+ *
+ * Focus: UnifiedEvent assembly from Gamma + CLOB books, overround, and
+ * RealtimeServiceV2.subscribeEvent updates
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MarketService } from './market-service.js';
+import { RealtimeServiceV2, type EventBookUpdate } from './realtime-service-v2.js';
+import { RateLimiter } from '../core/rate-limiter.js';
+import { createUnifiedCache } from '../core/unified-cache.js';
+import { PolymarketError, ErrorCode } from '../core/errors.js';
+import type { GammaApiClient, GammaEvent, GammaMarket } from '../clients/gamma-api.js';
+import type { Orderbook } from '../core/types.js';
+
+const market = (id: string, prices: [number, number], overrides: Partial<GammaMarket> = {}): GammaMarket => ({
+  id,
+  conditionId: `0xcond-${id}`,
+  slug: `market-${id}`,
+  question: `Will ${id} win?`,
+  groupItemTitle: id,
+  outcomes: ['Yes', 'No'],
+  outcomePrices: prices,
+  clobTokenIds: [`${id}-yes`, `${id}-no`],
+  volume: 1000,
+  liquidity: 500,
+  endDate: new Date('2028-11-07'),
+  active: true,
+  closed: false,
+  ...overrides,
+});
+
+const EVENT: GammaEvent = {
+  id: '903',
+  slug: 'election-winner',
+  title: 'Who will win?',
+  negRisk: true,
+  negRiskMarketId: '0xneg',
+  markets: [
+    market('alice', [0.55, 0.45]),
+    market('bob', [0.4, 0.6]),
+    market('carol', [0, 1], { closed: true }),
+  ],
+};
+
+const book = (tokenId: string, bid: number | null, ask: number | null): Orderbook => ({
+  tokenId,
+  bids: bid !== null ? [{ price: bid, size: 100 }] : [],
+  asks: ask !== null ? [{ price: ask, size: 100 }] : [],
+  timestamp: 1700000000000,
+});
+
+function createService() {
+  const gammaApi = {
+    getEventBySlug: vi.fn(async (slug: string) => (slug === EVENT.slug ? EVENT : null)),
+    getEventById: vi.fn(async (id: string) => (id === EVENT.id ? EVENT : null)),
+  };
+  const service = new MarketService(gammaApi as unknown as GammaApiClient, undefined, new RateLimiter(), createUnifiedCache());
+  const getTokenOrderbooks = vi.spyOn(service, 'getTokenOrderbooks').mockImplementation(async () => new Map([
+    ['alice-yes', book('alice-yes', 0.56, 0.6)],
+    ['alice-no', book('alice-no', 0.4, 0.44)],
+    // No asks: midpoint falls back to the Gamma price
+    ['bob-yes', book('bob-yes', 0.38, null)],
+    ['bob-no', book('bob-no', 0.58, 0.62)],
+  ]));
+  return { service, gammaApi, getTokenOrderbooks };
+}
+
+describe('MarketService.getEvent', () => {
+  it('should merge child markets with their books and compute the overround', async () => {
+    const { service, getTokenOrderbooks } = createService();
+
+    const event = await service.getEvent('election-winner');
+
+    // Closed markets are not quoted
+    expect(getTokenOrderbooks.mock.calls[0][0].map((p) => p.tokenId)).toEqual([
+      'alice-yes', 'alice-no', 'bob-yes', 'bob-no',
+    ]);
+    expect(event).toMatchObject({ id: '903', negRisk: true, negRiskMarketId: '0xneg', degraded: false });
+    expect(event.markets).toHaveLength(3);
+
+    const [alice, bob, carol] = event.markets;
+    expect(alice.tokens[0]).toMatchObject({ tokenId: 'alice-yes', outcome: 'Yes', price: 0.55, bestBid: 0.56, bestAsk: 0.6 });
+    expect(alice.impliedProbability).toBeCloseTo(0.58);
+    expect(alice.negRisk).toBe(true);
+    expect(bob.tokens[0]).toMatchObject({ bestBid: 0.38, bestAsk: null, midpoint: 0.4 });
+    expect(carol.tokens[0]).toMatchObject({ bestBid: null, midpoint: 0 });
+    expect(event.overround).toBeCloseTo(0.98);
+  });
+
+  it('should look up numeric identifiers by event ID', async () => {
+    const { service, gammaApi } = createService();
+
+    await service.getEvent('903');
+    expect(gammaApi.getEventById).toHaveBeenCalledWith('903', undefined);
+    await expect(service.getEvent('missing-event')).rejects.toThrow('Event not found: missing-event');
+  });
+
+  it('should flag the event as degraded when the books cannot be fetched', async () => {
+    const { service, getTokenOrderbooks } = createService();
+    getTokenOrderbooks.mockRejectedValueOnce(new Error('CLOB unreachable'));
+
+    const event = await service.getEvent('election-winner');
+
+    expect(event.degraded).toBe(true);
+    expect(event.markets[0].tokens[0]).toMatchObject({ bestBid: null, bestAsk: null, midpoint: 0.55 });
+  });
+
+  it('should pass request options through and rethrow when the caller aborts', async () => {
+    const { service, gammaApi, getTokenOrderbooks } = createService();
+    const options = { timeoutMs: 1000 };
+
+    await service.getEvent('election-winner', options);
+    expect(gammaApi.getEventBySlug).toHaveBeenCalledWith('election-winner', options);
+    expect(getTokenOrderbooks.mock.calls[0][1]).toBe(options);
+
+    getTokenOrderbooks.mockRejectedValueOnce(new PolymarketError(ErrorCode.TIMEOUT, 'Request timed out after 1000ms'));
+    await expect(service.getEvent('election-winner', options)).rejects.toThrow('timed out');
+  });
+});
+
+describe('MarketService.getMarket', () => {
+  it('should cache slug lookups under the condition ID so invalidateMarket reaches them', async () => {
+    const alice = market('alice', [0.55, 0.45]);
+    const gammaApi = {
+      getMarketBySlug: vi.fn(async () => alice),
+      getMarketByConditionId: vi.fn(async () => ({ ...alice, closed: true })),
+    };
+    const service = new MarketService(gammaApi as unknown as GammaApiClient, undefined, new RateLimiter(), createUnifiedCache());
+    vi.spyOn(service, 'getClobMarket').mockResolvedValue(null);
+    const options = { maxAgeMs: 60_000 };
+
+    expect((await service.getMarket('market-alice', options)).closed).toBe(false);
+    expect((await service.getMarket('0xcond-alice', options)).closed).toBe(false);
+    expect(gammaApi.getMarketByConditionId).not.toHaveBeenCalled();
+
+    await service.invalidateMarket('0xcond-alice');
+    expect((await service.getMarket('market-alice', options)).closed).toBe(true);
+    expect(gammaApi.getMarketBySlug).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch live data unless the caller accepts a cached copy old enough', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const gammaApi = {
+      getMarketByConditionId: vi.fn(async () => market('alice', [0.55, 0.45])),
+    };
+    const service = new MarketService(gammaApi as unknown as GammaApiClient, undefined, new RateLimiter(), createUnifiedCache());
+    vi.spyOn(service, 'getClobMarket').mockResolvedValue(null);
+
+    await service.getMarket('0xcond-alice');
+    await service.getMarket('0xcond-alice');
+    expect(gammaApi.getMarketByConditionId).toHaveBeenCalledTimes(2);
+
+    await Promise.all([1, 2].map(() => service.getMarket('0xcond-alice', { maxAgeMs: 10_000 })));
+    expect(gammaApi.getMarketByConditionId).toHaveBeenCalledTimes(3);
+
+    vi.setSystemTime(Date.now() + 2000);
+    await service.getMarket('0xcond-alice', { maxAgeMs: 10_000 });
+    expect(gammaApi.getMarketByConditionId).toHaveBeenCalledTimes(3);
+    await service.getMarket('0xcond-alice', { maxAgeMs: 1000 });
+    expect(gammaApi.getMarketByConditionId).toHaveBeenCalledTimes(4);
+    vi.useRealTimers();
+  });
+});
+
+describe('RealtimeServiceV2.subscribeEvent', () => {
+  it('should subscribe to every open token and report the new overround', async () => {
+    const { service } = createService();
+    const event = await service.getEvent('election-winner');
+    const realtime = new RealtimeServiceV2();
+    const updates: EventBookUpdate[] = [];
+
+    const subscription = realtime.subscribeEvent(event, { onEventUpdate: (u) => updates.push(u) });
+    expect(subscription.tokenIds).toEqual(['alice-yes', 'alice-no', 'bob-yes', 'bob-no']);
+
+    (realtime as any).handleMarketMessage('book', [{
+      asset_id: 'bob-yes',
+      market: '0xcond-bob',
+      hash: 'h0',
+      timestamp: '1700000000000',
+      bids: [{ price: '0.44', size: '10' }],
+      asks: [{ price: '0.46', size: '10' }],
+    }], 1700000000000);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ eventId: '903', conditionId: '0xcond-bob', outcomeIndex: 0, bestBid: 0.44, bestAsk: 0.46 });
+    expect(updates[0].midpoint).toBeCloseTo(0.45);
+    expect(updates[0].overround).toBeCloseTo(1.03);
+
+    subscription.unsubscribe();
+  });
+});
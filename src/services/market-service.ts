@@ -3,6 +3,7 @@
  *
  * Provides market data and analysis:
  * - Market info and discovery
+ * - Multi-market events with live top of book
  * - Orderbook data and analysis
  * - K-Line aggregation from trade data
  * - Spread analysis
@@ -21,10 +22,17 @@ import { DataApiClient, Trade } from '../clients/data-api.js';
 import { GammaApiClient, GammaMarket } from '../clients/gamma-api.js';
 import type { UnifiedCache } from '../core/unified-cache.js';
 import { CACHE_TTL } from '../core/unified-cache.js';
-import { RateLimiter, ApiType } from '../core/rate-limiter.js';
+import { RateLimiter, ApiType, ClobEndpoint } from '../core/rate-limiter.js';
 import { PolymarketError, ErrorCode } from '../core/errors.js';
+import type { SchemaValidator } from '../core/schema.js';
+import type { RequestOptions } from '../core/request-options.js';
+import { noopTelemetry, type Telemetry } from '../core/telemetry.js';
+import { CLOB_SCHEMAS } from '../core/response-schemas.js';
 import type {
   UnifiedMarket,
+  UnifiedEvent,
+  UnifiedEventMarket,
+  EventMarketToken,
   MarketToken as UnifiedMarketToken,
   ProcessedOrderbook,
   EffectivePrices,
@@ -42,12 +50,16 @@ import type {
   PricePoint,
   PriceLineSpreadPoint,
   DualPriceLineData,
+  PolymarketEndpoints,
 } from '../core/types.js';
 import type { BinanceService, BinanceInterval } from './binance-service.js';
 
 // CLOB Host
 const CLOB_HOST = 'https://clob.polymarket.com';
 
+// A slug keeps pointing at the same condition ID
+const SLUG_TTL = 24 * 60 * 60 * 1000;
+
 // Chain IDs
 export const POLYGON_MAINNET = 137;
 
@@ -104,6 +116,27 @@ export interface MarketServiceConfig {
   privateKey?: string;
   /** Chain ID (default: Polygon mainnet 137) */
   chainId?: number;
+  /** Endpoint overrides (uses `clob`) */
+  endpoints?: PolymarketEndpoints;
+  /** Validates CLOB market and orderbook payloads (see CLOB_SCHEMAS) */
+  schemas?: SchemaValidator;
+  /** Receives warnings such as degraded event quotes (default: no-op) */
+  telemetry?: Telemetry;
+}
+
+export interface GetMarketOptions {
+  /**
+   * Accept a cached result up to this old, in ms (default: 0, always fetch).
+   * Concurrent callers share one lookup; prices and active/closed flags can
+   * be this stale.
+   */
+  maxAgeMs?: number;
+}
+
+/** getMarket() result as cached when `maxAgeMs` is set */
+interface CachedMarket {
+  market: UnifiedMarket;
+  fetchedAt: number;
 }
 
 // Internal type for CLOB market data
@@ -208,14 +241,15 @@ export class MarketService {
   private async ensureInitialized(): Promise<ClobClient> {
     if (!this.initialized || !this.clobClient) {
       const chainId = (this.config?.chainId || POLYGON_MAINNET) as Chain;
+      const host = this.config?.endpoints?.clob || CLOB_HOST;
 
       if (this.config?.privateKey) {
         // Authenticated client
         const wallet = new Wallet(this.config.privateKey);
-        this.clobClient = new ClobClient(CLOB_HOST, chainId, wallet);
+        this.clobClient = new ClobClient(host, chainId, wallet);
       } else {
         // Read-only client (no auth needed for market data)
-        this.clobClient = new ClobClient(CLOB_HOST, chainId);
+        this.clobClient = new ClobClient(host, chainId);
       }
       this.initialized = true;
     }
@@ -239,6 +273,7 @@ export class MarketService {
           if (!market || !market.tokens) {
             return null;
           }
+          this.config?.schemas?.validate(CLOB_SCHEMAS.market, market);
           return this.normalizeClobMarket(market as ClobMarket);
         } catch (error) {
           // Handle 404 "market not found" gracefully
@@ -251,6 +286,15 @@ export class MarketService {
     });
   }
 
+  /**
+   * Drop cached CLOB market data and getMarket() results for a condition ID
+   * (getMarket caches slug lookups under the condition ID too)
+   */
+  async invalidateMarket(conditionId: string): Promise<void> {
+    await this.cache.delete(`clob:market:${conditionId}`);
+    await this.cache.delete(`market:${conditionId}`);
+  }
+
   /**
    * Resolve market tokens from CLOB API
    *
@@ -318,6 +362,7 @@ export class MarketService {
     const client = await this.ensureInitialized();
     return this.rateLimiter.execute(ApiType.CLOB_API, async () => {
       const result = await client.getMarkets(nextCursor);
+      this.config?.schemas?.validate(CLOB_SCHEMAS.market, result.data);
       return {
         markets: (result.data as ClobMarket[]).map(m => this.normalizeClobMarket(m)),
         nextCursor: result.next_cursor,
@@ -332,6 +377,7 @@ export class MarketService {
     const client = await this.ensureInitialized();
     return this.rateLimiter.execute(ApiType.CLOB_API, async () => {
       const book = await client.getOrderBook(tokenId) as OrderBookSummary;
+      this.config?.schemas?.validate(CLOB_SCHEMAS.orderbook, book);
 
       const bids = (book.bids || [])
         .map((l: { price: string; size: string }) => ({
@@ -356,14 +402,15 @@ export class MarketService {
         market: book.market,
         hash: book.hash,
       };
-    });
+    }, ClobEndpoint.BOOK);
   }
 
   /**
    * Get orderbooks for multiple tokens
    */
   async getTokenOrderbooks(
-    params: Array<{ tokenId: string; side: Side }>
+    params: Array<{ tokenId: string; side: Side }>,
+    options?: RequestOptions
   ): Promise<Map<string, Orderbook>> {
     const client = await this.ensureInitialized();
     return this.rateLimiter.execute(ApiType.CLOB_API, async () => {
@@ -372,6 +419,7 @@ export class MarketService {
         side: p.side === 'BUY' ? ClobSide.BUY : ClobSide.SELL,
       }));
       const books = await client.getOrderBooks(bookParams);
+      this.config?.schemas?.validate(CLOB_SCHEMAS.orderbook, books);
       const result = new Map<string, Orderbook>();
 
       for (const book of books) {
@@ -401,7 +449,7 @@ export class MarketService {
       }
 
       return result;
-    });
+    }, ClobEndpoint.BOOK, options);
   }
 
   /**
@@ -500,26 +548,57 @@ export class MarketService {
 
   /**
    * Get market by slug or condition ID
+   *
+   * Prices and status are fetched on every call unless `options.maxAgeMs`
+   * allows a cached copy (e.g. for parallel strategies reading the same market).
    */
-  async getMarket(identifier: string): Promise<UnifiedMarket> {
+  async getMarket(identifier: string, options: GetMarketOptions = {}): Promise<UnifiedMarket> {
+    const maxAgeMs = options.maxAgeMs ?? 0;
     const isConditionId = identifier.startsWith('0x') || /^\d+$/.test(identifier);
-
     if (isConditionId) {
-      return this.getMarketByConditionId(identifier);
-    } else {
-      return this.getMarketBySlug(identifier);
+      return this.getCachedMarket(identifier, maxAgeMs, () => this.getMarketByConditionId(identifier));
+    }
+
+    // Slugs only resolve to a condition ID, so invalidateMarket() reaches
+    // markets looked up either way
+    const conditionId = await this.cache.get<string>(`market:slug:${identifier}`);
+    if (conditionId) {
+      return this.getCachedMarket(conditionId, maxAgeMs, () => this.getMarketByConditionId(conditionId));
     }
-  }
 
-  private async getMarketBySlug(slug: string): Promise<UnifiedMarket> {
     if (!this.gammaApi) {
       throw new PolymarketError(ErrorCode.INVALID_CONFIG, 'GammaApiClient is required for slug-based lookups');
     }
-    const gammaMarket = await this.gammaApi.getMarketBySlug(slug);
+    const gammaMarket = await this.gammaApi.getMarketBySlug(identifier);
     if (!gammaMarket) {
-      throw new PolymarketError(ErrorCode.MARKET_NOT_FOUND, `Market not found: ${slug}`);
+      throw new PolymarketError(ErrorCode.MARKET_NOT_FOUND, `Market not found: ${identifier}`);
     }
+    await this.cache.set(`market:slug:${identifier}`, gammaMarket.conditionId, SLUG_TTL);
+    return this.getCachedMarket(gammaMarket.conditionId, maxAgeMs, () => this.fromGammaWithClob(gammaMarket));
+  }
 
+  /**
+   * Share one lookup between callers that accept a copy up to `maxAgeMs` old.
+   * An entry written for a longer maxAgeMs is refetched for a shorter one.
+   */
+  private async getCachedMarket(
+    conditionId: string,
+    maxAgeMs: number,
+    load: () => Promise<UnifiedMarket>
+  ): Promise<UnifiedMarket> {
+    if (maxAgeMs <= 0) return load();
+
+    const key = `market:${conditionId}`;
+    const fetch = async (): Promise<CachedMarket> => ({ market: await load(), fetchedAt: Date.now() });
+    const cached = await this.cache.getOrSet(key, maxAgeMs, fetch);
+    if (Date.now() - cached.fetchedAt <= maxAgeMs) return cached.market;
+
+    const fresh = await fetch();
+    await this.cache.set(key, fresh, maxAgeMs);
+    return fresh.market;
+  }
+
+  private async fromGammaWithClob(gammaMarket: GammaMarket): Promise<UnifiedMarket> {
     try {
       const clobMarket = await this.getClobMarket(gammaMarket.conditionId);
       if (clobMarket) {
@@ -581,6 +660,118 @@ export class MarketService {
     throw new PolymarketError(ErrorCode.MARKET_NOT_FOUND, `Market not found: ${conditionId}`);
   }
 
+  // ===== Events =====
+
+  /**
+   * Get a multi-market event by slug or Gamma event ID
+   *
+   * Every child market comes with its CLOB token IDs, neg-risk flag and the
+   * live best bid/ask of each outcome. Books are fetched in one batch for the
+   * open markets; closed markets (and any market whose book is unavailable)
+   * keep the Gamma prices as their midpoints. If the batch fails, the event is
+   * returned with `degraded: true` and Gamma prices throughout.
+   *
+   * @example
+   * ```typescript
+   * const event = await sdk.markets.getEvent('presidential-election-winner-2028');
+   * if (event.negRisk && event.overround > 1.02) {
+   *   console.log(`YES mids sum to ${event.overround.toFixed(3)}`);
+   * }
+   * ```
+   *
+   * @param slugOrId - Event slug or numeric Gamma event ID
+   * @param options - Abort signal and timeout, per request
+   * @throws PolymarketError MARKET_NOT_FOUND if the event does not exist
+   */
+  async getEvent(slugOrId: string, options?: RequestOptions): Promise<UnifiedEvent> {
+    if (!this.gammaApi) {
+      throw new PolymarketError(ErrorCode.INVALID_CONFIG, 'GammaApiClient is required for event lookups');
+    }
+    const event = /^\d+$/.test(slugOrId)
+      ? await this.gammaApi.getEventById(slugOrId, options)
+      : await this.gammaApi.getEventBySlug(slugOrId, options);
+    if (!event) {
+      throw new PolymarketError(ErrorCode.MARKET_NOT_FOUND, `Event not found: ${slugOrId}`);
+    }
+
+    const liveTokenIds = event.markets
+      .filter((m) => !m.closed)
+      .flatMap((m) => m.clobTokenIds ?? []);
+    let books = new Map<string, Orderbook>();
+    let degraded = false;
+    if (liveTokenIds.length > 0) {
+      try {
+        books = await this.getTokenOrderbooks(
+          liveTokenIds.map((tokenId) => ({ tokenId, side: 'BUY' as Side })),
+          options
+        );
+      } catch (error) {
+        // The caller gave up: don't hand back Gamma prices as if they were live
+        if (error instanceof PolymarketError && (error.code === ErrorCode.ABORTED || error.code === ErrorCode.TIMEOUT)) {
+          throw error;
+        }
+        degraded = true;
+        (this.config?.telemetry ?? noopTelemetry).log('warn', 'Event books unavailable, using Gamma prices', {
+          event: event.slug,
+          tokens: liveTokenIds.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const eventNegRisk = event.negRisk ?? event.markets.some((m) => m.negRisk);
+    const markets = event.markets.map((m) => this.toEventMarket(m, books, eventNegRisk));
+
+    return {
+      id: event.id,
+      slug: event.slug,
+      title: event.title,
+      description: event.description,
+      negRisk: eventNegRisk,
+      negRiskMarketId: event.negRiskMarketId,
+      markets,
+      overround: calculateOverround(markets),
+      degraded,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      timestamp: Date.now(),
+    };
+  }
+
+  private toEventMarket(gamma: GammaMarket, books: Map<string, Orderbook>, eventNegRisk: boolean): UnifiedEventMarket {
+    const outcomes = gamma.outcomes?.length ? gamma.outcomes : ['Yes', 'No'];
+    const tokenIds = gamma.clobTokenIds ?? [];
+    const tokens: EventMarketToken[] = outcomes.map((outcome, i) => {
+      const price = gamma.outcomePrices[i] ?? 0;
+      const book = tokenIds[i] ? books.get(tokenIds[i]) : undefined;
+      const bestBid = book?.bids[0]?.price ?? null;
+      const bestAsk = book?.asks[0]?.price ?? null;
+      return {
+        tokenId: tokenIds[i] ?? '',
+        outcome,
+        price,
+        bestBid,
+        bestAsk,
+        midpoint: bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : price,
+      };
+    });
+
+    return {
+      conditionId: gamma.conditionId,
+      slug: gamma.slug,
+      question: gamma.question,
+      groupItemTitle: gamma.groupItemTitle,
+      tokens,
+      negRisk: gamma.negRisk ?? eventNegRisk,
+      impliedProbability: tokens[0]?.midpoint ?? 0,
+      volume: gamma.volume,
+      liquidity: gamma.liquidity,
+      active: gamma.active,
+      closed: gamma.closed,
+      endDate: gamma.endDate,
+    };
+  }
+
   // ===== K-Line: Price Lines (from /prices-history API) =====
 
   /**
@@ -1824,3 +2015,12 @@ export function getIntervalMs(interval: KLineInterval): number {
   };
   return map[interval];
 }
+
+/**
+ * Sum of YES (primary outcome) midpoints across an event's open markets
+ *
+ * For a neg-risk event the fair sum is 1; the excess is the overround.
+ */
+export function calculateOverround(markets: Array<Pick<UnifiedEventMarket, 'closed' | 'impliedProbability'>>): number {
+  return markets.filter((m) => !m.closed).reduce((sum, m) => sum + m.impliedProbability, 0);
+}
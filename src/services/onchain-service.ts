@@ -2,7 +2,7 @@
  * OnchainService - Unified interface for all on-chain operations
  *
  * Consolidates:
- * - CTF operations (split, merge, redeem)
+ * - CTF operations (split, merge, redeem, neg-risk convert)
  * - Authorization (ERC20/ERC1155 approvals)
  * - Swaps (QuickSwap V3)
  *
@@ -47,6 +47,8 @@ import {
   type GasEstimate,
   type TransactionStatus,
   type TokenIds,
+  type CtfOperationOptions,
+  type ConvertResult,
 } from '../clients/ctf-client.js';
 
 import {
@@ -66,6 +68,8 @@ import {
   type PoolInfo,
 } from './swap-service.js';
 
+import type { Telemetry } from '../core/telemetry.js';
+
 // ===== Types =====
 
 export interface OnchainServiceConfig {
@@ -81,6 +85,13 @@ export interface OnchainServiceConfig {
   confirmations?: number;
   /** Transaction timeout in ms (default: 60000) */
   txTimeout?: number;
+  /**
+   * Gnosis Safe holding the funds; CTF operations are executed through it.
+   * Authorization and swaps still act on the signer wallet.
+   */
+  safeAddress?: string;
+  /** Receives a span and an outcome counter per CTF transaction */
+  telemetry?: Telemetry;
 }
 
 export interface ReadyStatus {
@@ -113,6 +124,8 @@ export type {
   GasEstimate,
   TransactionStatus,
   TokenIds,
+  CtfOperationOptions,
+  ConvertResult,
   AllowancesResult,
   ApprovalsResult,
   ApprovalTxResult,
@@ -158,16 +171,19 @@ export class OnchainService {
       gasPriceMultiplier: config.gasPriceMultiplier,
       confirmations: config.confirmations,
       txTimeout: config.txTimeout,
+      safeAddress: config.safeAddress,
+      telemetry: config.telemetry,
     };
     this.ctfClient = new CTFClient(ctfConfig);
 
     // Initialize AuthorizationService with shared wallet
     this.authService = new AuthorizationService(this.wallet, {
       provider: this.provider,
+      telemetry: config.telemetry,
     });
 
     // Initialize SwapService with shared wallet
-    this.swapService = new SwapService(this.wallet);
+    this.swapService = new SwapService(this.wallet, { telemetry: config.telemetry });
   }
 
   // ===== Utilities =====
@@ -256,10 +272,11 @@ export class OnchainService {
    *
    * @param conditionId - Market condition ID
    * @param amount - USDC amount (e.g., "100" for 100 USDC)
+   * @param options - `{ negRisk: true }` for markets of a neg-risk event
    * @returns SplitResult with transaction details
    */
-  async split(conditionId: string, amount: string): Promise<SplitResult> {
-    return this.ctfClient.split(conditionId, amount);
+  async split(conditionId: string, amount: string, options?: CtfOperationOptions): Promise<SplitResult> {
+    return this.ctfClient.split(conditionId, amount, options);
   }
 
   /**
@@ -282,9 +299,10 @@ export class OnchainService {
   async mergeByTokenIds(
     conditionId: string,
     tokenIds: TokenIds,
-    amount: string
+    amount: string,
+    options?: CtfOperationOptions
   ): Promise<MergeResult> {
-    return this.ctfClient.mergeByTokenIds(conditionId, tokenIds, amount);
+    return this.ctfClient.mergeByTokenIds(conditionId, tokenIds, amount, options);
   }
 
   /**
@@ -308,13 +326,26 @@ export class OnchainService {
    * @param conditionId - Market condition ID
    * @param tokenIds - Token IDs for primary and secondary outcomes
    * @param outcome - Optional: Specific outcome to redeem (e.g., "YES", "UP", "TEAM A")
+   * @param options - `{ negRisk: true }` for markets of a neg-risk event
    */
   async redeemByTokenIds(
     conditionId: string,
     tokenIds: TokenIds,
-    outcome?: string
+    outcome?: string,
+    options?: CtfOperationOptions
   ): Promise<RedeemResult> {
-    return this.ctfClient.redeemByTokenIds(conditionId, tokenIds, outcome);
+    return this.ctfClient.redeemByTokenIds(conditionId, tokenIds, outcome, options);
+  }
+
+  /**
+   * Convert NO tokens of a neg-risk event into USDC + YES tokens of the other outcomes
+   *
+   * @param marketId - Neg-risk market ID
+   * @param questionIds - Question IDs whose NO tokens to convert
+   * @param amount - NO tokens to convert per question
+   */
+  async convertPositions(marketId: string, questionIds: string[], amount: string): Promise<ConvertResult> {
+    return this.ctfClient.convertPositions(marketId, questionIds, amount);
   }
 
   // ===== Balances =====
@@ -424,15 +455,22 @@ export class OnchainService {
   /**
    * Get detailed gas estimate for a split operation
    */
-  async estimateSplitGas(conditionId: string, amount: string): Promise<GasEstimate> {
-    return this.ctfClient.getDetailedSplitGasEstimate(conditionId, amount);
+  async estimateSplitGas(conditionId: string, amount: string, options?: CtfOperationOptions): Promise<GasEstimate> {
+    return this.ctfClient.getDetailedSplitGasEstimate(conditionId, amount, options);
   }
 
   /**
    * Get detailed gas estimate for a merge operation
    */
-  async estimateMergeGas(conditionId: string, amount: string): Promise<GasEstimate> {
-    return this.ctfClient.getDetailedMergeGasEstimate(conditionId, amount);
+  async estimateMergeGas(conditionId: string, amount: string, options?: CtfOperationOptions): Promise<GasEstimate> {
+    return this.ctfClient.getDetailedMergeGasEstimate(conditionId, amount, options);
+  }
+
+  /**
+   * Get detailed gas estimate for a neg-risk convert operation
+   */
+  async estimateConvertGas(marketId: string, questionIds: string[], amount: string): Promise<GasEstimate> {
+    return this.ctfClient.getDetailedConvertGasEstimate(marketId, questionIds, amount);
   }
 
   /**
@@ -0,0 +1,242 @@
+/**
+ * Order Journal Unit Tests
+ *
+ * Focus: journal stores, and OrderManager rehydrating watched orders on start()
+ * and emitting the fills/transitions missed while the process was down.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OrderManager, type FillEvent, type OrderStatusChangeEvent, type RecoveryEvent } from './order-manager.js';
+import { InMemoryOrderJournal, FileOrderJournal, type JournaledOrder } from './order-journal.js';
+import { OrderStatus } from '../core/types.js';
+import type { Order, TradeInfo } from './trading-service.js';
+import { MockRateLimiter, MockCache } from '../__tests__/test-utils.js';
+
+const createOrder = (overrides?: Partial<Order>): Order => ({
+  id: 'order-1',
+  status: OrderStatus.OPEN,
+  tokenId: 'token123',
+  side: 'BUY',
+  price: 0.52,
+  originalSize: 100,
+  filledSize: 0,
+  remainingSize: 100,
+  associateTrades: [],
+  createdAt: 1700000000000,
+  ...overrides,
+});
+
+const createEntry = (overrides?: Partial<JournaledOrder>): JournaledOrder => ({
+  orderId: 'order-1',
+  order: createOrder(),
+  metadata: { strategyId: 'mm-1' },
+  lastStatus: OrderStatus.OPEN,
+  initialTokenId: 'token123',
+  fills: [],
+  savedAt: 1700000000000,
+  ...overrides,
+});
+
+class MockTradingService {
+  openOrders: Order[] = [];
+  orders = new Map<string, Order>();
+  trades: TradeInfo[] = [];
+
+  async initialize(): Promise<void> {}
+  async getOpenOrders(): Promise<Order[]> {
+    return this.openOrders;
+  }
+  async getOrder(orderId: string): Promise<Order | null> {
+    return this.orders.get(orderId) ?? this.openOrders.find((o) => o.id === orderId) ?? null;
+  }
+  async getTrades(): Promise<TradeInfo[]> {
+    return this.trades;
+  }
+  getCredentials() {
+    return null;
+  }
+}
+
+describe('FileOrderJournal', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'order-journal-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', async () => {
+    const path = join(dir, 'nested', 'orders.json');
+    const journal = new FileOrderJournal(path);
+    await journal.save(createEntry());
+    await journal.save(createEntry({ orderId: 'order-2', order: createOrder({ id: 'order-2' }) }));
+    await journal.remove('order-1');
+
+    const reopened = new FileOrderJournal(path);
+    const entries = await reopened.load();
+    expect(entries.map((e) => e.orderId)).toEqual(['order-2']);
+    expect(entries[0].metadata).toEqual({ strategyId: 'mm-1' });
+  });
+
+  it('should load an empty journal when the file does not exist', async () => {
+    const journal = new FileOrderJournal(join(dir, 'missing.json'));
+    expect(await journal.load()).toEqual([]);
+  });
+});
+
+describe('OrderManager - Journal Recovery', () => {
+  let journal: InMemoryOrderJournal;
+  let tradingService: MockTradingService;
+  let orderManager: OrderManager;
+
+  const createManager = () => {
+    const manager = new OrderManager({
+      privateKey: '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+      rateLimiter: new MockRateLimiter() as any,
+      cache: new MockCache() as any,
+      mode: 'polling',
+      pollingInterval: 60_000,
+      journal,
+    });
+    (manager as any).tradingService = tradingService;
+    return manager;
+  };
+
+  beforeEach(() => {
+    journal = new InMemoryOrderJournal();
+    tradingService = new MockTradingService();
+    orderManager = createManager();
+  });
+
+  afterEach(() => {
+    orderManager.stop();
+  });
+
+  it('should journal watched orders and keep them across stop()', async () => {
+    await orderManager.start();
+    orderManager.watchOrder('order-1', { strategyId: 'mm-1' }, { tokenId: 'token123', side: 'BUY', price: 0.52, size: 100 });
+    orderManager.stop();
+
+    const entries = await journal.load();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ orderId: 'order-1', metadata: { strategyId: 'mm-1' } });
+  });
+
+  it('should rehydrate open orders and emit fills missed while down', async () => {
+    await journal.save(createEntry());
+    tradingService.openOrders = [
+      createOrder({
+        status: OrderStatus.PARTIALLY_FILLED,
+        filledSize: 30,
+        remainingSize: 70,
+        associateTrades: ['trade-1'],
+      }),
+    ];
+    tradingService.trades = [
+      {
+        id: 'trade-1',
+        tokenId: 'token123',
+        side: 'SELL',
+        price: 0.52,
+        size: 80,
+        fee: 0,
+        timestamp: 1700000001000,
+        takerOrderId: 'taker-x',
+        makerOrders: [{ orderId: 'order-1', matchedAmount: 30, price: 0.51 }],
+      },
+    ];
+
+    const fills: FillEvent[] = [];
+    const changes: OrderStatusChangeEvent[] = [];
+    let recovery: RecoveryEvent | undefined;
+    orderManager.on('order_partially_filled', (e: FillEvent) => fills.push(e));
+    orderManager.on('status_change', (e: OrderStatusChangeEvent) => changes.push(e));
+    orderManager.on('orders_recovered', (e: RecoveryEvent) => (recovery = e));
+
+    await orderManager.start();
+
+    expect(fills).toHaveLength(1);
+    expect(fills[0].fill).toMatchObject({ tradeId: 'trade-1', size: 30, price: 0.51 });
+    expect(fills[0].cumulativeFilled).toBe(30);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ from: OrderStatus.OPEN, to: OrderStatus.PARTIALLY_FILLED, reason: 'recovery' });
+    expect(recovery).toMatchObject({ orderIds: ['order-1'], resumedOrderIds: ['order-1'], fills: 1, transitions: 1 });
+    expect(orderManager.getWatchedOrder('order-1')?.filledSize).toBe(30);
+
+    const [entry] = await journal.load();
+    expect(entry.fills.map((f) => f.tradeId)).toEqual(['trade-1']);
+    expect(entry.lastStatus).toBe(OrderStatus.PARTIALLY_FILLED);
+  });
+
+  it('should emit terminal events for orders that left the book and drop them from the journal', async () => {
+    await journal.save(
+      createEntry({
+        order: createOrder({ filledSize: 40, remainingSize: 60, associateTrades: ['trade-1'] }),
+        lastStatus: OrderStatus.PARTIALLY_FILLED,
+        fills: [{ tradeId: 'trade-1', size: 40, price: 0.52, timestamp: 1700000001000 }],
+      })
+    );
+    // Filled while down; trade-2 is not in trade history
+    tradingService.orders.set(
+      'order-1',
+      createOrder({
+        status: OrderStatus.FILLED,
+        filledSize: 100,
+        remainingSize: 0,
+        associateTrades: ['trade-1', 'trade-2'],
+      })
+    );
+
+    const filled: FillEvent[] = [];
+    orderManager.on('order_filled', (e: FillEvent) => filled.push(e));
+
+    await orderManager.start();
+
+    // Exactly one fill for the missing 60, no duplicate from the status change
+    expect(filled).toHaveLength(1);
+    expect(filled[0].fill).toMatchObject({ tradeId: 'trade-2', size: 60, price: 0.52 });
+    expect(filled[0].isCompleteFill).toBe(true);
+    expect(orderManager.getWatchedOrders()).toHaveLength(0);
+    expect(await journal.load()).toEqual([]);
+  });
+
+  it('should leave the manager stopped when recovery fails, so start() can be retried', async () => {
+    await journal.save(createEntry());
+    const getOpenOrders = tradingService.getOpenOrders.bind(tradingService);
+    tradingService.getOpenOrders = async () => {
+      throw new Error('CLOB unavailable');
+    };
+
+    await expect(orderManager.start()).rejects.toThrow('CLOB unavailable');
+    expect(orderManager.getWatchedOrders()).toHaveLength(0);
+
+    tradingService.getOpenOrders = getOpenOrders;
+    tradingService.openOrders = [createOrder()];
+    let recovery: RecoveryEvent | undefined;
+    orderManager.on('orders_recovered', (e: RecoveryEvent) => (recovery = e));
+
+    await orderManager.start();
+
+    expect(recovery).toMatchObject({ orderIds: ['order-1'], resumedOrderIds: ['order-1'] });
+    expect(orderManager.getWatchedOrder('order-1')).toBeDefined();
+  });
+
+  it('should emit a missed cancellation', async () => {
+    await journal.save(createEntry());
+    tradingService.orders.set('order-1', createOrder({ status: OrderStatus.CANCELLED }));
+
+    const cancelled: string[] = [];
+    orderManager.on('order_cancelled', (e) => cancelled.push(e.orderId));
+
+    await orderManager.start();
+
+    expect(cancelled).toEqual(['order-1']);
+    expect(await journal.load()).toEqual([]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Order Journal
+ *
+ * Persistent store for OrderManager's watched orders. Every state change of a
+ * watched order (creation, status transition, fill) is written to the journal,
+ * so a restarted process can rehydrate its watched orders on `start()` and
+ * reconcile them against the CLOB.
+ *
+ * Implementations:
+ * - InMemoryOrderJournal: default, process-local (no crash recovery)
+ * - FileOrderJournal: JSON file on disk, written atomically (tmp + rename)
+ *
+ * Custom stores (SQLite, Redis, ...) only need to implement `OrderJournal`.
+ *
+ * @example
+ * ```typescript
+ * const orderMgr = new OrderManager({
+ *   privateKey: '0x...',
+ *   rateLimiter,
+ *   cache,
+ *   journal: new FileOrderJournal('./data/orders.json'),
+ * });
+ *
+ * orderMgr.on('orders_recovered', (e) => {
+ *   console.log(`Recovered ${e.orderIds.length} orders, ${e.fills} missed fills`);
+ * });
+ *
+ * await orderMgr.start();
+ * ```
+ */
+
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { OrderStatus } from '../core/types.js';
+import type { Order } from './trading-service.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A fill already emitted for a journaled order
+ */
+export interface JournaledFill {
+  tradeId: string;
+  size: number;
+  price: number;
+  timestamp: number;
+}
+
+/**
+ * Persisted state of a watched order.
+ * `metadata` must be JSON-serializable for file-backed journals.
+ */
+export interface JournaledOrder {
+  orderId: string;
+  order: Order;
+  metadata?: Record<string, unknown>;
+  lastStatus: OrderStatus;
+  initialTokenId?: string;
+  fills: JournaledFill[];
+  /** When this entry was last written */
+  savedAt: number;
+}
+
+/**
+ * Pluggable store for watched order state
+ */
+export interface OrderJournal {
+  /** Load all journaled orders */
+  load(): Promise<JournaledOrder[]>;
+  /** Insert or replace the entry for `entry.orderId` */
+  save(entry: JournaledOrder): Promise<void>;
+  /** Remove an order (no-op if absent) */
+  remove(orderId: string): Promise<void>;
+  /** Remove all orders */
+  clear(): Promise<void>;
+}
+
+// Entries are cloned on the way in and out so callers can't mutate stored state
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// ============================================================================
+// InMemoryOrderJournal
+// ============================================================================
+
+export class InMemoryOrderJournal implements OrderJournal {
+  private entries: Map<string, JournaledOrder> = new Map();
+
+  async load(): Promise<JournaledOrder[]> {
+    return Array.from(this.entries.values(), clone);
+  }
+
+  async save(entry: JournaledOrder): Promise<void> {
+    this.entries.set(entry.orderId, clone(entry));
+  }
+
+  async remove(orderId: string): Promise<void> {
+    this.entries.delete(orderId);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// ============================================================================
+// FileOrderJournal
+// ============================================================================
+
+interface JournalFile {
+  version: 1;
+  orders: JournaledOrder[];
+}
+
+/**
+ * JSON file journal.
+ *
+ * The whole file is rewritten on each change via a temp file + rename, so a
+ * crash mid-write leaves the previous version intact. Writes are serialized
+ * in call order. Suitable for the tens-to-hundreds of orders a strategy
+ * typically watches; use a database-backed journal beyond that.
+ */
+export class FileOrderJournal implements OrderJournal {
+  private entries: Map<string, JournaledOrder> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<JournaledOrder[]> {
+    const entries = await this.ensureLoaded();
+    return Array.from(entries.values(), clone);
+  }
+
+  save(entry: JournaledOrder): Promise<void> {
+    const snapshot = clone(entry);
+    return this.enqueue((entries) => {
+      entries.set(snapshot.orderId, snapshot);
+    });
+  }
+
+  remove(orderId: string): Promise<void> {
+    return this.enqueue((entries) => {
+      entries.delete(orderId);
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue((entries) => {
+      entries.clear();
+    });
+  }
+
+  private enqueue(mutate: (entries: Map<string, JournaledOrder>) => void): Promise<void> {
+    const run = async () => {
+      const entries = await this.ensureLoaded();
+      mutate(entries);
+      await this.write(entries);
+    };
+    // Keep the chain alive after a failed write; the caller still sees the error
+    const result = this.queue.then(run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async ensureLoaded(): Promise<Map<string, JournaledOrder>> {
+    if (this.entries) return this.entries;
+
+    let orders: JournaledOrder[] = [];
+    try {
+      const raw = await readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as JournalFile;
+      orders = Array.isArray(parsed.orders) ? parsed.orders : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.entries = new Map(orders.map((o) => [o.orderId, o]));
+    return this.entries;
+  }
+
+  private async write(entries: Map<string, JournaledOrder>): Promise<void> {
+    const file: JournalFile = { version: 1, orders: Array.from(entries.values()) };
+    const tmpPath = `${this.filePath}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tmpPath, JSON.stringify(file), 'utf8');
+    await rename(tmpPath, this.filePath);
+  }
+}
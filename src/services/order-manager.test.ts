@@ -10,8 +10,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { OrderManager, type FillEvent, type RejectEvent } from './order-manager.js';
 import { OrderStatus } from '../core/types.js';
+import { ErrorCode } from '../core/errors.js';
 import type { Order, MarketOrderParams } from './trading-service.js';
 import { MockRateLimiter, MockCache, waitFor } from '../__tests__/test-utils.js';
+import { RealTimeDataClient } from '../realtime/index.js';
 
 // ============================================================================
 // Mock Dependencies
@@ -687,7 +689,9 @@ describe('OrderManager - Market Orders (FOK/FAK)', () => {
 
       expect(result.success).toBe(false);
       expect(result.errorMsg).toContain('at least $1');
+      expect(result.errorCode).toBe(ErrorCode.ORDER_TOO_SMALL);
       expect(rejectEvents).toHaveLength(1);
+      expect(rejectEvents[0]).toMatchObject({ code: ErrorCode.ORDER_TOO_SMALL, details: { size: 0.5, minimumSize: 1 } });
     });
 
     it('should default to FOK when orderType not specified', async () => {
@@ -916,3 +920,34 @@ describe('OrderManager - Market Orders (FOK/FAK)', () => {
     });
   });
 });
+
+describe('OrderManager - Endpoints', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should point its default TradingService and WebSocket clients at the configured endpoints', async () => {
+    const urls: string[] = [];
+    vi.spyOn(RealTimeDataClient.prototype, 'connect').mockImplementation(function (this: RealTimeDataClient) {
+      const { url, onConnect } = (this as any).config;
+      urls.push(url);
+      onConnect?.(this);
+    });
+    const endpoints = {
+      clob: 'https://clob.test',
+      ws: { market: 'wss://ws.test/market', user: 'wss://ws.test/user', liveData: 'wss://live.test' },
+    };
+
+    const orderManager = new OrderManager({
+      privateKey: '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+      rateLimiter: new MockRateLimiter() as any,
+      cache: new MockCache() as any,
+      endpoints,
+    });
+    expect((orderManager as any).tradingService.clobHost).toBe('https://clob.test');
+
+    await (orderManager as any).ensureWebSocketConnected();
+    expect(urls).toEqual(['wss://ws.test/market', 'wss://ws.test/user', 'wss://live.test']);
+    (orderManager as any).realtimeService.disconnect();
+  });
+});
@@ -182,14 +182,17 @@
 
 import { EventEmitter } from 'events';
 import { ethers } from 'ethers';
-import { TradingService, type LimitOrderParams, type MarketOrderParams, type Order, type OrderResult } from './trading-service.js';
-import type { RealtimeServiceV2, UserOrder, UserTrade, MakerOrderInfo } from './realtime-service-v2.js';
+import { TradingService, isUserEventSource, type TradingClient, type LimitOrderParams, type MarketOrderParams, type Order, type OrderResult, type TradeInfo } from './trading-service.js';
+import { InMemoryOrderJournal, type OrderJournal, type JournaledOrder, type JournaledFill } from './order-journal.js';
+import type { RealtimeServiceV2, UserOrder, UserTrade, MakerOrderInfo, Subscription } from './realtime-service-v2.js';
 import { RateLimiter } from '../core/rate-limiter.js';
 import { createUnifiedCache } from '../core/unified-cache.js';
 import type { UnifiedCache } from '../core/unified-cache.js';
-import { OrderStatus, type Side } from '../core/types.js';
+import { OrderStatus, type PolymarketEndpoints, type Side, type SignatureType } from '../core/types.js';
 import { mapApiStatusToInternal, isTerminalStatus, isValidStatusTransition } from '../core/order-status.js';
 import { PolymarketError, ErrorCode } from '../core/errors.js';
+import { orderRejection, type ClobRejectionDetails } from '../core/clob-errors.js';
+import { TELEMETRY_METRICS, noopTelemetry, type Telemetry } from '../core/telemetry.js';
 
 // ============================================================================
 // Configuration & Types
@@ -198,7 +201,7 @@ import { PolymarketError, ErrorCode } from '../core/errors.js';
 export interface OrderManagerConfig {
   /** Private key for signing transactions */
   privateKey: string;
-  /** Rate limiter for API calls */
+  /** Rate limiter for API calls (pass `sdk.getRateLimiter()` to share the SDK's) */
   rateLimiter: RateLimiter;
   /** Cache for market metadata */
   cache: UnifiedCache;
@@ -210,6 +213,33 @@ export interface OrderManagerConfig {
   pollingInterval?: number;
   /** RPC URL for Polygon provider (for settlement tracking) */
   polygonRpcUrl?: string;
+  /**
+   * Persistent store for watched orders (default: in-memory).
+   * Use FileOrderJournal (or a custom store) to recover watched orders after a restart.
+   */
+  journal?: OrderJournal;
+  /**
+   * Trading backend (default: a TradingService built from `privateKey`).
+   * Pass a SimulatedTradingService to paper-trade; clients implementing
+   * UserEventSource deliver user events in place of the WebSocket.
+   */
+  tradingService?: TradingClient;
+  /**
+   * Who holds the funds for the default TradingService (default: EOA).
+   * Ignored when `tradingService` is provided.
+   */
+  signatureType?: SignatureType;
+  /** Proxy wallet / Safe holding the funds (required for non-EOA signature types) */
+  funderAddress?: string;
+  /**
+   * Check the funder's USDC / token balance before submitting orders (default: false).
+   * Costs one extra CLOB request per order.
+   */
+  validateBalance?: boolean;
+  /** Receives order lifecycle and fill counters */
+  telemetry?: Telemetry;
+  /** Endpoint overrides for the default TradingService and the user WebSocket (pass the SDK's) */
+  endpoints?: PolymarketEndpoints;
 }
 
 /**
@@ -231,6 +261,8 @@ interface WatchedOrder {
    * so we use this to protect the tokenId from being overwritten.
    */
   initialTokenId?: string;
+  /** Fills already emitted for this order (persisted to the journal) */
+  fills: JournaledFill[];
 }
 
 /**
@@ -258,6 +290,9 @@ interface MarketMetadata {
   cachedAt: number;
 }
 
+// Tolerance when comparing cumulative fill sizes
+const FILL_EPSILON = 1e-9;
+
 // ============================================================================
 // Event Types
 // ============================================================================
@@ -344,12 +379,32 @@ export interface ExpireEvent {
 }
 
 /**
- * Rejection event (order failed validation)
+ * Rejection event (order failed validation, or the CLOB rejected it)
  */
 export interface RejectEvent {
   orderId?: string;
-  params: LimitOrderParams;
+  params: LimitOrderParams | MarketOrderParams;
   reason: string;
+  /** Classified reason (e.g. INVALID_TICK_SIZE, INSUFFICIENT_BALANCE) */
+  code: ErrorCode;
+  /** Values parsed from the reason */
+  details: ClobRejectionDetails;
+  timestamp: number;
+}
+
+/**
+ * Journal recovery event
+ * Emitted by start() after journaled orders were rehydrated and reconciled
+ */
+export interface RecoveryEvent {
+  /** Orders restored from the journal */
+  orderIds: string[];
+  /** Orders still being watched after reconciliation (not terminal) */
+  resumedOrderIds: string[];
+  /** Fills emitted for trades that happened while the process was down */
+  fills: number;
+  /** Status transitions emitted for changes that happened while down */
+  transitions: number;
   timestamp: number;
 }
 
@@ -668,16 +723,20 @@ export class OrderHandleImpl implements OrderHandle {
 
 export class OrderManager extends EventEmitter {
   // ========== Polymarket Service Dependencies ==========
-  private tradingService: TradingService;
+  private tradingService: TradingClient;
   private realtimeService: RealtimeServiceV2 | null = null;
+  private simulatorSubscription: Subscription | null = null;
   private polygonProvider: ethers.providers.Provider | null = null;
 
   // ========== Configuration ==========
-  private config: Required<OrderManagerConfig>;
+  private config: Required<Omit<OrderManagerConfig, 'tradingService' | 'signatureType' | 'funderAddress' | 'telemetry' | 'endpoints'>>;
+  private endpoints?: PolymarketEndpoints;
+  private telemetry: Telemetry;
   private initialized = false;
 
   // ========== Monitoring State ==========
   private watchedOrders: Map<string, WatchedOrder> = new Map();
+  private journal: OrderJournal;
   private processedEvents: Set<string> = new Set();
   private mode: 'websocket' | 'polling' | 'hybrid';
 
@@ -696,21 +755,29 @@ export class OrderManager extends EventEmitter {
       mode: config.mode ?? 'websocket',
       pollingInterval: config.pollingInterval ?? 5000,
       polygonRpcUrl: config.polygonRpcUrl ?? 'https://polygon-rpc.com',
+      journal: config.journal ?? new InMemoryOrderJournal(),
+      validateBalance: config.validateBalance ?? false,
     };
 
     this.mode = this.config.mode;
+    this.journal = this.config.journal;
+    this.telemetry = config.telemetry ?? noopTelemetry;
+    this.endpoints = config.endpoints;
 
     // Create default RateLimiter and Cache if not provided
-    const rateLimiter = config.rateLimiter || new RateLimiter();
+    const rateLimiter = config.rateLimiter || new RateLimiter({ telemetry: this.telemetry });
     const cache = config.cache || createUnifiedCache();
 
     // Initialize TradingService (always needed)
-    this.tradingService = new TradingService(
+    this.tradingService = config.tradingService ?? new TradingService(
       rateLimiter,
       cache,
       {
         privateKey: config.privateKey,
         chainId: this.config.chainId,
+        signatureType: config.signatureType,
+        funderAddress: config.funderAddress,
+        endpoints: this.endpoints,
       }
     );
   }
@@ -724,6 +791,8 @@ export class OrderManager extends EventEmitter {
    * - Initializes TradingService
    * - Optionally initializes RealtimeService (for WebSocket mode)
    * - Optionally initializes Polygon provider (for settlement tracking)
+   * - Rehydrates watched orders from the journal and reconciles them against
+   *   the CLOB, emitting transitions and fills missed while the process was down
    */
   async start(): Promise<void> {
     if (this.initialized) return;
@@ -737,13 +806,28 @@ export class OrderManager extends EventEmitter {
       this.polygonProvider = new ethers.providers.JsonRpcProvider(this.config.polygonRpcUrl);
     }
 
+    // Set before recovery so listeners of recovered events can already use the manager
     this.initialized = true;
+
+    try {
+      await this.recoverFromJournal();
+    } catch (error) {
+      // Undo the partial start so start() can be retried; the journal still holds every order
+      for (const watched of this.watchedOrders.values()) {
+        if (watched.pollingIntervalId) clearInterval(watched.pollingIntervalId);
+      }
+      this.watchedOrders.clear();
+      this.processedEvents.clear();
+      this.initialized = false;
+      throw error;
+    }
+
     this.emit('initialized');
   }
 
   /**
    * Stop OrderManager
-   * - Unwatch all orders
+   * - Unwatch all orders (journal entries are kept for the next start())
    * - Disconnect WebSocket (if connected)
    */
   stop(): void {
@@ -760,6 +844,11 @@ export class OrderManager extends EventEmitter {
       this.realtimeService = null;
     }
 
+    if (this.simulatorSubscription) {
+      this.simulatorSubscription.unsubscribe();
+      this.simulatorSubscription = null;
+    }
+
     this.watchedOrders.clear();
     this.processedEvents.clear();
     this.initialized = false;
@@ -797,21 +886,14 @@ export class OrderManager extends EventEmitter {
     try {
       await this.validateOrder(params);
     } catch (error) {
-      const rejectEvent: RejectEvent = {
-        params,
-        reason: error instanceof Error ? error.message : String(error),
-        timestamp: Date.now(),
-      };
-      this.emit('order_rejected', rejectEvent);
-
-      return {
-        success: false,
-        errorMsg: rejectEvent.reason,
-      };
+      return this.rejectOrder(params, validationFailure(error));
     }
 
     // Submit order via TradingService
     const result = await this.tradingService.createLimitOrder(params);
+    if (!result.success) {
+      return this.rejectOrder(params, result);
+    }
 
     if (result.success && result.orderId) {
       // Auto-watch the order with initial order info (Bug 24 fix)
@@ -822,6 +904,8 @@ export class OrderManager extends EventEmitter {
         size: params.size,
       });
 
+      this.recordOrderEvent('created', result.orderId);
+
       // Emit order_created event
       this.emit('order_created', {
         id: result.orderId,
@@ -869,21 +953,14 @@ export class OrderManager extends EventEmitter {
     try {
       await this.validateMarketOrder(params);
     } catch (error) {
-      const rejectEvent: RejectEvent = {
-        params: params as any, // MarketOrderParams is compatible enough
-        reason: error instanceof Error ? error.message : String(error),
-        timestamp: Date.now(),
-      };
-      this.emit('order_rejected', rejectEvent);
-
-      return {
-        success: false,
-        errorMsg: rejectEvent.reason,
-      };
+      return this.rejectOrder(params, validationFailure(error));
     }
 
     // Submit market order via TradingService
     const result = await this.tradingService.createMarketOrder(params);
+    if (!result.success) {
+      return this.rejectOrder(params, result);
+    }
 
     if (result.success && result.orderId) {
       // Auto-watch the order with initial order info (Bug 24 fix)
@@ -901,6 +978,8 @@ export class OrderManager extends EventEmitter {
         }
       );
 
+      this.recordOrderEvent('created', result.orderId);
+
       // Emit order_created event
       this.emit('order_created', {
         id: result.orderId,
@@ -1090,21 +1169,13 @@ export class OrderManager extends EventEmitter {
       lastStatus: OrderStatus.PENDING,
       // Bug 24 fix: Store initialTokenId to protect from polling overwrites
       initialTokenId: initialOrderInfo?.tokenId,
+      fills: [],
     };
 
     this.watchedOrders.set(orderId, watched);
+    this.persistOrder(watched);
 
-    // Start monitoring based on mode
-    if (this.mode === 'websocket' || this.mode === 'hybrid') {
-      // Fire and forget - WebSocket connection is lazy initialized
-      this.ensureWebSocketConnected().catch(err => {
-        this.emit('error', new Error(`Failed to establish WebSocket connection: ${err.message}`));
-      });
-    }
-
-    if (this.mode === 'polling' || this.mode === 'hybrid') {
-      this.startPolling(orderId);
-    }
+    this.startMonitoring(orderId);
 
     this.emit('watch_started', orderId);
   }
@@ -1122,6 +1193,9 @@ export class OrderManager extends EventEmitter {
     }
 
     this.watchedOrders.delete(orderId);
+    this.journal.remove(orderId).catch(err => {
+      this.emit('error', new Error(`Failed to remove ${orderId} from order journal: ${err.message}`));
+    });
     this.emit('watch_stopped', orderId);
   }
 
@@ -1139,6 +1213,45 @@ export class OrderManager extends EventEmitter {
     return this.watchedOrders.get(orderId)?.order;
   }
 
+  // ============================================================================
+  // Public API - Market Metadata
+  // ============================================================================
+
+  /**
+   * Record a token's new tick size (e.g. from a realtime tick_size_change).
+   * Limit orders on the token are validated against it instead of 0.01.
+   */
+  applyTickSizeChange(conditionId: string, tokenId: string, tickSize: string): void {
+    const metadata = this.marketCache.get(conditionId) ?? this.createMarketMetadata(conditionId);
+    if (!metadata.tokenIds.includes(tokenId)) {
+      metadata.tokenIds.push(tokenId);
+    }
+    metadata.tickSize = tickSize;
+    metadata.cachedAt = Date.now();
+    this.marketCache.set(conditionId, metadata);
+  }
+
+  /**
+   * Mark a market closed so new orders on its tokens are rejected up front
+   */
+  markMarketResolved(conditionId: string, tokenIds: string[] = []): void {
+    const metadata = this.marketCache.get(conditionId) ?? this.createMarketMetadata(conditionId);
+    for (const tokenId of tokenIds) {
+      if (!metadata.tokenIds.includes(tokenId)) metadata.tokenIds.push(tokenId);
+    }
+    metadata.active = false;
+    metadata.closed = true;
+    metadata.cachedAt = Date.now();
+    this.marketCache.set(conditionId, metadata);
+  }
+
+  /**
+   * Forget cached metadata for a market
+   */
+  invalidateMarketMetadata(conditionId: string): void {
+    this.marketCache.delete(conditionId);
+  }
+
   // ============================================================================
   // Private - Order Validation (Polymarket-specific)
   // ============================================================================
@@ -1148,21 +1261,25 @@ export class OrderManager extends EventEmitter {
    * All checks here are Polymarket-specific
    */
   private async validateOrder(params: LimitOrderParams): Promise<void> {
-    // 1. Tick size validation (Polymarket: 0.01)
-    // Use integer math to avoid floating point precision issues
-    const priceInCents = Math.round(params.price * 100);
+    const metadata = this.findMarketMetadata(params.tokenId);
+    this.assertMarketOpen(metadata);
+
+    // 1. Tick size validation (Polymarket: 0.01, finer near 0 and 1 after a tick_size_change)
+    // Compare in whole ticks to avoid floating point precision issues
+    const tickSize = metadata?.tickSize ?? '0.01';
+    const ticks = params.price / Number(tickSize);
     const epsilon = 0.001; // Tolerance for floating point errors
-    if (Math.abs(priceInCents - params.price * 100) > epsilon) {
+    if (Math.abs(Math.round(ticks) - ticks) > epsilon) {
       throw new PolymarketError(
-        ErrorCode.ORDER_REJECTED,
-        `Price must be multiple of 0.01 tick size (got ${params.price})`
+        ErrorCode.INVALID_TICK_SIZE,
+        `Price must be multiple of ${tickSize} tick size (got ${params.price})`
       );
     }
 
     // 2. Minimum size validation (Polymarket: 5 shares)
     if (params.size < 5) {
       throw new PolymarketError(
-        ErrorCode.ORDER_REJECTED,
+        ErrorCode.ORDER_TOO_SMALL,
         `Size must be at least 5 shares (got ${params.size})`
       );
     }
@@ -1171,13 +1288,15 @@ export class OrderManager extends EventEmitter {
     const orderValue = params.price * params.size;
     if (orderValue < 1) {
       throw new PolymarketError(
-        ErrorCode.ORDER_REJECTED,
+        ErrorCode.ORDER_TOO_SMALL,
         `Order value must be at least $1 (got $${orderValue.toFixed(2)})`
       );
     }
 
-    // Note: Balance and market state checks would require additional service dependencies
-    // For now, we rely on TradingService validation
+    // 4. Balance validation (BUY: USDC for price * size, SELL: shares)
+    if (this.config.validateBalance) {
+      await this.validateBalance(params.tokenId, params.side, params.side === 'BUY' ? orderValue : params.size);
+    }
   }
 
   /**
@@ -1185,10 +1304,12 @@ export class OrderManager extends EventEmitter {
    * Market orders have simpler validation than limit orders
    */
   private async validateMarketOrder(params: MarketOrderParams): Promise<void> {
+    this.assertMarketOpen(this.findMarketMetadata(params.tokenId));
+
     // 1. Minimum value validation (Polymarket: $1)
     if (params.amount < 1) {
       throw new PolymarketError(
-        ErrorCode.ORDER_REJECTED,
+        ErrorCode.ORDER_TOO_SMALL,
         `Order amount must be at least $1 (got $${params.amount.toFixed(2)})`
       );
     }
@@ -1201,25 +1322,105 @@ export class OrderManager extends EventEmitter {
       );
     }
 
+    // 3. Balance validation (amount is USDC for BUY, shares for SELL)
+    if (this.config.validateBalance) {
+      await this.validateBalance(params.tokenId, params.side, params.amount);
+    }
+
     // Note: Price validation is optional for market orders
     // If price is provided, it's used as a limit price (max for BUY, min for SELL)
   }
 
+  private findMarketMetadata(tokenId: string): MarketMetadata | undefined {
+    for (const metadata of this.marketCache.values()) {
+      if (metadata.tokenIds.includes(tokenId)) return metadata;
+    }
+    return undefined;
+  }
+
+  private assertMarketOpen(metadata: MarketMetadata | undefined): void {
+    if (metadata?.closed) {
+      throw new PolymarketError(ErrorCode.MARKET_CLOSED, `Market is closed: ${metadata.conditionId}`);
+    }
+  }
+
+  private createMarketMetadata(conditionId: string): MarketMetadata {
+    return {
+      conditionId,
+      tokenIds: [],
+      active: true,
+      closed: false,
+      tickSize: '0.01',
+      minOrderSize: '5',
+      cachedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Check the funder's balance via the CLOB balance-allowance endpoint.
+   * The CLOB reports on the account matching the TradingService signature
+   * type, so this checks the proxy wallet / Safe rather than the signer.
+   */
+  private async validateBalance(tokenId: string, side: Side, required: number): Promise<void> {
+    const { balance } = side === 'BUY'
+      ? await this.tradingService.getBalanceAllowance('COLLATERAL')
+      : await this.tradingService.getBalanceAllowance('CONDITIONAL', tokenId);
+    // Balances are in base units (6 decimals for both USDC.e and CTF tokens)
+    const available = Number(balance) / 1e6;
+
+    if (available < required) {
+      const unit = side === 'BUY' ? 'USDC' : 'shares';
+      throw new PolymarketError(
+        ErrorCode.INSUFFICIENT_BALANCE,
+        `Insufficient balance: need ${required.toFixed(2)} ${unit}, have ${available.toFixed(2)}`
+      );
+    }
+  }
+
   // ============================================================================
   // Private - WebSocket Monitoring (Polymarket-specific)
   // ============================================================================
 
+  /**
+   * Start monitoring a watched order based on mode
+   */
+  private startMonitoring(orderId: string): void {
+    if (this.mode === 'websocket' || this.mode === 'hybrid') {
+      // Fire and forget - WebSocket connection is lazy initialized
+      this.ensureWebSocketConnected().catch(err => {
+        this.emit('error', new Error(`Failed to establish WebSocket connection: ${err.message}`));
+      });
+    }
+
+    if (this.mode === 'polling' || this.mode === 'hybrid') {
+      this.startPolling(orderId);
+    }
+  }
+
   /**
    * Ensure WebSocket connection is established
    * Lazy initialization of RealtimeService
    */
   private async ensureWebSocketConnected(): Promise<void> {
-    if (this.realtimeService) return;
+    if (this.realtimeService || this.simulatorSubscription) return;
+
+    // Paper trading: the simulator emits the user channel events itself
+    if (isUserEventSource(this.tradingService)) {
+      this.simulatorSubscription = this.tradingService.subscribeUserEvents({
+        onOrder: this.handleUserOrder.bind(this),
+        onTrade: this.handleUserTrade.bind(this),
+      });
+      return;
+    }
 
     // Import and initialize RealtimeServiceV2
     // (We use dynamic import to avoid circular dependencies)
     const { RealtimeServiceV2 } = await import('./realtime-service-v2.js');
-    this.realtimeService = new RealtimeServiceV2({ autoReconnect: true });
+    this.realtimeService = new RealtimeServiceV2({
+      autoReconnect: true,
+      telemetry: this.telemetry,
+      endpoints: this.endpoints,
+    });
 
     // Connect to WebSocket and wait for connection to be established
     // connect() is async and returns a Promise that resolves when connected
@@ -1287,6 +1488,8 @@ export class OrderManager extends EventEmitter {
     if (newStatus !== watched.lastStatus) {
       this.emitStatusChange(watched, newStatus, 'websocket');
     }
+
+    this.persistOrder(watched);
   }
 
   /**
@@ -1405,11 +1608,7 @@ export class OrderManager extends EventEmitter {
       isCompleteFill,
     };
 
-    if (isCompleteFill) {
-      this.emit('order_filled', fillEvent);
-    } else {
-      this.emit('order_partially_filled', fillEvent);
-    }
+    this.emitFill(watched, fillEvent);
 
     // If trade has transaction hash, emit transaction event
     if (userTrade.transactionHash) {
@@ -1506,11 +1705,7 @@ export class OrderManager extends EventEmitter {
           isCompleteFill,
         };
 
-        if (isCompleteFill) {
-          this.emit('order_filled', fillEvent);
-        } else {
-          this.emit('order_partially_filled', fillEvent);
-        }
+        this.emitFill(watched, fillEvent);
       }
     }
 
@@ -1522,6 +1717,8 @@ export class OrderManager extends EventEmitter {
     if (newStatus !== oldStatus) {
       this.emitStatusChange(watched, newStatus, 'polling', newFilledSize > oldFilledSize);
     }
+
+    this.persistOrder(watched);
   }
 
   // ============================================================================
@@ -1535,7 +1732,7 @@ export class OrderManager extends EventEmitter {
   private emitStatusChange(
     watched: WatchedOrder,
     newStatus: OrderStatus,
-    source: 'websocket' | 'polling',
+    source: 'websocket' | 'polling' | 'recovery',
     fillAlreadyEmitted = false
   ): void {
     const oldStatus = watched.lastStatus;
@@ -1553,6 +1750,9 @@ export class OrderManager extends EventEmitter {
     watched.lastStatus = newStatus;
     watched.order.status = newStatus;
     watched.order.updatedAt = Date.now();
+    this.persistOrder(watched);
+
+    this.recordOrderEvent(newStatus, `${watched.orderId} ${oldStatus} → ${newStatus} (${source})`);
 
     // Emit generic status_change event
     const changeEvent: OrderStatusChangeEvent = {
@@ -1570,7 +1770,7 @@ export class OrderManager extends EventEmitter {
       this.emit('order_opened', watched.order);
     } else if (newStatus === OrderStatus.FILLED && !fillAlreadyEmitted) {
       // Only emit fill event if not already emitted (from polling fill detection)
-      this.emit('order_filled', {
+      this.emitFill(watched, {
         orderId: watched.orderId,
         order: watched.order,
         fill: {
@@ -1612,6 +1812,230 @@ export class OrderManager extends EventEmitter {
     }
   }
 
+  /**
+   * Record a fill on the watched order and emit order_filled / order_partially_filled
+   */
+  private emitFill(watched: WatchedOrder, fillEvent: FillEvent): void {
+    watched.fills.push({
+      tradeId: fillEvent.fill.tradeId,
+      size: fillEvent.fill.size,
+      price: fillEvent.fill.price,
+      timestamp: fillEvent.fill.timestamp,
+    });
+    this.persistOrder(watched);
+    this.telemetry.incrementCounter(TELEMETRY_METRICS.FILLS, 1, { complete: fillEvent.isCompleteFill });
+
+    if (fillEvent.isCompleteFill) {
+      this.emit('order_filled', fillEvent);
+    } else {
+      this.emit('order_partially_filled', fillEvent);
+    }
+  }
+
+  /**
+   * Emit order_rejected for a failed validation or submission and return the failed result
+   */
+  private rejectOrder(params: LimitOrderParams | MarketOrderParams, result: OrderResult): OrderResult {
+    // Custom TradingClients may not classify their errors
+    const { errorMsg, errorCode, errorDetails } = result.errorCode && result.errorMsg
+      ? { errorMsg: result.errorMsg, errorCode: result.errorCode, errorDetails: result.errorDetails ?? {} }
+      : orderRejection(result.errorMsg ?? 'Order rejected');
+
+    const rejectEvent: RejectEvent = {
+      params,
+      reason: errorMsg,
+      code: errorCode,
+      details: errorDetails,
+      timestamp: Date.now(),
+    };
+    this.recordOrderEvent('rejected', `${errorCode}: ${errorMsg}`);
+    this.emit('order_rejected', rejectEvent);
+
+    return { ...result, success: false, errorMsg, errorCode, errorDetails };
+  }
+
+  /**
+   * Count an order lifecycle event (created, rejected, or the new status)
+   */
+  private recordOrderEvent(event: string, detail: string): void {
+    this.telemetry.incrementCounter(TELEMETRY_METRICS.ORDERS, 1, { event });
+    this.telemetry.log(event === 'rejected' ? 'warn' : 'info', `Order ${event}: ${detail}`, { service: 'OrderManager' });
+  }
+
+  // ============================================================================
+  // Private - Journal & Crash Recovery
+  // ============================================================================
+
+  /**
+   * Write the watched order's current state to the journal (fire and forget).
+   * Orders that are no longer watched are skipped, so a late write can't
+   * resurrect an order removed on reaching a terminal state.
+   */
+  private persistOrder(watched: WatchedOrder): void {
+    if (!this.watchedOrders.has(watched.orderId)) return;
+
+    const entry: JournaledOrder = {
+      orderId: watched.orderId,
+      order: watched.order,
+      metadata: watched.metadata,
+      lastStatus: watched.lastStatus,
+      initialTokenId: watched.initialTokenId,
+      fills: watched.fills,
+      savedAt: Date.now(),
+    };
+
+    this.journal.save(entry).catch(err => {
+      this.emit('error', new Error(`Failed to write ${watched.orderId} to order journal: ${err.message}`));
+    });
+  }
+
+  /**
+   * Rehydrate watched orders from the journal and reconcile them against the CLOB
+   *
+   * Open orders come from getOpenOrders(); orders that left the book while we
+   * were down (filled, cancelled, expired) are fetched individually. Missed
+   * fills are matched to getTrades() via the order's associated trade IDs.
+   */
+  private async recoverFromJournal(): Promise<void> {
+    const entries = await this.journal.load();
+    if (entries.length === 0) return;
+
+    for (const entry of entries) {
+      this.watchedOrders.set(entry.orderId, {
+        orderId: entry.orderId,
+        order: entry.order,
+        metadata: entry.metadata as OrderMetadata | undefined,
+        lastStatus: entry.lastStatus,
+        initialTokenId: entry.initialTokenId,
+        fills: entry.fills || [],
+      });
+    }
+
+    const [openOrders, trades] = await Promise.all([
+      this.tradingService.getOpenOrders(),
+      this.tradingService.getTrades(),
+    ]);
+    const openById = new Map(openOrders.map((o) => [o.id, o]));
+    const tradesById = new Map(trades.map((t) => [t.id, t]));
+
+    let fills = 0;
+    let transitions = 0;
+
+    for (const entry of entries) {
+      const watched = this.watchedOrders.get(entry.orderId);
+      if (!watched) continue;
+
+      let fresh = openById.get(entry.orderId) ?? null;
+      if (!fresh) {
+        // Lookup failures are left to live monitoring, which keeps retrying
+        fresh = await this.tradingService.getOrder(entry.orderId).catch(() => null);
+      }
+      if (!fresh) continue;
+
+      const result = this.reconcileOrder(watched, fresh, tradesById);
+      fills += result.fills;
+      transitions += result.transitions;
+    }
+
+    const resumedOrderIds = Array.from(this.watchedOrders.keys());
+    for (const orderId of resumedOrderIds) {
+      this.startMonitoring(orderId);
+    }
+
+    const recoveryEvent: RecoveryEvent = {
+      orderIds: entries.map((e) => e.orderId),
+      resumedOrderIds,
+      fills,
+      transitions,
+      timestamp: Date.now(),
+    };
+    this.emit('orders_recovered', recoveryEvent);
+  }
+
+  /**
+   * Bring a rehydrated order up to date with its CLOB state,
+   * emitting the fills and status transition missed while down
+   */
+  private reconcileOrder(
+    watched: WatchedOrder,
+    fresh: Order,
+    tradesById: Map<string, TradeInfo>
+  ): { fills: number; transitions: number } {
+    const emittedTradeIds = new Set(watched.fills.map((f) => f.tradeId));
+    const alreadyFilled = Math.max(
+      watched.order.filledSize,
+      watched.fills.reduce((sum, f) => sum + f.size, 0)
+    );
+    let missing = fresh.filledSize - alreadyFilled;
+    let cumulative = alreadyFilled;
+    let fills = 0;
+
+    // Bug 24 fix: keep the tokenId set at order creation
+    const order: Order = { ...fresh, tokenId: watched.initialTokenId || fresh.tokenId };
+    watched.order = order;
+
+    const emitRecoveredFill = (fill: FillEvent['fill']) => {
+      cumulative += fill.size;
+      missing -= fill.size;
+      const remainingSize = order.originalSize - cumulative;
+      this.emitFill(watched, {
+        orderId: watched.orderId,
+        order,
+        fill,
+        cumulativeFilled: cumulative,
+        remainingSize,
+        // Same unit caveat as polling: market orders may have negative remainingSize
+        isCompleteFill: (fresh.status === OrderStatus.FILLED && missing <= FILL_EPSILON) || remainingSize <= 0,
+      });
+      fills++;
+    };
+
+    for (const tradeId of fresh.associateTrades) {
+      if (missing <= FILL_EPSILON) break;
+      if (emittedTradeIds.has(tradeId)) continue;
+
+      const trade = tradesById.get(tradeId);
+      if (!trade) continue;
+
+      // Bug 16: as maker, our fill is the maker entry's matchedAmount, not the trade size
+      const maker = trade.makerOrders?.find((m) => m.orderId === watched.orderId);
+      const size = Math.min(maker ? maker.matchedAmount : trade.size, missing);
+      if (size <= 0) continue;
+
+      emittedTradeIds.add(tradeId);
+      emitRecoveredFill({
+        tradeId,
+        size,
+        price: maker?.price ?? trade.price,
+        fee: trade.fee,
+        timestamp: trade.timestamp,
+        transactionHash: trade.transactionHash,
+      });
+    }
+
+    // Trades missing from history: report the remainder as one fill at the order price (as polling does)
+    if (missing > FILL_EPSILON) {
+      const unmatchedTradeId = fresh.associateTrades.find((id) => !emittedTradeIds.has(id));
+      emitRecoveredFill({
+        tradeId: unmatchedTradeId || `recovery_${watched.orderId}_${fresh.filledSize}`,
+        size: missing,
+        price: order.price,
+        fee: 0,
+        timestamp: Date.now(),
+      });
+    }
+
+    let transitions = 0;
+    if (fresh.status !== watched.lastStatus && isValidStatusTransition(watched.lastStatus, fresh.status)) {
+      // Fills were emitted above, so never let the status change synthesize another
+      this.emitStatusChange(watched, fresh.status, 'recovery', true);
+      transitions++;
+    }
+
+    this.persistOrder(watched);
+    return { fills, transitions };
+  }
+
   // ============================================================================
   // Private - Chain Settlement Tracking (Polymarket-specific)
   // ============================================================================
@@ -1666,3 +2090,14 @@ export class OrderManager extends EventEmitter {
     }
   }
 }
+
+/**
+ * Failed OrderResult for a pre-submit check; PolymarketError codes win over the classifier
+ */
+function validationFailure(error: unknown): OrderResult {
+  const result: OrderResult = orderRejection(error instanceof Error ? error.message : String(error));
+  if (error instanceof PolymarketError && error.code !== ErrorCode.ORDER_REJECTED) {
+    result.errorCode = error.code;
+  }
+  return result;
+}
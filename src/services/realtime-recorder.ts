@@ -0,0 +1,193 @@
+/**
+ * Realtime Recorder
+ *
+ * Writes every raw RealTimeDataClient message received by a RealtimeServiceV2
+ * (book, price_change, last_trade_price, tick_size_change, crypto prices, ...)
+ * to rotating NDJSON files, one `RawRealtimeMessage` per line:
+ *
+ * ```
+ * {"channel":"market","receivedAt":1769846473135,"message":{"topic":"clob_market","type":"book",...}}
+ * ```
+ *
+ * Files are named `<prefix>-<UTC start time>-<sequence>.ndjson`, so sorting
+ * the names gives recording order. Feed them back with ReplayRealtimeService.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new RealtimeRecorder({ directory: './recordings' });
+ * recorder.attach(sdk.realtime);
+ * sdk.realtime.subscribeMarkets([yesTokenId, noTokenId]);
+ * sdk.realtime.subscribeCryptoChainlinkPrices(['btc/usd']);
+ *
+ * // ... later
+ * await recorder.close();
+ * console.log(recorder.getFiles());
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import { createWriteStream, mkdirSync, type WriteStream } from 'fs';
+import { join } from 'path';
+import type { RealtimeServiceV2, RealtimeChannel, RawRealtimeMessage } from './realtime-service-v2.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RealtimeRecorderConfig {
+  /** Directory for the NDJSON files (created if missing) */
+  directory: string;
+  /** File name prefix (default: 'realtime') */
+  filePrefix?: string;
+  /** Start a new file after this long (default: 1 hour) */
+  rotateIntervalMs?: number;
+  /** Start a new file once the current one reaches this size (default: 100 MB) */
+  maxFileBytes?: number;
+  /**
+   * Channels to record (default: market + crypto).
+   * The user channel carries your own orders and trades; opt in explicitly.
+   */
+  channels?: RealtimeChannel[];
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+export interface RecorderStats {
+  messages: number;
+  bytes: number;
+  files: number;
+}
+
+// ============================================================================
+// RealtimeRecorder Implementation
+// ============================================================================
+
+export class RealtimeRecorder extends EventEmitter {
+  private config: Required<RealtimeRecorderConfig>;
+  private stream: WriteStream | null = null;
+  private fileOpenedAt = 0;
+  private fileBytes = 0;
+  private sequence = 0;
+  private files: string[] = [];
+  private stats: RecorderStats = { messages: 0, bytes: 0, files: 0 };
+  private source: RealtimeServiceV2 | null = null;
+  private readonly onRawMessage = (raw: RawRealtimeMessage) => this.record(raw);
+
+  constructor(config: RealtimeRecorderConfig) {
+    super();
+    this.config = {
+      filePrefix: 'realtime',
+      rotateIntervalMs: 60 * 60 * 1000,
+      maxFileBytes: 100 * 1024 * 1024,
+      channels: ['market', 'crypto'],
+      debug: false,
+      ...config,
+    };
+  }
+
+  /**
+   * Start recording the raw messages of a RealtimeServiceV2
+   */
+  attach(realtime: RealtimeServiceV2): void {
+    this.detach();
+    this.source = realtime;
+    realtime.on('rawMessage', this.onRawMessage);
+    this.log('Attached to RealtimeServiceV2');
+  }
+
+  /**
+   * Stop recording (the current file stays open until close())
+   */
+  detach(): void {
+    if (this.source) {
+      this.source.off('rawMessage', this.onRawMessage);
+      this.source = null;
+    }
+  }
+
+  /**
+   * Append one message. Called for every `rawMessage` of the attached service;
+   * can also be used directly to record from another source.
+   */
+  record(raw: RawRealtimeMessage): void {
+    if (!this.config.channels.includes(raw.channel)) return;
+
+    const line = JSON.stringify(raw) + '\n';
+    const bytes = Buffer.byteLength(line);
+
+    if (this.shouldRotate(raw.receivedAt, bytes)) {
+      this.rotate(raw.receivedAt);
+    }
+
+    this.stream!.write(line);
+    this.fileBytes += bytes;
+    this.stats.messages++;
+    this.stats.bytes += bytes;
+  }
+
+  /**
+   * Detach and flush the current file to disk
+   */
+  async close(): Promise<void> {
+    this.detach();
+    await this.closeStream();
+  }
+
+  /**
+   * Files written so far, in recording order
+   */
+  getFiles(): string[] {
+    return [...this.files];
+  }
+
+  getStats(): RecorderStats {
+    return { ...this.stats };
+  }
+
+  // ============================================================================
+  // Private
+  // ============================================================================
+
+  private shouldRotate(now: number, nextBytes: number): boolean {
+    if (!this.stream) return true;
+    if (now - this.fileOpenedAt >= this.config.rotateIntervalMs) return true;
+    // Never rotate an empty file, even for a line larger than the limit
+    return this.fileBytes > 0 && this.fileBytes + nextBytes > this.config.maxFileBytes;
+  }
+
+  private rotate(now: number): void {
+    const previous = this.stream;
+    if (previous) {
+      previous.end();
+    }
+
+    mkdirSync(this.config.directory, { recursive: true });
+    const stamp = new Date(now).toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+    const sequence = String(++this.sequence).padStart(4, '0');
+    const filePath = join(this.config.directory, `${this.config.filePrefix}-${stamp}-${sequence}.ndjson`);
+
+    const stream = createWriteStream(filePath, { flags: 'a' });
+    stream.on('error', (error) => this.emit('error', error));
+    this.stream = stream;
+    this.fileOpenedAt = now;
+    this.fileBytes = 0;
+    this.files.push(filePath);
+    this.stats.files++;
+
+    this.log(`Recording to ${filePath}`);
+    this.emit('fileRotated', { filePath, previous: this.files[this.files.length - 2] });
+  }
+
+  private closeStream(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    if (!stream) return Promise.resolve();
+    return new Promise((resolve) => stream.end(resolve));
+  }
+
+  private log(message: string): void {
+    if (this.config.debug) {
+      console.log(`[RealtimeRecorder] ${message}`);
+    }
+  }
+}
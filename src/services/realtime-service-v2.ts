@@ -22,7 +22,10 @@ import {
   ConnectionStatus,
   WS_ENDPOINTS,
 } from '../realtime/index.js';
-import type { PriceUpdate, BookUpdate, Orderbook, OrderbookLevel } from '../core/types.js';
+import type { PriceUpdate, BookUpdate, Orderbook, OrderbookLevel, Side, PolymarketEndpoints, UnifiedEvent } from '../core/types.js';
+import { LocalOrderbook, type PriceLevelDelta } from './local-orderbook.js';
+import { calculateOverround, type MarketService } from './market-service.js';
+import { TELEMETRY_METRICS, noopTelemetry, type Telemetry } from '../core/telemetry.js';
 
 // ============================================================================
 // Types
@@ -35,6 +38,16 @@ export interface RealtimeServiceConfig {
   pingInterval?: number;
   /** Enable debug logging (default: false) */
   debug?: boolean;
+  /**
+   * Maintain a local L2 book per token by applying price_change deltas
+   * on top of book snapshots (default: true).
+   * When disabled, getBook() only refreshes on full `book` events.
+   */
+  localOrderbooks?: boolean;
+  /** Endpoint overrides (uses `ws.market`, `ws.user`, `ws.liveData`) */
+  endpoints?: PolymarketEndpoints;
+  /** Receives message and reconnect counters and debug logs */
+  telemetry?: Telemetry;
 }
 
 // Market data types
@@ -69,12 +82,36 @@ export interface LastTradeInfo {
 
 export interface PriceChange {
   assetId: string;
-  changes: Array<{ price: string; size: string }>;
+  changes: Array<{ price: string; size: string; side?: Side }>;
   timestamp: number;
+  /** Market condition ID */
+  market?: string;
+  /** Server orderbook hash after this change */
+  hash?: string;
+  /** Server best bid after this change */
+  bestBid?: number;
+  /** Server best ask after this change */
+  bestAsk?: number;
+}
+
+/**
+ * Consolidated orderbook update, emitted as `bookUpdated` whenever the
+ * local book for a token changes.
+ *
+ * - snapshot: full `book` event from the WebSocket
+ * - delta: price_change applied to the local book
+ * - resync: book re-fetched via MarketService after drift was detected
+ */
+export interface BookUpdatedEvent {
+  tokenId: string;
+  book: OrderbookSnapshot;
+  source: 'snapshot' | 'delta' | 'resync';
 }
 
 export interface TickSizeChange {
   assetId: string;
+  /** Condition ID of the market */
+  market: string;
   oldTickSize: string;
   newTickSize: string;
   timestamp: number;
@@ -192,6 +229,20 @@ export interface RFQQuote {
   timestamp: number;
 }
 
+/** WebSocket connection a message arrived on */
+export type RealtimeChannel = 'market' | 'user' | 'crypto';
+
+/**
+ * A message exactly as delivered by RealTimeDataClient, before parsing.
+ * Emitted as `rawMessage`; this is what RealtimeRecorder persists.
+ */
+export interface RawRealtimeMessage {
+  channel: RealtimeChannel;
+  /** Local receive time (Unix ms) */
+  receivedAt: number;
+  message: Message;
+}
+
 // Subscription types
 export interface Subscription {
   id: string;
@@ -204,10 +255,28 @@ export interface MarketSubscription extends Subscription {
   tokenIds: string[];
 }
 
+/**
+ * Top-of-book change on one child market of a subscribed event
+ */
+export interface EventBookUpdate {
+  eventId: string;
+  conditionId: string;
+  tokenId: string;
+  /** Index of the token within the market's outcomes (0 = Yes/primary) */
+  outcomeIndex: number;
+  bestBid: number | null;
+  bestAsk: number | null;
+  midpoint: number;
+  /** Sum of YES midpoints across the event's open markets, after this update */
+  overround: number;
+  timestamp: number;
+}
+
 // Event handler types
 export interface MarketDataHandlers {
   onOrderbook?: (book: OrderbookSnapshot) => void;
   onPriceChange?: (change: PriceChange) => void;
+  onBookUpdated?: (event: BookUpdatedEvent) => void;
   onLastTrade?: (trade: LastTradeInfo) => void;
   onTickSizeChange?: (change: TickSizeChange) => void;
   onBestBidAsk?: (bestBidAsk: BestBidAsk) => void;
@@ -242,6 +311,7 @@ export class RealtimeServiceV2 extends EventEmitter {
   /** Separate client for crypto prices (uses LIVE_DATA endpoint) */
   private cryptoClient: RealTimeDataClient | null = null;
   private config: RealtimeServiceConfig;
+  private telemetry: Telemetry;
   private subscriptions: Map<string, Subscription> = new Map();
   private subscriptionIdCounter = 0;
   private connected = false;
@@ -259,6 +329,8 @@ export class RealtimeServiceV2 extends EventEmitter {
   // Connection generation counter: incremented on each new connection.
   // Used to avoid sending unsubscribe for stale subscriptions after reconnection.
   private connectionGeneration = 0;
+  // Same count for the user and crypto clients, only used to report reconnects
+  private channelConnects: Record<'user' | 'crypto', number> = { user: 0, crypto: 0 };
   // Tracks which generation each subscription was last (re-)subscribed on
   private subscriptionGenerations: Map<string, number> = new Map();
 
@@ -279,13 +351,22 @@ export class RealtimeServiceV2 extends EventEmitter {
   private bookCache: Map<string, OrderbookSnapshot> = new Map();
   private lastTradeCache: Map<string, LastTradeInfo> = new Map();
 
-  constructor(config: RealtimeServiceConfig = {}) {
+  // Local L2 books (snapshot + price_change deltas)
+  private localBooks: Map<string, LocalOrderbook> = new Map();
+  // Deltas received while a token is being resynced, replayed afterwards
+  private pendingDeltas: Map<string, PriceChange[]> = new Map();
+  private resyncInFlight: Set<string> = new Set();
+
+  constructor(config: RealtimeServiceConfig = {}, private marketService?: MarketService) {
     super();
     this.config = {
       autoReconnect: config.autoReconnect ?? true,
       pingInterval: config.pingInterval ?? 5000,
       debug: config.debug ?? false,
+      localOrderbooks: config.localOrderbooks ?? true,
+      endpoints: config.endpoints,
     };
+    this.telemetry = config.telemetry ?? noopTelemetry;
   }
 
   // ============================================================================
@@ -318,8 +399,9 @@ export class RealtimeServiceV2 extends EventEmitter {
 
     // Main client for MARKET/USER channels
     this.client = new RealTimeDataClient({
+      url: this.config.endpoints?.ws?.market || WS_ENDPOINTS.MARKET,
       onConnect: this.handleConnect.bind(this),
-      onMessage: this.handleMessage.bind(this),
+      onMessage: (_client, message) => this.receiveMessage('market', message),
       onStatusChange: this.handleStatusChange.bind(this),
       autoReconnect: this.config.autoReconnect,
       pingInterval: this.config.pingInterval,
@@ -328,12 +410,12 @@ export class RealtimeServiceV2 extends EventEmitter {
 
     // User client for USER channel (clob_user events)
     this.userClient = new RealTimeDataClient({
-      url: WS_ENDPOINTS.USER,
+      url: this.config.endpoints?.ws?.user || WS_ENDPOINTS.USER,
       onConnect: (client) => {
         this.handleUserConnect(client);
         userConnectResolve!();
       },
-      onMessage: this.handleUserChannelMessage.bind(this),
+      onMessage: (_client, message) => this.receiveMessage('user', message),
       onStatusChange: (status: ConnectionStatus) => {
         this.log(`User client status: ${status}`);
         this.userConnected = status === ConnectionStatus.CONNECTED;
@@ -345,12 +427,12 @@ export class RealtimeServiceV2 extends EventEmitter {
 
     // Crypto client for LIVE_DATA channel (crypto_prices)
     this.cryptoClient = new RealTimeDataClient({
-      url: WS_ENDPOINTS.LIVE_DATA,
+      url: this.config.endpoints?.ws?.liveData || WS_ENDPOINTS.LIVE_DATA,
       onConnect: (client) => {
         this.handleCryptoConnect(client);
         cryptoConnectResolve!();
       },
-      onMessage: this.handleCryptoMessage.bind(this),
+      onMessage: (_client, message) => this.receiveMessage('crypto', message),
       onStatusChange: (status: ConnectionStatus) => {
         this.log(`Crypto client status: ${status}`);
         this.cryptoConnected = status === ConnectionStatus.CONNECTED;
@@ -421,6 +503,7 @@ export class RealtimeServiceV2 extends EventEmitter {
     this.subscriptionGenerations.clear();
     this.accumulatedMarketTokenIds.clear();
     this.userCredentials = null;
+    this.invalidateLocalBooks();
   }
 
   private cancelMarketSubscriptionBatch(): void {
@@ -494,11 +577,18 @@ export class RealtimeServiceV2 extends EventEmitter {
       }
     };
 
+    const bookUpdatedHandler = (event: BookUpdatedEvent) => {
+      if (tokenIds.includes(event.tokenId)) {
+        handlers.onBookUpdated?.(event);
+      }
+    };
+
     this.on('orderbook', orderbookHandler);
     this.on('priceChange', priceChangeHandler);
     this.on('lastTrade', lastTradeHandler);
     this.on('tickSizeChange', tickSizeHandler);
     this.on('bestBidAsk', bestBidAskHandler);
+    this.on('bookUpdated', bookUpdatedHandler);
 
     const subscription: MarketSubscription = {
       id: subId,
@@ -511,6 +601,7 @@ export class RealtimeServiceV2 extends EventEmitter {
         this.off('lastTrade', lastTradeHandler);
         this.off('tickSizeChange', tickSizeHandler);
         this.off('bestBidAsk', bestBidAskHandler);
+        this.off('bookUpdated', bookUpdatedHandler);
 
         // Remove these token IDs from accumulated set
         for (const tokenId of tokenIds) {
@@ -664,11 +755,77 @@ export class RealtimeServiceV2 extends EventEmitter {
         }
       },
       onPriceChange: handlers.onPriceChange,
+      onBookUpdated: handlers.onBookUpdated,
       onTickSizeChange: handlers.onTickSizeChange,
       onError: handlers.onError,
     });
   }
 
+  /**
+   * Subscribe to the books of every open market in an event
+   *
+   * Starts from the top of book in `event` (see MarketService.getEvent) and
+   * reports each change along with the recomputed overround.
+   *
+   * @example
+   * ```typescript
+   * const event = await sdk.markets.getEvent('presidential-election-winner-2028');
+   * realtime.subscribeEvent(event, {
+   *   onEventUpdate: (u) => console.log(`${u.conditionId}: ${u.midpoint} (overround ${u.overround.toFixed(3)})`),
+   * });
+   * ```
+   */
+  subscribeEvent(
+    event: UnifiedEvent,
+    handlers: MarketDataHandlers & { onEventUpdate?: (update: EventBookUpdate) => void } = {}
+  ): MarketSubscription {
+    const tokens = new Map<string, { market: UnifiedEvent['markets'][number]; outcomeIndex: number }>();
+    for (const market of event.markets) {
+      if (market.closed) continue;
+      market.tokens.forEach((token, outcomeIndex) => {
+        if (token.tokenId) tokens.set(token.tokenId, { market, outcomeIndex });
+      });
+    }
+
+    // Working copy of each open market's implied probability, for the overround
+    const probabilities = new Map(
+      event.markets.filter((m) => !m.closed).map((m) => [m.conditionId, m.impliedProbability])
+    );
+
+    return this.subscribeMarkets([...tokens.keys()], {
+      ...handlers,
+      onBookUpdated: (update) => {
+        handlers.onBookUpdated?.(update);
+
+        const entry = tokens.get(update.tokenId);
+        if (!entry) return;
+        const bestBid = update.book.bids[0]?.price ?? null;
+        const bestAsk = update.book.asks[0]?.price ?? null;
+        const midpoint =
+          bestBid !== null && bestAsk !== null
+            ? (bestBid + bestAsk) / 2
+            : entry.market.tokens[entry.outcomeIndex].midpoint;
+        if (entry.outcomeIndex === 0) {
+          probabilities.set(entry.market.conditionId, midpoint);
+        }
+
+        handlers.onEventUpdate?.({
+          eventId: event.id,
+          conditionId: entry.market.conditionId,
+          tokenId: update.tokenId,
+          outcomeIndex: entry.outcomeIndex,
+          bestBid,
+          bestAsk,
+          midpoint,
+          overround: calculateOverround(
+            [...probabilities.values()].map((impliedProbability) => ({ closed: false, impliedProbability }))
+          ),
+          timestamp: update.book.timestamp,
+        });
+      },
+    });
+  }
+
   /**
    * Subscribe to market lifecycle events (creation, resolution)
    */
@@ -994,11 +1151,30 @@ export class RealtimeServiceV2 extends EventEmitter {
 
   /**
    * Get cached orderbook for an asset
+   *
+   * With localOrderbooks enabled (default), this reflects every
+   * price_change applied since the last snapshot.
    */
   getBook(assetId: string): OrderbookSnapshot | undefined {
     return this.bookCache.get(assetId);
   }
 
+  /**
+   * Check whether the local book for an asset is in sync with the server.
+   * Returns false while a resync is pending or before the first snapshot.
+   */
+  isBookSynced(assetId: string): boolean {
+    return this.localBooks.get(assetId)?.isSynced() ?? false;
+  }
+
+  /**
+   * Force a resync of the local book from the CLOB REST API.
+   * Requires a MarketService to have been passed to the constructor.
+   */
+  async resyncBook(assetId: string): Promise<void> {
+    await this.resyncLocalBook(assetId);
+  }
+
   /**
    * Get cached last trade for an asset
    */
@@ -1093,6 +1269,9 @@ export class RealtimeServiceV2 extends EventEmitter {
     this.connected = true;
     this.connectionGeneration++;
     this.log(`Connected to WebSocket server (generation ${this.connectionGeneration})`);
+    if (this.connectionGeneration > 1) {
+      this.telemetry.incrementCounter(TELEMETRY_METRICS.WS_RECONNECTS, 1, { channel: 'market' });
+    }
 
     // Resolve the connect() promise if waiting
     if (this.connectResolve) {
@@ -1126,6 +1305,9 @@ export class RealtimeServiceV2 extends EventEmitter {
       this.connected = false;
       this.cancelSubscriptionRefresh();
       this.cancelMarketSubscriptionBatch();
+      // Deltas may be missed while disconnected; the server re-sends
+      // book snapshots on resubscribe, which re-seed the local books.
+      this.invalidateLocalBooks();
       this.emit('disconnected');
     } else if (status === ConnectionStatus.CONNECTED) {
       this.connected = true;
@@ -1137,6 +1319,7 @@ export class RealtimeServiceV2 extends EventEmitter {
   private handleUserConnect(_client: RealTimeDataClientInterface): void {
     this.userConnected = true;
     this.log('Connected to user channel WebSocket');
+    this.countChannelConnect('user');
 
     // Re-subscribe with stored credentials if available
     if (this.userCredentials) {
@@ -1151,7 +1334,38 @@ export class RealtimeServiceV2 extends EventEmitter {
     this.emit('userConnected');
   }
 
-  private handleUserChannelMessage(_client: RealTimeDataClientInterface, message: Message): void {
+  private receiveMessage(channel: RealtimeChannel, message: Message): void {
+    this.telemetry.incrementCounter(TELEMETRY_METRICS.WS_MESSAGES, 1, {
+      channel,
+      topic: message.topic,
+      type: message.type,
+    });
+    if (this.listenerCount('rawMessage') > 0) {
+      const raw: RawRealtimeMessage = { channel, receivedAt: Date.now(), message };
+      this.emit('rawMessage', raw);
+    }
+    this.dispatchMessage(channel, message);
+  }
+
+  /**
+   * Route a message through the parsing path of its channel.
+   * ReplayRealtimeService feeds recorded messages in here.
+   */
+  protected dispatchMessage(channel: RealtimeChannel, message: Message): void {
+    switch (channel) {
+      case 'market':
+        this.handleMessage(message);
+        break;
+      case 'user':
+        this.handleUserChannelMessage(message);
+        break;
+      case 'crypto':
+        this.handleCryptoMessage(message);
+        break;
+    }
+  }
+
+  private handleUserChannelMessage(message: Message): void {
     this.log(`User channel received: ${message.topic}:${message.type}`);
 
     const payload = message.payload as Record<string, unknown>;
@@ -1166,10 +1380,17 @@ export class RealtimeServiceV2 extends EventEmitter {
   private handleCryptoConnect(_client: RealTimeDataClientInterface): void {
     this.cryptoConnected = true;
     this.log('Connected to crypto prices WebSocket');
+    this.countChannelConnect('crypto');
     this.emit('cryptoConnected');
   }
 
-  private handleCryptoMessage(_client: RealTimeDataClientInterface, message: Message): void {
+  private countChannelConnect(channel: 'user' | 'crypto'): void {
+    if (++this.channelConnects[channel] > 1) {
+      this.telemetry.incrementCounter(TELEMETRY_METRICS.WS_RECONNECTS, 1, { channel });
+    }
+  }
+
+  private handleCryptoMessage(message: Message): void {
     this.log(`Crypto received: ${message.topic}:${message.type}`);
 
     const payload = message.payload as Record<string, unknown>;
@@ -1188,7 +1409,7 @@ export class RealtimeServiceV2 extends EventEmitter {
     }
   }
 
-  private handleMessage(_client: RealTimeDataClientInterface, message: Message): void {
+  private handleMessage(message: Message): void {
     this.log(`Received: ${message.topic}:${message.type}`);
 
     const payload = message.payload as Record<string, unknown>;
@@ -1251,6 +1472,7 @@ export class RealtimeServiceV2 extends EventEmitter {
           if (book.assetId) {
             this.bookCache.set(book.assetId, book);
             this.emit('orderbook', book);
+            this.applyBookSnapshot(book);
           }
         }
         break;
@@ -1262,6 +1484,7 @@ export class RealtimeServiceV2 extends EventEmitter {
           const change = this.parsePriceChange(item as Record<string, unknown>, timestamp);
           if (change.assetId) {
             this.emit('priceChange', change);
+            this.applyPriceChange(change);
           }
         }
         break;
@@ -1493,12 +1716,27 @@ export class RealtimeServiceV2 extends EventEmitter {
     };
   }
 
+  /**
+   * Parse a price_change payload.
+   *
+   * RealTimeDataClient splits each `price_changes` entry into its own
+   * message ({ market, asset_id, price, size, side, best_bid, best_ask, hash }).
+   * The legacy nested `price_changes` array is still accepted.
+   */
   private parsePriceChange(payload: Record<string, unknown>, timestamp: number): PriceChange {
-    const changes = payload.price_changes as Array<{ price: string; size: string }> || [];
+    const changes = Array.isArray(payload.price_changes)
+      ? payload.price_changes as Array<{ price: string; size: string; side?: Side }>
+      : payload.price !== undefined
+        ? [{ price: String(payload.price), size: String(payload.size ?? '0'), side: payload.side as Side | undefined }]
+        : [];
     return {
       assetId: payload.asset_id as string || '',
       changes,
       timestamp,
+      market: payload.market as string | undefined,
+      hash: payload.hash as string | undefined,
+      bestBid: payload.best_bid !== undefined ? Number(payload.best_bid) : undefined,
+      bestAsk: payload.best_ask !== undefined ? Number(payload.best_ask) : undefined,
     };
   }
 
@@ -1517,6 +1755,7 @@ export class RealtimeServiceV2 extends EventEmitter {
   private parseTickSizeChange(payload: Record<string, unknown>, timestamp: number): TickSizeChange {
     return {
       assetId: payload.asset_id as string || '',
+      market: payload.market as string || '',
       oldTickSize: payload.old_tick_size as string || '',
       newTickSize: payload.new_tick_size as string || '',
       timestamp,
@@ -1553,6 +1792,169 @@ export class RealtimeServiceV2 extends EventEmitter {
     };
   }
 
+  // ============================================================================
+  // Local Orderbook Maintenance
+  // ============================================================================
+
+  /**
+   * Seed (or re-seed) the local book from a full snapshot
+   */
+  private applyBookSnapshot(book: OrderbookSnapshot): void {
+    if (!this.config.localOrderbooks) return;
+
+    const local = this.getOrCreateLocalBook(book.assetId);
+    local.applySnapshot(book);
+    this.emitBookUpdated(book.assetId, 'snapshot', book);
+  }
+
+  /**
+   * Apply a price_change to the local book and verify it against the
+   * server's top of book. Triggers a resync on drift.
+   */
+  private applyPriceChange(change: PriceChange): void {
+    if (!this.config.localOrderbooks) return;
+
+    const tokenId = change.assetId;
+    if (this.resyncInFlight.has(tokenId)) {
+      const pending = this.pendingDeltas.get(tokenId) ?? [];
+      pending.push(change);
+      this.pendingDeltas.set(tokenId, pending);
+      return;
+    }
+
+    const local = this.localBooks.get(tokenId);
+    if (!local || !local.isSynced()) {
+      // No baseline to apply the delta to
+      this.log(`Delta for ${tokenId.slice(0, 12)}... without synced book, resyncing`);
+      void this.resyncLocalBook(tokenId, change);
+      return;
+    }
+
+    if (!this.applyDeltaToLocalBook(local, change)) {
+      this.log(`Local book drift detected for ${tokenId.slice(0, 12)}..., resyncing`);
+      local.invalidate();
+      void this.resyncLocalBook(tokenId);
+      return;
+    }
+
+    this.emitBookUpdated(tokenId, 'delta');
+  }
+
+  /**
+   * @returns false if the local top of book no longer matches the server
+   */
+  private applyDeltaToLocalBook(local: LocalOrderbook, change: PriceChange): boolean {
+    for (const entry of change.changes) {
+      if (!entry.side) continue;
+      const delta: PriceLevelDelta = {
+        side: entry.side,
+        price: parseFloat(entry.price),
+        size: parseFloat(entry.size),
+      };
+      if (isNaN(delta.price) || isNaN(delta.size)) continue;
+      local.applyDelta(delta, change.hash, change.timestamp);
+    }
+
+    if (change.bestBid !== undefined && change.bestAsk !== undefined) {
+      return local.matchesTopOfBook({ bestBid: change.bestBid, bestAsk: change.bestAsk });
+    }
+    return true;
+  }
+
+  /**
+   * Re-fetch the book via MarketService.getTokenOrderbook and replay any
+   * deltas that arrived while the request was in flight.
+   */
+  private async resyncLocalBook(tokenId: string, triggeringChange?: PriceChange): Promise<void> {
+    if (this.resyncInFlight.has(tokenId)) return;
+
+    if (!this.marketService) {
+      // Without REST access we wait for the next `book` snapshot
+      this.getOrCreateLocalBook(tokenId).invalidate();
+      this.emit('bookDesync', { tokenId, timestamp: Date.now() });
+      return;
+    }
+
+    this.resyncInFlight.add(tokenId);
+    this.pendingDeltas.set(tokenId, triggeringChange ? [triggeringChange] : []);
+
+    try {
+      const book = await this.marketService.getTokenOrderbook(tokenId);
+      const local = this.getOrCreateLocalBook(tokenId);
+      local.applySnapshot(book);
+
+      // Replay deltas the snapshot does not contain. The delta carrying the
+      // snapshot's hash produced that book, so only later ones are replayed;
+      // without a match, fall back to the timestamps.
+      const pending = this.pendingDeltas.get(tokenId) ?? [];
+      const covered = book.hash ? pending.findIndex((change) => change.hash === book.hash) : -1;
+      const replay = covered >= 0
+        ? pending.slice(covered + 1)
+        : pending.filter((change) => change.timestamp >= book.timestamp);
+      let drifted = false;
+      for (const change of replay) {
+        drifted = !this.applyDeltaToLocalBook(local, change) || drifted;
+      }
+
+      if (drifted) {
+        // A replayed delta disagrees with the server: the next snapshot or
+        // delta will re-trigger a resync
+        local.invalidate();
+        this.emit('bookDesync', { tokenId, timestamp: Date.now() });
+      } else {
+        this.emitBookUpdated(tokenId, 'resync');
+      }
+    } catch (error) {
+      this.log(`Resync failed for ${tokenId.slice(0, 12)}...: ${error}`);
+      this.getOrCreateLocalBook(tokenId).invalidate();
+      this.emit('bookDesync', { tokenId, timestamp: Date.now() });
+    } finally {
+      this.resyncInFlight.delete(tokenId);
+      this.pendingDeltas.delete(tokenId);
+    }
+  }
+
+  private getOrCreateLocalBook(tokenId: string): LocalOrderbook {
+    let local = this.localBooks.get(tokenId);
+    if (!local) {
+      local = new LocalOrderbook(tokenId);
+      this.localBooks.set(tokenId, local);
+    }
+    return local;
+  }
+
+  private invalidateLocalBooks(): void {
+    for (const local of this.localBooks.values()) {
+      local.invalidate();
+    }
+    this.pendingDeltas.clear();
+  }
+
+  /**
+   * Publish the local book to bookCache and emit `bookUpdated`.
+   * Snapshot events pass the parsed snapshot to keep tickSize/minOrderSize.
+   */
+  private emitBookUpdated(tokenId: string, source: BookUpdatedEvent['source'], snapshot?: OrderbookSnapshot): void {
+    const local = this.localBooks.get(tokenId);
+    if (!local) return;
+
+    const previous = snapshot ?? this.bookCache.get(tokenId);
+    const book: OrderbookSnapshot = {
+      tokenId,
+      assetId: tokenId,
+      market: previous?.market || '',
+      bids: local.getBids(),
+      asks: local.getAsks(),
+      timestamp: local.timestamp,
+      tickSize: previous?.tickSize || '0.01',
+      minOrderSize: previous?.minOrderSize || '1',
+      hash: local.hash,
+    };
+
+    this.bookCache.set(tokenId, book);
+    this.emit('bookUpdated', { tokenId, book, source } satisfies BookUpdatedEvent);
+  }
+
   private sendSubscription(msg: { subscriptions: Array<{ topic: string; type: string; filters?: string; clob_auth?: ClobApiKeyCreds }> }): void {
     if (this.client && this.connected) {
       // Log subscription details (redact credentials)
@@ -1588,7 +1990,8 @@ export class RealtimeServiceV2 extends EventEmitter {
     this.client.unsubscribe(msg);
   }
 
-  private log(message: string): void {
+  protected log(message: string): void {
+    this.telemetry.log('debug', message, { service: 'RealtimeService' });
     if (this.config.debug) {
       console.log(`[RealtimeService] ${message}`);
     }
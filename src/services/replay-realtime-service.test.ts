@@ -0,0 +1,144 @@
+/**
+ * RealtimeRecorder / ReplayRealtimeService Unit Tests
+ *
+ * Focus: raw messages recorded to rotating NDJSON files and replayed through
+ * RealtimeServiceV2's parsing paths (local books, crypto prices).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RealtimeServiceV2, type BookUpdatedEvent, type CryptoPrice } from './realtime-service-v2.js';
+import { RealtimeRecorder } from './realtime-recorder.js';
+import { ReplayRealtimeService } from './replay-realtime-service.js';
+import type { Message } from '../realtime/index.js';
+
+const TOKEN = 'token123';
+const T0 = 1700000000000;
+
+const market = (type: string, payload: Record<string, unknown>, timestamp = T0): Message => ({
+  topic: 'clob_market',
+  type,
+  timestamp,
+  payload,
+});
+
+const MESSAGES: Array<{ channel: 'market' | 'user' | 'crypto'; at: number; message: Message }> = [
+  {
+    channel: 'market',
+    at: T0,
+    message: market('book', {
+      asset_id: TOKEN,
+      market: '0xmarket',
+      hash: 'h0',
+      timestamp: String(T0),
+      bids: [{ price: '0.50', size: '100' }],
+      asks: [{ price: '0.52', size: '150' }],
+    }),
+  },
+  {
+    channel: 'crypto',
+    at: T0 + 10,
+    message: { topic: 'crypto_prices_chainlink', type: 'update', timestamp: T0 + 10, payload: { symbol: 'btc/usd', value: 97000, timestamp: T0 + 10 } },
+  },
+  {
+    channel: 'user',
+    at: T0 + 15,
+    message: { topic: 'clob_user', type: 'order', timestamp: T0 + 15, payload: { id: 'order-1' } },
+  },
+  {
+    channel: 'market',
+    at: T0 + 20,
+    message: market('price_change', { asset_id: TOKEN, price: '0.51', size: '40', side: 'BUY', hash: 'h1' }, T0 + 20),
+  },
+];
+
+describe('RealtimeRecorder + ReplayRealtimeService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'poly-replay-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const record = async (maxFileBytes?: number) => {
+    const live = new RealtimeServiceV2();
+    const recorder = new RealtimeRecorder({ directory: dir, maxFileBytes });
+    recorder.attach(live);
+
+    const realNow = Date.now;
+    for (const { channel, at, message } of MESSAGES) {
+      Date.now = () => at;
+      try {
+        (live as any).receiveMessage(channel, message);
+      } finally {
+        Date.now = realNow;
+      }
+    }
+
+    await recorder.close();
+    return recorder;
+  };
+
+  it('should record raw market and crypto messages with receive timestamps', async () => {
+    const recorder = await record();
+
+    expect(recorder.getFiles()).toHaveLength(1);
+    const lines = readFileSync(recorder.getFiles()[0], 'utf8').trim().split('\n').map((l) => JSON.parse(l));
+    // User channel is not recorded by default
+    expect(lines.map((l) => [l.channel, l.receivedAt, l.message.type])).toEqual([
+      ['market', T0, 'book'],
+      ['crypto', T0 + 10, 'update'],
+      ['market', T0 + 20, 'price_change'],
+    ]);
+    expect(recorder.getStats().messages).toBe(3);
+  });
+
+  it('should rotate files by size', async () => {
+    const recorder = await record(200);
+    expect(recorder.getFiles().length).toBe(3);
+    expect([...recorder.getFiles()].sort()).toEqual(recorder.getFiles());
+  });
+
+  it('should replay a directory through the RealtimeServiceV2 parsing paths', async () => {
+    await record(200);
+    writeFileSync(join(dir, 'realtime-zzz.ndjson'), 'not json\n');
+
+    const replay = new ReplayRealtimeService({ files: dir, speed: Infinity });
+    await replay.connect();
+    expect(replay.isConnected()).toBe(true);
+
+    const updates: BookUpdatedEvent[] = [];
+    const prices: CryptoPrice[] = [];
+    replay.subscribeMarkets([TOKEN], { onBookUpdated: (e) => updates.push(e) });
+    replay.subscribeCryptoChainlinkPrices(['btc/usd'], { onPrice: (p) => prices.push(p) });
+
+    const stats = await replay.replay();
+
+    expect(stats).toEqual({ messages: 3, skipped: 1, startTime: T0, endTime: T0 + 20 });
+    expect(updates.map((u) => u.source)).toEqual(['snapshot', 'delta']);
+    expect(replay.getBook(TOKEN)!.bids).toEqual([
+      { price: 0.51, size: 40 },
+      { price: 0.5, size: 100 },
+    ]);
+    expect(prices.map((p) => p.price)).toEqual([97000]);
+    expect(replay.getClock()).toBe(T0 + 20);
+
+    replay.disconnect();
+  });
+
+  it('should step one message at a time', async () => {
+    await record();
+
+    const replay = new ReplayRealtimeService({ files: dir, channels: ['market'] });
+    expect(await replay.peekTime()).toBe(T0);
+    expect((await replay.step())!.message.type).toBe('book');
+    expect(replay.getBook(TOKEN)!.bids).toEqual([{ price: 0.5, size: 100 }]);
+    expect((await replay.step())!.message.type).toBe('price_change');
+    expect(await replay.step()).toBeNull();
+  });
+});
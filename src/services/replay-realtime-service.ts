@@ -0,0 +1,265 @@
+/**
+ * Replay Realtime Service
+ *
+ * A RealtimeServiceV2 that reads NDJSON files written by RealtimeRecorder
+ * instead of opening WebSockets. Recorded messages go through the same
+ * parsing paths (local orderbooks, derived prices, subscription handlers),
+ * so anything built on RealtimeServiceV2 can run against a recording.
+ *
+ * Pacing uses the recorded receive timestamps:
+ * - `speed: 1` replays in real time, `speed: 10` ten times faster
+ * - `speed: Infinity` replays as fast as possible
+ * - `step()` dispatches one message at a time for callers that drive their
+ *   own simulated clock (backtests)
+ *
+ * @example
+ * ```typescript
+ * const replay = new ReplayRealtimeService({ files: './recordings', speed: 20 });
+ * await replay.connect();
+ *
+ * replay.subscribeMarkets([yesTokenId, noTokenId], {
+ *   onBookUpdated: ({ tokenId, book }) => console.log(tokenId, book.bids[0], book.asks[0]),
+ * });
+ *
+ * const stats = await replay.replay();
+ * console.log(`Replayed ${stats.messages} messages`);
+ * ```
+ */
+
+import { createReadStream, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { RealtimeServiceV2, type RealtimeServiceConfig, type RealtimeChannel, type RawRealtimeMessage } from './realtime-service-v2.js';
+import type { MarketService } from './market-service.js';
+import { PolymarketError, ErrorCode } from '../core/errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReplayRealtimeConfig extends Omit<RealtimeServiceConfig, 'autoReconnect' | 'pingInterval' | 'endpoints'> {
+  /**
+   * NDJSON files to replay, in order. A directory expands to its
+   * `.ndjson` files sorted by name (RealtimeRecorder's naming keeps order).
+   */
+  files: string | string[];
+  /** Playback speed relative to the recording (default: 1, Infinity = no delays) */
+  speed?: number;
+  /** Channels to replay (default: all recorded channels) */
+  channels?: RealtimeChannel[];
+}
+
+export interface ReplayStats {
+  messages: number;
+  /** Lines that could not be parsed */
+  skipped: number;
+  /** receivedAt of the first / last replayed message */
+  startTime: number | null;
+  endTime: number | null;
+}
+
+// ============================================================================
+// ReplayRealtimeService Implementation
+// ============================================================================
+
+export class ReplayRealtimeService extends RealtimeServiceV2 {
+  private replayConfig: ReplayRealtimeConfig;
+  private files: string[];
+  private reader: AsyncGenerator<RawRealtimeMessage> | null = null;
+  /** Message read ahead by peekTime() or held back by stop() */
+  private pending: RawRealtimeMessage | null = null;
+  private replayConnected = false;
+  private running = false;
+  private stopRequested = false;
+  private clock: number | null = null;
+  private stats: ReplayStats = { messages: 0, skipped: 0, startTime: null, endTime: null };
+
+  constructor(config: ReplayRealtimeConfig, marketService?: MarketService) {
+    super({ ...config, autoReconnect: false }, marketService);
+    this.replayConfig = { speed: 1, ...config };
+    this.files = resolveFiles(config.files);
+  }
+
+  // ============================================================================
+  // Connection Management (no sockets)
+  // ============================================================================
+
+  /**
+   * Mark the service connected. Messages start flowing on replay() / step().
+   */
+  async connect(): Promise<void> {
+    if (this.replayConnected) return;
+    this.replayConnected = true;
+    this.emit('connected');
+  }
+
+  disconnect(): void {
+    this.stop();
+    this.replayConnected = false;
+    super.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.replayConnected;
+  }
+
+  // ============================================================================
+  // Playback
+  // ============================================================================
+
+  /**
+   * Replay the remaining messages, paced by `speed`.
+   * Resolves when the recording ends or stop() is called.
+   */
+  async replay(): Promise<ReplayStats> {
+    if (this.running) {
+      throw new PolymarketError(ErrorCode.INTERNAL_ERROR, 'Replay already running');
+    }
+    this.running = true;
+    this.stopRequested = false;
+    const speed = this.replayConfig.speed ?? 1;
+
+    try {
+      let previous: number | null = this.clock;
+      let raw: RawRealtimeMessage | null;
+      while (!this.stopRequested && (raw = await this.nextMessage())) {
+        if (previous !== null && Number.isFinite(speed) && raw.receivedAt > previous) {
+          await sleep((raw.receivedAt - previous) / speed);
+          if (this.stopRequested) {
+            this.pending = raw;
+            break;
+          }
+        }
+        previous = raw.receivedAt;
+        this.dispatch(raw);
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (!this.stopRequested) {
+      this.emit('replayEnd', this.getReplayStats());
+    }
+    return this.getReplayStats();
+  }
+
+  /**
+   * Dispatch the next recorded message immediately.
+   * @returns The message, or null at the end of the recording
+   */
+  async step(): Promise<RawRealtimeMessage | null> {
+    const raw = await this.nextMessage();
+    if (raw) {
+      this.dispatch(raw);
+    }
+    return raw;
+  }
+
+  /**
+   * Peek at the receive time of the next message without dispatching it
+   */
+  async peekTime(): Promise<number | null> {
+    if (!this.pending) {
+      this.pending = await this.readNext();
+    }
+    return this.pending?.receivedAt ?? null;
+  }
+
+  /**
+   * Pause a running replay(); a later replay() or step() continues from here
+   */
+  stop(): void {
+    this.stopRequested = true;
+  }
+
+  /**
+   * Receive time of the last dispatched message (the simulated "now")
+   */
+  getClock(): number | null {
+    return this.clock;
+  }
+
+  getReplayStats(): ReplayStats {
+    return { ...this.stats };
+  }
+
+  getFiles(): string[] {
+    return [...this.files];
+  }
+
+  // ============================================================================
+  // Private
+  // ============================================================================
+
+  private dispatch(raw: RawRealtimeMessage): void {
+    this.clock = raw.receivedAt;
+    this.stats.messages++;
+    this.stats.startTime ??= raw.receivedAt;
+    this.stats.endTime = raw.receivedAt;
+    this.dispatchMessage(raw.channel, raw.message);
+  }
+
+  private async nextMessage(): Promise<RawRealtimeMessage | null> {
+    if (this.pending) {
+      const raw = this.pending;
+      this.pending = null;
+      return raw;
+    }
+    return this.readNext();
+  }
+
+  private async readNext(): Promise<RawRealtimeMessage | null> {
+    this.reader ??= this.readMessages();
+    const result = await this.reader.next();
+    return result.done ? null : result.value;
+  }
+
+  private async *readMessages(): AsyncGenerator<RawRealtimeMessage> {
+    const channels = this.replayConfig.channels;
+
+    for (const file of this.files) {
+      this.log(`Replaying ${file}`);
+      const lines = createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity });
+
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+
+        let raw: RawRealtimeMessage;
+        try {
+          raw = JSON.parse(line) as RawRealtimeMessage;
+        } catch {
+          this.stats.skipped++;
+          continue;
+        }
+        if (!raw.message || typeof raw.receivedAt !== 'number') {
+          this.stats.skipped++;
+          continue;
+        }
+        if (channels && !channels.includes(raw.channel)) continue;
+
+        yield raw;
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function resolveFiles(files: string | string[]): string[] {
+  const resolved: string[] = [];
+  for (const path of Array.isArray(files) ? files : [files]) {
+    if (statSync(path).isDirectory()) {
+      const entries = readdirSync(path).filter((name) => name.endsWith('.ndjson')).sort();
+      resolved.push(...entries.map((name) => join(path, name)));
+    } else {
+      resolved.push(path);
+    }
+  }
+  return resolved;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
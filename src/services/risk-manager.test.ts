@@ -0,0 +1,219 @@
+/**
+ * RiskManager Unit Tests
+ *
+ * Focus: each pre-trade limit, the kill switch, and position/PnL accounting
+ * from OrderManager fill events.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { RiskManager, type RiskRejectEvent } from './risk-manager.js';
+import type { FillEvent } from './order-manager.js';
+import { PolymarketError, ErrorCode } from '../core/errors.js';
+import { PrometheusTelemetry, TELEMETRY_METRICS } from '../core/telemetry.js';
+
+const TOKEN = 'token123';
+
+class MockOrderManager extends EventEmitter {
+  watched: string[] = [];
+  private nextId = 1;
+
+  createOrder = vi.fn(async () => this.accept());
+  createMarketOrder = vi.fn(async () => this.accept());
+  cancelAllOrders = vi.fn(async () => ({ success: true }));
+
+  getWatchedOrders() {
+    return this.watched.map((id) => ({ id }));
+  }
+
+  fill(orderId: string, side: 'BUY' | 'SELL', size: number, price: number, tradeId = `trade-${orderId}-${size}`) {
+    const event = {
+      orderId,
+      order: { id: orderId, tokenId: TOKEN, side },
+      fill: { tradeId, size, price, fee: 0, timestamp: Date.now() },
+      cumulativeFilled: size,
+      remainingSize: 0,
+      isCompleteFill: true,
+    } as unknown as FillEvent;
+    this.emit('order_filled', event);
+  }
+
+  private accept() {
+    const orderId = `order-${this.nextId++}`;
+    this.watched.push(orderId);
+    return { success: true, orderId };
+  }
+}
+
+const expectBlocked = async (promise: Promise<unknown>, code: ErrorCode) => {
+  const error = await promise.catch((e) => e);
+  expect(error).toBeInstanceOf(PolymarketError);
+  expect((error as PolymarketError).code).toBe(code);
+};
+
+describe('RiskManager', () => {
+  let orderManager: MockOrderManager;
+  let risk: RiskManager;
+
+  beforeEach(() => {
+    orderManager = new MockOrderManager();
+  });
+
+  afterEach(() => {
+    risk?.dispose();
+  });
+
+  it('should block orders above maxOrderNotional before they reach OrderManager', async () => {
+    const telemetry = new PrometheusTelemetry();
+    risk = new RiskManager(orderManager as any, { maxOrderNotional: 50, telemetry });
+    const blocked: RiskRejectEvent[] = [];
+    risk.on('order_blocked', (e: RiskRejectEvent) => blocked.push(e));
+
+    await expectBlocked(
+      risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.6, size: 100 }),
+      ErrorCode.RISK_LIMIT_EXCEEDED
+    );
+    expect(orderManager.createOrder).not.toHaveBeenCalled();
+    expect(blocked[0].limit).toBe('max_order_notional');
+    expect(telemetry.getCounter(TELEMETRY_METRICS.ORDERS, { event: 'blocked', limit: 'max_order_notional' })).toBe(1);
+
+    await risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.4, size: 100 });
+    expect(orderManager.createOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('should limit concurrently open orders', async () => {
+    risk = new RiskManager(orderManager as any, { maxOpenOrders: 2 });
+
+    await risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.4, size: 10 });
+    await risk.createOrder({ tokenId: TOKEN, side: 'SELL', price: 0.6, size: 10 });
+    await expectBlocked(
+      risk.createOrder({ tokenId: TOKEN, side: 'SELL', price: 0.7, size: 10 }),
+      ErrorCode.RISK_LIMIT_EXCEEDED
+    );
+
+    orderManager.watched.pop();
+    await expect(risk.createOrder({ tokenId: TOKEN, side: 'SELL', price: 0.7, size: 10 })).resolves.toMatchObject({
+      success: true,
+    });
+  });
+
+  it('should count open BUY orders and fills towards the per-market position limit', async () => {
+    risk = new RiskManager(orderManager as any, {
+      maxPositionPerMarket: 100,
+      marketPositionLimits: { other: 10 },
+    });
+
+    const first = await risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 120 });
+    await expectBlocked(
+      risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 100 }),
+      ErrorCode.RISK_LIMIT_EXCEEDED
+    );
+
+    // Fill at a better price than the limit: exposure drops to the fill cost
+    orderManager.fill(first.orderId!, 'BUY', 120, 0.45);
+    expect(risk.getSnapshot().positions[TOKEN]).toEqual({ shares: 120, costBasis: 54 });
+    await risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 90 });
+
+    // Per-market override
+    await expectBlocked(
+      risk.createOrder({ tokenId: 'other', side: 'BUY', price: 0.5, size: 30 }),
+      ErrorCode.RISK_LIMIT_EXCEEDED
+    );
+
+    // Reducing orders always pass
+    await risk.createOrder({ tokenId: TOKEN, side: 'SELL', price: 0.5, size: 100 });
+  });
+
+  it('should reserve notional for orders that are still being submitted', async () => {
+    risk = new RiskManager(orderManager as any, { maxPositionPerMarket: 100, strategyBudgets: { mm: 100 } });
+    let rejectFirst!: () => void;
+    orderManager.createOrder.mockImplementationOnce(
+      () => new Promise((_, reject) => (rejectFirst = () => reject(new Error('network down'))))
+    );
+
+    const first = risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 120 }, { strategyId: 'mm' });
+    // $60 in flight + $60 would exceed both the position limit and the budget
+    await expectBlocked(
+      risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 120 }, { strategyId: 'mm' }),
+      ErrorCode.RISK_LIMIT_EXCEEDED
+    );
+    await expectBlocked(
+      risk.createMarketOrder({ tokenId: 'other', side: 'BUY', amount: 60 }, { strategyId: 'mm' }),
+      ErrorCode.RISK_LIMIT_EXCEEDED
+    );
+
+    // A failed submission releases its reservation
+    rejectFirst();
+    await expect(first).rejects.toThrow('network down');
+    await risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 120 }, { strategyId: 'mm' });
+  });
+
+  it('should enforce strategy budgets', async () => {
+    risk = new RiskManager(orderManager as any, { strategyBudgets: { mm: 50 } });
+
+    await risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 80 }, { strategyId: 'mm' });
+    await expectBlocked(
+      risk.createMarketOrder({ tokenId: 'other', side: 'BUY', amount: 20 }, { strategyId: 'mm' }),
+      ErrorCode.RISK_LIMIT_EXCEEDED
+    );
+    // Other strategies are not affected
+    await risk.createMarketOrder({ tokenId: 'other', side: 'BUY', amount: 20 }, { strategyId: 'arb' });
+
+    expect(risk.getSnapshot().strategyExposure).toEqual({ mm: 40, arb: 20 });
+  });
+
+  it('should block new BUY orders once the daily loss limit is reached and reset at UTC midnight', async () => {
+    let now = Date.UTC(2024, 0, 1, 12);
+    risk = new RiskManager(orderManager as any, { maxDailyLoss: 10, now: () => now });
+    const reached = vi.fn();
+    risk.on('daily_loss_limit_reached', reached);
+
+    const buy = await risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 100 });
+    orderManager.fill(buy.orderId!, 'BUY', 100, 0.5);
+    const sell = await risk.createOrder({ tokenId: TOKEN, side: 'SELL', price: 0.35, size: 100 });
+    orderManager.fill(sell.orderId!, 'SELL', 100, 0.35);
+
+    expect(risk.getSnapshot().dailyRealizedPnl).toBeCloseTo(-15);
+    expect(reached).toHaveBeenCalledTimes(1);
+    await expectBlocked(
+      risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 10 }),
+      ErrorCode.RISK_LIMIT_EXCEEDED
+    );
+
+    now = Date.UTC(2024, 0, 2, 0, 1);
+    await risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 10 });
+  });
+
+  it('should ignore duplicate fill events', async () => {
+    risk = new RiskManager(orderManager as any);
+    const result = await risk.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 10 });
+
+    orderManager.fill(result.orderId!, 'BUY', 10, 0.5, 'trade-1');
+    orderManager.fill(result.orderId!, 'BUY', 10, 0.5, 'trade-1');
+
+    expect(risk.getSnapshot().positions[TOKEN].shares).toBe(10);
+
+    // Seen fills are dropped with the order
+    orderManager.emit('watch_stopped', result.orderId);
+    expect((risk as any).processedFills.size).toBe(0);
+  });
+
+  it('should cancel all orders and block everything while the kill switch is engaged', async () => {
+    risk = new RiskManager(orderManager as any);
+    const engaged = vi.fn();
+    risk.on('kill_switch_engaged', engaged);
+
+    await risk.engageKillSwitch('feed outage');
+
+    expect(orderManager.cancelAllOrders).toHaveBeenCalledTimes(1);
+    expect(engaged).toHaveBeenCalledWith(expect.objectContaining({ reason: 'feed outage' }));
+    await expectBlocked(
+      risk.createOrder({ tokenId: TOKEN, side: 'SELL', price: 0.5, size: 10 }),
+      ErrorCode.KILL_SWITCH_ACTIVE
+    );
+
+    risk.releaseKillSwitch();
+    expect(risk.isKillSwitchEngaged()).toBe(false);
+    await risk.createOrder({ tokenId: TOKEN, side: 'SELL', price: 0.5, size: 10 });
+  });
+});
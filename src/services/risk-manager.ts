@@ -0,0 +1,535 @@
+/**
+ * RiskManager - Pre-trade risk checks and kill switch around OrderManager
+ *
+ * Strategies place orders through RiskManager instead of calling
+ * OrderManager directly. Every order is checked against the configured
+ * limits before it reaches the CLOB; a rejected order throws a
+ * PolymarketError (RISK_LIMIT_EXCEEDED or KILL_SWITCH_ACTIVE) and emits
+ * `order_blocked`.
+ *
+ * Limits (all optional, unset = unlimited):
+ * - maxOrderNotional:     USDC notional of a single order
+ * - maxOpenOrders:        concurrently open orders
+ * - maxPositionPerMarket: USDC cost basis per token, including open BUY orders
+ * - maxDailyLoss:         realized loss per UTC day
+ * - strategyBudgets:      USDC cost basis per OrderMetadata.strategyId,
+ *                         including that strategy's open BUY orders
+ *
+ * Position, budget and daily-loss limits only block orders that add
+ * exposure (BUY); SELL orders that reduce a position still pass so a
+ * strategy can always flatten. Orders still being submitted count as open
+ * and hold their notional, so concurrent calls can't overshoot a limit.
+ * The kill switch blocks everything and cancels all open orders.
+ *
+ * Positions and realized PnL are tracked from OrderManager fill events
+ * (average-cost method), so only orders placed through this OrderManager
+ * are counted. Use `recordRealizedPnl()` for PnL realized elsewhere
+ * (merges, redemptions).
+ *
+ * @example
+ * ```typescript
+ * const risk = new RiskManager(orderMgr, {
+ *   maxOrderNotional: 100,
+ *   maxOpenOrders: 20,
+ *   maxPositionPerMarket: 500,
+ *   maxDailyLoss: 200,
+ *   strategyBudgets: { 'mm-btc': 1000 },
+ * });
+ *
+ * try {
+ *   await risk.createOrder(
+ *     { tokenId, side: 'BUY', price: 0.52, size: 100 },
+ *     { strategyId: 'mm-btc' }
+ *   );
+ * } catch (error) {
+ *   if (error instanceof PolymarketError && error.code === ErrorCode.RISK_LIMIT_EXCEEDED) {
+ *     // back off
+ *   }
+ * }
+ *
+ * // Emergency stop
+ * await risk.engageKillSwitch('feed outage');
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import type { OrderManager, OrderMetadata, FillEvent } from './order-manager.js';
+import type { LimitOrderParams, MarketOrderParams, OrderResult } from './trading-service.js';
+import type { Side } from '../core/types.js';
+import { PolymarketError, ErrorCode } from '../core/errors.js';
+import { noopTelemetry, TELEMETRY_METRICS, type Telemetry } from '../core/telemetry.js';
+
+// ============================================================================
+// Configuration & Types
+// ============================================================================
+
+export interface RiskLimits {
+  /** Max USDC notional of a single order (market SELL shares are valued at `price`, or $1 if unset) */
+  maxOrderNotional?: number;
+  /** Max number of concurrently open orders */
+  maxOpenOrders?: number;
+  /** Max USDC cost basis per token, counting open BUY orders */
+  maxPositionPerMarket?: number;
+  /** Per-token overrides of maxPositionPerMarket */
+  marketPositionLimits?: Record<string, number>;
+  /** Max realized loss (positive USDC amount) per UTC day */
+  maxDailyLoss?: number;
+  /** USDC budgets keyed by OrderMetadata.strategyId */
+  strategyBudgets?: Record<string, number>;
+}
+
+export interface RiskManagerConfig extends RiskLimits {
+  /** Clock used for the daily loss window (default: Date.now) */
+  now?: () => number;
+  /** Enable debug logging */
+  debug?: boolean;
+  /** Counts blocked orders as `orders{event="blocked"}` and logs the limit hit */
+  telemetry?: Telemetry;
+}
+
+/**
+ * Which check rejected an order
+ */
+export type RiskLimitType =
+  | 'kill_switch'
+  | 'max_order_notional'
+  | 'max_open_orders'
+  | 'max_position'
+  | 'daily_loss'
+  | 'strategy_budget';
+
+/**
+ * Emitted as `order_blocked` when a pre-trade check rejects an order
+ */
+export interface RiskRejectEvent {
+  limit: RiskLimitType;
+  reason: string;
+  params: LimitOrderParams | MarketOrderParams;
+  metadata?: OrderMetadata;
+  timestamp: number;
+}
+
+/**
+ * Emitted as `kill_switch_engaged` / `kill_switch_released`
+ */
+export interface KillSwitchEvent {
+  reason?: string;
+  timestamp: number;
+}
+
+export interface RiskPosition {
+  /** Shares held */
+  shares: number;
+  /** USDC cost basis of the shares held */
+  costBasis: number;
+}
+
+export interface RiskSnapshot {
+  killSwitchEngaged: boolean;
+  openOrders: number;
+  positions: Record<string, RiskPosition>;
+  /** Realized PnL for the current UTC day */
+  dailyRealizedPnl: number;
+  /** Cost basis + open BUY notional per strategyId */
+  strategyExposure: Record<string, number>;
+}
+
+/**
+ * An order placed through RiskManager that is still open
+ */
+interface TrackedOrder {
+  orderId: string;
+  tokenId: string;
+  side: Side;
+  strategyId?: string;
+  /** Limit price (limit orders only) */
+  limitPrice?: number;
+  /** Unfilled shares (limit orders only) */
+  remainingShares?: number;
+  /** USDC still committed by the unfilled part of a BUY order */
+  openNotional: number;
+}
+
+interface PendingCheck {
+  tokenId: string;
+  side: Side;
+  notional: number;
+  strategyId?: string;
+}
+
+// ============================================================================
+// RiskManager Implementation
+// ============================================================================
+
+export class RiskManager extends EventEmitter {
+  private config: RiskManagerConfig;
+  private now: () => number;
+  private telemetry: Telemetry;
+
+  private killSwitchEngaged = false;
+  private trackedOrders: Map<string, TrackedOrder> = new Map();
+  /** Checked orders still being submitted; they hold an open-order slot and their notional */
+  private inFlightOrders: Set<PendingCheck> = new Set();
+
+  private positions: Map<string, RiskPosition> = new Map();
+  private strategyCost: Map<string, number> = new Map();
+  /** Fill keys seen per order, dropped once OrderManager stops watching it */
+  private processedFills: Map<string, Set<string>> = new Map();
+
+  private dailyPnlDay = '';
+  private dailyRealizedPnl = 0;
+  private dailyLossLimitReached = false;
+
+  private fillHandler = (event: FillEvent) => this.handleFill(event);
+  private watchStoppedHandler = (orderId: string) => {
+    this.trackedOrders.delete(orderId);
+    this.processedFills.delete(orderId);
+  };
+
+  constructor(private orderManager: OrderManager, config: RiskManagerConfig = {}) {
+    super();
+    this.config = { ...config };
+    this.now = config.now ?? Date.now;
+    this.telemetry = config.telemetry ?? noopTelemetry;
+
+    this.orderManager.on('order_partially_filled', this.fillHandler);
+    this.orderManager.on('order_filled', this.fillHandler);
+    this.orderManager.on('watch_stopped', this.watchStoppedHandler);
+  }
+
+  // ============================================================================
+  // Public API - Order Entry
+  // ============================================================================
+
+  /**
+   * Check limits, then submit a limit order via OrderManager.createOrder
+   *
+   * @throws PolymarketError RISK_LIMIT_EXCEEDED / KILL_SWITCH_ACTIVE when blocked
+   */
+  async createOrder(params: LimitOrderParams, metadata?: OrderMetadata): Promise<OrderResult> {
+    const notional = params.price * params.size;
+    const check: PendingCheck = { tokenId: params.tokenId, side: params.side, notional, strategyId: metadata?.strategyId };
+    this.checkOrder(check, params, metadata);
+
+    return this.submit(check, () => this.orderManager.createOrder(params, metadata), (orderId) => ({
+      orderId,
+      tokenId: params.tokenId,
+      side: params.side,
+      strategyId: metadata?.strategyId,
+      limitPrice: params.price,
+      remainingShares: params.size,
+      openNotional: params.side === 'BUY' ? notional : 0,
+    }));
+  }
+
+  /**
+   * Check limits, then submit a market order via OrderManager.createMarketOrder
+   *
+   * @throws PolymarketError RISK_LIMIT_EXCEEDED / KILL_SWITCH_ACTIVE when blocked
+   */
+  async createMarketOrder(params: MarketOrderParams, metadata?: OrderMetadata): Promise<OrderResult> {
+    // BUY amount is USDC; SELL amount is shares, worth at most $1 each
+    const notional = params.side === 'BUY' ? params.amount : params.amount * (params.price ?? 1);
+    const check: PendingCheck = { tokenId: params.tokenId, side: params.side, notional, strategyId: metadata?.strategyId };
+    this.checkOrder(check, params, metadata);
+
+    return this.submit(check, () => this.orderManager.createMarketOrder(params, metadata), (orderId) => ({
+      orderId,
+      tokenId: params.tokenId,
+      side: params.side,
+      strategyId: metadata?.strategyId,
+      openNotional: params.side === 'BUY' ? params.amount : 0,
+    }));
+  }
+
+  // ============================================================================
+  // Public API - Kill Switch
+  // ============================================================================
+
+  /**
+   * Block all new orders and cancel every open order
+   */
+  async engageKillSwitch(reason?: string): Promise<OrderResult> {
+    this.killSwitchEngaged = true;
+    const event: KillSwitchEvent = { reason, timestamp: this.now() };
+    this.emit('kill_switch_engaged', event);
+    this.log(`Kill switch engaged${reason ? `: ${reason}` : ''}`);
+
+    return this.orderManager.cancelAllOrders();
+  }
+
+  /**
+   * Allow new orders again
+   */
+  releaseKillSwitch(reason?: string): void {
+    if (!this.killSwitchEngaged) return;
+    this.killSwitchEngaged = false;
+    const event: KillSwitchEvent = { reason, timestamp: this.now() };
+    this.emit('kill_switch_released', event);
+    this.log('Kill switch released');
+  }
+
+  isKillSwitchEngaged(): boolean {
+    return this.killSwitchEngaged;
+  }
+
+  // ============================================================================
+  // Public API - Limits & State
+  // ============================================================================
+
+  /**
+   * Update limits at runtime (merged into the current limits)
+   */
+  setLimits(limits: RiskLimits): void {
+    this.config = { ...this.config, ...limits };
+  }
+
+  getLimits(): RiskLimits {
+    const { now: _now, debug: _debug, telemetry: _telemetry, ...limits } = this.config;
+    return limits;
+  }
+
+  /**
+   * Add PnL realized outside OrderManager fills (e.g. merges, redemptions)
+   * to today's total
+   */
+  recordRealizedPnl(amount: number): void {
+    this.rollDailyPnl();
+    this.dailyRealizedPnl += amount;
+  }
+
+  getSnapshot(): RiskSnapshot {
+    this.rollDailyPnl();
+
+    const positions: Record<string, RiskPosition> = {};
+    for (const [tokenId, position] of this.positions) {
+      positions[tokenId] = { ...position };
+    }
+
+    const strategyExposure: Record<string, number> = {};
+    const strategyIds = new Set([
+      ...this.strategyCost.keys(),
+      ...Array.from(this.trackedOrders.values(), (o) => o.strategyId).filter((id): id is string => !!id),
+    ]);
+    for (const strategyId of strategyIds) {
+      strategyExposure[strategyId] = this.getStrategyExposure(strategyId);
+    }
+
+    return {
+      killSwitchEngaged: this.killSwitchEngaged,
+      openOrders: this.getOpenOrderCount(),
+      positions,
+      dailyRealizedPnl: this.dailyRealizedPnl,
+      strategyExposure,
+    };
+  }
+
+  /**
+   * Stop listening to OrderManager events
+   */
+  dispose(): void {
+    this.orderManager.off('order_partially_filled', this.fillHandler);
+    this.orderManager.off('order_filled', this.fillHandler);
+    this.orderManager.off('watch_stopped', this.watchStoppedHandler);
+  }
+
+  // ============================================================================
+  // Private - Checks
+  // ============================================================================
+
+  /**
+   * Run all pre-trade checks, throwing on the first failure
+   */
+  private checkOrder(
+    check: PendingCheck,
+    params: LimitOrderParams | MarketOrderParams,
+    metadata?: OrderMetadata
+  ): void {
+    const reject = (limit: RiskLimitType, reason: string): never => {
+      const event: RiskRejectEvent = { limit, reason, params, metadata, timestamp: this.now() };
+      this.emit('order_blocked', event);
+      this.telemetry.incrementCounter(TELEMETRY_METRICS.ORDERS, 1, { event: 'blocked', limit });
+      this.telemetry.log('warn', `Order blocked (${limit}): ${reason}`, { service: 'RiskManager' });
+      this.log(`Blocked (${limit}): ${reason}`);
+      throw new PolymarketError(
+        limit === 'kill_switch' ? ErrorCode.KILL_SWITCH_ACTIVE : ErrorCode.RISK_LIMIT_EXCEEDED,
+        reason
+      );
+    };
+
+    if (this.killSwitchEngaged) {
+      reject('kill_switch', 'Kill switch is engaged; new orders are blocked');
+    }
+
+    const { maxOrderNotional, maxOpenOrders, maxDailyLoss, strategyBudgets } = this.config;
+
+    if (maxOrderNotional !== undefined && check.notional > maxOrderNotional) {
+      reject(
+        'max_order_notional',
+        `Order notional $${check.notional.toFixed(2)} exceeds max $${maxOrderNotional.toFixed(2)}`
+      );
+    }
+
+    if (maxOpenOrders !== undefined && this.getOpenOrderCount() + 1 > maxOpenOrders) {
+      reject('max_open_orders', `Open orders would exceed max ${maxOpenOrders}`);
+    }
+
+    // Remaining checks only apply to orders that add exposure
+    if (check.side !== 'BUY') return;
+
+    if (maxDailyLoss !== undefined) {
+      this.rollDailyPnl();
+      if (-this.dailyRealizedPnl >= maxDailyLoss) {
+        reject(
+          'daily_loss',
+          `Daily realized loss $${(-this.dailyRealizedPnl).toFixed(2)} reached limit $${maxDailyLoss.toFixed(2)}`
+        );
+      }
+    }
+
+    const positionLimit = this.config.marketPositionLimits?.[check.tokenId] ?? this.config.maxPositionPerMarket;
+    if (positionLimit !== undefined) {
+      const exposure = (this.positions.get(check.tokenId)?.costBasis ?? 0) + this.getOpenBuyNotional((o) => o.tokenId === check.tokenId);
+      if (exposure + check.notional > positionLimit) {
+        reject(
+          'max_position',
+          `Position in ${check.tokenId} would reach $${(exposure + check.notional).toFixed(2)}, max $${positionLimit.toFixed(2)}`
+        );
+      }
+    }
+
+    const budget = check.strategyId !== undefined ? strategyBudgets?.[check.strategyId] : undefined;
+    if (check.strategyId !== undefined && budget !== undefined) {
+      const exposure = this.getStrategyExposure(check.strategyId);
+      if (exposure + check.notional > budget) {
+        reject(
+          'strategy_budget',
+          `Strategy ${check.strategyId} would use $${(exposure + check.notional).toFixed(2)} of $${budget.toFixed(2)} budget`
+        );
+      }
+    }
+  }
+
+  /**
+   * Reserve the checked order's slot and notional while it is submitted, so
+   * concurrent calls can't overshoot maxOpenOrders, position limits or budgets.
+   * An accepted order moves to trackedOrders before the reservation is released;
+   * a rejected or failed one just releases it.
+   */
+  private async submit(
+    check: PendingCheck,
+    fn: () => Promise<OrderResult>,
+    toTracked: (orderId: string) => TrackedOrder
+  ): Promise<OrderResult> {
+    this.inFlightOrders.add(check);
+    try {
+      const result = await fn();
+      if (result.success && result.orderId) {
+        this.trackedOrders.set(result.orderId, toTracked(result.orderId));
+      }
+      return result;
+    } finally {
+      this.inFlightOrders.delete(check);
+    }
+  }
+
+  private getOpenOrderCount(): number {
+    return this.orderManager.getWatchedOrders().length + this.inFlightOrders.size;
+  }
+
+  private getOpenBuyNotional(predicate: (order: Pick<PendingCheck, 'tokenId' | 'strategyId'>) => boolean): number {
+    let total = 0;
+    for (const order of this.trackedOrders.values()) {
+      if (order.side === 'BUY' && predicate(order)) total += order.openNotional;
+    }
+    for (const order of this.inFlightOrders) {
+      if (order.side === 'BUY' && predicate(order)) total += order.notional;
+    }
+    return total;
+  }
+
+  private getStrategyExposure(strategyId: string): number {
+    return (this.strategyCost.get(strategyId) ?? 0) + this.getOpenBuyNotional((o) => o.strategyId === strategyId);
+  }
+
+  // ============================================================================
+  // Private - Fill Accounting
+  // ============================================================================
+
+  private handleFill(event: FillEvent): void {
+    // OrderManager may report the same fill from WebSocket and polling
+    const fillKey = `${event.fill.tradeId}_${event.cumulativeFilled}`;
+    const seen = this.processedFills.get(event.orderId) ?? new Set<string>();
+    if (seen.has(fillKey)) return;
+    seen.add(fillKey);
+    this.processedFills.set(event.orderId, seen);
+
+    const tracked = this.trackedOrders.get(event.orderId);
+    // Prefer the tokenId recorded at creation; the order in the event may be stale
+    const tokenId = tracked?.tokenId ?? event.order.tokenId;
+    const side = tracked?.side ?? event.order.side;
+    const { size, price } = event.fill;
+    if (!tokenId || size <= 0) return;
+
+    if (tracked && side === 'BUY') {
+      if (tracked.remainingShares !== undefined && tracked.limitPrice !== undefined) {
+        tracked.remainingShares = Math.max(0, tracked.remainingShares - size);
+        tracked.openNotional = tracked.remainingShares * tracked.limitPrice;
+      } else {
+        tracked.openNotional = Math.max(0, tracked.openNotional - size * price);
+      }
+    }
+
+    const position = this.positions.get(tokenId) ?? { shares: 0, costBasis: 0 };
+    const strategyId = tracked?.strategyId;
+
+    if (side === 'BUY') {
+      position.shares += size;
+      position.costBasis += size * price;
+      if (strategyId) {
+        this.strategyCost.set(strategyId, (this.strategyCost.get(strategyId) ?? 0) + size * price);
+      }
+    } else {
+      const closed = Math.min(size, position.shares);
+      const avgCost = position.shares > 0 ? position.costBasis / position.shares : 0;
+      position.shares -= closed;
+      position.costBasis = position.shares > 0 ? position.costBasis - avgCost * closed : 0;
+      this.recordRealizedPnl((price - avgCost) * closed);
+      if (strategyId) {
+        this.strategyCost.set(strategyId, Math.max(0, (this.strategyCost.get(strategyId) ?? 0) - avgCost * closed));
+      }
+    }
+
+    this.positions.set(tokenId, position);
+    this.checkDailyLossBreach();
+  }
+
+  /**
+   * Reset the daily PnL window at UTC midnight
+   */
+  private rollDailyPnl(): void {
+    const day = new Date(this.now()).toISOString().slice(0, 10);
+    if (day !== this.dailyPnlDay) {
+      this.dailyPnlDay = day;
+      this.dailyRealizedPnl = 0;
+      this.dailyLossLimitReached = false;
+    }
+  }
+
+  /**
+   * Emit `daily_loss_limit_reached` once per day when the limit is crossed
+   */
+  private checkDailyLossBreach(): void {
+    const { maxDailyLoss } = this.config;
+    if (maxDailyLoss !== undefined && !this.dailyLossLimitReached && -this.dailyRealizedPnl >= maxDailyLoss) {
+      this.dailyLossLimitReached = true;
+      this.emit('daily_loss_limit_reached', { realizedPnl: this.dailyRealizedPnl, limit: maxDailyLoss, timestamp: this.now() });
+    }
+  }
+
+  private log(message: string): void {
+    if (this.config.debug) {
+      console.log(`[RiskManager] ${message}`);
+    }
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * SimulatedTradingService Unit Tests
+ *
+ * Focus: order matching (GTC/GTD/FOK/FAK), CLOB validation rules, simulated
+ * balances and user events, and OrderManager running on top of the simulator.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SimulatedTradingService } from './simulated-trading-service.js';
+import { OrderManager, type FillEvent } from './order-manager.js';
+import { OrderStatus } from '../core/types.js';
+import { ErrorCode } from '../core/errors.js';
+import type { UserOrder, UserTrade } from './realtime-service-v2.js';
+import { MockRateLimiter, MockCache, waitFor } from '../__tests__/test-utils.js';
+
+const TOKEN = 'token123';
+
+const book = (overrides: Record<string, unknown> = {}) => ({
+  tokenId: TOKEN,
+  market: '0xmarket',
+  tickSize: '0.01',
+  timestamp: 1700000000000,
+  bids: [
+    { price: 0.5, size: 100 },
+    { price: 0.49, size: 200 },
+  ],
+  asks: [
+    { price: 0.52, size: 50 },
+    { price: 0.53, size: 100 },
+  ],
+  ...overrides,
+});
+
+describe('SimulatedTradingService', () => {
+  let sim: SimulatedTradingService;
+
+  beforeEach(() => {
+    sim = new SimulatedTradingService({ initialUsdc: 1000, initialPositions: { [TOKEN]: 40 } });
+    sim.updateBook(book());
+  });
+
+  it('should sweep the book for a marketable limit order', async () => {
+    const result = await sim.createLimitOrder({ tokenId: TOKEN, side: 'BUY', price: 0.53, size: 120 });
+
+    const order = await sim.getOrder(result.orderId!);
+    // 50 @ 0.52 + 70 @ 0.53 - fully filled as taker, nothing rests
+    expect(order).toMatchObject({ status: OrderStatus.FILLED, filledSize: 120, remainingSize: 0 });
+
+    const trades = await sim.getTrades();
+    expect(trades.map((t) => [t.price, t.size])).toEqual([[0.52, 50], [0.53, 70]]);
+    expect(sim.getBalances().usdc).toBeCloseTo(1000 - 50 * 0.52 - 70 * 0.53);
+    expect(sim.getBalances().positions[TOKEN]).toBe(160);
+    expect(sim.getBook(TOKEN)!.asks).toEqual([{ price: 0.53, size: 30 }]);
+  });
+
+  it('should keep consumed depth out of the book until the feed changes that level', async () => {
+    await sim.createLimitOrder({ tokenId: TOKEN, side: 'BUY', price: 0.53, size: 120 });
+
+    // A delta elsewhere in the book resends the untouched ask levels
+    sim.updateBook(book({ bids: [{ price: 0.51, size: 10 }] }));
+    expect(sim.getBook(TOKEN)!.asks).toEqual([{ price: 0.53, size: 30 }]);
+
+    // The feed reports a new size at 0.53: it replaces the simulated remainder
+    sim.updateBook(book({ asks: [{ price: 0.52, size: 50 }, { price: 0.53, size: 80 }] }));
+    expect(sim.getBook(TOKEN)!.asks).toEqual([{ price: 0.53, size: 80 }]);
+  });
+
+  it('should fill a resting order when the book trades through its price', async () => {
+    const result = await sim.createLimitOrder({ tokenId: TOKEN, side: 'BUY', price: 0.51, size: 20 });
+    expect((await sim.getOrder(result.orderId!))!.status).toBe(OrderStatus.OPEN);
+    expect(sim.getBalances().availableUsdc).toBeCloseTo(1000 - 0.51 * 20);
+
+    sim.updateBook(book({ asks: [{ price: 0.5, size: 15 }] }));
+    let order = await sim.getOrder(result.orderId!);
+    expect(order).toMatchObject({ status: OrderStatus.PARTIALLY_FILLED, filledSize: 15 });
+
+    sim.updateBook(book({ asks: [{ price: 0.51, size: 100 }] }));
+    order = await sim.getOrder(result.orderId!);
+    expect(order).toMatchObject({ status: OrderStatus.FILLED, filledSize: 20 });
+
+    // Maker fills at the resting price
+    const trades = await sim.getTrades();
+    expect(trades.every((t) => t.price === 0.51)).toBe(true);
+    expect(trades[0].makerOrders).toEqual([{ orderId: result.orderId, matchedAmount: 15, price: 0.51 }]);
+    expect(sim.getBalances().usdc).toBeCloseTo(1000 - 0.51 * 20);
+    expect(sim.getBalances().availableUsdc).toBeCloseTo(sim.getBalances().usdc);
+  });
+
+  it('should kill FOK orders that cannot fully fill and partially fill FAK orders', async () => {
+    const fok = await sim.createMarketOrder({ tokenId: TOKEN, side: 'BUY', amount: 200, price: 0.53, orderType: 'FOK' });
+    expect(fok.success).toBe(false);
+    expect(fok.errorMsg).toContain('FOK');
+    expect(fok).toMatchObject({ errorCode: ErrorCode.ORDER_NOT_FILLED, errorDetails: { orderType: 'FOK' } });
+    expect(await sim.getTrades()).toHaveLength(0);
+
+    const fak = await sim.createMarketOrder({ tokenId: TOKEN, side: 'BUY', amount: 200, price: 0.53, orderType: 'FAK' });
+    expect(fak.success).toBe(true);
+    const order = await sim.getOrder(fak.orderId!);
+    expect(order!.status).toBe(OrderStatus.CANCELLED);
+    expect(order!.filledSize).toBe(150);
+    expect(sim.getBook(TOKEN)!.asks).toEqual([]);
+  });
+
+  it('should fill FOK/FAK limit orders by size without resting the remainder', async () => {
+    const fok = await sim.createLimitOrder({ tokenId: TOKEN, side: 'BUY', price: 0.52, size: 60, orderType: 'FOK' });
+    expect(fok).toMatchObject({ success: false, errorCode: ErrorCode.ORDER_NOT_FILLED });
+
+    const filled = await sim.createLimitOrder({ tokenId: TOKEN, side: 'BUY', price: 0.53, size: 60, orderType: 'FOK' });
+    expect(await sim.getOrder(filled.orderId!)).toMatchObject({ status: OrderStatus.FILLED, filledSize: 60 });
+    expect(sim.getBalances().positions[TOKEN]).toBe(100);
+
+    sim.updateBook(book({ bids: [{ price: 0.5, size: 70 }, { price: 0.49, size: 200 }] }));
+    const fak = await sim.createLimitOrder({ tokenId: TOKEN, side: 'SELL', price: 0.5, size: 100, orderType: 'FAK' });
+    const order = await sim.getOrder(fak.orderId!);
+    expect(order).toMatchObject({ status: OrderStatus.CANCELLED, filledSize: 70 });
+    expect(await sim.getOpenOrders()).toHaveLength(0);
+  });
+
+  it('should fill a market SELL in shares against bids', async () => {
+    const result = await sim.createMarketOrder({ tokenId: TOKEN, side: 'SELL', amount: 30 });
+
+    expect((await sim.getOrder(result.orderId!))!.status).toBe(OrderStatus.FILLED);
+    expect(sim.getBalances().usdc).toBeCloseTo(1000 + 30 * 0.5);
+    expect(sim.getBalances().positions[TOKEN]).toBe(10);
+
+    // 1.5 shares at the 0.5 bid are worth $0.75
+    const tooSmall = await sim.createMarketOrder({ tokenId: TOKEN, side: 'SELL', amount: 1.5 });
+    expect(tooSmall).toMatchObject({ success: false, errorCode: ErrorCode.ORDER_TOO_SMALL });
+    expect(tooSmall.errorMsg).toContain('Order value ($0.75)');
+  });
+
+  it('should enforce minimum size, tick size and balance', async () => {
+    const tooSmall = await sim.createLimitOrder({ tokenId: TOKEN, side: 'BUY', price: 0.4, size: 4 });
+    expect(tooSmall.errorMsg).toContain('minimum (5 shares)');
+    expect(tooSmall).toMatchObject({ errorCode: ErrorCode.ORDER_TOO_SMALL, errorDetails: { size: 4, minimumSize: 5 } });
+
+    const offTick = await sim.createLimitOrder({ tokenId: TOKEN, side: 'BUY', price: 0.405, size: 10 });
+    expect(offTick.errorMsg).toContain('tick size');
+    expect(offTick).toMatchObject({ errorCode: ErrorCode.INVALID_TICK_SIZE, errorDetails: { price: 0.405, tickSize: '0.01' } });
+
+    const tooBig = await sim.createLimitOrder({ tokenId: TOKEN, side: 'SELL', price: 0.6, size: 50 });
+    expect(tooBig.errorMsg).toBe('not enough balance / allowance');
+    expect(tooBig.errorCode).toBe(ErrorCode.INSUFFICIENT_BALANCE);
+
+    // Tick size updates come from the book
+    sim.updateBook(book({ tickSize: '0.001' }));
+    const fineTick = await sim.createLimitOrder({ tokenId: TOKEN, side: 'BUY', price: 0.405, size: 10 });
+    expect(fineTick.success).toBe(true);
+  });
+
+  it('should expire GTD orders and release their reservation', async () => {
+    let now = 1700000000000;
+    sim = new SimulatedTradingService({ initialUsdc: 100, now: () => now });
+    sim.updateBook(book());
+
+    const result = await sim.createLimitOrder({
+      tokenId: TOKEN,
+      side: 'BUY',
+      price: 0.4,
+      size: 100,
+      orderType: 'GTD',
+      expiration: now / 1000 + 60,
+    });
+    expect(sim.getBalances().availableUsdc).toBeCloseTo(60);
+
+    now += 61_000;
+    expect((await sim.getOrder(result.orderId!))!.status).toBe(OrderStatus.EXPIRED);
+    expect(sim.getBalances().availableUsdc).toBe(100);
+  });
+
+  it('should emit user channel events after the order is created', async () => {
+    const orders: UserOrder[] = [];
+    const trades: UserTrade[] = [];
+    sim.subscribeUserEvents({ onOrder: (o) => orders.push(o), onTrade: (t) => trades.push(t) });
+
+    const result = await sim.createLimitOrder({ tokenId: TOKEN, side: 'BUY', price: 0.52, size: 80 });
+    expect(orders).toHaveLength(0);
+    await waitFor(5);
+
+    expect(orders.map((o) => [o.eventType, o.sizeMatched])).toEqual([
+      ['PLACEMENT', 0],
+      ['UPDATE', 50],
+    ]);
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ takerOrderId: result.orderId, size: 50, price: 0.52, status: 'MATCHED' });
+  });
+});
+
+describe('OrderManager - SimulatedTradingService', () => {
+  let sim: SimulatedTradingService;
+  let orderManager: OrderManager;
+
+  beforeEach(async () => {
+    sim = new SimulatedTradingService({ initialUsdc: 1000 });
+    sim.updateBook(book());
+    orderManager = new OrderManager({
+      privateKey: '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+      rateLimiter: new MockRateLimiter() as any,
+      cache: new MockCache() as any,
+      tradingService: sim,
+    });
+    await orderManager.start();
+  });
+
+  afterEach(() => {
+    orderManager.stop();
+  });
+
+  it('should drive the order lifecycle from simulated user events', async () => {
+    const opened: string[] = [];
+    const fills: FillEvent[] = [];
+    orderManager.on('order_opened', (o) => opened.push(o.id));
+    orderManager.on('order_partially_filled', (e: FillEvent) => fills.push(e));
+    orderManager.on('order_filled', (e: FillEvent) => fills.push(e));
+
+    const result = await orderManager.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.51, size: 20 });
+    await waitFor(5);
+    expect(opened).toEqual([result.orderId]);
+
+    sim.updateBook(book({ asks: [{ price: 0.5, size: 100 }] }));
+    await waitFor(5);
+
+    expect(fills[0]).toMatchObject({ orderId: result.orderId, fill: { size: 20, price: 0.51 }, isCompleteFill: true });
+    expect(orderManager.getWatchedOrders()).toHaveLength(0);
+  });
+
+  it('should reject orders above the funder balance when validateBalance is set', async () => {
+    orderManager.stop();
+    orderManager = new OrderManager({
+      privateKey: '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+      rateLimiter: new MockRateLimiter() as any,
+      cache: new MockCache() as any,
+      tradingService: sim,
+      validateBalance: true,
+    });
+    await orderManager.start();
+
+    const buy = await orderManager.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 2100 });
+    expect(buy.errorMsg).toBe('Insufficient balance: need 1050.00 USDC, have 1000.00');
+
+    const sell = await orderManager.createMarketOrder({ tokenId: TOKEN, side: 'SELL', amount: 10 });
+    expect(sell.errorMsg).toBe('Insufficient balance: need 10.00 shares, have 0.00');
+
+    const ok = await orderManager.createOrder({ tokenId: TOKEN, side: 'BUY', price: 0.5, size: 20 });
+    expect(ok.success).toBe(true);
+  });
+});
@@ -0,0 +1,1010 @@
+/**
+ * SimulatedTradingService - Paper-trading exchange
+ *
+ * Drop-in replacement for TradingService (implements `TradingClient`) that
+ * matches orders locally against live or recorded orderbooks instead of
+ * posting them to the CLOB. Use it to measure how a strategy would actually
+ * have filled: pass it to OrderManager, ArbitrageService, DipArbService or
+ * SmartMoneyService.startAutoCopyTrading in place of TradingService.
+ *
+ * Matching model:
+ * - Marketable orders sweep the opposite side of the current book, level by
+ *   level, at each level's price (taker fills). Consumed depth is removed
+ *   from the local book until the next book update replaces it.
+ * - GTC/GTD remainders rest at their limit price. On every book update,
+ *   resting orders fill (as maker, at their own price) against opposite
+ *   levels that trade through or touch their price. There is no queue
+ *   position model, so passive fills are conservative.
+ * - FOK fills completely or is killed; FAK fills what is available and
+ *   cancels the rest.
+ * - GTD orders expire once the clock passes `expiration` (unix seconds).
+ *
+ * Validation mirrors TradingService and the CLOB: minimum size
+ * (MIN_ORDER_SIZE_SHARES or `minimumOrderSize`), minimum value
+ * (MIN_ORDER_VALUE_USDC), tick size and price bounds, and available balance.
+ *
+ * Balances: USDC and per-token balances are tracked in-process. Open BUY
+ * orders reserve `price * size` USDC, open SELL orders reserve shares.
+ * Trades settle instantly (no on-chain transaction, fee 0).
+ *
+ * Events: emits the same `userOrder` / `userTrade` events as
+ * RealtimeServiceV2's user channel (see `subscribeUserEvents`), delivered
+ * asynchronously after `latencyMs` so callers can register the order first.
+ *
+ * @example
+ * ```typescript
+ * const sim = new SimulatedTradingService({ initialUsdc: 500 });
+ * sim.connectOrderbooks(sdk.realtime); // live books (or a replay source)
+ * sdk.realtime.subscribeMarkets([yesTokenId, noTokenId]);
+ *
+ * const orderMgr = new OrderManager({ privateKey, rateLimiter, cache, tradingService: sim });
+ * await orderMgr.start();
+ * await orderMgr.createOrder({ tokenId: yesTokenId, side: 'BUY', price: 0.45, size: 20 });
+ *
+ * console.log(sim.getBalances());
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import type { TickSize } from '@polymarket/clob-client';
+import {
+  MIN_ORDER_SIZE_SHARES,
+  MIN_ORDER_VALUE_USDC,
+  summarizeBatch,
+  type TradingClient,
+  type UserEventSource,
+  type LimitOrderParams,
+  type MarketOrderParams,
+  type Order,
+  type OrderResult,
+  type OrderRejection,
+  type TradeInfo,
+  type ApiCredentials,
+} from './trading-service.js';
+import { orderRejection } from '../core/clob-errors.js';
+import { noopTelemetry, TELEMETRY_METRICS, type Telemetry } from '../core/telemetry.js';
+import type {
+  BookUpdatedEvent,
+  TickSizeChange,
+  UserOrder,
+  UserTrade,
+  UserDataHandlers,
+  Subscription,
+} from './realtime-service-v2.js';
+import type { MarketService } from './market-service.js';
+import { OrderStatus, type Orderbook, type OrderbookLevel, type OrderType, type Side } from '../core/types.js';
+import { isOrderOpen } from '../core/order-status.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SimulatedTradingConfig {
+  /** Starting USDC balance (default: 1000) */
+  initialUsdc?: number;
+  /** Starting token balances by tokenId */
+  initialPositions?: Record<string, number>;
+  /** Tick size for tokens whose book doesn't carry one (default: '0.01') */
+  defaultTickSize?: TickSize;
+  /** Delay before user events are delivered, in ms (default: 0) */
+  latencyMs?: number;
+  /**
+   * Clock used for order timestamps and GTD expiry (default: Date.now).
+   * When replaying recorded books, pass the recording's clock.
+   */
+  now?: () => number;
+  /** Address returned by getAddress() (default: zero address) */
+  address?: string;
+  /** Enable debug logging */
+  debug?: boolean;
+  /** Receives logs and order/fill counts, labelled `simulated: true` */
+  telemetry?: Telemetry;
+}
+
+/**
+ * Book input accepted by updateBook(). OrderbookSnapshot from
+ * RealtimeServiceV2 satisfies this.
+ */
+export type SimulatedBookInput = Orderbook & {
+  tickSize?: string;
+  market?: string;
+};
+
+export interface SimulatedBalances {
+  /** Total USDC balance */
+  usdc: number;
+  /** USDC not reserved by open BUY orders */
+  availableUsdc: number;
+  /** Token balances by tokenId */
+  positions: Record<string, number>;
+}
+
+/**
+ * Minimal event source for orderbooks (RealtimeServiceV2 or a replay of it)
+ */
+export interface SimulatedBookSource {
+  on(event: 'bookUpdated', listener: (event: BookUpdatedEvent) => void): unknown;
+  on(event: 'tickSizeChange', listener: (change: TickSizeChange) => void): unknown;
+  off(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+interface SimBook {
+  tokenId: string;
+  market: string;
+  /** Highest first */
+  bids: OrderbookLevel[];
+  /** Lowest first */
+  asks: OrderbookLevel[];
+  tickSize: TickSize;
+  /** Depth simulated fills took from each feed level, by price */
+  consumedBids: Map<number, ConsumedLevel>;
+  consumedAsks: Map<number, ConsumedLevel>;
+}
+
+interface ConsumedLevel {
+  /** Size the feed reported when the level was first hit */
+  feedSize: number;
+  /** Shares simulated fills took from it */
+  consumed: number;
+}
+
+interface SimOrder {
+  order: Order;
+  market: string;
+  orderType: OrderType;
+  /** USDC (BUY) or shares (SELL) still reserved for the resting remainder */
+  reserved: number;
+}
+
+interface SimTrade {
+  market: string;
+  trade: TradeInfo;
+}
+
+interface Fill {
+  price: number;
+  size: number;
+}
+
+// Sizes below this are treated as zero
+const DUST = 1e-6;
+// Tolerance for tick-size and price comparisons
+const PRICE_EPSILON = 1e-9;
+
+const CLOB_ERRORS = {
+  BALANCE: 'not enough balance / allowance',
+  NO_BOOK: 'No orderbook exists for the requested token id',
+  FOK_KILLED: "order couldn't be fully filled. FOK orders are fully filled or killed.",
+  FAK_KILLED: 'no orders found to match with FAK order. FAK orders are partially filled or killed if no match is found.',
+  INVALID_EXPIRATION: 'invalid expiration value',
+};
+
+// Share sizes are quoted to 2 decimals on the CLOB
+const roundDownSize = (size: number): number => Math.floor(size * 100 + PRICE_EPSILON) / 100;
+
+const toBaseUnits = (amount: number): string => Math.max(0, Math.round(amount * 1e6)).toString();
+
+/**
+ * Subtract simulated fills from feed levels whose size hasn't changed since;
+ * consumption on changed or removed levels is dropped
+ */
+function applyConsumed(
+  feed: OrderbookLevel[],
+  previous: Map<number, ConsumedLevel> | undefined
+): { levels: OrderbookLevel[]; consumed: Map<number, ConsumedLevel> } {
+  const consumed = new Map<number, ConsumedLevel>();
+  const levels: OrderbookLevel[] = [];
+  for (const level of feed) {
+    const taken = previous?.get(level.price);
+    let size = level.size;
+    if (taken && Math.abs(taken.feedSize - level.size) <= DUST) {
+      consumed.set(level.price, taken);
+      size -= taken.consumed;
+    }
+    if (size > DUST) levels.push({ price: level.price, size });
+  }
+  return { levels, consumed };
+}
+
+// ============================================================================
+// SimulatedTradingService Implementation
+// ============================================================================
+
+export class SimulatedTradingService extends EventEmitter implements TradingClient, UserEventSource {
+  private config: Required<Omit<SimulatedTradingConfig, 'initialPositions' | 'telemetry'>>;
+  private telemetry: Telemetry;
+  private initialized = false;
+
+  private books: Map<string, SimBook> = new Map();
+  private orders: Map<string, SimOrder> = new Map();
+  private trades: SimTrade[] = [];
+
+  private usdc: number;
+  private positions: Map<string, number>;
+
+  private orderCounter = 0;
+  private tradeCounter = 0;
+  private subscriptionCounter = 0;
+
+  /**
+   * @param config - Simulation settings
+   * @param marketService - Optional; used to fetch a REST book for tokens with no book yet
+   */
+  constructor(config: SimulatedTradingConfig = {}, private marketService?: MarketService) {
+    super();
+
+    this.config = {
+      initialUsdc: config.initialUsdc ?? 1000,
+      defaultTickSize: config.defaultTickSize ?? '0.01',
+      latencyMs: config.latencyMs ?? 0,
+      now: config.now ?? Date.now,
+      address: config.address ?? ethers.constants.AddressZero,
+      debug: config.debug ?? false,
+    };
+    this.telemetry = config.telemetry ?? noopTelemetry;
+
+    this.usdc = this.config.initialUsdc;
+    this.positions = new Map(Object.entries(config.initialPositions ?? {}));
+  }
+
+  // ============================================================================
+  // Initialization
+  // ============================================================================
+
+  async initialize(): Promise<void> {
+    this.initialized = true;
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  // ============================================================================
+  // Orderbook Feed
+  // ============================================================================
+
+  /**
+   * Replace the book for a token and match resting orders against it.
+   * Depth taken by simulated fills stays taken while the feed reports the
+   * same size at that price; once the level changes the feed wins.
+   */
+  updateBook(book: SimulatedBookInput): void {
+    const tokenId = book.tokenId || book.assetId;
+    if (!tokenId) return;
+
+    const existing = this.books.get(tokenId);
+    const bids = applyConsumed(book.bids, existing?.consumedBids);
+    const asks = applyConsumed(book.asks, existing?.consumedAsks);
+    this.books.set(tokenId, {
+      tokenId,
+      market: book.market || existing?.market || '',
+      bids: bids.levels.sort((a, b) => b.price - a.price),
+      asks: asks.levels.sort((a, b) => a.price - b.price),
+      tickSize: (book.tickSize as TickSize) || existing?.tickSize || this.config.defaultTickSize,
+      consumedBids: bids.consumed,
+      consumedAsks: asks.consumed,
+    });
+
+    this.expireOrders();
+    this.matchRestingOrders(tokenId);
+  }
+
+  /**
+   * Follow orderbooks from RealtimeServiceV2 (or a replay of it).
+   * Requires local orderbooks (`localOrderbooks`, on by default) so every
+   * snapshot and delta is surfaced as `bookUpdated`.
+   *
+   * @returns Function that stops following the source
+   */
+  connectOrderbooks(source: SimulatedBookSource): () => void {
+    const onBook = (event: BookUpdatedEvent) => this.updateBook(event.book);
+    const onTickSize = (change: TickSizeChange) => {
+      const book = this.books.get(change.assetId);
+      if (book) book.tickSize = change.newTickSize as TickSize;
+    };
+
+    source.on('bookUpdated', onBook);
+    source.on('tickSizeChange', onTickSize);
+
+    return () => {
+      source.off('bookUpdated', onBook);
+      source.off('tickSizeChange', onTickSize);
+    };
+  }
+
+  /**
+   * Current simulated book for a token (after simulated fills consumed depth)
+   */
+  getBook(tokenId: string): { bids: OrderbookLevel[]; asks: OrderbookLevel[] } | undefined {
+    const book = this.books.get(tokenId);
+    if (!book) return undefined;
+    return {
+      bids: book.bids.map((l) => ({ ...l })),
+      asks: book.asks.map((l) => ({ ...l })),
+    };
+  }
+
+  // ============================================================================
+  // Trading Helpers
+  // ============================================================================
+
+  async getTickSize(tokenId: string): Promise<TickSize> {
+    return this.books.get(tokenId)?.tickSize ?? this.config.defaultTickSize;
+  }
+
+  // ============================================================================
+  // Order Creation
+  // ============================================================================
+
+  /**
+   * Create a simulated limit order.
+   * The marketable part fills immediately; for GTC/GTD the remainder rests on
+   * the book, FOK rejects unless all of it fills and FAK kills the remainder.
+   */
+  async createLimitOrder(params: LimitOrderParams): Promise<OrderResult> {
+    return this.recordOrder(await this.placeLimitOrder(params));
+  }
+
+  private async placeLimitOrder(params: LimitOrderParams): Promise<OrderResult> {
+    const minOrderSize = params.minimumOrderSize ?? MIN_ORDER_SIZE_SHARES;
+    if (params.size < minOrderSize) {
+      return orderRejection(`Order size (${params.size}) is below Polymarket minimum (${minOrderSize} shares)`);
+    }
+
+    const orderValue = params.price * params.size;
+    if (orderValue < MIN_ORDER_VALUE_USDC) {
+      return orderRejection(`Order value ($${orderValue.toFixed(2)}) is below Polymarket minimum ($${MIN_ORDER_VALUE_USDC})`);
+    }
+
+    await this.ensureBook(params.tokenId);
+    const tickSize = await this.getTickSize(params.tokenId);
+    const priceError = this.validatePrice(params.price, tickSize);
+    if (priceError) {
+      return orderRejection(priceError);
+    }
+
+    const orderType: OrderType = params.orderType ?? 'GTC';
+    if (orderType === 'GTD' && (!params.expiration || params.expiration * 1000 <= this.config.now())) {
+      return orderRejection(CLOB_ERRORS.INVALID_EXPIRATION);
+    }
+
+    const reserve = params.side === 'BUY' ? params.price * params.size : params.size;
+    if (reserve > this.getAvailable(params.side, params.tokenId) + DUST) {
+      return orderRejection(CLOB_ERRORS.BALANCE);
+    }
+
+    const book = this.books.get(params.tokenId);
+
+    if (orderType === 'FOK' || orderType === 'FAK') {
+      if (!book) {
+        return orderRejection(CLOB_ERRORS.NO_BOOK);
+      }
+      const fills = this.sweep(book, params.side, params.price, params.size, Infinity);
+      const filled = fills.reduce((sum, f) => sum + f.size, 0);
+      if (orderType === 'FOK' && params.size - filled > DUST) {
+        return orderRejection(CLOB_ERRORS.FOK_KILLED);
+      }
+      if (fills.length === 0) {
+        return orderRejection(CLOB_ERRORS.FAK_KILLED);
+      }
+
+      const sim = this.addOrder({
+        tokenId: params.tokenId,
+        side: params.side,
+        price: params.price,
+        size: params.size,
+        orderType,
+        market: book.market,
+      });
+      this.consume(book, params.side, fills);
+      this.applyFills(sim, fills, 'taker');
+      if (sim.order.status !== OrderStatus.FILLED) {
+        this.closeOrder(sim, OrderStatus.CANCELLED);
+      }
+
+      this.log(`Limit ${orderType} ${params.side} ${params.size} @ ${params.price} → ${sim.order.id} (${sim.order.status})`);
+      return { success: true, orderId: sim.order.id };
+    }
+
+    const sim = this.addOrder({
+      tokenId: params.tokenId,
+      side: params.side,
+      price: params.price,
+      size: params.size,
+      orderType,
+      market: book?.market ?? '',
+      expiration: orderType === 'GTD' ? params.expiration : undefined,
+    });
+    sim.reserved = reserve;
+
+    const fills = book ? this.sweep(book, params.side, params.price, params.size, Infinity) : [];
+    const filled = fills.reduce((sum, f) => sum + f.size, 0);
+    const rests = params.size - filled > DUST;
+
+    if (rests) {
+      this.emitUserOrder(sim, 'PLACEMENT', 0);
+    }
+    if (book && fills.length > 0) {
+      this.consume(book, params.side, fills);
+      this.applyFills(sim, fills, 'taker');
+    }
+    if (rests) {
+      this.setStatus(sim, sim.order.filledSize > DUST ? OrderStatus.PARTIALLY_FILLED : OrderStatus.OPEN);
+    }
+
+    this.log(`Limit ${params.side} ${params.size} @ ${params.price} → ${sim.order.id} (${sim.order.status})`);
+    return { success: true, orderId: sim.order.id };
+  }
+
+  /**
+   * Create a simulated market order (FOK/FAK).
+   * BUY `amount` is in USDC, SELL `amount` is in shares; `price` is the
+   * worst acceptable price.
+   */
+  async createMarketOrder(params: MarketOrderParams): Promise<OrderResult> {
+    return this.recordOrder(await this.placeMarketOrder(params));
+  }
+
+  private async placeMarketOrder(params: MarketOrderParams): Promise<OrderResult> {
+    if (params.side === 'BUY' && params.amount < MIN_ORDER_VALUE_USDC) {
+      return orderRejection(`Order amount ($${params.amount.toFixed(2)}) is below Polymarket minimum ($${MIN_ORDER_VALUE_USDC})`);
+    }
+
+    await this.ensureBook(params.tokenId);
+    const book = this.books.get(params.tokenId);
+    if (!book) {
+      return orderRejection(CLOB_ERRORS.NO_BOOK);
+    }
+
+    // SELL amount is shares: value it at the worst price, or the best bid
+    const sellPrice = params.price ?? book.bids[0]?.price;
+    if (params.side === 'SELL' && sellPrice !== undefined && params.amount * sellPrice < MIN_ORDER_VALUE_USDC) {
+      const value = params.amount * sellPrice;
+      return orderRejection(`Order value ($${value.toFixed(2)}) is below Polymarket minimum ($${MIN_ORDER_VALUE_USDC})`);
+    }
+
+    if (params.amount > this.getAvailable(params.side, params.tokenId) + DUST) {
+      return orderRejection(CLOB_ERRORS.BALANCE);
+    }
+
+    const orderType: OrderType = params.orderType === 'FAK' ? 'FAK' : 'FOK';
+    const fills = params.side === 'BUY'
+      ? this.sweep(book, 'BUY', params.price, Infinity, params.amount)
+      : this.sweep(book, 'SELL', params.price, params.amount, Infinity);
+
+    const filledShares = fills.reduce((sum, f) => sum + f.size, 0);
+    const filledNotional = fills.reduce((sum, f) => sum + f.size * f.price, 0);
+    // BUY sizes are rounded down to 0.01 shares, so allow up to a cent of unspent USDC
+    const complete = params.side === 'BUY'
+      ? params.amount - filledNotional < 0.01
+      : params.amount - filledShares <= DUST;
+
+    if (orderType === 'FOK' && !complete) {
+      return orderRejection(CLOB_ERRORS.FOK_KILLED);
+    }
+    if (fills.length === 0) {
+      return orderRejection(CLOB_ERRORS.FAK_KILLED);
+    }
+
+    // Express the order in shares, like the CLOB does for market orders
+    const lastPrice = fills[fills.length - 1].price;
+    const originalSize = params.side === 'BUY'
+      ? (complete ? filledShares : filledShares + (params.amount - filledNotional) / (params.price ?? lastPrice))
+      : params.amount;
+
+    const sim = this.addOrder({
+      tokenId: params.tokenId,
+      side: params.side,
+      price: params.price ?? lastPrice,
+      size: originalSize,
+      orderType,
+      market: book.market,
+    });
+
+    this.consume(book, params.side, fills);
+    this.applyFills(sim, fills, 'taker');
+
+    if (sim.order.status !== OrderStatus.FILLED) {
+      // FAK remainder is killed
+      this.closeOrder(sim, OrderStatus.CANCELLED);
+    }
+
+    this.log(`Market ${orderType} ${params.side} ${params.amount} → ${sim.order.id} (${sim.order.status})`);
+    return { success: true, orderId: sim.order.id };
+  }
+
+  /**
+   * Create multiple limit orders (same validation and limits as TradingService)
+   */
+  async createBatchOrders(orders: LimitOrderParams[]): Promise<OrderResult> {
+    if (orders.length === 0) {
+      return orderRejection('Batch must contain at least one order');
+    }
+
+    if (orders.length > 15) {
+      return orderRejection(`Batch size (${orders.length}) exceeds Polymarket maximum (15 orders)`);
+    }
+
+    const validationErrors: string[] = [];
+    for (let i = 0; i < orders.length; i++) {
+      const order = orders[i];
+      const minOrderSize = order.minimumOrderSize ?? MIN_ORDER_SIZE_SHARES;
+      if (order.size < minOrderSize) {
+        validationErrors.push(`Order ${i}: size (${order.size}) below minimum (${minOrderSize} shares)`);
+      }
+      const orderValue = order.price * order.size;
+      if (orderValue < MIN_ORDER_VALUE_USDC) {
+        validationErrors.push(`Order ${i}: value ($${orderValue.toFixed(2)}) below minimum ($${MIN_ORDER_VALUE_USDC})`);
+      }
+    }
+
+    if (validationErrors.length > 0) {
+      return orderRejection(`Batch validation failed:\n${validationErrors.join('\n')}`);
+    }
+
+    const successfulOrderIds: string[] = [];
+    const rejections: OrderRejection[] = [];
+
+    for (let i = 0; i < orders.length; i++) {
+      const result = await this.createLimitOrder(orders[i]);
+      if (result.success && result.orderId) {
+        successfulOrderIds.push(result.orderId);
+      } else if (result.errorMsg) {
+        const { errorMsg, errorCode, errorDetails } = orderRejection(result.errorMsg);
+        rejections.push({ index: i, errorMsg, errorCode, errorDetails });
+      }
+    }
+
+    return summarizeBatch(orders.length, successfulOrderIds, rejections);
+  }
+
+  // ============================================================================
+  // Order Management
+  // ============================================================================
+
+  async getOrder(orderId: string): Promise<Order | null> {
+    this.expireOrders();
+    const sim = this.orders.get(orderId);
+    return sim ? this.cloneOrder(sim.order) : null;
+  }
+
+  async cancelOrder(orderId: string): Promise<OrderResult> {
+    const sim = this.orders.get(orderId);
+    if (!sim || !isOrderOpen(sim.order.status)) {
+      return { success: false, orderId };
+    }
+    this.closeOrder(sim, OrderStatus.CANCELLED);
+    return { success: true, orderId };
+  }
+
+  async cancelOrders(orderIds: string[]): Promise<OrderResult> {
+    const cancelled: string[] = [];
+    for (const orderId of orderIds) {
+      const result = await this.cancelOrder(orderId);
+      if (result.success) cancelled.push(orderId);
+    }
+    return { success: cancelled.length > 0, orderIds: cancelled };
+  }
+
+  async cancelAllOrders(): Promise<OrderResult> {
+    for (const sim of this.openOrders()) {
+      this.closeOrder(sim, OrderStatus.CANCELLED);
+    }
+    return { success: true };
+  }
+
+  async cancelMarketOrders(marketId?: string, assetId?: string): Promise<OrderResult> {
+    const cancelled: string[] = [];
+    for (const sim of this.openOrders()) {
+      if (marketId && sim.market !== marketId) continue;
+      if (assetId && sim.order.tokenId !== assetId) continue;
+      this.closeOrder(sim, OrderStatus.CANCELLED);
+      cancelled.push(sim.order.id);
+    }
+    return { success: true, orderIds: cancelled };
+  }
+
+  async getOpenOrders(marketId?: string): Promise<Order[]> {
+    this.expireOrders();
+    return this.openOrders()
+      .filter((sim) => !marketId || sim.market === marketId)
+      .map((sim) => this.cloneOrder(sim.order));
+  }
+
+  async getTrades(marketId?: string): Promise<TradeInfo[]> {
+    return this.trades
+      .filter((t) => !marketId || t.market === marketId)
+      .map((t) => ({ ...t.trade, makerOrders: t.trade.makerOrders?.map((m) => ({ ...m })) }));
+  }
+
+  // ============================================================================
+  // Balance & Account
+  // ============================================================================
+
+  /**
+   * Balances in base units (6 decimals), like the CLOB balance-allowance endpoint.
+   * Allowance is always unlimited.
+   */
+  async getBalanceAllowance(
+    assetType: 'COLLATERAL' | 'CONDITIONAL',
+    tokenId?: string
+  ): Promise<{ balance: string; allowance: string }> {
+    const balance = assetType === 'COLLATERAL'
+      ? this.usdc
+      : this.positions.get(tokenId ?? '') ?? 0;
+    return { balance: toBaseUnits(balance), allowance: ethers.constants.MaxUint256.toString() };
+  }
+
+  getBalances(): SimulatedBalances {
+    const positions: Record<string, number> = {};
+    for (const [tokenId, size] of this.positions) {
+      if (size > DUST) positions[tokenId] = size;
+    }
+    return {
+      usdc: this.usdc,
+      availableUsdc: this.getAvailable('BUY'),
+      positions,
+    };
+  }
+
+  getAddress(): string {
+    return this.config.address;
+  }
+
+  getCredentials(): ApiCredentials | null {
+    return null;
+  }
+
+  // ============================================================================
+  // User Events
+  // ============================================================================
+
+  /**
+   * Subscribe to simulated order/trade events.
+   * Same handler shape as RealtimeServiceV2.subscribeUserEvents (no credentials needed).
+   */
+  subscribeUserEvents(handlers: UserDataHandlers = {}): Subscription {
+    const orderHandler = (order: UserOrder) => handlers.onOrder?.(order);
+    const tradeHandler = (trade: UserTrade) => handlers.onTrade?.(trade);
+
+    this.on('userOrder', orderHandler);
+    this.on('userTrade', tradeHandler);
+
+    return {
+      id: `sim_user_${++this.subscriptionCounter}`,
+      topic: 'clob_user',
+      type: '*',
+      unsubscribe: () => {
+        this.off('userOrder', orderHandler);
+        this.off('userTrade', tradeHandler);
+      },
+    };
+  }
+
+  // ============================================================================
+  // Private - Matching
+  // ============================================================================
+
+  /**
+   * Fetch a book via MarketService if none has been fed yet.
+   * Callers read `books` after awaiting this, so a feed update delivered in
+   * the same tick as the order (e.g. the book that triggered it) is matched.
+   */
+  private async ensureBook(tokenId: string): Promise<void> {
+    if (!this.books.has(tokenId) && this.marketService) {
+      try {
+        const book = await this.marketService.getTokenOrderbook(tokenId);
+        // A feed may have delivered a newer book while we were fetching
+        if (!this.books.has(tokenId)) {
+          this.updateBook({ ...book, tokenId });
+        }
+      } catch (error) {
+        this.log(`Failed to fetch book for ${tokenId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Walk the opposite side of the book up to `limitPrice`, `maxShares` and
+   * `maxUsdc`. Does not modify the book.
+   */
+  private sweep(
+    book: SimBook,
+    side: Side,
+    limitPrice: number | undefined,
+    maxShares: number,
+    maxUsdc: number
+  ): Fill[] {
+    const levels = side === 'BUY' ? book.asks : book.bids;
+    const fills: Fill[] = [];
+    let shares = maxShares;
+    let usdc = maxUsdc;
+
+    for (const level of levels) {
+      if (shares <= DUST || usdc <= DUST) break;
+      if (limitPrice !== undefined) {
+        const crosses = side === 'BUY'
+          ? level.price <= limitPrice + PRICE_EPSILON
+          : level.price >= limitPrice - PRICE_EPSILON;
+        if (!crosses) break;
+      }
+
+      const affordable = Number.isFinite(usdc) ? roundDownSize(usdc / level.price) : Infinity;
+      const size = Math.min(level.size, shares, affordable);
+      if (size <= DUST) break;
+
+      fills.push({ price: level.price, size });
+      shares -= size;
+      usdc -= size * level.price;
+    }
+
+    return fills;
+  }
+
+  /**
+   * Remove filled depth from the book
+   */
+  private consume(book: SimBook, side: Side, fills: Fill[]): void {
+    const levels = side === 'BUY' ? book.asks : book.bids;
+    const consumed = side === 'BUY' ? book.consumedAsks : book.consumedBids;
+    for (const fill of fills) {
+      const level = levels.find((l) => Math.abs(l.price - fill.price) < PRICE_EPSILON);
+      if (!level) continue;
+      const taken = consumed.get(level.price) ?? { feedSize: level.size, consumed: 0 };
+      taken.consumed += fill.size;
+      consumed.set(level.price, taken);
+      level.size -= fill.size;
+    }
+    const remaining = levels.filter((l) => l.size > DUST);
+    if (side === 'BUY') {
+      book.asks = remaining;
+    } else {
+      book.bids = remaining;
+    }
+  }
+
+  /**
+   * Fill resting orders on a token against its (new) book, oldest first
+   */
+  private matchRestingOrders(tokenId: string): void {
+    const book = this.books.get(tokenId);
+    if (!book) return;
+
+    for (const sim of this.openOrders()) {
+      if (sim.order.tokenId !== tokenId) continue;
+
+      const fills = this.sweep(book, sim.order.side, sim.order.price, sim.order.remainingSize, Infinity);
+      if (fills.length === 0) continue;
+
+      this.consume(book, sim.order.side, fills);
+      // Resting orders are makers and trade at their own price
+      this.applyFills(
+        sim,
+        fills.map((f) => ({ price: sim.order.price, size: f.size })),
+        'maker'
+      );
+    }
+  }
+
+  /**
+   * Book fills against an order: update balances, record trades, emit events
+   */
+  private applyFills(sim: SimOrder, fills: Fill[], role: 'taker' | 'maker'): void {
+    const order = sim.order;
+    const resting = sim.orderType === 'GTC' || sim.orderType === 'GTD';
+
+    for (const fill of fills) {
+      const notional = fill.size * fill.price;
+      const position = this.positions.get(order.tokenId) ?? 0;
+
+      if (order.side === 'BUY') {
+        this.usdc -= notional;
+        this.positions.set(order.tokenId, position + fill.size);
+        if (resting) sim.reserved = Math.max(0, sim.reserved - fill.size * order.price);
+      } else {
+        this.usdc += notional;
+        this.positions.set(order.tokenId, position - fill.size);
+        if (resting) sim.reserved = Math.max(0, sim.reserved - fill.size);
+      }
+
+      order.filledSize += fill.size;
+      order.remainingSize = Math.max(0, order.originalSize - order.filledSize);
+
+      const timestamp = this.config.now();
+      const tradeId = `sim-trade-${++this.tradeCounter}`;
+      order.associateTrades.push(tradeId);
+
+      const makerOrders = role === 'maker'
+        ? [{ orderId: order.id, matchedAmount: fill.size, price: fill.price }]
+        : undefined;
+
+      this.trades.push({
+        market: sim.market,
+        trade: {
+          id: tradeId,
+          tokenId: order.tokenId,
+          side: order.side,
+          price: fill.price,
+          size: fill.size,
+          fee: 0,
+          timestamp,
+          takerOrderId: role === 'taker' ? order.id : undefined,
+          makerOrders,
+        },
+      });
+
+      this.deliver('userTrade', {
+        tradeId,
+        market: sim.market,
+        outcome: '',
+        price: fill.price,
+        size: fill.size,
+        side: order.side,
+        status: 'MATCHED',
+        timestamp,
+        takerOrderId: role === 'taker' ? order.id : undefined,
+        makerOrders: makerOrders?.map((m) => ({ ...m, assetId: order.tokenId })),
+      } satisfies UserTrade);
+
+      this.telemetry.incrementCounter(TELEMETRY_METRICS.FILLS, 1, {
+        complete: order.remainingSize <= DUST,
+        simulated: true,
+      });
+      if (order.remainingSize <= DUST) {
+        order.remainingSize = 0;
+        this.setStatus(sim, OrderStatus.FILLED);
+      } else {
+        this.setStatus(sim, OrderStatus.PARTIALLY_FILLED);
+      }
+      this.emitUserOrder(sim, 'UPDATE', order.filledSize);
+    }
+
+    if (order.status === OrderStatus.FILLED) {
+      this.releaseReserve(sim);
+    }
+  }
+
+  /**
+   * Expire GTD orders whose expiration has passed
+   */
+  private expireOrders(): void {
+    const nowSeconds = this.config.now() / 1000;
+    for (const sim of this.openOrders()) {
+      if (sim.orderType === 'GTD' && sim.order.expiration && sim.order.expiration <= nowSeconds) {
+        this.closeOrder(sim, OrderStatus.EXPIRED);
+      }
+    }
+  }
+
+  // ============================================================================
+  // Private - Order State
+  // ============================================================================
+
+  private addOrder(params: {
+    tokenId: string;
+    side: Side;
+    price: number;
+    size: number;
+    orderType: OrderType;
+    market: string;
+    expiration?: number;
+  }): SimOrder {
+    const now = this.config.now();
+    const sim: SimOrder = {
+      order: {
+        id: `sim-order-${++this.orderCounter}`,
+        status: OrderStatus.PENDING,
+        tokenId: params.tokenId,
+        side: params.side,
+        price: params.price,
+        originalSize: params.size,
+        filledSize: 0,
+        remainingSize: params.size,
+        associateTrades: [],
+        createdAt: now,
+        updatedAt: now,
+        expiration: params.expiration,
+      },
+      market: params.market,
+      orderType: params.orderType,
+      reserved: 0,
+    };
+    this.orders.set(sim.order.id, sim);
+    return sim;
+  }
+
+  private setStatus(sim: SimOrder, status: OrderStatus): void {
+    sim.order.status = status;
+    sim.order.updatedAt = this.config.now();
+  }
+
+  /**
+   * Move an order to a terminal non-fill state and release its reservation
+   */
+  private closeOrder(sim: SimOrder, status: OrderStatus.CANCELLED | OrderStatus.EXPIRED): void {
+    this.setStatus(sim, status);
+    this.releaseReserve(sim);
+    // The user channel has no expiry event; the CLOB reports both as a cancellation
+    this.emitUserOrder(sim, 'CANCELLATION', sim.order.filledSize);
+  }
+
+  private releaseReserve(sim: SimOrder): void {
+    sim.reserved = 0;
+  }
+
+  private openOrders(): SimOrder[] {
+    return Array.from(this.orders.values()).filter((sim) => isOrderOpen(sim.order.status));
+  }
+
+  /**
+   * Balance not locked by open orders: USDC for BUY, shares of `tokenId` for SELL
+   */
+  private getAvailable(side: Side, tokenId?: string): number {
+    let reserved = 0;
+    for (const sim of this.openOrders()) {
+      if (sim.order.side !== side) continue;
+      if (side === 'SELL' && sim.order.tokenId !== tokenId) continue;
+      reserved += sim.reserved;
+    }
+    const balance = side === 'BUY' ? this.usdc : this.positions.get(tokenId ?? '') ?? 0;
+    return balance - reserved;
+  }
+
+  private validatePrice(price: number, tickSize: TickSize): string | null {
+    const tick = Number(tickSize);
+    if (price < tick - PRICE_EPSILON || price > 1 - tick + PRICE_EPSILON) {
+      return `invalid price (${price}), min: ${tick} - max: ${1 - tick}`;
+    }
+    const ticks = price / tick;
+    if (Math.abs(ticks - Math.round(ticks)) > 1e-6) {
+      return `Price (${price}) breaks minimum tick size rule: ${tickSize}`;
+    }
+    return null;
+  }
+
+  private cloneOrder(order: Order): Order {
+    return { ...order, associateTrades: [...order.associateTrades] };
+  }
+
+  // ============================================================================
+  // Private - Events
+  // ============================================================================
+
+  private emitUserOrder(sim: SimOrder, eventType: UserOrder['eventType'], sizeMatched: number): void {
+    this.deliver('userOrder', {
+      orderId: sim.order.id,
+      market: sim.market,
+      asset: sim.order.tokenId,
+      side: sim.order.side,
+      price: sim.order.price,
+      originalSize: sim.order.originalSize,
+      sizeMatched,
+      eventType,
+      timestamp: this.config.now(),
+    } satisfies UserOrder);
+  }
+
+  /**
+   * Emit after `latencyMs` so the caller sees the order ID before its events
+   */
+  private deliver(event: 'userOrder' | 'userTrade', payload: UserOrder | UserTrade): void {
+    setTimeout(() => this.emit(event, payload), this.config.latencyMs);
+  }
+
+  private recordOrder(result: OrderResult): OrderResult {
+    const event = result.success ? 'created' : 'rejected';
+    this.telemetry.incrementCounter(TELEMETRY_METRICS.ORDERS, 1, { event, simulated: true });
+    if (!result.success) {
+      this.telemetry.log('warn', `Order rejected: ${result.errorMsg}`, { service: 'SimulatedTradingService' });
+    }
+    return result;
+  }
+
+  private log(message: string): void {
+    this.telemetry.log('debug', message, { service: 'SimulatedTradingService' });
+    if (this.config.debug) {
+      console.log(`[SimulatedTrading] ${message}`);
+    }
+  }
+}
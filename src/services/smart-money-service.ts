@@ -31,7 +31,8 @@
 
 import type { WalletService, TimePeriod, PeriodLeaderboardEntry } from './wallet-service.js';
 import type { RealtimeServiceV2 } from './realtime-service-v2.js';
-import type { TradingService, OrderResult } from './trading-service.js';
+import type { TradingClient, OrderResult } from './trading-service.js';
+import { noopTelemetry, TELEMETRY_METRICS, type Telemetry } from '../core/telemetry.js';
 import type { Position, ClosedPosition, ClosedPositionsParams, DataApiClient, Activity } from '../clients/data-api.js';
 
 // ============================================================================
@@ -153,8 +154,13 @@ export interface AutoCopyTradingOptions {
   /** Only copy BUY or SELL trades */
   sideFilter?: 'BUY' | 'SELL';
 
-  /** Dry run mode */
+  /** Dry run mode (logs and skips execution) */
   dryRun?: boolean;
+  /**
+   * Execute copies through this client instead of the service's TradingService.
+   * Pass a SimulatedTradingService to paper-trade and measure actual fills.
+   */
+  tradingService?: TradingClient;
 
   /** Callbacks */
   onTrade?: (trade: SmartMoneyTrade, result: OrderResult) => void;
@@ -194,6 +200,8 @@ export interface SmartMoneyServiceConfig {
   minPnl?: number;
   /** Cache TTL (default: 300000 = 5 min) */
   cacheTtl?: number;
+  /** Receives copy-trading order counts and logs */
+  telemetry?: Telemetry;
 }
 
 // ============================================================================
@@ -683,9 +691,10 @@ interface CopyRecommendation {
 export class SmartMoneyService {
   private walletService: WalletService;
   private realtimeService: RealtimeServiceV2;
-  private tradingService: TradingService;
+  private tradingService: TradingClient;
   private dataApi: DataApiClient;
-  private config: Required<SmartMoneyServiceConfig>;
+  private config: Required<Omit<SmartMoneyServiceConfig, 'telemetry'>>;
+  private telemetry: Telemetry;
 
   private smartMoneyCache: Map<string, SmartMoneyWallet> = new Map();
   private smartMoneySet: Set<string> = new Set();
@@ -702,7 +711,7 @@ export class SmartMoneyService {
   constructor(
     walletService: WalletService,
     realtimeService: RealtimeServiceV2,
-    tradingService: TradingService,
+    tradingService: TradingClient,
     dataApi: DataApiClient,
     config: SmartMoneyServiceConfig = {}
   ) {
@@ -715,6 +724,7 @@ export class SmartMoneyService {
       minPnl: config.minPnl ?? 1000,
       cacheTtl: config.cacheTtl ?? 300000,
     };
+    this.telemetry = config.telemetry ?? noopTelemetry;
   }
 
   // ============================================================================
@@ -1071,6 +1081,7 @@ export class SmartMoneyService {
     const sideFilter = options.sideFilter;
     const delay = options.delay ?? 0;
     const dryRun = options.dryRun ?? false;
+    const tradingService = options.tradingService ?? this.tradingService;
 
     // Subscribe
     const subscription = this.subscribeSmartMoneyTrades(
@@ -1143,13 +1154,14 @@ export class SmartMoneyService {
               copy: { size: copySize.toFixed(2), usdc: usdcAmount.toFixed(2) },
             });
           } else {
-            result = await this.tradingService.createMarketOrder({
+            result = await tradingService.createMarketOrder({
               tokenId,
               side: trade.side,
               amount: usdcAmount,
               price: slippagePrice,
               orderType,
             });
+            this.recordCopyOrder(result, trade);
           }
 
           if (result.success) {
@@ -2385,6 +2397,19 @@ export class SmartMoneyService {
     return Date.now() - this.cacheTimestamp < this.config.cacheTtl && this.smartMoneyCache.size > 0;
   }
 
+  /**
+   * Count a copy-trading order placed directly on the TradingClient
+   */
+  private recordCopyOrder(result: OrderResult, trade: SmartMoneyTrade): void {
+    const event = result.success ? 'created' : 'rejected';
+    this.telemetry.incrementCounter(TELEMETRY_METRICS.ORDERS, 1, { event });
+    this.telemetry.log(
+      result.success ? 'info' : 'warn',
+      `Copy order ${event} for ${trade.traderAddress}: ${result.success ? result.orderId : result.errorMsg}`,
+      { service: 'SmartMoneyService' }
+    );
+  }
+
   disconnect(): void {
     // 停止轮询
     this.stopPolling();
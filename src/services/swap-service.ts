@@ -6,6 +6,7 @@
  */
 
 import { ethers, Contract, BigNumber } from 'ethers';
+import { noopTelemetry, traceTransaction, type Telemetry } from '../core/telemetry.js';
 
 // QuickSwap V3 Contracts on Polygon
 export const QUICKSWAP_ROUTER = '0xf5b509bB0909a69B1c207E495f687a596C168E12';
@@ -147,14 +148,21 @@ export interface TransferResult {
   gasUsed: string;
 }
 
+export interface SwapServiceConfig {
+  /** Receives an `onchain.tx` span and count per transaction */
+  telemetry?: Telemetry;
+}
+
 export class SwapService {
   private signer: ethers.Wallet;
   private provider: ethers.providers.Provider;
   private router: Contract;
   private quoter: Contract;
   private factory: Contract;
+  private telemetry: Telemetry;
 
-  constructor(signer: ethers.Wallet) {
+  constructor(signer: ethers.Wallet, config: SwapServiceConfig = {}) {
+    this.telemetry = config.telemetry ?? noopTelemetry;
     // Use signer's provider if available, otherwise create a default Polygon provider
     this.provider = signer.provider || new ethers.providers.JsonRpcProvider('https://polygon-rpc.com');
     // Ensure signer is connected to the provider
@@ -164,6 +172,13 @@ export class SwapService {
     this.factory = new Contract(QUICKSWAP_FACTORY, QUICKSWAP_FACTORY_ABI, this.provider);
   }
 
+  /**
+   * Submit a transaction and report it to telemetry (see traceTransaction)
+   */
+  private sendTransaction<T extends ethers.providers.TransactionResponse>(method: string, submit: () => Promise<T>): Promise<T> {
+    return traceTransaction(this.telemetry, method, { service: 'SwapService' }, submit);
+  }
+
   /**
    * Get dynamic gas options for Polygon network
    * Uses RPC fee data with minimum priority fee of 30 gwei
@@ -417,7 +432,9 @@ export class SwapService {
     const currentAllowance = await tokenContract.allowance(this.signer.address, QUICKSWAP_ROUTER);
 
     if (currentAllowance.lt(amountInWei)) {
-      const approveTx = await tokenContract.approve(QUICKSWAP_ROUTER, ethers.constants.MaxUint256, gasOptions);
+      const approveTx = await this.sendTransaction('approve', () =>
+        tokenContract.approve(QUICKSWAP_ROUTER, ethers.constants.MaxUint256, gasOptions)
+      );
       await approveTx.wait();
     }
 
@@ -430,7 +447,9 @@ export class SwapService {
       amountOutMinimum: 0, // For simplicity; in production use quote with slippage
     };
 
-    const tx = await this.router.exactInput(swapParams, { ...gasOptions, gasLimit: 500000 });
+    const tx = await this.sendTransaction('exactInput', () =>
+      this.router.exactInput(swapParams, { ...gasOptions, gasLimit: 500000 })
+    );
     const receipt = await tx.wait();
 
     // Get actual output amount
@@ -512,7 +531,7 @@ export class SwapService {
     const wmatic = new Contract(WMATIC, WMATIC_ABI, this.signer);
     const gasOptions = await this.getGasOptions();
 
-    const tx = await wmatic.deposit({ value: amountWei, ...gasOptions });
+    const tx = await this.sendTransaction('deposit', () => wmatic.deposit({ value: amountWei, ...gasOptions }));
     const receipt = await tx.wait();
 
     return {
@@ -534,7 +553,7 @@ export class SwapService {
     const wmatic = new Contract(WMATIC, WMATIC_ABI, this.signer);
     const gasOptions = await this.getGasOptions();
 
-    const tx = await wmatic.withdraw(amountWei, gasOptions);
+    const tx = await this.sendTransaction('withdraw', () => wmatic.withdraw(amountWei, gasOptions));
     const receipt = await tx.wait();
 
     return {
@@ -596,7 +615,9 @@ export class SwapService {
     const currentAllowance = await tokenContract.allowance(this.signer.address, QUICKSWAP_ROUTER);
 
     if (currentAllowance.lt(amountInWei)) {
-      const approveTx = await tokenContract.approve(QUICKSWAP_ROUTER, ethers.constants.MaxUint256, gasOptions);
+      const approveTx = await this.sendTransaction('approve', () =>
+        tokenContract.approve(QUICKSWAP_ROUTER, ethers.constants.MaxUint256, gasOptions)
+      );
       await approveTx.wait();
     }
 
@@ -636,7 +657,9 @@ export class SwapService {
       limitSqrtPrice: 0,
     };
 
-    const tx = await this.router.exactInputSingle(swapParams, { ...gasOptions, gasLimit: 300000 });
+    const tx = await this.sendTransaction('exactInputSingle', () =>
+      this.router.exactInputSingle(swapParams, { ...gasOptions, gasLimit: 300000 })
+    );
     const receipt = await tx.wait();
 
     // Get actual output amount
@@ -798,12 +821,12 @@ export class SwapService {
 
     const gasOptions = await this.getGasOptions();
 
-    const tx = await this.signer.sendTransaction({
+    const tx = await this.sendTransaction('transferMatic', () => this.signer.sendTransaction({
       to,
       value: amountWei,
       ...gasOptions,
       gasLimit: 21000, // Standard ETH transfer gas limit
-    });
+    }));
     const receipt = await tx.wait();
 
     return {
@@ -841,10 +864,10 @@ export class SwapService {
 
     const gasOptions = await this.getGasOptions();
 
-    const tx = await contract.transfer(to, amountWei, {
+    const tx = await this.sendTransaction('transfer', () => contract.transfer(to, amountWei, {
       ...gasOptions,
       gasLimit: 100000, // ERC20 transfer gas limit (USDC.e needs ~71k)
-    });
+    }));
     const receipt = await tx.wait();
 
     return {
@@ -28,12 +28,14 @@ import {
 } from '@polymarket/clob-client';
 
 import { Wallet } from 'ethers';
-import { RateLimiter, ApiType } from '../core/rate-limiter.js';
+import { RateLimiter, ApiType, ClobEndpoint } from '../core/rate-limiter.js';
 import type { UnifiedCache } from '../core/unified-cache.js';
 import { CACHE_TTL } from '../core/unified-cache.js';
 import { PolymarketError, ErrorCode } from '../core/errors.js';
-import type { Side, OrderType } from '../core/types.js';
-import { OrderStatus } from '../core/types.js';
+import { orderFailure, orderRejection, type ClobRejectionDetails } from '../core/clob-errors.js';
+import type { Side, OrderType, PolymarketEndpoints } from '../core/types.js';
+import type { Subscription, UserDataHandlers } from './realtime-service-v2.js';
+import { OrderStatus, SignatureType } from '../core/types.js';
 import {
   mapApiStatusToInternal,
   isOrderOpen,
@@ -45,9 +47,43 @@ import {
 export const POLYGON_MAINNET = 137;
 export const POLYGON_AMOY = 80002;
 
+// SignatureType of @polymarket/order-utils (not a direct dependency);
+// values are identical to our SignatureType enum
+type ClobSignatureType = ConstructorParameters<typeof ClobClient>[4];
+
 // CLOB Host
 const CLOB_HOST = 'https://clob.polymarket.com';
 
+// Limiter errors thrown before an order reaches the CLOB
+const UNSENT_ORDER_CODES = [ErrorCode.CIRCUIT_OPEN, ErrorCode.TIMEOUT, ErrorCode.ABORTED];
+
+const toClobOrderType = (orderType: LimitOrderParams['orderType']): ClobOrderType =>
+  orderType === 'GTD' ? ClobOrderType.GTD
+    : orderType === 'FOK' ? ClobOrderType.FOK
+      : orderType === 'FAK' ? ClobOrderType.FAK
+        : ClobOrderType.GTC;
+
+/**
+ * POST /order response, or the client's `{ error, status }` on HTTP errors
+ */
+/**
+ * Per-token options the CLOB client needs to sign an order
+ */
+interface TokenOrderOptions {
+  tickSize: TickSize;
+  negRisk: boolean;
+}
+
+interface ClobOrderResponse {
+  success?: boolean;
+  orderID?: string;
+  orderIDs?: string[];
+  errorMsg?: string;
+  transactionsHashes?: string[];
+  error?: unknown;
+  status?: number;
+}
+
 // ============================================================================
 // Polymarket Order Minimums
 // ============================================================================
@@ -92,6 +128,16 @@ export interface TradingServiceConfig {
   chainId?: number;
   /** Pre-generated API credentials (optional) */
   credentials?: ApiCredentials;
+  /** Endpoint overrides (uses `clob`) */
+  endpoints?: PolymarketEndpoints;
+  /**
+   * Who holds the funds (default: EOA - the signing wallet itself).
+   * Use POLY_PROXY / POLY_GNOSIS_SAFE to trade a Polymarket proxy wallet or
+   * Safe with its owner key; `funderAddress` is then required.
+   */
+  signatureType?: SignatureType;
+  /** Proxy wallet / Safe address holding the funds (the address shown on polymarket.com) */
+  funderAddress?: string;
 }
 
 // Order types
@@ -100,7 +146,8 @@ export interface LimitOrderParams {
   side: Side;
   price: number;
   size: number;
-  orderType?: 'GTC' | 'GTD';
+  /** GTC/GTD rest on the book; FOK/FAK fill `size` shares at `price` or better immediately (FAK kills the rest) */
+  orderType?: 'GTC' | 'GTD' | 'FOK' | 'FAK';
   expiration?: number;
   /** Market-specific minimum order size (from CLOB API). Falls back to MIN_ORDER_SIZE_SHARES if not provided. */
   minimumOrderSize?: number;
@@ -155,9 +202,23 @@ export interface OrderResult {
   orderId?: string;
   orderIds?: string[];
   errorMsg?: string;
+  /** Why the order failed, classified from errorMsg (see classifyClobRejection) */
+  errorCode?: ErrorCode;
+  /** Values parsed from errorMsg (tick size, minimum size, balance, ...) */
+  errorDetails?: ClobRejectionDetails;
+  /** Batch orders: each order the CLOB rejected */
+  rejections?: OrderRejection[];
   transactionHashes?: string[];
 }
 
+export interface OrderRejection {
+  /** Position of the order in the batch */
+  index: number;
+  errorMsg: string;
+  errorCode: ErrorCode;
+  errorDetails: ClobRejectionDetails;
+}
+
 export interface TradeInfo {
   id: string;
   tokenId: string;
@@ -166,6 +227,11 @@ export interface TradeInfo {
   size: number;
   fee: number;
   timestamp: number;
+  /** Order that took liquidity in this trade */
+  takerOrderId?: string;
+  /** Resting orders matched by this trade, with each order's own fill */
+  makerOrders?: Array<{ orderId: string; matchedAmount: number; price: number }>;
+  transactionHash?: string;
 }
 
 // Rewards types
@@ -302,8 +368,9 @@ export class TradingService {
   private chainId: Chain;
   private credentials: ApiCredentials | null = null;
   private initialized = false;
-  private tickSizeCache: Map<string, string> = new Map();
-  private negRiskCache: Map<string, boolean> = new Map();
+  private clobHost: string;
+  private signatureType: SignatureType;
+  private funderAddress: string;
 
   constructor(
     private rateLimiter: RateLimiter,
@@ -313,6 +380,16 @@ export class TradingService {
     this.wallet = new Wallet(config.privateKey);
     this.chainId = (config.chainId || POLYGON_MAINNET) as Chain;
     this.credentials = config.credentials || null;
+    this.clobHost = config.endpoints?.clob || CLOB_HOST;
+    this.signatureType = config.signatureType ?? SignatureType.EOA;
+
+    if (this.signatureType !== SignatureType.EOA && !config.funderAddress) {
+      throw new PolymarketError(
+        ErrorCode.INVALID_CONFIG,
+        `funderAddress is required for signature type ${SignatureType[this.signatureType]}`
+      );
+    }
+    this.funderAddress = config.funderAddress ?? this.wallet.address;
   }
 
   // ============================================================================
@@ -323,7 +400,16 @@ export class TradingService {
     if (this.initialized) return;
 
     // Create CLOB client with L1 auth (wallet)
-    this.clobClient = new ClobClient(CLOB_HOST, this.chainId, this.wallet);
+    // Signature type and funder are baked into the client's order builder and
+    // also select which account balance-allowance queries report on
+    this.clobClient = new ClobClient(
+      this.clobHost,
+      this.chainId,
+      this.wallet,
+      undefined,
+      this.signatureType as ClobSignatureType,
+      this.funderAddress
+    );
 
     // Get or create API credentials
     // We use derive-first strategy (opposite of official createOrDeriveApiKey)
@@ -339,14 +425,16 @@ export class TradingService {
 
     // Re-initialize with L2 auth (credentials)
     this.clobClient = new ClobClient(
-      CLOB_HOST,
+      this.clobHost,
       this.chainId,
       this.wallet,
       {
         key: this.credentials.key,
         secret: this.credentials.secret,
         passphrase: this.credentials.passphrase,
-      }
+      },
+      this.signatureType as ClobSignatureType,
+      this.funderAddress
     );
 
     this.initialized = true;
@@ -375,6 +463,39 @@ export class TradingService {
     return created;
   }
 
+  /**
+   * The CLOB client returns HTTP errors as `{ error, status }` instead of throwing,
+   * so 429s and server failures have to be handed to the rate limiter explicitly.
+   */
+  private reportClobResult(result: unknown, endpoint: ClobEndpoint): void {
+    this.rateLimiter.reportResult(ApiType.CLOB_API, result, endpoint);
+  }
+
+  /**
+   * Map a CLOB post-order response (or `{ error, status }`) to an OrderResult
+   */
+  private toOrderResult(result: ClobOrderResponse): OrderResult {
+    const success = result.success === true ||
+      (result.success !== false &&
+        ((result.orderID !== undefined && result.orderID !== '') ||
+          (result.transactionsHashes !== undefined && result.transactionsHashes.length > 0)));
+
+    if (success) {
+      return {
+        success,
+        orderId: result.orderID,
+        orderIds: result.orderIDs,
+        transactionHashes: result.transactionsHashes,
+      };
+    }
+
+    const errorMsg = String(result.errorMsg || result.error || 'Order was not accepted');
+    // `{ error }` without a status: the request never got a response
+    return result.error !== undefined && result.status === undefined
+      ? orderFailure(errorMsg)
+      : orderRejection(errorMsg, result.status);
+  }
+
   private async ensureInitialized(): Promise<ClobClient> {
     if (!this.initialized || !this.clobClient) {
       await this.initialize();
@@ -390,28 +511,35 @@ export class TradingService {
    * Get tick size for a token
    */
   async getTickSize(tokenId: string): Promise<TickSize> {
-    if (this.tickSizeCache.has(tokenId)) {
-      return this.tickSizeCache.get(tokenId)! as TickSize;
-    }
+    return this.cache.getOrSet(`clob:tickSize:${tokenId}`, CACHE_TTL.TICK_SIZE, async () => {
+      const client = await this.ensureInitialized();
+      return this.rateLimiter.execute(ApiType.CLOB_API, () => client.getTickSize(tokenId));
+    });
+  }
 
-    const client = await this.ensureInitialized();
-    const tickSize = await client.getTickSize(tokenId);
-    this.tickSizeCache.set(tokenId, tickSize);
-    return tickSize;
+  /**
+   * Replace the cached tick size for a token (e.g. on a realtime tick_size_change)
+   */
+  async setTickSize(tokenId: string, tickSize: TickSize): Promise<void> {
+    await this.cache.set(`clob:tickSize:${tokenId}`, tickSize, CACHE_TTL.TICK_SIZE);
+  }
+
+  /**
+   * Drop the cached tick size and neg-risk flag for a token
+   */
+  async invalidateTokenMetadata(tokenId: string): Promise<void> {
+    await this.cache.delete(`clob:tickSize:${tokenId}`);
+    await this.cache.delete(`clob:negRisk:${tokenId}`);
   }
 
   /**
    * Check if token is neg risk
    */
   async isNegRisk(tokenId: string): Promise<boolean> {
-    if (this.negRiskCache.has(tokenId)) {
-      return this.negRiskCache.get(tokenId)!;
-    }
-
-    const client = await this.ensureInitialized();
-    const negRisk = await client.getNegRisk(tokenId);
-    this.negRiskCache.set(tokenId, negRisk);
-    return negRisk;
+    return this.cache.getOrSet(`clob:negRisk:${tokenId}`, CACHE_TTL.TICK_SIZE, async () => {
+      const client = await this.ensureInitialized();
+      return this.rateLimiter.execute(ApiType.CLOB_API, () => client.getNegRisk(tokenId));
+    });
   }
 
   // ============================================================================
@@ -432,60 +560,36 @@ export class TradingService {
     // Use market-specific minimum if provided, otherwise fall back to global default
     const minOrderSize = params.minimumOrderSize ?? MIN_ORDER_SIZE_SHARES;
     if (params.size < minOrderSize) {
-      return {
-        success: false,
-        errorMsg: `Order size (${params.size}) is below Polymarket minimum (${minOrderSize} shares)`,
-      };
+      return orderRejection(`Order size (${params.size}) is below Polymarket minimum (${minOrderSize} shares)`);
     }
 
     const orderValue = params.price * params.size;
     if (orderValue < MIN_ORDER_VALUE_USDC) {
-      return {
-        success: false,
-        errorMsg: `Order value ($${orderValue.toFixed(2)}) is below Polymarket minimum ($${MIN_ORDER_VALUE_USDC})`,
-      };
+      return orderRejection(`Order value ($${orderValue.toFixed(2)}) is below Polymarket minimum ($${MIN_ORDER_VALUE_USDC})`);
     }
 
     const client = await this.ensureInitialized();
 
-    return this.rateLimiter.execute(ApiType.CLOB_API, async () => {
+    return this.submitOrder([params.tokenId], async (tokenOptions) => {
       try {
-        const [tickSize, negRisk] = await Promise.all([
-          this.getTickSize(params.tokenId),
-          this.isNegRisk(params.tokenId),
-        ]);
-
-        const orderType = params.orderType === 'GTD' ? ClobOrderType.GTD : ClobOrderType.GTC;
-
-        const result = await client.createAndPostOrder(
-          {
-            tokenID: params.tokenId,
-            side: params.side === 'BUY' ? ClobSide.BUY : ClobSide.SELL,
-            price: params.price,
-            size: params.size,
-            expiration: params.expiration || 0,
-          },
-          { tickSize, negRisk },
-          orderType
-        );
-
-        const success = result.success === true ||
-          (result.success !== false &&
-            ((result.orderID !== undefined && result.orderID !== '') ||
-              (result.transactionsHashes !== undefined && result.transactionsHashes.length > 0)));
-
-        return {
-          success,
-          orderId: result.orderID,
-          orderIds: result.orderIDs,
-          errorMsg: result.errorMsg,
-          transactionHashes: result.transactionsHashes,
+        const { tickSize, negRisk } = tokenOptions.get(params.tokenId)!;
+
+        const userOrder = {
+          tokenID: params.tokenId,
+          side: params.side === 'BUY' ? ClobSide.BUY : ClobSide.SELL,
+          price: params.price,
+          size: params.size,
+          expiration: params.expiration || 0,
         };
+
+        // createAndPostOrder only takes resting order types
+        const result = params.orderType === 'FOK' || params.orderType === 'FAK'
+          ? await client.postOrder(await client.createOrder(userOrder, { tickSize, negRisk }), toClobOrderType(params.orderType))
+          : await client.createAndPostOrder(userOrder, { tickSize, negRisk }, params.orderType === 'GTD' ? ClobOrderType.GTD : ClobOrderType.GTC);
+        this.reportClobResult(result, ClobEndpoint.ORDER);
+        return this.toOrderResult(result);
       } catch (error) {
-        return {
-          success: false,
-          errorMsg: `Order failed: ${error instanceof Error ? error.message : String(error)}`,
-        };
+        return orderFailure(`Order failed: ${error instanceof Error ? error.message : String(error)}`);
       }
     });
   }
@@ -501,20 +605,14 @@ export class TradingService {
   async createMarketOrder(params: MarketOrderParams): Promise<OrderResult> {
     // Validate minimum order value before sending to API
     if (params.amount < MIN_ORDER_VALUE_USDC) {
-      return {
-        success: false,
-        errorMsg: `Order amount ($${params.amount.toFixed(2)}) is below Polymarket minimum ($${MIN_ORDER_VALUE_USDC})`,
-      };
+      return orderRejection(`Order amount ($${params.amount.toFixed(2)}) is below Polymarket minimum ($${MIN_ORDER_VALUE_USDC})`);
     }
 
     const client = await this.ensureInitialized();
 
-    return this.rateLimiter.execute(ApiType.CLOB_API, async () => {
+    return this.submitOrder([params.tokenId], async (tokenOptions) => {
       try {
-        const [tickSize, negRisk] = await Promise.all([
-          this.getTickSize(params.tokenId),
-          this.isNegRisk(params.tokenId),
-        ]);
+        const { tickSize, negRisk } = tokenOptions.get(params.tokenId)!;
 
         const orderType = params.orderType === 'FAK' ? ClobOrderType.FAK : ClobOrderType.FOK;
 
@@ -528,24 +626,10 @@ export class TradingService {
           { tickSize, negRisk },
           orderType
         );
-
-        const success = result.success === true ||
-          (result.success !== false &&
-            ((result.orderID !== undefined && result.orderID !== '') ||
-              (result.transactionsHashes !== undefined && result.transactionsHashes.length > 0)));
-
-        return {
-          success,
-          orderId: result.orderID,
-          orderIds: result.orderIDs,
-          errorMsg: result.errorMsg,
-          transactionHashes: result.transactionsHashes,
-        };
+        this.reportClobResult(result, ClobEndpoint.ORDER);
+        return this.toOrderResult(result);
       } catch (error) {
-        return {
-          success: false,
-          errorMsg: `Market order failed: ${error instanceof Error ? error.message : String(error)}`,
-        };
+        return orderFailure(`Market order failed: ${error instanceof Error ? error.message : String(error)}`);
       }
     });
   }
@@ -566,17 +650,11 @@ export class TradingService {
   async createBatchOrders(orders: LimitOrderParams[]): Promise<OrderResult> {
     // Validate batch size
     if (orders.length === 0) {
-      return {
-        success: false,
-        errorMsg: 'Batch must contain at least one order',
-      };
+      return orderRejection('Batch must contain at least one order');
     }
 
     if (orders.length > 15) {
-      return {
-        success: false,
-        errorMsg: `Batch size (${orders.length}) exceeds Polymarket maximum (15 orders)`,
-      };
+      return orderRejection(`Batch size (${orders.length}) exceeds Polymarket maximum (15 orders)`);
     }
 
     // Validate each order
@@ -595,35 +673,19 @@ export class TradingService {
     }
 
     if (validationErrors.length > 0) {
-      return {
-        success: false,
-        errorMsg: `Batch validation failed:\n${validationErrors.join('\n')}`,
-      };
+      return orderRejection(`Batch validation failed:\n${validationErrors.join('\n')}`);
     }
 
     const client = await this.ensureInitialized();
 
-    return this.rateLimiter.execute(ApiType.CLOB_API, async () => {
+    // Step 1: Tick sizes and neg risk flags are resolved by submitOrder
+    return this.submitOrder(orders.map(o => o.tokenId), async (tokenOptions) => {
       try {
-        // Step 1: Get tick sizes and neg risk flags for all unique tokens
-        const uniqueTokenIds = [...new Set(orders.map(o => o.tokenId))];
-        const tokenMetadata = new Map<string, { tickSize: TickSize; negRisk: boolean }>();
-
-        await Promise.all(
-          uniqueTokenIds.map(async tokenId => {
-            const [tickSize, negRisk] = await Promise.all([
-              this.getTickSize(tokenId),
-              this.isNegRisk(tokenId),
-            ]);
-            tokenMetadata.set(tokenId, { tickSize, negRisk });
-          })
-        );
-
         // Step 2: Create signed orders (without posting)
         const signedOrders = await Promise.all(
           orders.map(async order => {
-            const metadata = tokenMetadata.get(order.tokenId)!;
-            const orderType = order.orderType === 'GTD' ? ClobOrderType.GTD : ClobOrderType.GTC;
+            const metadata = tokenOptions.get(order.tokenId)!;
+            const orderType = toClobOrderType(order.orderType);
 
             return {
               signedOrder: await client.createOrder(
@@ -651,10 +713,11 @@ export class TradingService {
         }));
 
         const results = await client.postOrders(batchArgs);
+        this.reportClobResult(results, ClobEndpoint.ORDER);
 
         // Step 4: Process batch response
         const successfulOrderIds: string[] = [];
-        const errors: string[] = [];
+        const rejections: OrderRejection[] = [];
 
         if (Array.isArray(results)) {
           results.forEach((result, index) => {
@@ -663,30 +726,60 @@ export class TradingService {
                 successfulOrderIds.push(result.orderID);
               }
             } else if (result.errorMsg) {
-              errors.push(`Order ${index}: ${result.errorMsg}`);
+              const { errorMsg, errorCode, errorDetails } = orderRejection(result.errorMsg);
+              rejections.push({ index, errorMsg, errorCode, errorDetails });
             }
           });
+        } else {
+          // `{ error, status }`: the whole batch was refused
+          const failed = this.toOrderResult(results);
+          if (!failed.success) return failed;
         }
 
-        const totalSuccess = successfulOrderIds.length;
-        const totalFailed = orders.length - totalSuccess;
-
-        return {
-          success: totalSuccess > 0,
-          orderIds: successfulOrderIds,
-          errorMsg: errors.length > 0
-            ? `Batch: ${totalSuccess} succeeded, ${totalFailed} failed.\n${errors.join('\n')}`
-            : undefined,
-        };
+        return summarizeBatch(orders.length, successfulOrderIds, rejections);
       } catch (error) {
-        return {
-          success: false,
-          errorMsg: `Batch order failed: ${error instanceof Error ? error.message : String(error)}`,
-        };
+        return orderFailure(`Batch order failed: ${error instanceof Error ? error.message : String(error)}`);
       }
     });
   }
 
+  /**
+   * Post through the ORDER rate limit. The limiter fails fast with CIRCUIT_OPEN
+   * (and TIMEOUT / ABORTED) before the order is sent; those come back as a
+   * failed OrderResult like any other unsent order.
+   *
+   * Tick size and neg-risk of `tokenIds` are looked up first, as CLOB_API
+   * requests of their own: inside the ORDER slot they would wait on the
+   * general bucket while holding an ORDER token, and a failed lookup would
+   * count as a successful order request (closing a half-open breaker).
+   */
+  private async submitOrder(
+    tokenIds: string[],
+    post: (tokenOptions: Map<string, TokenOrderOptions>) => Promise<OrderResult>
+  ): Promise<OrderResult> {
+    try {
+      let tokenOptions: Map<string, TokenOrderOptions>;
+      try {
+        tokenOptions = new Map(await Promise.all(
+          [...new Set(tokenIds)].map(async (tokenId) => {
+            const [tickSize, negRisk] = await Promise.all([this.getTickSize(tokenId), this.isNegRisk(tokenId)]);
+            return [tokenId, { tickSize, negRisk }] as const;
+          })
+        ));
+      } catch (error) {
+        if (error instanceof PolymarketError && UNSENT_ORDER_CODES.includes(error.code)) throw error;
+        return orderFailure(`Tick size / neg risk lookup failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      return await this.rateLimiter.execute(ApiType.CLOB_API, () => post(tokenOptions), ClobEndpoint.ORDER);
+    } catch (error) {
+      if (error instanceof PolymarketError && UNSENT_ORDER_CODES.includes(error.code)) {
+        return { ...orderFailure(error.message), errorCode: error.code };
+      }
+      throw error;
+    }
+  }
+
   // ============================================================================
   // Order Management
   // ============================================================================
@@ -746,6 +839,7 @@ export class TradingService {
     return this.rateLimiter.execute(ApiType.CLOB_API, async () => {
       try {
         const result = await client.cancelOrder({ orderID: orderId });
+        this.reportClobResult(result, ClobEndpoint.CANCEL);
         return { success: result.canceled ?? false, orderId };
       } catch (error) {
         throw new PolymarketError(
@@ -753,7 +847,7 @@ export class TradingService {
           `Cancel failed: ${error instanceof Error ? error.message : String(error)}`
         );
       }
-    });
+    }, ClobEndpoint.CANCEL);
   }
 
   async cancelOrders(orderIds: string[]): Promise<OrderResult> {
@@ -762,6 +856,7 @@ export class TradingService {
     return this.rateLimiter.execute(ApiType.CLOB_API, async () => {
       try {
         const result = await client.cancelOrders(orderIds);
+        this.reportClobResult(result, ClobEndpoint.CANCEL);
         return { success: result.canceled ?? false, orderIds };
       } catch (error) {
         throw new PolymarketError(
@@ -769,7 +864,7 @@ export class TradingService {
           `Cancel orders failed: ${error instanceof Error ? error.message : String(error)}`
         );
       }
-    });
+    }, ClobEndpoint.CANCEL);
   }
 
   async cancelAllOrders(): Promise<OrderResult> {
@@ -778,6 +873,7 @@ export class TradingService {
     return this.rateLimiter.execute(ApiType.CLOB_API, async () => {
       try {
         const result = await client.cancelAll();
+        this.reportClobResult(result, ClobEndpoint.CANCEL);
         return { success: result.canceled ?? false };
       } catch (error) {
         throw new PolymarketError(
@@ -785,7 +881,7 @@ export class TradingService {
           `Cancel all failed: ${error instanceof Error ? error.message : String(error)}`
         );
       }
-    });
+    }, ClobEndpoint.CANCEL);
   }
 
   /**
@@ -801,6 +897,7 @@ export class TradingService {
     return this.rateLimiter.execute(ApiType.CLOB_API, async () => {
       try {
         const result = await client.cancelMarketOrders({ market: marketId, asset_id: assetId });
+        this.reportClobResult(result, ClobEndpoint.CANCEL);
         return {
           success: (result.canceled?.length ?? 0) > 0 || Object.keys(result.not_canceled || {}).length === 0,
           orderIds: result.canceled,
@@ -811,7 +908,7 @@ export class TradingService {
           `Cancel market orders failed: ${error instanceof Error ? error.message : String(error)}`
         );
       }
-    });
+    }, ClobEndpoint.CANCEL);
   }
 
   async getOpenOrders(marketId?: string): Promise<Order[]> {
@@ -902,6 +999,13 @@ export class TradingService {
         size: Number(t.size) || 0,
         fee: Number(t.fee_rate_bps) || 0,
         timestamp: Number(t.match_time) || Date.now(),
+        takerOrderId: t.taker_order_id,
+        makerOrders: (t.maker_orders || []).map((m) => ({
+          orderId: m.order_id,
+          matchedAmount: Number(m.matched_amount) || 0,
+          price: Number(m.price) || 0,
+        })),
+        transactionHash: t.transaction_hash || undefined,
       }));
     });
   }
@@ -1200,6 +1304,17 @@ export class TradingService {
     return this.wallet.address;
   }
 
+  /**
+   * Address holding the funds: the proxy wallet / Safe, or the signer for EOA
+   */
+  getFunderAddress(): string {
+    return this.funderAddress;
+  }
+
+  getSignatureType(): SignatureType {
+    return this.signatureType;
+  }
+
   getWallet(): Wallet {
     return this.wallet;
   }
@@ -1217,3 +1332,62 @@ export class TradingService {
   }
 
 }
+
+/**
+ * Order-execution surface of TradingService.
+ *
+ * Services that place orders (OrderManager, ArbitrageService, DipArbService,
+ * SmartMoneyService) accept any implementation of this, so a
+ * SimulatedTradingService can stand in for the live CLOB.
+ */
+export type TradingClient = Pick<
+  TradingService,
+  | 'initialize'
+  | 'getTickSize'
+  | 'createLimitOrder'
+  | 'createMarketOrder'
+  | 'createBatchOrders'
+  | 'getOrder'
+  | 'cancelOrder'
+  | 'cancelOrders'
+  | 'cancelAllOrders'
+  | 'cancelMarketOrders'
+  | 'getOpenOrders'
+  | 'getTrades'
+  | 'getBalanceAllowance'
+  | 'getAddress'
+  | 'getCredentials'
+  | 'isInitialized'
+>;
+
+/**
+ * A TradingClient that emits its own user channel events (e.g.
+ * SimulatedTradingService). OrderManager subscribes to it instead of
+ * opening the user WebSocket.
+ */
+export interface UserEventSource {
+  subscribeUserEvents(handlers: UserDataHandlers): Subscription;
+}
+
+export function isUserEventSource(client: TradingClient): client is TradingClient & UserEventSource {
+  return typeof (client as Partial<UserEventSource>).subscribeUserEvents === 'function';
+}
+
+/**
+ * Batch OrderResult: succeeds if any order was accepted. errorCode is the
+ * rejections' shared code, or ORDER_REJECTED when they differ.
+ */
+export function summarizeBatch(total: number, orderIds: string[], rejections: OrderRejection[]): OrderResult {
+  const failed = total - orderIds.length;
+  const codes = new Set(rejections.map((r) => r.errorCode));
+
+  return {
+    success: orderIds.length > 0,
+    orderIds,
+    errorMsg: rejections.length > 0
+      ? `Batch: ${orderIds.length} succeeded, ${failed} failed.\n${rejections.map((r) => `Order ${r.index}: ${r.errorMsg}`).join('\n')}`
+      : undefined,
+    errorCode: rejections.length === 0 ? undefined : codes.size === 1 ? rejections[0].errorCode : ErrorCode.ORDER_REJECTED,
+    rejections: rejections.length > 0 ? rejections : undefined,
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Wallet History Store
+ *
+ * Persistent store for WalletSyncService: the records synced so far for
+ * each tracked address, plus the high-water mark of each source.
+ *
+ * Records are only ever appended (each sync adds what is newer than the
+ * mark), so stores keep one ordered list per source and answer time-range
+ * queries without handing over the whole history.
+ *
+ * Implementations:
+ * - InMemoryWalletHistoryStore: default, process-local
+ * - FileWalletHistoryStore: one JSON-lines file per address and source,
+ *   appended to, with a state file written atomically (tmp + rename)
+ *
+ * Custom stores (SQLite, Redis, ...) only need to implement `WalletHistoryStore`.
+ */
+
+import { readFile, writeFile, appendFile, rename, mkdir, rm, stat, truncate } from 'fs/promises';
+import { join } from 'path';
+import type { Activity, Trade } from '../clients/data-api.js';
+import type { Split, Merge, Redemption } from '../clients/subgraph.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WalletSyncSource = 'trades' | 'activity' | 'splits' | 'merges' | 'redemptions';
+
+export const WALLET_SYNC_SOURCES: readonly WalletSyncSource[] = ['trades', 'activity', 'splits', 'merges', 'redemptions'];
+
+/**
+ * Records synced for one address, each list sorted oldest first
+ */
+export interface WalletHistoryRecords {
+  trades: Trade[];
+  activity: Activity[];
+  splits: Split[];
+  merges: Merge[];
+  redemptions: Redemption[];
+}
+
+export type WalletHistoryRecord<S extends WalletSyncSource> = WalletHistoryRecords[S][number];
+
+/**
+ * Sync progress of one address
+ */
+export interface WalletSyncState {
+  /** Newest record timestamp per source (Unix ms); absent until the source's first sync */
+  highWaterMarks: Partial<Record<WalletSyncSource, number>>;
+  /** When the last sync completed (Unix ms) */
+  syncedAt?: number;
+}
+
+/**
+ * Full stored history of one address
+ */
+export interface WalletHistory extends WalletHistoryRecords, WalletSyncState {
+  /** Lowercased wallet address */
+  address: string;
+}
+
+/**
+ * Time range for queries (Unix ms, inclusive)
+ */
+export interface WalletHistoryFilter {
+  since?: number;
+  until?: number;
+}
+
+/**
+ * Pluggable store for synced wallet histories
+ *
+ * Query results may share record objects with the store; treat them as read-only.
+ */
+export interface WalletHistoryStore {
+  /** Sync state of an address (null if never synced) */
+  getState(address: string): Promise<WalletSyncState | null>;
+  /** Stored records of one source within `range`, oldest first */
+  query<S extends WalletSyncSource>(address: string, source: S, range?: WalletHistoryFilter): Promise<WalletHistoryRecords[S]>;
+  /**
+   * Append records (each list oldest first, none older than what is stored)
+   * and replace the sync state
+   */
+  append(address: string, records: Partial<WalletHistoryRecords>, state: WalletSyncState): Promise<void>;
+  /** Remove an address (no-op if absent) */
+  remove(address: string): Promise<void>;
+}
+
+/**
+ * Timestamp of a stored record in Unix ms (subgraph events carry seconds)
+ */
+export function recordTimestamp<S extends WalletSyncSource>(source: S, record: WalletHistoryRecord<S>): number {
+  return source === 'trades' || source === 'activity'
+    ? (record as Trade | Activity).timestamp
+    : Number((record as Split | Merge | Redemption).timestamp) * 1000;
+}
+
+/**
+ * Records of a sorted list within `range`, found by binary search
+ */
+function sliceRange<S extends WalletSyncSource>(
+  source: S,
+  records: WalletHistoryRecords[S],
+  { since, until }: WalletHistoryFilter
+): WalletHistoryRecords[S] {
+  const list = records as WalletHistoryRecord<S>[];
+  // First index whose timestamp is >= bound (or > bound when `after`)
+  const search = (bound: number, after: boolean) => {
+    let lo = 0;
+    let hi = list.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      const timestamp = recordTimestamp(source, list[mid]);
+      if (timestamp < bound || (after && timestamp === bound)) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  const start = since === undefined ? 0 : search(since, false);
+  const end = until === undefined ? list.length : search(until, true);
+  return list.slice(start, end) as WalletHistoryRecords[S];
+}
+
+const cloneState = (state: WalletSyncState): WalletSyncState => ({
+  highWaterMarks: { ...state.highWaterMarks },
+  syncedAt: state.syncedAt,
+});
+
+// ============================================================================
+// InMemoryWalletHistoryStore
+// ============================================================================
+
+interface StoredHistory {
+  state: WalletSyncState;
+  records: WalletHistoryRecords;
+}
+
+export class InMemoryWalletHistoryStore implements WalletHistoryStore {
+  private histories: Map<string, StoredHistory> = new Map();
+
+  async getState(address: string): Promise<WalletSyncState | null> {
+    const history = this.histories.get(address.toLowerCase());
+    return history ? cloneState(history.state) : null;
+  }
+
+  async query<S extends WalletSyncSource>(
+    address: string,
+    source: S,
+    range: WalletHistoryFilter = {}
+  ): Promise<WalletHistoryRecords[S]> {
+    const records = this.histories.get(address.toLowerCase())?.records[source];
+    return records ? sliceRange(source, records, range) : ([] as WalletHistoryRecords[S]);
+  }
+
+  async append(address: string, records: Partial<WalletHistoryRecords>, state: WalletSyncState): Promise<void> {
+    const key = address.toLowerCase();
+    const history = this.histories.get(key) ?? {
+      state: { highWaterMarks: {} },
+      records: { trades: [], activity: [], splits: [], merges: [], redemptions: [] },
+    };
+    for (const source of WALLET_SYNC_SOURCES) {
+      const fresh = records[source];
+      if (fresh?.length) {
+        (history.records[source] as WalletHistoryRecord<typeof source>[]).push(...fresh);
+      }
+    }
+    history.state = cloneState(state);
+    this.histories.set(key, history);
+  }
+
+  async remove(address: string): Promise<void> {
+    this.histories.delete(address.toLowerCase());
+  }
+}
+
+// ============================================================================
+// FileWalletHistoryStore
+// ============================================================================
+
+interface StateFile extends WalletSyncState {
+  version: 2;
+  /** Bytes of each source file covered by this state */
+  committed: Partial<Record<WalletSyncSource, number>>;
+}
+
+/**
+ * Directory per address holding `<source>.jsonl` (one record per line) and
+ * `state.json`.
+ *
+ * A sync appends its new records, then replaces the state file via a temp
+ * file + rename. The state records how many bytes of each source file it
+ * covers, so records appended by a write that crashed before its state was
+ * saved are ignored and cut off by the next append. Writes to the same
+ * address are serialized in call order.
+ */
+export class FileWalletHistoryStore implements WalletHistoryStore {
+  private queues: Map<string, Promise<void>> = new Map();
+
+  constructor(private readonly directory: string) {}
+
+  async getState(address: string): Promise<WalletSyncState | null> {
+    const file = await this.readState(address);
+    return file ? { highWaterMarks: file.highWaterMarks, syncedAt: file.syncedAt } : null;
+  }
+
+  async query<S extends WalletSyncSource>(
+    address: string,
+    source: S,
+    range: WalletHistoryFilter = {}
+  ): Promise<WalletHistoryRecords[S]> {
+    const committed = (await this.readState(address))?.committed[source] ?? 0;
+    if (committed === 0) return [] as WalletHistoryRecords[S];
+
+    const contents = (await readFile(this.sourcePath(address, source))).subarray(0, committed).toString('utf8');
+    const records = contents
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => JSON.parse(line) as WalletHistoryRecord<S>);
+    return sliceRange(source, records as WalletHistoryRecords[S], range);
+  }
+
+  append(address: string, records: Partial<WalletHistoryRecords>, state: WalletSyncState): Promise<void> {
+    return this.enqueue(address, async () => {
+      const committed = { ...(await this.readState(address))?.committed };
+      await mkdir(this.addressDir(address), { recursive: true });
+
+      for (const source of WALLET_SYNC_SOURCES) {
+        const fresh = records[source];
+        if (!fresh?.length) continue;
+        const path = this.sourcePath(address, source);
+        const length = committed[source] ?? 0;
+        // Drop records a crashed write appended without saving its state
+        const size = await stat(path).then((s) => s.size, () => 0);
+        if (size > length) await truncate(path, length);
+
+        const lines = fresh.map((record) => `${JSON.stringify(record)}\n`).join('');
+        await appendFile(path, lines, 'utf8');
+        committed[source] = length + Buffer.byteLength(lines);
+      }
+
+      const file: StateFile = { version: 2, highWaterMarks: state.highWaterMarks, syncedAt: state.syncedAt, committed };
+      const path = join(this.addressDir(address), 'state.json');
+      await writeFile(`${path}.tmp`, JSON.stringify(file), 'utf8');
+      await rename(`${path}.tmp`, path);
+    });
+  }
+
+  remove(address: string): Promise<void> {
+    return this.enqueue(address, () => rm(this.addressDir(address), { recursive: true, force: true }));
+  }
+
+  private async readState(address: string): Promise<StateFile | null> {
+    try {
+      return JSON.parse(await readFile(join(this.addressDir(address), 'state.json'), 'utf8')) as StateFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private enqueue(address: string, run: () => Promise<void>): Promise<void> {
+    const key = address.toLowerCase();
+    // Keep the chain alive after a failed write; the caller still sees the error
+    const result = (this.queues.get(key) ?? Promise.resolve()).then(run);
+    this.queues.set(key, result.catch(() => undefined));
+    return result;
+  }
+
+  private addressDir(address: string): string {
+    return join(this.directory, address.toLowerCase());
+  }
+
+  private sourcePath(address: string, source: WalletSyncSource): string {
+    return join(this.addressDir(address), `${source}.jsonl`);
+  }
+}
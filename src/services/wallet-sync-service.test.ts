@@ -0,0 +1,191 @@
+/**
+ * WalletSyncService Unit Tests
+ *
+ * Focus: high-water marks, de-duplication at the mark, partial failure, and
+ * the append-only file store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WalletSyncService } from './wallet-sync-service.js';
+import { FileWalletHistoryStore, InMemoryWalletHistoryStore } from './wallet-history-store.js';
+import { PageIterator } from '../core/pagination.js';
+import type { Activity, DataApiClient, Trade } from '../clients/data-api.js';
+import type { Split, SubgraphClient, SubgraphQueryParams } from '../clients/subgraph.js';
+
+const ADDRESS = '0xabc';
+
+const activity = (timestamp: number, transactionHash: string): Activity => ({
+  type: 'TRADE',
+  side: 'BUY',
+  size: 10,
+  price: 0.5,
+  usdcSize: 5,
+  asset: 'token-1',
+  conditionId: '0xcond',
+  outcome: 'Yes',
+  timestamp,
+  transactionHash,
+});
+
+const split = (id: string, seconds: number): Split => ({
+  id,
+  timestamp: String(seconds),
+  stakeholder: ADDRESS,
+  condition: '0xcond',
+  amount: '1000000',
+});
+
+/**
+ * Fake sources: activity honours `start` like the Data API (newest first),
+ * splits honour `timestamp_gte` like the subgraph (oldest first)
+ */
+class FakeSources {
+  activity: Activity[] = [];
+  splits: Split[] = [];
+  activityStarts: Array<number | undefined> = [];
+  failSplits = false;
+
+  dataApi = {
+    iterateActivity: (_address: string, params: { start?: number } = {}) => {
+      this.activityStarts.push(params.start);
+      const items = this.activity
+        .filter((a) => params.start === undefined || a.timestamp >= params.start * 1000)
+        .sort((a, b) => b.timestamp - a.timestamp);
+      return new PageIterator<Activity>({
+        pageSize: 500,
+        fetchPage: async (offset, limit) => items.slice(offset, offset + limit),
+      });
+    },
+    iterateTrades: () =>
+      new PageIterator<Trade>({ pageSize: 500, fetchPage: async () => [] }),
+  } as unknown as DataApiClient;
+
+  subgraph = {
+    getSplits: async (_user: string, params: SubgraphQueryParams) => {
+      if (this.failSplits) throw new Error('subgraph down');
+      const since = Number(params.where?.timestamp_gte ?? 0);
+      return this.splits.filter((s) => Number(s.timestamp) >= since).slice(0, params.first);
+    },
+    getMerges: async () => [],
+    getRedemptions: async () => [],
+  } as unknown as SubgraphClient;
+}
+
+describe('WalletSyncService', () => {
+  let sources: FakeSources;
+  let service: WalletSyncService;
+
+  beforeEach(() => {
+    sources = new FakeSources();
+    service = new WalletSyncService(sources.dataApi, sources.subgraph);
+  });
+
+  it('should only fetch and store records since the high-water mark', async () => {
+    sources.activity = [activity(1_000_000, '0x1'), activity(2_000_000, '0x2')];
+    sources.splits = [split('s1', 1500)];
+
+    const first = await service.sync(ADDRESS);
+    expect(first.added).toMatchObject({ activity: 2, splits: 1 });
+    expect(first.highWaterMarks).toMatchObject({ activity: 2_000_000, splits: 1_500_000 });
+
+    sources.activity.push(activity(3_000_000, '0x3'));
+    const second = await service.sync(ADDRESS);
+
+    expect(sources.activityStarts).toEqual([undefined, 2000]);
+    expect(second.added).toMatchObject({ activity: 1, splits: 0 });
+    const stored = await service.getActivity(ADDRESS);
+    expect(stored.map((a) => a.transactionHash)).toEqual(['0x1', '0x2', '0x3']);
+  });
+
+  it('should keep new records at the mark without duplicating stored ones', async () => {
+    sources.activity = [activity(2_000_000, '0x2')];
+    await service.sync(ADDRESS);
+
+    // Same second: one already stored, one new, plus an identical fill in the same transaction
+    sources.activity.push(activity(2_000_000, '0x4'), activity(2_000_000, '0x2'));
+    const result = await service.sync(ADDRESS);
+
+    expect(result.added.activity).toBe(2);
+    const stored = await service.getActivity(ADDRESS);
+    expect(stored.map((a) => a.transactionHash).sort()).toEqual(['0x2', '0x2', '0x4']);
+  });
+
+  it('should keep completed sources when a later source fails', async () => {
+    sources.activity = [activity(1_000_000, '0x1')];
+    sources.failSplits = true;
+
+    await expect(service.sync(ADDRESS)).rejects.toThrow('subgraph down');
+
+    const history = await service.getHistory(ADDRESS);
+    expect(history?.activity).toHaveLength(1);
+    expect(history?.highWaterMarks.splits).toBeUndefined();
+  });
+
+  it('should share one sync between concurrent calls', async () => {
+    const [a, b] = await Promise.all([service.sync(ADDRESS), service.sync(ADDRESS.toUpperCase())]);
+    expect(a).toBe(b);
+    expect(sources.activityStarts).toHaveLength(1);
+  });
+});
+
+describe('FileWalletHistoryStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'wallet-history-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append records, query ranges and match the in-memory store', async () => {
+    for (const store of [new FileWalletHistoryStore(dir), new InMemoryWalletHistoryStore()]) {
+      expect(await store.getState(ADDRESS)).toBeNull();
+      await store.append(ADDRESS, { activity: [activity(1_000_000, '0x1')], splits: [split('s1', 1500)] }, {
+        highWaterMarks: { activity: 1_000_000, splits: 1_500_000 },
+      });
+      await store.append(ADDRESS, { activity: [activity(2_000_000, '0x2'), activity(3_000_000, '0x3')] }, {
+        highWaterMarks: { activity: 3_000_000, splits: 1_500_000 },
+        syncedAt: 5,
+      });
+
+      expect(await store.getState(ADDRESS)).toEqual({
+        highWaterMarks: { activity: 3_000_000, splits: 1_500_000 },
+        syncedAt: 5,
+      });
+      const ranged = await store.query(ADDRESS, 'activity', { since: 2_000_000, until: 2_000_000 });
+      expect(ranged.map((a) => a.transactionHash)).toEqual(['0x2']);
+      expect(await store.query(ADDRESS, 'splits', { until: 1_499_999 })).toEqual([]);
+      expect(await store.query(ADDRESS, 'splits')).toEqual([split('s1', 1500)]);
+      expect(await store.query(ADDRESS, 'trades')).toEqual([]);
+
+      await store.remove(ADDRESS);
+      expect(await store.getState(ADDRESS)).toBeNull();
+    }
+  });
+
+  it('should ignore records a crashed write appended without its state', async () => {
+    const store = new FileWalletHistoryStore(dir);
+    await store.append(ADDRESS, { activity: [activity(1_000_000, '0x1')] }, { highWaterMarks: { activity: 1_000_000 } });
+    await appendFile(join(dir, ADDRESS, 'activity.jsonl'), `${JSON.stringify(activity(2_000_000, '0x2'))}\n{"trunc`);
+
+    expect((await store.query(ADDRESS, 'activity')).map((a) => a.transactionHash)).toEqual(['0x1']);
+    await store.append(ADDRESS, { activity: [activity(3_000_000, '0x3')] }, { highWaterMarks: { activity: 3_000_000 } });
+    expect((await store.query(ADDRESS, 'activity')).map((a) => a.transactionHash)).toEqual(['0x1', '0x3']);
+  });
+
+  it('should sync into the file store and pick up where it left off', async () => {
+    const sources = new FakeSources();
+    sources.activity = [activity(1_000_000, '0x1'), activity(2_000_000, '0x2')];
+    await new WalletSyncService(sources.dataApi, sources.subgraph, { store: new FileWalletHistoryStore(dir) }).sync(ADDRESS);
+
+    sources.activity.push(activity(2_000_000, '0x4'));
+    const service = new WalletSyncService(sources.dataApi, sources.subgraph, { store: new FileWalletHistoryStore(dir) });
+    expect((await service.sync(ADDRESS)).added.activity).toBe(1);
+    expect((await service.getActivity(ADDRESS, { since: 2_000_000 })).map((a) => a.transactionHash)).toEqual(['0x2', '0x4']);
+  });
+});
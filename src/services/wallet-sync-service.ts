@@ -0,0 +1,385 @@
+/**
+ * Wallet Sync Service
+ *
+ * Keeps a local history of trades, activity, splits, merges and redemptions
+ * for tracked addresses. Each sync only fetches records at or after the
+ * per-source high-water mark, so reports, PnL and copy-trade detection can
+ * run on local data instead of refetching the same windows.
+ *
+ * Sources:
+ * - trades, activity: DataApiClient
+ * - splits, merges, redemptions: SubgraphClient (activity subgraph)
+ *
+ * The first sync of `activity` walks the full history in timestamp windows;
+ * `/trades` stops at the Data API's 10,000 offset limit, so a first sync of
+ * `trades` holds at most the newest 10,000 fills (activity has them all).
+ * High-water marks only advance for sources that completed, so a failed
+ * sync is safe to retry.
+ *
+ * @example
+ * ```typescript
+ * const sync = new WalletSyncService(sdk.dataApi, sdk.subgraph, {
+ *   store: new FileWalletHistoryStore('./data/wallets'),
+ * });
+ *
+ * sync.track(address);
+ * sync.on('synced', (result: WalletSyncResult) => {
+ *   console.log(`${result.address}: +${result.added.activity} activity`);
+ * });
+ * sync.start(60_000);
+ *
+ * const sells = await sync.getActivity(address, { type: 'TRADE', since: Date.now() - 3600_000 });
+ * ```
+ */
+
+import { EventEmitter } from 'events';
+import type { DataApiClient, Activity, Trade } from '../clients/data-api.js';
+import type { SubgraphClient, SubgraphQueryParams } from '../clients/subgraph.js';
+import type { RequestOptions } from '../core/request-options.js';
+import {
+  InMemoryWalletHistoryStore,
+  WALLET_SYNC_SOURCES,
+  recordTimestamp,
+  type WalletHistory,
+  type WalletHistoryFilter,
+  type WalletHistoryRecord,
+  type WalletHistoryRecords,
+  type WalletHistoryStore,
+  type WalletSyncSource,
+} from './wallet-history-store.js';
+
+export type { WalletHistoryFilter } from './wallet-history-store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WalletSyncConfig {
+  /** Where histories are kept (default: in memory) */
+  store?: WalletHistoryStore;
+  /** Sources to sync (default: all) */
+  sources?: WalletSyncSource[];
+  /** Oldest record fetched on an address's first sync (Unix ms; default: full history) */
+  backfillSince?: number;
+}
+
+export interface WalletSyncResult {
+  address: string;
+  /** New records stored per source */
+  added: Record<WalletSyncSource, number>;
+  highWaterMarks: Partial<Record<WalletSyncSource, number>>;
+  syncedAt: number;
+}
+
+interface SubgraphEvent {
+  id: string;
+  timestamp: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SUBGRAPH_PAGE_SIZE = 1000;
+
+const activityKey = (a: Activity) =>
+  `${a.transactionHash}:${a.type}:${a.asset}:${a.side}:${a.size}:${a.usdcSize ?? ''}`;
+const tradeKey = (t: Trade) => `${t.transactionHash}:${t.asset}:${t.side}:${t.size}:${t.price}`;
+const eventKey = (e: SubgraphEvent) => e.id;
+
+const RECORD_KEYS: { [S in WalletSyncSource]: (record: WalletHistoryRecord<S>) => string } = {
+  trades: tradeKey,
+  activity: activityKey,
+  splits: eventKey,
+  merges: eventKey,
+  redemptions: eventKey,
+};
+
+// ============================================================================
+// WalletSyncService
+// ============================================================================
+
+export class WalletSyncService extends EventEmitter {
+  private store: WalletHistoryStore;
+  private sources: WalletSyncSource[];
+  private tracked: Set<string> = new Set();
+  private inFlight: Map<string, Promise<WalletSyncResult>> = new Map();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private dataApi: DataApiClient,
+    private subgraph: SubgraphClient,
+    private config: WalletSyncConfig = {}
+  ) {
+    super();
+    this.store = config.store ?? new InMemoryWalletHistoryStore();
+    this.sources = config.sources ?? [...WALLET_SYNC_SOURCES];
+  }
+
+  // ===== Tracking =====
+
+  track(address: string): void {
+    this.tracked.add(address.toLowerCase());
+  }
+
+  untrack(address: string): void {
+    this.tracked.delete(address.toLowerCase());
+  }
+
+  getTrackedAddresses(): string[] {
+    return [...this.tracked];
+  }
+
+  /**
+   * Sync every tracked address now and then every `intervalMs`
+   *
+   * Failures are emitted as `error` events ({ address, error }).
+   */
+  start(intervalMs = 60_000): void {
+    this.stop();
+    const tick = () => {
+      this.syncAll().catch(() => {});
+    };
+    this.pollTimer = setInterval(tick, intervalMs);
+    tick();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  // ===== Sync =====
+
+  /**
+   * Fetch records newer than the address's high-water marks and store them
+   *
+   * Concurrent calls for the same address share one sync.
+   *
+   * @param address - Wallet address (need not be tracked)
+   * @param options - Abort signal and timeout, per request
+   */
+  sync(address: string, options?: RequestOptions): Promise<WalletSyncResult> {
+    const key = address.toLowerCase();
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const run = this.runSync(key, options).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, run);
+    return run;
+  }
+
+  /**
+   * Sync every tracked address, one at a time
+   *
+   * Addresses that fail are skipped (and emitted as `error`); the rest still sync.
+   */
+  async syncAll(options?: RequestOptions): Promise<WalletSyncResult[]> {
+    const results: WalletSyncResult[] = [];
+    for (const address of this.tracked) {
+      try {
+        results.push(await this.sync(address, options));
+      } catch (error) {
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', { address, error });
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Fetch every source, then append the new records and marks in one store write
+   */
+  private async runSync(address: string, options?: RequestOptions): Promise<WalletSyncResult> {
+    const state = (await this.store.getState(address)) ?? { highWaterMarks: {} };
+    const highWaterMarks = { ...state.highWaterMarks };
+    const fresh: Partial<WalletHistoryRecords> = {};
+    const added = { trades: 0, activity: 0, splits: 0, merges: 0, redemptions: 0 };
+
+    try {
+      for (const source of this.sources) {
+        const hwm = highWaterMarks[source];
+        const since = hwm ?? this.config.backfillSince ?? 0;
+        const fetched = await this.fetchSource(address, source, since, options);
+        // Only records at exactly the mark can already be stored
+        const atMark = hwm === undefined ? [] : await this.store.query(address, source, { since: hwm });
+        const records = selectNew(source, fetched, atMark, since, hwm);
+        (fresh as Record<WalletSyncSource, unknown[]>)[source] = records;
+        added[source] = records.length;
+        if (records.length > 0) {
+          const newest = recordTimestamp(source, records[records.length - 1]);
+          highWaterMarks[source] = Math.max(highWaterMarks[source] ?? 0, newest);
+        }
+      }
+    } catch (error) {
+      // Keep whatever completed before the failure
+      if (Object.values(added).some((n) => n > 0)) {
+        await this.store.append(address, fresh, { highWaterMarks, syncedAt: state.syncedAt });
+      }
+      throw error;
+    }
+
+    const syncedAt = Date.now();
+    await this.store.append(address, fresh, { highWaterMarks, syncedAt });
+
+    const result: WalletSyncResult = {
+      address,
+      added,
+      highWaterMarks: { ...highWaterMarks },
+      syncedAt,
+    };
+    this.emit('synced', result);
+    return result;
+  }
+
+  /**
+   * Fetch one source from its high-water mark (or the backfill start)
+   */
+  private async fetchSource(
+    address: string,
+    source: WalletSyncSource,
+    since: number,
+    options?: RequestOptions
+  ): Promise<WalletHistoryRecord<WalletSyncSource>[]> {
+    switch (source) {
+      case 'activity':
+        return this.dataApi
+          .iterateActivity(address, since > 0 ? { start: Math.floor(since / 1000) } : {}, options)
+          .toArray();
+      case 'trades': {
+        // Newest first with no time filter: stop once past the high-water mark
+        const fetched: Trade[] = [];
+        for await (const trade of this.dataApi.iterateTrades({ user: address, takerOnly: false }, options)) {
+          if (trade.timestamp < since) break;
+          fetched.push(trade);
+        }
+        return fetched;
+      }
+      case 'splits':
+        return this.fetchEvents((params) => this.subgraph.getSplits(address, params, options), since);
+      case 'merges':
+        return this.fetchEvents((params) => this.subgraph.getMerges(address, params, options), since);
+      case 'redemptions':
+        return this.fetchEvents((params) => this.subgraph.getRedemptions(address, params, options), since);
+    }
+  }
+
+  /**
+   * Page a subgraph entity oldest first, using the last timestamp seen as the cursor
+   */
+  private async fetchEvents<T extends SubgraphEvent>(
+    fetchPage: (params: SubgraphQueryParams) => Promise<T[]>,
+    sinceMs: number
+  ): Promise<T[]> {
+    const events: T[] = [];
+    const seen = new Set<string>();
+    let since = Math.floor(sinceMs / 1000);
+
+    for (;;) {
+      const page = await fetchPage({
+        first: SUBGRAPH_PAGE_SIZE,
+        orderBy: 'timestamp',
+        orderDirection: 'asc',
+        where: { timestamp_gte: String(since) },
+      });
+      let fresh = 0;
+      for (const event of page) {
+        if (seen.has(event.id)) continue;
+        seen.add(event.id);
+        events.push(event);
+        fresh++;
+      }
+      // A full page of one timestamp can't be paged past with a timestamp cursor
+      if (page.length < SUBGRAPH_PAGE_SIZE || fresh === 0) return events;
+      since = Number(page[page.length - 1].timestamp);
+    }
+  }
+
+  // ===== Local Queries =====
+
+  /**
+   * Full stored history of an address (null if never synced)
+   */
+  async getHistory(address: string): Promise<WalletHistory | null> {
+    const state = await this.store.getState(address);
+    if (!state) return null;
+    const [trades, activity, splits, merges, redemptions] = await Promise.all([
+      this.store.query(address, 'trades'),
+      this.store.query(address, 'activity'),
+      this.store.query(address, 'splits'),
+      this.store.query(address, 'merges'),
+      this.store.query(address, 'redemptions'),
+    ]);
+    return { address: address.toLowerCase(), trades, activity, splits, merges, redemptions, ...state };
+  }
+
+  /**
+   * Stored activity, oldest first
+   */
+  async getActivity(address: string, filter: WalletHistoryFilter & { type?: Activity['type'] } = {}): Promise<Activity[]> {
+    const activity = await this.store.query(address, 'activity', filter);
+    return filter.type ? activity.filter((a) => a.type === filter.type) : activity;
+  }
+
+  /**
+   * Stored trades, oldest first
+   */
+  async getTrades(address: string, filter: WalletHistoryFilter & { conditionId?: string } = {}): Promise<Trade[]> {
+    const trades = await this.store.query(address, 'trades', filter);
+    return filter.conditionId ? trades.filter((t) => t.market === filter.conditionId) : trades;
+  }
+
+  /**
+   * Drop an address's stored history; the next sync starts over
+   */
+  async reset(address: string): Promise<void> {
+    await this.store.remove(address);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Fetched records newer than the high-water mark, oldest first.
+ *
+ * Records at exactly the mark may already be stored (the mark's second is
+ * refetched); they are matched by key, counting duplicates, so identical
+ * fills in one transaction are kept.
+ */
+function selectNew<S extends WalletSyncSource>(
+  source: S,
+  fetched: WalletHistoryRecord<S>[],
+  storedAtMark: WalletHistoryRecord<S>[],
+  since: number,
+  hwm: number | undefined
+): WalletHistoryRecord<S>[] {
+  const keyOf = RECORD_KEYS[source] as (record: WalletHistoryRecord<S>) => string;
+
+  const atMark = new Map<string, number>();
+  for (const record of storedAtMark) {
+    const key = keyOf(record);
+    atMark.set(key, (atMark.get(key) ?? 0) + 1);
+  }
+
+  const fresh: WalletHistoryRecord<S>[] = [];
+  for (const record of fetched) {
+    const timestamp = recordTimestamp(source, record);
+    if (timestamp < since) continue;
+    if (timestamp === hwm) {
+      const key = keyOf(record);
+      const remaining = atMark.get(key) ?? 0;
+      if (remaining > 0) {
+        atMark.set(key, remaining - 1);
+        continue;
+      }
+    }
+    fresh.push(record);
+  }
+
+  return fresh.sort((a, b) => recordTimestamp(source, a) - recordTimestamp(source, b));
+}
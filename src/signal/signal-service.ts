@@ -20,6 +20,7 @@ import type {
   CreateWhaleTradeParams,
   ProcessInsiderScanParams,
 } from './types.js';
+import { withRequestOptions, type RequestOptions } from '../core/request-options.js';
 
 /**
  * SignalService configuration
@@ -27,7 +28,7 @@ import type {
 export interface SignalServiceConfig {
   /** Base URL of SignalWorker (default: http://localhost:8790) */
   baseUrl?: string;
-  /** Request timeout in ms (default: 10000) */
+  /** Request timeout in ms, unless a call passes its own (default: 10000) */
   timeout?: number;
 }
 
@@ -55,33 +56,32 @@ export class SignalService {
   private async request<T>(
     method: string,
     path: string,
-    options: {
+    init: {
       params?: Record<string, string | number | boolean | undefined>;
       body?: unknown;
-    } = {}
+    } = {},
+    options: RequestOptions = {}
   ): Promise<T> {
     const url = new URL(`/v1${path}`, this.baseUrl);
 
     // Add query params
-    if (options.params) {
-      for (const [key, value] of Object.entries(options.params)) {
+    if (init.params) {
+      for (const [key, value] of Object.entries(init.params)) {
         if (value !== undefined) {
           url.searchParams.set(key, String(value));
         }
       }
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-    try {
+    const { signal, timeoutMs = this.timeout } = options;
+    return withRequestOptions({ signal, timeoutMs }, async (callSignal) => {
       const response = await fetch(url.toString(), {
         method,
         headers: {
           'Content-Type': 'application/json',
         },
-        body: options.body ? JSON.stringify(options.body) : undefined,
-        signal: controller.signal,
+        body: init.body ? JSON.stringify(init.body) : undefined,
+        signal: callSignal,
       });
 
       if (!response.ok) {
@@ -90,9 +90,7 @@ export class SignalService {
       }
 
       return await response.json() as T;
-    } finally {
-      clearTimeout(timeoutId);
-    }
+    });
   }
 
   // ============================================================================
@@ -102,15 +100,15 @@ export class SignalService {
   /**
    * Check SignalWorker health
    */
-  async health(): Promise<SignalHealthResponse> {
-    return this.request<SignalHealthResponse>('GET', '/health');
+  async health(options?: RequestOptions): Promise<SignalHealthResponse> {
+    return this.request<SignalHealthResponse>('GET', '/health', {}, options);
   }
 
   /**
    * Get signal statistics
    */
-  async getStats(): Promise<SignalStatsResponse> {
-    return this.request<SignalStatsResponse>('GET', '/stats');
+  async getStats(options?: RequestOptions): Promise<SignalStatsResponse> {
+    return this.request<SignalStatsResponse>('GET', '/stats', {}, options);
   }
 
   // ============================================================================
@@ -120,7 +118,7 @@ export class SignalService {
   /**
    * Get signals with optional filtering
    */
-  async getSignals(params: GetSignalsParams = {}): Promise<GetSignalsResponse> {
+  async getSignals(params: GetSignalsParams = {}, options?: RequestOptions): Promise<GetSignalsResponse> {
     return this.request<GetSignalsResponse>('GET', '/signals', {
       params: {
         type: params.type,
@@ -133,15 +131,15 @@ export class SignalService {
         limit: params.limit,
         offset: params.offset,
       },
-    });
+    }, options);
   }
 
   /**
    * Get a single signal by ID
    */
-  async getSignal(id: string): Promise<Signal | null> {
+  async getSignal(id: string, options?: RequestOptions): Promise<Signal | null> {
     try {
-      return await this.request<Signal>('GET', `/signals/${id}`);
+      return await this.request<Signal>('GET', `/signals/${id}`, {}, options);
     } catch (error) {
       if (error instanceof Error && error.message.includes('404')) {
         return null;
@@ -153,8 +151,8 @@ export class SignalService {
   /**
    * Get unread signal count
    */
-  async getUnreadCount(): Promise<number> {
-    const response = await this.request<UnreadCountResponse>('GET', '/signals/unread/count');
+  async getUnreadCount(options?: RequestOptions): Promise<number> {
+    const response = await this.request<UnreadCountResponse>('GET', '/signals/unread/count', {}, options);
     return response.count;
   }
 
@@ -165,9 +163,9 @@ export class SignalService {
   /**
    * Mark a signal as read
    */
-  async markAsRead(id: string): Promise<boolean> {
+  async markAsRead(id: string, options?: RequestOptions): Promise<boolean> {
     try {
-      await this.request<SuccessResponse>('POST', `/signals/${id}/read`);
+      await this.request<SuccessResponse>('POST', `/signals/${id}/read`, {}, options);
       return true;
     } catch (error) {
       if (error instanceof Error && error.message.includes('404')) {
@@ -180,17 +178,17 @@ export class SignalService {
   /**
    * Mark all signals as read
    */
-  async markAllAsRead(): Promise<number> {
-    const response = await this.request<SuccessResponse>('POST', '/signals/read-all');
+  async markAllAsRead(options?: RequestOptions): Promise<number> {
+    const response = await this.request<SuccessResponse>('POST', '/signals/read-all', {}, options);
     return response.count ?? 0;
   }
 
   /**
    * Dismiss a signal
    */
-  async dismissSignal(id: string): Promise<boolean> {
+  async dismissSignal(id: string, options?: RequestOptions): Promise<boolean> {
     try {
-      await this.request<SuccessResponse>('POST', `/signals/${id}/dismiss`);
+      await this.request<SuccessResponse>('POST', `/signals/${id}/dismiss`, {}, options);
       return true;
     } catch (error) {
       if (error instanceof Error && error.message.includes('404')) {
@@ -203,9 +201,9 @@ export class SignalService {
   /**
    * Delete a signal
    */
-  async deleteSignal(id: string): Promise<boolean> {
+  async deleteSignal(id: string, options?: RequestOptions): Promise<boolean> {
     try {
-      await this.request<SuccessResponse>('DELETE', `/signals/${id}`);
+      await this.request<SuccessResponse>('DELETE', `/signals/${id}`, {}, options);
       return true;
     } catch (error) {
       if (error instanceof Error && error.message.includes('404')) {
@@ -222,46 +220,46 @@ export class SignalService {
   /**
    * Create an insider new signal
    */
-  async createInsiderNewSignal(params: CreateInsiderNewParams): Promise<SignalCreatedResponse> {
+  async createInsiderNewSignal(params: CreateInsiderNewParams, options?: RequestOptions): Promise<SignalCreatedResponse> {
     return this.request<SignalCreatedResponse>('POST', '/signals/insider/new', {
       body: params,
-    });
+    }, options);
   }
 
   /**
    * Create an insider large trade signal
    */
-  async createInsiderLargeTradeSignal(params: CreateInsiderLargeTradeParams): Promise<SignalCreatedResponse> {
+  async createInsiderLargeTradeSignal(params: CreateInsiderLargeTradeParams, options?: RequestOptions): Promise<SignalCreatedResponse> {
     return this.request<SignalCreatedResponse>('POST', '/signals/insider/trade', {
       body: params,
-    });
+    }, options);
   }
 
   /**
    * Create an insider cluster signal
    */
-  async createInsiderClusterSignal(params: CreateInsiderClusterParams): Promise<SignalCreatedResponse> {
+  async createInsiderClusterSignal(params: CreateInsiderClusterParams, options?: RequestOptions): Promise<SignalCreatedResponse> {
     return this.request<SignalCreatedResponse>('POST', '/signals/insider/cluster', {
       body: params,
-    });
+    }, options);
   }
 
   /**
    * Create a whale trade signal
    */
-  async createWhaleTradeSignal(params: CreateWhaleTradeParams): Promise<SignalCreatedResponse> {
+  async createWhaleTradeSignal(params: CreateWhaleTradeParams, options?: RequestOptions): Promise<SignalCreatedResponse> {
     return this.request<SignalCreatedResponse>('POST', '/signals/whale/trade', {
       body: params,
-    });
+    }, options);
   }
 
   /**
    * Process insider scan results (batch)
    */
-  async processInsiderScanResults(params: ProcessInsiderScanParams): Promise<ProcessScanResponse> {
+  async processInsiderScanResults(params: ProcessInsiderScanParams, options?: RequestOptions): Promise<ProcessScanResponse> {
     return this.request<ProcessScanResponse>('POST', '/signals/process-scan', {
       body: params,
-    });
+    }, options);
   }
 
   // ============================================================================
@@ -271,15 +269,15 @@ export class SignalService {
   /**
    * Trigger cleanup of expired signals
    */
-  async cleanup(): Promise<number> {
-    const response = await this.request<{ success: boolean; deletedCount: number }>('POST', '/signals/cleanup');
+  async cleanup(options?: RequestOptions): Promise<number> {
+    const response = await this.request<{ success: boolean; deletedCount: number }>('POST', '/signals/cleanup', {}, options);
     return response.deletedCount;
   }
 
   /**
    * Clear all signals (admin)
    */
-  async clearAll(): Promise<void> {
-    await this.request<SuccessResponse>('DELETE', '/signals');
+  async clearAll(options?: RequestOptions): Promise<void> {
+    await this.request<SuccessResponse>('DELETE', '/signals', {}, options);
   }
 }
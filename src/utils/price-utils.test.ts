@@ -15,6 +15,8 @@ import {
   calculateMidpoint,
   getEffectivePrices,
   checkArbitrage,
+  checkEventArbitrage,
+  calculateBasketDepth,
   formatPrice,
   formatUSDC,
   calculatePnL,
@@ -194,6 +196,51 @@ describe('Price Utilities', () => {
     });
   });
 
+  describe('checkEventArbitrage', () => {
+    it('should detect long arbitrage when YES asks sum below 1', () => {
+      const result = checkEventArbitrage([0.3, 0.25, 0.4], [0.28, 0.23, 0.38]);
+      expect(result?.type).toBe('long');
+      expect(result?.profit).toBeCloseTo(0.05, 6);
+    });
+
+    it('should detect short arbitrage when YES bids sum above 1', () => {
+      const result = checkEventArbitrage([0.4, 0.35, 0.32], [0.38, 0.33, 0.31]);
+      expect(result?.type).toBe('short');
+      expect(result?.profit).toBeCloseTo(0.02, 6);
+    });
+
+    it('should return null for a fairly priced event', () => {
+      expect(checkEventArbitrage([0.35, 0.35, 0.35], [0.32, 0.32, 0.32])).toBeNull();
+    });
+  });
+
+  describe('calculateBasketDepth', () => {
+    const asks = [
+      [{ price: 0.3, size: 10 }, { price: 0.32, size: 50 }],
+      [{ price: 0.25, size: 30 }, { price: 0.3, size: 100 }],
+      [{ price: 0.4, size: 100 }],
+    ];
+
+    it('should fill until the marginal basket price crosses the limit', () => {
+      // 10 @ 0.95, then 20 @ 0.97, then 0.32 + 0.30 + 0.40 = 1.02 > 0.98
+      const result = calculateBasketDepth(asks, 'buy', 0.98);
+      expect(result.size).toBe(30);
+      expect(result.total).toBeCloseTo(10 * 0.95 + 20 * 0.97, 6);
+      expect(result.worstPrices).toEqual([0.32, 0.25, 0.4]);
+    });
+
+    it('should stop at maxSize', () => {
+      const result = calculateBasketDepth(asks, 'buy', 0.98, 5);
+      expect(result.size).toBe(5);
+      expect(result.worstPrices).toEqual([0.3, 0.25, 0.4]);
+    });
+
+    it('should size bid baskets against a minimum revenue', () => {
+      const bids = [[{ price: 0.5, size: 20 }, { price: 0.4, size: 20 }], [{ price: 0.55, size: 40 }]];
+      expect(calculateBasketDepth(bids, 'sell', 1.01).size).toBe(20);
+    });
+  });
+
   describe('formatPrice', () => {
     it('should format with default decimals', () => {
       expect(formatPrice(0.5)).toBe('0.5000');
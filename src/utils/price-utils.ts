@@ -264,6 +264,100 @@ export function checkArbitrage(
   return null;
 }
 
+/**
+ * Check a multi-outcome (neg-risk) event for arbitrage
+ *
+ * Exactly one market of a neg-risk event resolves YES, so a basket holding
+ * one YES share of every outcome always pays out $1.
+ *
+ * Long arb: Sum of YES asks < 1 (buy the basket)
+ * Short arb: Sum of YES bids > 1 (sell a held basket)
+ *
+ * @param yesAsks - Lowest YES ask of each outcome
+ * @param yesBids - Highest YES bid of each outcome
+ * @returns Arbitrage info or null
+ */
+export function checkEventArbitrage(
+  yesAsks: number[],
+  yesBids: number[]
+): { type: 'long' | 'short'; profit: number; description: string } | null {
+  if (yesAsks.length === 0 || yesAsks.length !== yesBids.length) return null;
+
+  const askSum = yesAsks.reduce((sum, price) => sum + price, 0);
+  const longProfit = 1 - askSum;
+
+  if (longProfit > 0) {
+    return {
+      type: 'long',
+      profit: longProfit,
+      description: `Buy YES on all ${yesAsks.length} outcomes for ${askSum.toFixed(4)}, one pays $1`,
+    };
+  }
+
+  const bidSum = yesBids.reduce((sum, price) => sum + price, 0);
+  const shortProfit = bidSum - 1;
+
+  if (shortProfit > 0) {
+    return {
+      type: 'short',
+      profit: shortProfit,
+      description: `Sell YES on all ${yesBids.length} outcomes for ${bidSum.toFixed(4)}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Walk several books together to size a basket of one share per outcome
+ *
+ * Fills level by level while the marginal basket price (sum of the current
+ * level of every book) is still within `limit`: at most `limit` when buying,
+ * at least `limit` when selling.
+ *
+ * @param books - Ask levels (buy) or bid levels (sell) per outcome, best first
+ * @param side - 'buy' to take asks, 'sell' to hit bids
+ * @param limit - Worst acceptable marginal basket price
+ * @param maxSize - Stop once this many baskets are filled
+ * @returns Baskets filled, their total cost/revenue, and the worst price reached in each book
+ */
+export function calculateBasketDepth(
+  books: Array<Array<{ price: number; size: number }>>,
+  side: 'buy' | 'sell',
+  limit: number,
+  maxSize = Infinity
+): { size: number; total: number; worstPrices: number[] } {
+  const worstPrices = books.map(() => 0);
+  if (books.length === 0) return { size: 0, total: 0, worstPrices };
+
+  const levelIndex = books.map(() => 0);
+  const levelRemaining = books.map((levels) => levels[0]?.size ?? 0);
+  let size = 0;
+  let total = 0;
+
+  while (size < maxSize) {
+    if (books.some((levels, i) => levelIndex[i] >= levels.length)) break;
+
+    const marginal = books.reduce((sum, levels, i) => sum + levels[levelIndex[i]].price, 0);
+    if (side === 'buy' ? marginal > limit : marginal < limit) break;
+
+    const step = Math.min(maxSize - size, ...levelRemaining);
+    size += step;
+    total += step * marginal;
+
+    books.forEach((levels, i) => {
+      worstPrices[i] = levels[levelIndex[i]].price;
+      levelRemaining[i] -= step;
+      if (levelRemaining[i] <= 1e-9) {
+        levelIndex[i]++;
+        levelRemaining[i] = levels[levelIndex[i]]?.size ?? 0;
+      }
+    });
+  }
+
+  return { size, total, worstPrices };
+}
+
 /**
  * Format price for display
  */